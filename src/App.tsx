@@ -8,6 +8,7 @@ import { BrowserRouter, Routes, Route } from "react-router-dom";
 import Index from "./pages/Index";
 import NotFound from "./pages/NotFound";
 import Login from "./pages/Login";
+import CaseStatus from "./pages/CaseStatus";
 import Calendar from "./pages/Calendar";
 import Tasks from "./pages/Tasks";
 import Analytics from "./pages/Analytics";
@@ -24,6 +25,7 @@ import { DashboardLayout } from "./components/layouts/DashboardLayout";
 import { ThemeProvider } from "./components/ThemeProvider";
 import { CommunicationProvider } from "./components/CommunicationProvider";
 import { TasksProvider } from "./components/TasksProvider";
+import { TimeTrackingProvider } from "./components/TimeTrackingProvider";
 import { DepartmentsProvider } from "./components/DepartmentsProvider";
 import { AuthProvider } from "./components/AuthProvider";
 import { DocumentProvider } from "./components/DocumentProvider";
@@ -34,6 +36,7 @@ import { PluginProvider } from "./components/PluginProvider";
 import { PredictiveAnalyticsProvider } from "./components/PredictiveAnalyticsProvider";
 import { Grievances } from "./pages/Grievances";
 import { AuditLogs } from "./pages/AuditLogs";
+import Timesheets from "./pages/Timesheets";
 
 const queryClient = new QueryClient();
 
@@ -106,50 +109,54 @@ const App = () => {
           <ThemeProvider defaultTheme="light">
             <AuthProvider>
               <AuditProvider>
-                <GrievanceProvider>
-                  <CommunicationProvider>
-                    <TasksProvider>
-                      <DepartmentsProvider>
-                        <DocumentProvider>
-                          <PluginProvider>
-                            <PredictiveAnalyticsProvider>
-                              <TooltipProvider>
-                                <Toaster />
-                                <Sonner position="top-right" />
-                                <Routes>
-                                  {/* Public routes */}
-                                  <Route path="/login" element={<Login />} />
+                <DepartmentsProvider>
+                  <GrievanceProvider>
+                    <CommunicationProvider>
+                      <TasksProvider>
+                        <TimeTrackingProvider>
+                          <DocumentProvider>
+                            <PluginProvider>
+                              <PredictiveAnalyticsProvider>
+                                <TooltipProvider>
+                                  <Toaster />
+                                  <Sonner position="top-right" />
+                                  <Routes>
+                                    {/* Public routes */}
+                                    <Route path="/login" element={<Login />} />
+                                    <Route path="/case-status" element={<CaseStatus />} />
                                   
-                                  {/* Protected dashboard routes */}
-                                  <Route path="/" element={<DashboardLayout />}>
-                                    <Route index element={<Index />} />
-                                    <Route path="departments" element={<Departments />} />
-                                    <Route path="tasks" element={<Tasks />} />
-                                    <Route path="analytics" element={<Analytics />} />
-                                    <Route path="advanced-analytics" element={<AdvancedAnalytics />} />
-                                    <Route path="messages" element={<Messages />} />
-                                    <Route path="notifications" element={<Notifications />} />
-                                    <Route path="discussions" element={<Discussions />} />
-                                    <Route path="calendar" element={<Calendar />} />
-                                    <Route path="reports" element={<Reports />} />
-                                    <Route path="documents" element={<Documents />} />
-                                    <Route path="settings" element={<Settings />} />
-                                    <Route path="grievances" element={<Grievances />} />
-                                    <Route path="audit-logs" element={<AuditLogs />} />
-                                    <Route path="plugins" element={<Plugins />} />
-                                  </Route>
+                                    {/* Protected dashboard routes */}
+                                    <Route path="/" element={<DashboardLayout />}>
+                                      <Route index element={<Index />} />
+                                      <Route path="departments" element={<Departments />} />
+                                      <Route path="tasks" element={<Tasks />} />
+                                      <Route path="timesheets" element={<Timesheets />} />
+                                      <Route path="analytics" element={<Analytics />} />
+                                      <Route path="advanced-analytics" element={<AdvancedAnalytics />} />
+                                      <Route path="messages" element={<Messages />} />
+                                      <Route path="notifications" element={<Notifications />} />
+                                      <Route path="discussions" element={<Discussions />} />
+                                      <Route path="calendar" element={<Calendar />} />
+                                      <Route path="reports" element={<Reports />} />
+                                      <Route path="documents" element={<Documents />} />
+                                      <Route path="settings" element={<Settings />} />
+                                      <Route path="grievances" element={<Grievances />} />
+                                      <Route path="audit-logs" element={<AuditLogs />} />
+                                      <Route path="plugins" element={<Plugins />} />
+                                    </Route>
                                   
-                                  {/* Catch all route */}
-                                  <Route path="*" element={<NotFound />} />
-                                </Routes>
-                              </TooltipProvider>
-                            </PredictiveAnalyticsProvider>
-                          </PluginProvider>
-                        </DocumentProvider>
-                      </DepartmentsProvider>
-                    </TasksProvider>
-                  </CommunicationProvider>
-                </GrievanceProvider>
+                                    {/* Catch all route */}
+                                    <Route path="*" element={<NotFound />} />
+                                  </Routes>
+                                </TooltipProvider>
+                              </PredictiveAnalyticsProvider>
+                            </PluginProvider>
+                          </DocumentProvider>
+                        </TimeTrackingProvider>
+                      </TasksProvider>
+                    </CommunicationProvider>
+                  </GrievanceProvider>
+                </DepartmentsProvider>
               </AuditProvider>
             </AuthProvider>
           </ThemeProvider>
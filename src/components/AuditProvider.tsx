@@ -16,7 +16,8 @@ export type AuditActionType =
   | 'approve'
   | 'reject'
   | 'assign'
-  | 'escalate';
+  | 'escalate'
+  | 'override';
 
 export type AuditEntityType = 
   | 'user'
@@ -27,6 +28,7 @@ export type AuditEntityType =
   | 'notification'
   | 'report'
   | 'grievance'
+  | 'timesheet'
   | 'system';
 
 export interface AuditLog {
@@ -54,6 +56,13 @@ export interface AuditTrail {
   history: AuditLog[];
 }
 
+// Who an entry is attributed to when it shouldn't be the signed-in user,
+// e.g. an anonymous submitter
+export interface AuditActor {
+  id: string;
+  name: string;
+}
+
 interface AuditContextType {
   logs: AuditLog[];
   addAuditLog: (
@@ -62,7 +71,8 @@ interface AuditContextType {
     entityId?: string,
     entityName?: string,
     details?: string,
-    changes?: { field: string; oldValue: any; newValue: any }[]
+    changes?: { field: string; oldValue: any; newValue: any }[],
+    actor?: AuditActor
   ) => void;
   getLogsByEntity: (entityType: AuditEntityType, entityId?: string) => AuditLog[];
   getEntityHistory: (entityType: AuditEntityType, entityId: string) => AuditTrail | null;
@@ -156,13 +166,14 @@ export const AuditProvider: React.FC<{children: ReactNode}> = ({ children }) =>
     entityId?: string,
     entityName?: string,
     details?: string,
-    changes?: { field: string; oldValue: any; newValue: any }[]
+    changes?: { field: string; oldValue: any; newValue: any }[],
+    actor?: AuditActor
   ) => {
     const newLog: AuditLog = {
       id: uuidv4(),
       timestamp: new Date().toISOString(),
-      userId: user?.id || 'unknown',
-      userName: user?.name || 'Unknown User',
+      userId: actor?.id || user?.id || 'unknown',
+      userName: actor?.name || user?.name || 'Unknown User',
       actionType,
       entityType,
       entityId,
@@ -170,7 +181,7 @@ export const AuditProvider: React.FC<{children: ReactNode}> = ({ children }) =>
       details,
       ipAddress: '127.0.0.1', // In a real app, you would get the actual IP
       changes,
-      department: user?.department
+      department: actor ? undefined : user?.department
     };
 
     setLogs(prevLogs => [newLog, ...prevLogs]);
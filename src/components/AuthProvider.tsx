@@ -1,6 +1,7 @@
 import React, { createContext, useState, useContext, useEffect, ReactNode } from 'react';
 import { useNavigate, useLocation } from 'react-router-dom';
 import { toast } from "@/hooks/use-toast";
+import { defaultPermissions, MOCK_USERS } from "@/lib/userAccounts";
 
 // Define types
 export type UserRole = 'admin' | 'department_head' | 'manager' | 'team_lead' | 'employee' | 'guest';
@@ -34,84 +35,8 @@ const AuthContext = createContext<AuthContextType | undefined>(undefined);
 
 // Public routes that don't require authentication
 const PUBLIC_ROUTES = ['/login', '/register', '/forgot-password'];
-
-// Default permissions based on role
-const defaultPermissions: Record<UserRole, Permission[]> = {
-  admin: [
-    { action: 'manage', subject: 'all' },
-  ],
-  department_head: [
-    { action: 'read', subject: 'all' },
-    { action: 'manage', subject: 'department' },
-    { action: 'manage', subject: 'document' },
-    { action: 'manage', subject: 'task' },
-  ],
-  manager: [
-    { action: 'read', subject: 'all' },
-    { action: 'create', subject: 'document' },
-    { action: 'update', subject: 'document' },
-    { action: 'manage', subject: 'task' },
-  ],
-  team_lead: [
-    { action: 'read', subject: 'department' },
-    { action: 'read', subject: 'document' },
-    { action: 'create', subject: 'document' },
-    { action: 'update', subject: 'task' },
-    { action: 'create', subject: 'task' },
-  ],
-  employee: [
-    { action: 'read', subject: 'department' },
-    { action: 'read', subject: 'document' },
-    { action: 'update', subject: 'task' },
-  ],
-  guest: [
-    { action: 'read', subject: 'public' },
-  ],
-};
-
-// Mock users for development
-const MOCK_USERS = [
-  {
-    id: 'user1',
-    name: 'Admin User',
-    email: 'admin@example.com',
-    password: 'password123',
-    avatar: 'AU',
-    role: 'admin' as UserRole,
-    department: 'Management',
-    permissions: defaultPermissions.admin,
-  },
-  {
-    id: 'user2',
-    name: 'Department Head',
-    email: 'head@example.com',
-    password: 'password123',
-    avatar: 'DH',
-    role: 'department_head' as UserRole,
-    department: 'Engineering',
-    permissions: defaultPermissions.department_head,
-  },
-  {
-    id: 'user3',
-    name: 'Manager User',
-    email: 'manager@example.com',
-    password: 'password123',
-    avatar: 'MU',
-    role: 'manager' as UserRole,
-    department: 'Marketing',
-    permissions: defaultPermissions.manager,
-  },
-  {
-    id: 'user4',
-    name: 'Employee User',
-    email: 'employee@example.com',
-    password: 'password123',
-    avatar: 'EU',
-    role: 'employee' as UserRole,
-    department: 'Finance',
-    permissions: defaultPermissions.employee,
-  },
-];
+// Routes anyone can use, signed in or not
+const OPEN_ROUTES = ['/case-status'];
 
 export const AuthProvider: React.FC<{children: ReactNode}> = ({ children }) => {
   const [user, setUser] = useState<AuthUser | null>(null);
@@ -121,6 +46,7 @@ export const AuthProvider: React.FC<{children: ReactNode}> = ({ children }) => {
   
   // Check if current route is public
   const isPublicRoute = PUBLIC_ROUTES.includes(location.pathname);
+  const isOpenRoute = OPEN_ROUTES.includes(location.pathname);
 
   // Check for existing session on mount
   useEffect(() => {
@@ -146,7 +72,7 @@ export const AuthProvider: React.FC<{children: ReactNode}> = ({ children }) => {
 
   // Handle routing based on authentication status
   useEffect(() => {
-    if (loading) return; // Don't redirect while loading
+    if (loading || isOpenRoute) return; // Don't redirect while loading or on open routes
     
     if (user) {
       // User is authenticated
@@ -163,7 +89,7 @@ export const AuthProvider: React.FC<{children: ReactNode}> = ({ children }) => {
         navigate('/login', { replace: true });
       }
     }
-  }, [user, loading, location.pathname, navigate, isPublicRoute]);
+  }, [user, loading, location.pathname, navigate, isPublicRoute, isOpenRoute]);
 
   const login = async (email: string, password: string): Promise<boolean> => {
     setLoading(true);
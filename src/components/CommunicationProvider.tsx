@@ -36,7 +36,7 @@ export interface Channel {
 
 export interface Notification {
   id: string;
-  type: 'message' | 'task' | 'meeting' | 'document' | 'mention';
+  type: 'message' | 'task' | 'meeting' | 'document' | 'mention' | 'grievance';
   content: string;
   timestamp: string;
   isRead: boolean;
@@ -46,6 +46,7 @@ export interface Notification {
   meetingId?: string;
   documentId?: string;
   messageId?: string;
+  grievanceId?: string;
   additionalInfo?: string;
 }
 
@@ -322,6 +323,7 @@ interface CommunicationContextType {
   editMessage: (messageId: string, channelId: string, newContent: string) => Promise<void>;
   deleteMessage: (messageId: string, channelId: string) => Promise<void>;
   markMessageAsRead: (messageId: string, channelId: string) => void;
+  addNotification: (notification: Omit<Notification, 'timestamp' | 'isRead'>) => void;
   markNotificationAsRead: (notificationId: string) => void;
   markAllNotificationsAsRead: () => void;
   deleteNotification: (notificationId: string) => void;
@@ -771,6 +773,15 @@ export const CommunicationProvider: React.FC<{ children: ReactNode }> = ({ child
     });
   };
 
+  // Add a notification raised elsewhere in the app; one with the same ID is only added once
+  const addNotification = (notification: Omit<Notification, 'timestamp' | 'isRead'>): void => {
+    setNotifications(prevNotifications =>
+      prevNotifications.some(n => n.id === notification.id)
+        ? prevNotifications
+        : [{ ...notification, timestamp: new Date().toISOString(), isRead: false }, ...prevNotifications]
+    );
+  };
+
   // Mark notification as read
   const markNotificationAsRead = (notificationId: string): void => {
     setNotifications(prevNotifications => 
@@ -1149,6 +1160,7 @@ export const CommunicationProvider: React.FC<{ children: ReactNode }> = ({ child
     editMessage,
     deleteMessage,
     markMessageAsRead,
+    addNotification,
     markNotificationAsRead,
     markAllNotificationsAsRead,
     deleteNotification,
@@ -3,6 +3,14 @@ import { v4 as uuidv4 } from 'uuid';
 import { toast } from "@/hooks/use-toast";
 
 // Define types
+// 1 = beginner … 5 = expert
+export type ProficiencyLevel = 1 | 2 | 3 | 4 | 5;
+
+export interface MemberSkill {
+  name: string;
+  level: ProficiencyLevel;
+}
+
 export interface TeamMember {
   id: string;
   name: string;
@@ -12,6 +20,7 @@ export interface TeamMember {
   phone?: string;
   department: string;
   status: 'active' | 'vacation' | 'leave' | 'inactive';
+  skills?: MemberSkill[];
 }
 
 export interface Department {
@@ -42,10 +51,10 @@ const INITIAL_DEPARTMENTS: Department[] = [
     budget: 250000,
     location: "Floor 2, East Wing",
     teamMembers: [
-      { id: "hr-1", name: "Sarah Johnson", role: "HR Director", avatar: "SJ", department: "HR", status: "active" },
-      { id: "hr-2", name: "Michael Lee", role: "HR Manager", avatar: "ML", department: "HR", status: "active" },
-      { id: "hr-3", name: "Emily White", role: "Recruiter", avatar: "EW", department: "HR", status: "active" },
-      { id: "hr-4", name: "James Roberts", role: "HR Specialist", avatar: "JR", department: "HR", status: "vacation" }
+      { id: "hr-1", name: "Sarah Johnson", role: "HR Director", avatar: "SJ", department: "HR", status: "active", skills: [{ name: "Recruiting", level: 5 }, { name: "Employee Relations", level: 5 }, { name: "Performance Reviews", level: 4 }] },
+      { id: "hr-2", name: "Michael Lee", role: "HR Manager", avatar: "ML", department: "HR", status: "active", skills: [{ name: "Employee Relations", level: 4 }, { name: "Payroll", level: 3 }, { name: "Performance Reviews", level: 4 }, { name: "Compliance", level: 3 }] },
+      { id: "hr-3", name: "Emily White", role: "Recruiter", avatar: "EW", department: "HR", status: "active", skills: [{ name: "Recruiting", level: 4 }, { name: "Interviewing", level: 5 }, { name: "Onboarding", level: 3 }] },
+      { id: "hr-4", name: "James Roberts", role: "HR Specialist", avatar: "JR", department: "HR", status: "vacation", skills: [{ name: "Onboarding", level: 4 }, { name: "Compliance", level: 4 }, { name: "Payroll", level: 3 }] }
     ]
   },
   {
@@ -60,10 +69,10 @@ const INITIAL_DEPARTMENTS: Department[] = [
     budget: 400000,
     location: "Floor 3, North Wing",
     teamMembers: [
-      { id: "sales-1", name: "David Smith", role: "Sales Director", avatar: "DS", department: "Sales", status: "active" },
-      { id: "sales-2", name: "Jennifer Williams", role: "Sales Manager", avatar: "JW", department: "Sales", status: "active" },
-      { id: "sales-3", name: "Thomas Brown", role: "Account Executive", avatar: "TB", department: "Sales", status: "active" },
-      { id: "sales-4", name: "Amanda Miller", role: "Sales Representative", avatar: "AM", department: "Sales", status: "leave" }
+      { id: "sales-1", name: "David Smith", role: "Sales Director", avatar: "DS", department: "Sales", status: "active", skills: [{ name: "Negotiation", level: 5 }, { name: "Forecasting", level: 4 }, { name: "Account Management", level: 4 }] },
+      { id: "sales-2", name: "Jennifer Williams", role: "Sales Manager", avatar: "JW", department: "Sales", status: "active", skills: [{ name: "Account Management", level: 5 }, { name: "Negotiation", level: 4 }, { name: "CRM", level: 3 }] },
+      { id: "sales-3", name: "Thomas Brown", role: "Account Executive", avatar: "TB", department: "Sales", status: "active", skills: [{ name: "Account Management", level: 4 }, { name: "Presentations", level: 4 }, { name: "CRM", level: 4 }] },
+      { id: "sales-4", name: "Amanda Miller", role: "Sales Representative", avatar: "AM", department: "Sales", status: "leave", skills: [{ name: "Lead Generation", level: 4 }, { name: "CRM", level: 3 }, { name: "Presentations", level: 3 }] }
     ]
   },
   {
@@ -78,10 +87,10 @@ const INITIAL_DEPARTMENTS: Department[] = [
     budget: 650000,
     location: "Floor 4, West Wing",
     teamMembers: [
-      { id: "dev-1", name: "Alex Chen", role: "CTO", avatar: "AC", department: "Development", status: "active" },
-      { id: "dev-2", name: "Emma Davis", role: "Development Lead", avatar: "ED", department: "Development", status: "active" },
-      { id: "dev-3", name: "Ryan Wilson", role: "Senior Developer", avatar: "RW", department: "Development", status: "active" },
-      { id: "dev-4", name: "Olivia Martin", role: "Frontend Developer", avatar: "OM", department: "Development", status: "active" }
+      { id: "dev-1", name: "Alex Chen", role: "CTO", avatar: "AC", department: "Development", status: "active", skills: [{ name: "Architecture", level: 5 }, { name: "Security", level: 4 }, { name: "TypeScript", level: 4 }] },
+      { id: "dev-2", name: "Emma Davis", role: "Development Lead", avatar: "ED", department: "Development", status: "active", skills: [{ name: "React", level: 5 }, { name: "TypeScript", level: 5 }, { name: "Architecture", level: 4 }, { name: "Node.js", level: 3 }] },
+      { id: "dev-3", name: "Ryan Wilson", role: "Senior Developer", avatar: "RW", department: "Development", status: "active", skills: [{ name: "Node.js", level: 5 }, { name: "TypeScript", level: 4 }, { name: "Security", level: 4 }, { name: "Databases", level: 4 }] },
+      { id: "dev-4", name: "Olivia Martin", role: "Frontend Developer", avatar: "OM", department: "Development", status: "active", skills: [{ name: "React", level: 4 }, { name: "TypeScript", level: 3 }, { name: "UI Design", level: 4 }, { name: "Data Visualization", level: 3 }] }
     ]
   },
   {
@@ -96,10 +105,10 @@ const INITIAL_DEPARTMENTS: Department[] = [
     budget: 350000,
     location: "Floor 3, South Wing",
     teamMembers: [
-      { id: "marketing-1", name: "Robert Taylor", role: "Marketing Director", avatar: "RT", department: "Marketing", status: "active" },
-      { id: "marketing-2", name: "Sophia Wilson", role: "Marketing Manager", avatar: "SW", department: "Marketing", status: "active" },
-      { id: "marketing-3", name: "Daniel Garcia", role: "Content Strategist", avatar: "DG", department: "Marketing", status: "vacation" },
-      { id: "marketing-4", name: "Isabella Lopez", role: "Social Media Specialist", avatar: "IL", department: "Marketing", status: "active" }
+      { id: "marketing-1", name: "Robert Taylor", role: "Marketing Director", avatar: "RT", department: "Marketing", status: "active", skills: [{ name: "Brand Strategy", level: 5 }, { name: "Campaign Planning", level: 4 }, { name: "Analytics", level: 3 }] },
+      { id: "marketing-2", name: "Sophia Wilson", role: "Marketing Manager", avatar: "SW", department: "Marketing", status: "active", skills: [{ name: "Campaign Planning", level: 5 }, { name: "Copywriting", level: 3 }, { name: "Analytics", level: 4 }] },
+      { id: "marketing-3", name: "Daniel Garcia", role: "Content Strategist", avatar: "DG", department: "Marketing", status: "vacation", skills: [{ name: "Copywriting", level: 5 }, { name: "SEO", level: 4 }, { name: "Content Strategy", level: 5 }] },
+      { id: "marketing-4", name: "Isabella Lopez", role: "Social Media Specialist", avatar: "IL", department: "Marketing", status: "active", skills: [{ name: "Social Media", level: 5 }, { name: "Copywriting", level: 3 }, { name: "Analytics", level: 3 }] }
     ]
   },
   {
@@ -114,10 +123,10 @@ const INITIAL_DEPARTMENTS: Department[] = [
     budget: 200000,
     location: "Floor 2, South Wing",
     teamMembers: [
-      { id: "finance-1", name: "Laura Garcia", role: "Finance Director", avatar: "LG", department: "Finance", status: "active" },
-      { id: "finance-2", name: "Daniel Brown", role: "Financial Controller", avatar: "DB", department: "Finance", status: "active" },
-      { id: "finance-3", name: "Natalie Clark", role: "Accountant", avatar: "NC", department: "Finance", status: "active" },
-      { id: "finance-4", name: "Kevin Young", role: "Financial Analyst", avatar: "KY", department: "Finance", status: "inactive" }
+      { id: "finance-1", name: "Laura Garcia", role: "Finance Director", avatar: "LG", department: "Finance", status: "active", skills: [{ name: "Financial Reporting", level: 5 }, { name: "Budgeting", level: 5 }, { name: "Compliance", level: 4 }] },
+      { id: "finance-2", name: "Daniel Brown", role: "Financial Controller", avatar: "DB", department: "Finance", status: "active", skills: [{ name: "Financial Reporting", level: 4 }, { name: "Audit", level: 5 }, { name: "Compliance", level: 4 }] },
+      { id: "finance-3", name: "Natalie Clark", role: "Accountant", avatar: "NC", department: "Finance", status: "active", skills: [{ name: "Bookkeeping", level: 5 }, { name: "Payroll", level: 4 }, { name: "Financial Reporting", level: 3 }] },
+      { id: "finance-4", name: "Kevin Young", role: "Financial Analyst", avatar: "KY", department: "Finance", status: "inactive", skills: [{ name: "Forecasting", level: 4 }, { name: "Data Analysis", level: 4 }, { name: "Budgeting", level: 3 }] }
     ]
   }
 ];
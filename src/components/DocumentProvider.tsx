@@ -1,8 +1,47 @@
-import React, { createContext, useState, useContext, useEffect, ReactNode } from 'react';
+import React, { createContext, useState, useContext, useEffect, useRef, ReactNode } from 'react';
 import { v4 as uuidv4 } from 'uuid';
 import { toast } from "@/hooks/use-toast";
 import { useAuth, AuthUser } from './AuthProvider';
+import { useAudit } from './AuditProvider';
 import { format } from 'date-fns';
+import { getUserAccounts } from '@/lib/userAccounts';
+import {
+  checkSignature,
+  generateSigningKey,
+  getLatestVersion,
+  hashDocumentVersion,
+  hashSignatureAppearance,
+  SIGNATURE_CHECK_LABELS,
+  SignatureCertificate,
+  SignatureCheck,
+  SigningKey,
+  signPayload,
+} from '@/lib/documentSigning';
+import { DocumentSearchIndex, DocumentSearchResult } from '@/lib/documentSearch';
+import {
+  getDueRetentionActions,
+  getRetentionSchedule,
+  LegalHold,
+  RETENTION_REPORT_DAYS,
+  RetentionPolicy,
+  ScheduledRetention,
+  validateRetentionPolicy,
+} from '@/lib/documentRetention';
+import {
+  cancelEnvelope,
+  createEnvelope,
+  getActiveEnvelope,
+  getCurrentEnvelope,
+  getDueReminders,
+  getSigningBlocker,
+  NewEnvelopeSigner,
+  recordDecline,
+  recordReminder,
+  recordSignature,
+  SigningEnvelope,
+  SigningOrder,
+  validateEnvelope,
+} from '@/lib/signingEnvelopes';
 
 // Define types
 export type DocumentType = 'pdf' | 'doc' | 'xls' | 'ppt' | 'txt' | 'image' | 'other';
@@ -16,6 +55,9 @@ export interface DocumentVersion {
   updatedBy: string;
   changeDescription: string;
   fileUrl: string;
+  fileSize?: number;
+  content?: string; // the text of text documents, for comparing versions
+  restoredFrom?: number; // the version this one brought back
 }
 
 export interface DocumentTag {
@@ -34,6 +76,18 @@ export interface DocumentSignature {
   signatureType: 'drawn' | 'typed' | 'certificate';
   position?: { x: number, y: number, page: number };
   verified: boolean;
+  seal?: SignatureSeal; // missing on signatures made before signing was cryptographic
+  lastCheck?: SignatureCheck;
+}
+
+// The cryptographic part of a signature: which version was signed and the
+// ECDSA signature over its hash and the signer's details
+export interface SignatureSeal {
+  versionId: string;
+  versionNumber: number;
+  contentHash: string; // SHA-256 of the signed version
+  signatureValue: string; // base64
+  certificate: SignatureCertificate;
 }
 
 export interface SignatureRequest {
@@ -69,17 +123,20 @@ export interface Document {
   signatures?: DocumentSignature[];
   needsSignature?: boolean;
   signatureRequests?: { id: string, userId: string, requestedAt: string, status: 'pending' | 'completed' | 'rejected' }[];
+  envelopes?: SigningEnvelope[]; // oldest first, at most one in progress
+  legalHold?: LegalHold; // can't be deleted while set
 }
 
 interface DocumentContextType {
   documents: Document[];
   filteredDocuments: Document[];
   tags: DocumentTag[];
-  addDocument: (doc: Partial<Document>) => void;
+  addDocument: (doc: Partial<Document>, content?: string) => void;
   updateDocument: (id: string, updates: Partial<Document>) => void;
   deleteDocument: (id: string) => void;
   getDocumentById: (id: string) => Document | undefined;
   addDocumentVersion: (docId: string, version: Partial<DocumentVersion>) => void;
+  restoreDocumentVersion: (docId: string, versionId: string) => void;
   addTag: (tag: Partial<DocumentTag>) => void;
   deleteTag: (id: string) => void;
   filterDocuments: (options: {
@@ -90,17 +147,89 @@ interface DocumentContextType {
     dateRange?: [Date | null, Date | null];
     status?: DocumentStatus[];
   }) => void;
+  searchDocuments: (query: string) => DocumentSearchResult[];
   toggleFavorite: (id: string) => void;
   downloadDocument: (id: string) => void;
   shareDocument: (id: string, users: string[]) => void;
   signDocument: (docId: string, signatureData: string, type: 'drawn' | 'typed' | 'certificate', position?: { x: number, y: number, page: number }) => Promise<boolean>;
   requestSignature: (docId: string, userIds: string[]) => void;
+  createSigningEnvelope: (docId: string, signers: NewEnvelopeSigner[], options: { order: SigningOrder; message?: string }) => boolean;
+  declineSignature: (docId: string, reason: string) => boolean;
+  cancelSigningEnvelope: (docId: string) => boolean;
+  canRequestSignatures: (docId: string) => boolean;
   verifySignature: (docId: string, signatureId: string) => Promise<boolean>;
   getSignatureRequests: (documentId: string) => SignatureRequest[];
+  getSigningCertificate: (userId: string) => SignatureCertificate | undefined;
+  retentionPolicies: RetentionPolicy[];
+  addRetentionPolicy: (policy: Omit<RetentionPolicy, 'id' | 'createdBy' | 'createdAt'>) => boolean;
+  deleteRetentionPolicy: (id: string) => void;
+  placeLegalHold: (docId: string, reason: string) => boolean;
+  releaseLegalHold: (docId: string) => boolean;
+  getRetentionReport: (withinDays?: number) => ScheduledRetention[];
+  applyRetentionPolicies: () => number;
 }
 
 const DocumentContext = createContext<DocumentContextType | undefined>(undefined);
 
+// How often signers are checked for due reminders
+const REMINDER_CHECK_INTERVAL = 60000;
+// Retention policies are applied once a day
+const RETENTION_CHECK_INTERVAL = 24 * 60 * 60 * 1000;
+
+// Who retention actions are attributed to in the audit log
+const RETENTION_ACTOR = { id: 'system', name: 'Retention Schedule' };
+
+const INITIAL_RETENTION_POLICIES: RetentionPolicy[] = [
+  {
+    id: 'ret1',
+    name: 'Contracts',
+    tags: ['tag2'],
+    departments: [],
+    types: [],
+    retainYears: 6,
+    from: 'created',
+    action: 'archive',
+    createdBy: 'user1',
+    createdAt: '2023-01-02T09:00:00Z',
+  },
+  {
+    id: 'ret2',
+    name: 'Finance and payroll records',
+    tags: [],
+    departments: ['Finance'],
+    types: [],
+    retainYears: 7,
+    from: 'created',
+    action: 'archive',
+    createdBy: 'user1',
+    createdAt: '2023-01-02T09:00:00Z',
+  },
+  {
+    id: 'ret3',
+    name: 'Reports',
+    tags: ['tag3'],
+    departments: [],
+    types: [],
+    retainYears: 5,
+    from: 'created',
+    action: 'archive',
+    createdBy: 'user1',
+    createdAt: '2023-01-02T09:00:00Z',
+  },
+  {
+    id: 'ret4',
+    name: 'Abandoned drafts',
+    tags: ['tag4'],
+    departments: [],
+    types: [],
+    retainYears: 1,
+    from: 'updated',
+    action: 'delete',
+    createdBy: 'user1',
+    createdAt: '2023-01-02T09:00:00Z',
+  },
+];
+
 // Mock initial document tags
 const INITIAL_TAGS: DocumentTag[] = [
   { id: 'tag1', name: 'Important', color: '#ef4444' },
@@ -210,7 +339,7 @@ const INITIAL_DOCUMENTS: Document[] = [
     description: 'Legal contract for Project Alpha with client XYZ Corp',
     type: 'doc',
     department: 'Legal',
-    status: 'published',
+    status: 'draft',
     createdBy: 'user1',
     createdAt: '2023-10-05T09:30:00Z',
     updatedAt: '2023-10-10T16:20:00Z',
@@ -227,6 +356,23 @@ const INITIAL_DOCUMENTS: Document[] = [
         updatedBy: 'user1',
         changeDescription: 'Initial draft',
         fileUrl: '/documents/contract_v1.docx',
+        fileSize: 1650000,
+        content: [
+          'PROJECT ALPHA SERVICES AGREEMENT',
+          '',
+          '1. Parties',
+          'This agreement is made between Acme Ltd ("the Supplier") and XYZ Corp ("the Client").',
+          '',
+          '2. Scope',
+          'The Supplier will design and build the Project Alpha platform as described in Schedule A.',
+          '',
+          '3. Fees',
+          'The Client will pay a fixed fee of $120,000 in three equal instalments.',
+          'Invoices are payable within 45 days.',
+          '',
+          '4. Term',
+          'This agreement starts on the date it is signed and ends on delivery of the platform.',
+        ].join('\n'),
       },
       {
         id: 'v2doc4',
@@ -235,23 +381,49 @@ const INITIAL_DOCUMENTS: Document[] = [
         updatedBy: 'user1',
         changeDescription: 'Final version after client review',
         fileUrl: '/documents/contract_v2.docx',
+        fileSize: 1800000,
+        content: [
+          'PROJECT ALPHA SERVICES AGREEMENT',
+          '',
+          '1. Parties',
+          'This agreement is made between Acme Ltd ("the Supplier") and XYZ Corp ("the Client").',
+          '',
+          '2. Scope',
+          'The Supplier will design, build and support the Project Alpha platform as described in Schedule A.',
+          '',
+          '3. Fees',
+          'The Client will pay a fixed fee of $135,000 in three equal instalments.',
+          'Invoices are payable within 30 days.',
+          '',
+          '4. Term',
+          'This agreement starts on the date it is signed and ends twelve months after delivery of the platform.',
+          '',
+          '5. Confidentiality',
+          "Neither party will share the other's confidential information without written consent.",
+        ].join('\n'),
       }
     ],
     tags: ['tag2', 'tag5'],
     isFavorite: true,
     needsSignature: true,
-    signatureRequests: [
+    envelopes: [
       {
-        id: 'sigreq1',
-        userId: 'user1',
-        requestedAt: '2023-10-10T16:30:00Z',
-        status: 'completed' as 'pending' | 'completed' | 'rejected'
-      },
-      {
-        id: 'sigreq2',
-        userId: 'user2',
-        requestedAt: '2023-10-10T16:30:00Z',
-        status: 'pending' as 'pending' | 'completed' | 'rejected'
+        id: 'env1',
+        order: 'sequential',
+        status: 'in-progress',
+        createdBy: 'user1',
+        createdByName: 'Admin User',
+        createdAt: '2023-10-10T16:30:00Z',
+        signers: [
+          { userId: 'user1', userName: 'Admin User', required: true, status: 'signed', sentAt: '2023-10-10T16:30:00Z', signatureId: 'sig1', signedAt: '2023-10-11T09:15:00Z', reminders: [] },
+          { userId: 'user2', userName: 'Department Head', required: true, status: 'pending', sentAt: '2023-10-11T09:15:00Z', reminders: [] }
+        ],
+        events: [
+          { id: 'env1-e1', timestamp: '2023-10-10T16:30:00Z', type: 'created', actorId: 'user1', actorName: 'Admin User', details: 'Signatures requested from 2 people, one after another' },
+          { id: 'env1-e2', timestamp: '2023-10-10T16:30:00Z', type: 'sent', details: 'Sent to Admin User for signature' },
+          { id: 'env1-e3', timestamp: '2023-10-11T09:15:00Z', type: 'signed', actorId: 'user1', actorName: 'Admin User', details: 'Signed by Admin User' },
+          { id: 'env1-e4', timestamp: '2023-10-11T09:15:00Z', type: 'sent', details: 'Sent to Department Head for signature' }
+        ]
       }
     ],
     signatures: [
@@ -263,7 +435,7 @@ const INITIAL_DOCUMENTS: Document[] = [
         signedAt: '2023-10-11T09:15:00Z',
         signatureData: 'data:image/png;base64,iVBORw0KGgoAAAANSUhEUgAAASwAAABkCAYAAAA8AQ3AAAAAAXNSR0IArs4c6QAABYRJREFUeJzt3U1y2zAMBuDEPUlP0rR3cV/8k7Tddt+TtCdpT9K4i25nPP2RAAiCgp8ZbRxFJvgS2KIkS/C2GRERERERERERERERERERERERERdYTnV5/Ai/MvPwH8eunZ0Pt4wW63bdd3rkEj3jC+IOLn7voLwNN554eN2veMH3tB5flQpX7bAeBlcebPAH5g54UXXz0B+J6fj9+jfPb3Yt8ZA7dxeCQ978V5bdtJ73Pf9f11OOtgHMGbO6i3wfzx5nZGFePH1tZxkZ5JpGOWjlkTKWDFpT8YD1XiVc7lS36+IrOg9nkvzmsvmf5OG2nbOVL/n7LzBd5QBsHUgKrZMlgPl+NMB9h+sF2q9twwdP+cXqPOvyeZ5LZP2Tl3HLyO1PbLPmjNAbUSqt9q3qkXrjOdUiT7T0/Zfk327Zrj9t9zFtLzvXSucRB8qZ2HWAC19jrKtudBu4C/6X7Svhh5HN63+xVlVtWcvNaHVc5ldhwlQsGnLqgPTfbjvVn0fVm1r1UhWI/lz/HQv+wFb9Exl6r8WDUuKgHVG+zOm+2z8m+9cFnpjyLZu512PdHd1mNdXm0+Gp974ZiaYyb7n0LNAfiXbB9Ot8sSb/I3Bw+qCFYZzNgPStI9qgTLDFVvEEOkKY7VTqdWueE4Zag6wZ5zKTcMgxgN1p1gnRPwV5DPNRZ8WaNHOJ5LJl+mzwpWCFQEYO4Jjq7qqmC5oRqNq+wPR9UZD7I/Wqt8Ye4FeLp/rQrXqpCJfpUvlOv1uxcurymQ7BOb5ZrA9jjnUB0V58s9YO2F/mYFq9w/sSFKsPJSsH1gYk0Z3uZV7UHlYI3G/e1zQQQwtZSbqioD3GuZH0K7GvCa4NsL1tX3ByOXwf5lMDvOVaO1QZ5D2wvU2UbH0wRrb9zfPhefbQ9CCFUIVmpv0LlJSvpZwQJwrFMpIRRBnuaQlwbBuh+ueF5lM1ixIQxBVwVrHsOOYIVxfz6v67c/TxusPQTLWqEcgOO5lGVgOp+vAIx7w7OClR8vgKP1Z3EdXskyPVvHQlayy8VzFu9zZcU9JcqN+XQwztFuNK6tAvCqeT9Ys7jf2mYtAC8pWNZk3xCTYSswT+uYiuDvvfLcsJ0QLAG21xwbQ/AlZ/0unrN4n0uzRlnlHANeBrB23tGwvmyTz8kbQm0ZUB8TUhLr2kPmBTx4QbNcAnvzqVYIvmRQWoH5kLBNwXUfBWsUqoJ9buVgvTuXwf6WYFlVmxmqOQCzYIcQSG8QQ6Rpj+8F7HbcrvFcLvuDWauanE/qSJ/F5QCewvP5C+XDuJTB187pymaYvfuDVhiyQlRWXR9QX6qbKc9xcfqj2eTTDYFtP44xQTqOvGqQ9uV9PiRbJ5R15lbNxr92L9E6p6/WfSytbWF+9YHB+RuDpTmXtfEHrWBtD+GnJw+F47ZzgwrHG402xwTKHfcre8+sauoHL6gfF7jPBR39YIztJrB8TiW/IITgz8E+Y7+RUMjBGuPdaXR0buWg3Sj0qU2I5Rjn9jb4d8PcZ8gvdGe8o1HNRv+Ud+PoFMFrA2+dV7UKamwYD6rOZbBvtJ91eLfxAPr3CeXXRACqddbWc0FtlTHqB7+9W1DlmEhT/VWuNYS2Lx13OP+O8RQujzFQbtBnbWUb0jHEa59aVVY5tuR3XM3aSlB7//BKm2/Xaf9A7jnsJZo/2PkI9W/Urf6NurXfqKt9E5WIiIiIiIiIiIiIiIiIiIiIiIiI6EPyH2N25EBMX+YAAAAAAElFTkSuQmCC',
         signatureType: 'drawn',
-        verified: true
+        verified: false
       }
     ]
   },
@@ -301,7 +473,7 @@ const INITIAL_DOCUMENTS: Document[] = [
     description: 'Standard employment agreement for new hires',
     type: 'pdf',
     department: 'HR',
-    status: 'published',
+    status: 'draft',
     createdBy: 'user2',
     createdAt: '2023-11-01T10:00:00Z',
     updatedAt: '2023-11-01T10:00:00Z',
@@ -323,12 +495,21 @@ const INITIAL_DOCUMENTS: Document[] = [
     tags: ['tag2', 'tag5'],
     isFavorite: false,
     needsSignature: true,
-    signatureRequests: [
+    envelopes: [
       {
-        id: 'sigreq3',
-        userId: 'user1',
-        requestedAt: '2023-11-01T10:30:00Z',
-        status: 'pending' as 'pending' | 'completed' | 'rejected'
+        id: 'env2',
+        order: 'parallel',
+        status: 'in-progress',
+        createdBy: 'user2',
+        createdByName: 'Department Head',
+        createdAt: '2023-11-01T10:30:00Z',
+        signers: [
+          { userId: 'user1', userName: 'Admin User', required: true, status: 'pending', sentAt: '2023-11-01T10:30:00Z', reminders: [] }
+        ],
+        events: [
+          { id: 'env2-e1', timestamp: '2023-11-01T10:30:00Z', type: 'created', actorId: 'user2', actorName: 'Department Head', details: 'Signatures requested from 1 person, in any order' },
+          { id: 'env2-e2', timestamp: '2023-11-01T10:30:00Z', type: 'sent', details: 'Sent to Admin User for signature' }
+        ]
       }
     ]
   }
@@ -336,9 +517,24 @@ const INITIAL_DOCUMENTS: Document[] = [
 
 export const DocumentProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
   const { user } = useAuth();
+  const { addAuditLog } = useAudit();
   const [documents, setDocuments] = useState<Document[]>(INITIAL_DOCUMENTS);
   const [filteredDocuments, setFilteredDocuments] = useState<Document[]>(INITIAL_DOCUMENTS);
+  // Signing finishes after several awaits, so read the latest documents from a ref
+  const documentsRef = useRef(documents);
+  documentsRef.current = documents;
   const [tags, setTags] = useState<DocumentTag[]>(INITIAL_TAGS);
+  const [retentionPolicies, setRetentionPolicies] = useState<RetentionPolicy[]>(INITIAL_RETENTION_POLICIES);
+  // Public certificates by user; the private keys stay in the ref and are never exported
+  const [certificates, setCertificates] = useState<Record<string, SignatureCertificate>>({});
+  const signingKeys = useRef<Map<string, SigningKey>>(new Map());
+  // Full-text index, updated in place as documents change
+  const [searchIndex] = useState(() => new DocumentSearchIndex(
+    INITIAL_DOCUMENTS,
+    tagId => INITIAL_TAGS.find(t => t.id === tagId)?.name
+  ));
+
+  const getTagName = (tagId: string) => tags.find(t => t.id === tagId)?.name;
 
   // Check if user has access to a document
   const hasDocumentAccess = (doc: Document, currentUser: AuthUser | null): boolean => {
@@ -364,6 +560,11 @@ export const DocumentProvider: React.FC<{ children: ReactNode }> = ({ children }
     if (doc.createdBy === currentUser.id) {
       return true;
     }
+
+    // So do the people it's been sent to for signature
+    if (doc.envelopes?.some(envelope => envelope.signers.some(signer => signer.userId === currentUser.id))) {
+      return true;
+    }
     
     // Private documents are only accessible to the creator
     if (doc.accessLevel === 'private' && doc.createdBy === currentUser.id) {
@@ -373,6 +574,13 @@ export const DocumentProvider: React.FC<{ children: ReactNode }> = ({ children }
     return false;
   };
 
+  // Admins, the creator and the head of the document's department can sign
+  // and send it for signature
+  const canManageSignatures = (doc: Document, currentUser: AuthUser): boolean =>
+    currentUser.role === 'admin' ||
+    doc.createdBy === currentUser.id ||
+    (currentUser.role === 'department_head' && doc.department === currentUser.department);
+
   // Filter documents based on user permissions
   const getAccessibleDocuments = (docs: Document[], currentUser: AuthUser | null): Document[] => {
     if (!currentUser) return [];
@@ -381,7 +589,7 @@ export const DocumentProvider: React.FC<{ children: ReactNode }> = ({ children }
   };
 
   // Add a new document
-  const addDocument = (doc: Partial<Document>) => {
+  const addDocument = (doc: Partial<Document>, content?: string) => {
     if (!user) {
       toast({
         title: "Authentication required",
@@ -415,12 +623,15 @@ export const DocumentProvider: React.FC<{ children: ReactNode }> = ({ children }
           updatedBy: user.id,
           changeDescription: 'Initial version',
           fileUrl: doc.fileUrl || '',
+          fileSize: doc.fileSize || 0,
+          content,
         }
       ],
       tags: doc.tags || [],
       isFavorite: false,
     };
     
+    searchIndex.add(newDoc, getTagName);
     setDocuments(prev => [...prev, newDoc]);
     setFilteredDocuments(prev => [...prev, newDoc]);
     
@@ -474,6 +685,7 @@ export const DocumentProvider: React.FC<{ children: ReactNode }> = ({ children }
       updatedAt: new Date().toISOString(),
     };
     
+    searchIndex.add(updatedDoc, getTagName);
     const newDocuments = [...documents];
     newDocuments[docIndex] = updatedDoc;
     
@@ -509,6 +721,15 @@ export const DocumentProvider: React.FC<{ children: ReactNode }> = ({ children }
     }
     
     const currentDoc = documents[docIndex];
+
+    if (currentDoc.legalHold) {
+      toast({
+        title: "Document on legal hold",
+        description: `${currentDoc.title} can't be deleted until the legal hold is released`,
+        variant: "destructive",
+      });
+      return;
+    }
     
     // Check if user has permission to delete
     const canDelete = user.role === 'admin' || 
@@ -526,6 +747,7 @@ export const DocumentProvider: React.FC<{ children: ReactNode }> = ({ children }
     
     const newDocuments = documents.filter(d => d.id !== id);
     
+    searchIndex.remove(id);
     setDocuments(newDocuments);
     setFilteredDocuments(getAccessibleDocuments(newDocuments, user));
     
@@ -577,6 +799,17 @@ export const DocumentProvider: React.FC<{ children: ReactNode }> = ({ children }
       });
       return;
     }
+
+    // Signatures already collected are over the current version, so it
+    // can't change under them
+    if (getActiveEnvelope(currentDoc)) {
+      toast({
+        title: "Out for signature",
+        description: "Cancel the signing envelope before adding or restoring a version",
+        variant: "destructive",
+      });
+      return;
+    }
     
     const lastVersion = currentDoc.versions.length > 0 
       ? Math.max(...currentDoc.versions.map(v => v.version))
@@ -589,6 +822,9 @@ export const DocumentProvider: React.FC<{ children: ReactNode }> = ({ children }
       updatedBy: user.id,
       changeDescription: version.changeDescription || `Version ${lastVersion + 1}`,
       fileUrl: version.fileUrl || currentDoc.fileUrl,
+      fileSize: version.fileSize ?? currentDoc.fileSize,
+      content: version.content,
+      restoredFrom: version.restoredFrom,
     };
     
     const updatedDoc = {
@@ -596,8 +832,10 @@ export const DocumentProvider: React.FC<{ children: ReactNode }> = ({ children }
       versions: [...currentDoc.versions, newVersion],
       updatedAt: new Date().toISOString(),
       fileUrl: version.fileUrl || currentDoc.fileUrl,
+      fileSize: newVersion.fileSize ?? currentDoc.fileSize,
     };
     
+    searchIndex.add(updatedDoc, getTagName);
     const newDocuments = [...documents];
     newDocuments[docIndex] = updatedDoc;
     
@@ -610,6 +848,208 @@ export const DocumentProvider: React.FC<{ children: ReactNode }> = ({ children }
     });
   };
 
+  // Bring back an older version by adding a copy of it as the latest version
+  const restoreDocumentVersion = (docId: string, versionId: string) => {
+    const version = documents.find(d => d.id === docId)?.versions.find(v => v.id === versionId);
+    if (!version) {
+      toast({
+        title: "Version not found",
+        description: "The version you are trying to restore does not exist",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    addDocumentVersion(docId, {
+      fileUrl: version.fileUrl,
+      fileSize: version.fileSize,
+      content: version.content,
+      restoredFrom: version.version,
+      changeDescription: `Restored version ${version.version}`,
+    });
+  };
+
+  // Add a retention policy; only admins manage them
+  const addRetentionPolicy = (policy: Omit<RetentionPolicy, 'id' | 'createdBy' | 'createdAt'>): boolean => {
+    if (!user || user.role !== 'admin') {
+      toast({
+        title: "Permission denied",
+        description: "Only administrators can manage retention policies",
+        variant: "destructive",
+      });
+      return false;
+    }
+
+    const problem = validateRetentionPolicy(policy);
+    if (problem) {
+      toast({
+        title: "Can't save policy",
+        description: problem,
+        variant: "destructive",
+      });
+      return false;
+    }
+
+    const newPolicy: RetentionPolicy = {
+      ...policy,
+      name: policy.name.trim(),
+      id: uuidv4(),
+      createdBy: user.id,
+      createdAt: new Date().toISOString(),
+    };
+    setRetentionPolicies(prev => [...prev, newPolicy]);
+    addAuditLog(
+      'create',
+      'system',
+      newPolicy.id,
+      newPolicy.name,
+      `Retention policy added: keep for ${newPolicy.retainYears} years, then ${newPolicy.action}`
+    );
+
+    toast({
+      title: "Retention policy added",
+      description: `${newPolicy.name} applies from the next daily check.`,
+    });
+    return true;
+  };
+
+  const deleteRetentionPolicy = (id: string) => {
+    const policy = retentionPolicies.find(p => p.id === id);
+    if (!policy) return;
+
+    if (!user || user.role !== 'admin') {
+      toast({
+        title: "Permission denied",
+        description: "Only administrators can manage retention policies",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setRetentionPolicies(prev => prev.filter(p => p.id !== id));
+    addAuditLog('delete', 'system', policy.id, policy.name, 'Retention policy removed');
+
+    toast({
+      title: "Retention policy removed",
+      description: `${policy.name} no longer applies.`,
+    });
+  };
+
+  // Legal holds stop a document being deleted, by anyone or by retention
+  const placeLegalHold = (docId: string, reason: string): boolean => {
+    const currentDoc = documents.find(d => d.id === docId);
+    if (!user || !currentDoc) return false;
+
+    if (user.role !== 'admin') {
+      toast({
+        title: "Permission denied",
+        description: "Only administrators can place legal holds",
+        variant: "destructive",
+      });
+      return false;
+    }
+
+    if (!reason.trim()) {
+      toast({
+        title: "Reason required",
+        description: "Record why the document is being held",
+        variant: "destructive",
+      });
+      return false;
+    }
+
+    const legalHold: LegalHold = {
+      reason: reason.trim(),
+      placedBy: user.id,
+      placedByName: user.name,
+      placedAt: new Date().toISOString(),
+    };
+    setDocuments(prev => prev.map(d => d.id === docId ? { ...d, legalHold } : d));
+    addAuditLog('update', 'document', docId, currentDoc.title, `Legal hold placed: ${legalHold.reason}`);
+
+    toast({
+      title: "Legal hold placed",
+      description: `${currentDoc.title} can't be deleted until the hold is released.`,
+    });
+    return true;
+  };
+
+  const releaseLegalHold = (docId: string): boolean => {
+    const currentDoc = documents.find(d => d.id === docId);
+    if (!user || !currentDoc?.legalHold) return false;
+
+    if (user.role !== 'admin') {
+      toast({
+        title: "Permission denied",
+        description: "Only administrators can release legal holds",
+        variant: "destructive",
+      });
+      return false;
+    }
+
+    setDocuments(prev => prev.map(d => d.id === docId ? { ...d, legalHold: undefined } : d));
+    addAuditLog('update', 'document', docId, currentDoc.title, 'Legal hold released');
+
+    toast({
+      title: "Legal hold released",
+      description: `${currentDoc.title} is subject to its retention policy again.`,
+    });
+    return true;
+  };
+
+  // Upcoming retention actions on the documents the user can see, including
+  // any held back by a legal hold
+  const getRetentionReport = (withinDays: number = RETENTION_REPORT_DAYS): ScheduledRetention[] => {
+    if (!user) return [];
+    return getRetentionSchedule(getAccessibleDocuments(documents, user), retentionPolicies)
+      .filter(item => item.daysUntilDue <= withinDays);
+  };
+
+  // Archive or delete every document whose retention period has ended
+  const applyRetentionPolicies = (): number => {
+    const due = getDueRetentionActions(documents, retentionPolicies);
+    if (due.length === 0) return 0;
+
+    const now = new Date().toISOString();
+    const toDelete = new Set(due.filter(item => item.action === 'delete').map(item => item.document.id));
+    const toArchive = new Set(due.filter(item => item.action === 'archive').map(item => item.document.id));
+    const newDocuments = documents
+      .filter(d => !toDelete.has(d.id))
+      .map(d => toArchive.has(d.id) ? { ...d, status: 'archived' as DocumentStatus, updatedAt: now } : d);
+
+    toDelete.forEach(id => searchIndex.remove(id));
+    setDocuments(newDocuments);
+    setFilteredDocuments(getAccessibleDocuments(newDocuments, user));
+
+    due.forEach(({ document, policy, action }) => addAuditLog(
+      action === 'delete' ? 'delete' : 'update',
+      'document',
+      document.id,
+      document.title,
+      `${action === 'delete' ? 'Deleted' : 'Archived'} under retention policy "${policy.name}"`,
+      action === 'archive' ? [{ field: 'status', oldValue: document.status, newValue: 'archived' }] : undefined,
+      RETENTION_ACTOR
+    ));
+
+    toast({
+      title: "Retention policies applied",
+      description: [
+        toArchive.size > 0 && `${toArchive.size} ${toArchive.size === 1 ? 'document' : 'documents'} archived`,
+        toDelete.size > 0 && `${toDelete.size} ${toDelete.size === 1 ? 'document' : 'documents'} deleted`,
+      ].filter(Boolean).join(', '),
+    });
+    return due.length;
+  };
+
+  const applyRetentionPoliciesRef = useRef(applyRetentionPolicies);
+  applyRetentionPoliciesRef.current = applyRetentionPolicies;
+
+  useEffect(() => {
+    applyRetentionPoliciesRef.current();
+    const timer = setInterval(() => applyRetentionPoliciesRef.current(), RETENTION_CHECK_INTERVAL);
+    return () => clearInterval(timer);
+  }, []);
+
   // Add a new tag
   const addTag = (tag: Partial<DocumentTag>) => {
     if (!tag.name) {
@@ -644,6 +1084,9 @@ export const DocumentProvider: React.FC<{ children: ReactNode }> = ({ children }
       ...doc,
       tags: doc.tags.filter(tagId => tagId !== id)
     }));
+    updatedDocs
+      .filter(doc => documents.find(d => d.id === doc.id)?.tags.includes(id))
+      .forEach(doc => searchIndex.add(doc, getTagName));
     
     setDocuments(updatedDocs);
     setFilteredDocuments(getAccessibleDocuments(updatedDocs, user));
@@ -670,13 +1113,9 @@ export const DocumentProvider: React.FC<{ children: ReactNode }> = ({ children }
     
     let filtered = getAccessibleDocuments(documents, user);
     
-    // Search in title and description
-    if (options.search) {
-      const searchLower = options.search.toLowerCase();
-      filtered = filtered.filter(doc => 
-        doc.title.toLowerCase().includes(searchLower) || 
-        doc.description.toLowerCase().includes(searchLower)
-      );
+    // Full-text search, best matches first
+    if (options.search?.trim()) {
+      filtered = searchDocuments(options.search).map(result => result.document);
     }
     
     // Filter by document type
@@ -715,6 +1154,19 @@ export const DocumentProvider: React.FC<{ children: ReactNode }> = ({ children }
     setFilteredDocuments(filtered);
   };
 
+  // Search the full-text index, leaving out documents the user can't see
+  const searchDocuments = (query: string): DocumentSearchResult[] => {
+    if (!user) return [];
+
+    const byId = new Map(documents.map(doc => [doc.id, doc]));
+    return searchIndex
+      .search(query, id => {
+        const doc = byId.get(id);
+        return !!doc && hasDocumentAccess(doc, user);
+      })
+      .map(hit => ({ ...hit, document: byId.get(hit.documentId)! }));
+  };
+
   // Toggle favorite status
   const toggleFavorite = (id: string) => {
     if (!user) return;
@@ -836,6 +1288,19 @@ export const DocumentProvider: React.FC<{ children: ReactNode }> = ({ children }
     });
   };
 
+  // The user's signing key, made the first time they sign
+  const getSigningKey = async (signer: AuthUser): Promise<SigningKey> => {
+    const existing = signingKeys.current.get(signer.id);
+    if (existing) return existing;
+
+    const signingKey = await generateSigningKey({ id: signer.id, name: signer.name, role: signer.role });
+    signingKeys.current.set(signer.id, signingKey);
+    setCertificates(prev => ({ ...prev, [signer.id]: signingKey.certificate }));
+    return signingKey;
+  };
+
+  const getSigningCertificate = (userId: string): SignatureCertificate | undefined => certificates[userId];
+
   // Sign a document
   const signDocument = async (docId: string, signatureData: string, type: 'drawn' | 'typed' | 'certificate', position?: { x: number, y: number, page: number }) => {
     if (!user) {
@@ -859,11 +1324,11 @@ export const DocumentProvider: React.FC<{ children: ReactNode }> = ({ children }
     }
     
     const currentDoc = documents[docIndex];
+    const envelope = getActiveEnvelope(currentDoc);
+    const isEnvelopeSigner = !!envelope?.signers.some(signer => signer.userId === user.id);
     
     // Check if user has permission to sign
-    const canSign = user.role === 'admin' || 
-                    currentDoc.createdBy === user.id || 
-                    (user.role === 'department_head' && currentDoc.department === user.department);
+    const canSign = isEnvelopeSigner || canManageSignatures(currentDoc, user);
     
     if (!canSign) {
       toast({
@@ -873,101 +1338,327 @@ export const DocumentProvider: React.FC<{ children: ReactNode }> = ({ children }
       });
       return false;
     }
+
+    // Envelope signers sign in turn
+    const blocker = envelope && isEnvelopeSigner ? getSigningBlocker(envelope, user.id) : null;
+    if (blocker) {
+      toast({
+        title: "Can't sign yet",
+        description: blocker,
+        variant: "destructive",
+      });
+      return false;
+    }
+    
+    // The signature seals the latest version as it is right now
+    const version = getLatestVersion(currentDoc);
+    if (!version) {
+      toast({
+        title: "Nothing to sign",
+        description: "This document has no versions to sign",
+        variant: "destructive",
+      });
+      return false;
+    }
+
+    const signingKey = await getSigningKey(user);
+    const signedAt = new Date().toISOString();
+    const contentHash = await hashDocumentVersion(currentDoc, version);
+    const signatureValue = await signPayload(signingKey.privateKey, {
+      documentId: currentDoc.id,
+      versionId: version.id,
+      versionNumber: version.version,
+      contentHash,
+      signerId: user.id,
+      signerName: user.name,
+      signerRole: user.role,
+      signedAt,
+      signatureType: type,
+      appearanceHash: await hashSignatureAppearance(signatureData),
+    });
     
     const newSignature: DocumentSignature = {
       id: uuidv4(),
       userId: user.id,
       userName: user.name,
       userRole: user.role,
-      signedAt: new Date().toISOString(),
+      signedAt,
       signatureData: signatureData,
       signatureType: type,
       position: position,
       verified: false,
+      seal: {
+        versionId: version.id,
+        versionNumber: version.version,
+        contentHash,
+        signatureValue,
+        certificate: signingKey.certificate,
+      },
     };
     
-    const updatedDoc = {
-      ...currentDoc,
-      signatures: [...(currentDoc.signatures || []), newSignature],
-      updatedAt: new Date().toISOString(),
+    // Record the signature on a document as it stands, or null if it no
+    // longer can be: a new version replaced the one signed, or the envelope
+    // moved on while the signature was being made
+    const applySignature = (doc: Document): { doc: Document; completed: boolean } | null => {
+      if (getLatestVersion(doc)?.id !== version.id) return null;
+      const active = getActiveEnvelope(doc);
+      if (envelope && isEnvelopeSigner && (active?.id !== envelope.id || getSigningBlocker(active, user.id))) return null;
+
+      const updatedEnvelope = active && isEnvelopeSigner
+        ? recordSignature(active, user, newSignature.id, signedAt)
+        : undefined;
+      const completed = updatedEnvelope?.status === 'completed';
+      return {
+        completed,
+        doc: {
+          ...doc,
+          signatures: [...(doc.signatures || []), newSignature],
+          envelopes: updatedEnvelope ? doc.envelopes?.map(e => e.id === updatedEnvelope.id ? updatedEnvelope : e) : doc.envelopes,
+          // Published only once every required signature is in
+          ...(completed ? { status: 'published' as DocumentStatus, needsSignature: false } : {}),
+          updatedAt: signedAt,
+        },
+      };
     };
-    
-    const newDocuments = [...documents];
-    newDocuments[docIndex] = updatedDoc;
-    
-    setDocuments(newDocuments);
-    setFilteredDocuments(getAccessibleDocuments(newDocuments, user));
+
+    // Signing awaited above, so check against the latest documents
+    const latestDoc = documentsRef.current.find(d => d.id === docId);
+    const outcome = latestDoc && applySignature(latestDoc);
+    if (!outcome) {
+      toast({
+        title: "Document changed",
+        description: `${currentDoc.title} changed while you were signing; open it again to sign the current version`,
+        variant: "destructive",
+      });
+      return false;
+    }
+    const { completed } = outcome;
+
+    setDocuments(prev => prev.map(d => d.id === docId ? applySignature(d)?.doc || d : d));
     
     toast({
-      title: "Signature added",
-      description: `Signature has been added to ${updatedDoc.title}.`,
+      title: completed ? "All signatures collected" : "Signature added",
+      description: completed
+        ? `Version ${version.version} of ${currentDoc.title} is signed by everyone required and is now published.`
+        : `Version ${version.version} of ${currentDoc.title} has been signed.`,
     });
     
     return true;
   };
 
-  // Request a signature for a document
-  const requestSignature = (docId: string, userIds: string[]) => {
+  // Send a document to signers in an envelope
+  const createSigningEnvelope = (
+    docId: string,
+    signers: NewEnvelopeSigner[],
+    options: { order: SigningOrder; message?: string }
+  ): boolean => {
     if (!user) {
       toast({
         title: "Authentication required",
         description: "You must be logged in to request signatures",
         variant: "destructive",
       });
-      return;
+      return false;
     }
 
-    const docIndex = documents.findIndex(d => d.id === docId);
-    
-    if (docIndex === -1) {
+    const currentDoc = documents.find(d => d.id === docId);
+    if (!currentDoc) {
       toast({
         title: "Document not found",
         description: "The document you are trying to request signatures for does not exist",
         variant: "destructive",
       });
-      return;
+      return false;
     }
 
-    const currentDoc = documents[docIndex];
-    
-    // Check if user has permission to request signatures
-    const canRequest = user.role === 'admin' || 
-                      currentDoc.createdBy === user.id || 
-                      (user.role === 'department_head' && currentDoc.department === user.department);
-    
-    if (!canRequest) {
+    if (!canManageSignatures(currentDoc, user)) {
       toast({
         title: "Permission denied",
         description: "You don't have permission to request signatures for this document",
         variant: "destructive",
       });
-      return;
+      return false;
     }
-    
-    // Add signature requests
+
+    if (currentDoc.status === 'archived') {
+      toast({
+        title: "Document archived",
+        description: "Archived documents can't be sent for signature",
+        variant: "destructive",
+      });
+      return false;
+    }
+
+    if (getActiveEnvelope(currentDoc)) {
+      toast({
+        title: "Already out for signature",
+        description: "Cancel the current signing envelope before sending a new one",
+        variant: "destructive",
+      });
+      return false;
+    }
+
+    const problem = validateEnvelope(signers);
+    if (problem) {
+      toast({
+        title: "Can't send for signature",
+        description: problem,
+        variant: "destructive",
+      });
+      return false;
+    }
+
+    const envelope = createEnvelope(signers, options, user);
+    // The document goes back to draft until every required signature is in
     const updatedDoc: Document = {
       ...currentDoc,
+      status: 'draft',
       needsSignature: true,
-      signatureRequests: [
-        ...(currentDoc.signatureRequests || []),
-        ...userIds.map(userId => ({
-          id: uuidv4(),
-          userId: userId,
-          requestedAt: new Date().toISOString(),
-          status: 'pending' as 'pending' | 'completed' | 'rejected'
-        }))
-      ],
-      updatedAt: new Date().toISOString(),
+      envelopes: [...(currentDoc.envelopes || []), envelope],
+      updatedAt: envelope.createdAt,
     };
-    
+
     setDocuments(prev => prev.map(d => d.id === docId ? updatedDoc : d));
-    
+
     toast({
-      title: "Signature requests sent",
-      description: `Signature requests have been sent to ${userIds.length} user(s)`,
+      title: "Sent for signature",
+      description: options.order === 'sequential'
+        ? `${signers[0].userName} has been asked to sign first`
+        : `Signature requests have been sent to ${signers.length} ${signers.length === 1 ? 'person' : 'people'}`,
     });
+    return true;
   };
 
+  // Request a signature for a document
+  const requestSignature = (docId: string, userIds: string[]) => {
+    createSigningEnvelope(
+      docId,
+      userIds.map(userId => ({
+        userId,
+        userName: getUserAccounts().find(account => account.id === userId)?.name || userId,
+        required: true,
+      })),
+      { order: 'parallel' }
+    );
+  };
+
+  // The signed-in user declines to sign
+  const declineSignature = (docId: string, reason: string): boolean => {
+    if (!user) return false;
+
+    const currentDoc = documents.find(d => d.id === docId);
+    const envelope = currentDoc && getActiveEnvelope(currentDoc);
+    if (!currentDoc || !envelope) return false;
+
+    const blocker = getSigningBlocker(envelope, user.id);
+    if (blocker) {
+      toast({
+        title: "Can't decline",
+        description: blocker,
+        variant: "destructive",
+      });
+      return false;
+    }
+
+    if (!reason.trim()) {
+      toast({
+        title: "Reason required",
+        description: "Let the sender know why you're declining",
+        variant: "destructive",
+      });
+      return false;
+    }
+
+    const updatedEnvelope = recordDecline(envelope, user, reason.trim());
+    const stopped = updatedEnvelope.status === 'declined';
+    const completed = updatedEnvelope.status === 'completed';
+
+    setDocuments(prev => prev.map(d => d.id === docId
+      ? {
+          ...d,
+          envelopes: d.envelopes?.map(e => e.id === envelope.id ? updatedEnvelope : e),
+          needsSignature: !stopped && !completed,
+          ...(completed ? { status: 'published' as DocumentStatus } : {}),
+          updatedAt: new Date().toISOString(),
+        }
+      : d
+    ));
+
+    toast({
+      title: "Signature declined",
+      description: stopped
+        ? `${currentDoc.title} won't be published until it's sent for signature again`
+        : `${currentDoc.title} will go ahead without your signature`,
+    });
+    return true;
+  };
+
+  // Stop collecting signatures; the document stays a draft
+  const cancelSigningEnvelope = (docId: string): boolean => {
+    if (!user) return false;
+
+    const currentDoc = documents.find(d => d.id === docId);
+    const envelope = currentDoc && getActiveEnvelope(currentDoc);
+    if (!currentDoc || !envelope) return false;
+
+    if (envelope.createdBy !== user.id && !canManageSignatures(currentDoc, user)) {
+      toast({
+        title: "Permission denied",
+        description: "Only the sender or the document's owners can cancel a signing envelope",
+        variant: "destructive",
+      });
+      return false;
+    }
+
+    setDocuments(prev => prev.map(d => d.id === docId
+      ? {
+          ...d,
+          envelopes: d.envelopes?.map(e => e.id === envelope.id ? cancelEnvelope(envelope, user) : e),
+          needsSignature: false,
+          updatedAt: new Date().toISOString(),
+        }
+      : d
+    ));
+
+    toast({
+      title: "Signing cancelled",
+      description: `${currentDoc.title} is no longer out for signature`,
+    });
+    return true;
+  };
+
+  const canRequestSignatures = (docId: string): boolean => {
+    const doc = documents.find(d => d.id === docId);
+    return !!doc && !!user && canManageSignatures(doc, user);
+  };
+
+  // Record reminders for signers whose deadline is near or past; the
+  // notifier passes them on to the signers
+  const sendSigningReminders = () => {
+    const now = new Date();
+    setDocuments(prev => {
+      let changed = false;
+      const next = prev.map(doc => {
+        const envelope = getActiveEnvelope(doc);
+        const due = envelope ? getDueReminders(envelope, now) : [];
+        if (!envelope || due.length === 0) return doc;
+        changed = true;
+        const reminded = due.reduce((env, { userId, reminder }) => recordReminder(env, userId, reminder, now.toISOString()), envelope);
+        return { ...doc, envelopes: doc.envelopes?.map(e => e.id === envelope.id ? reminded : e) };
+      });
+      return changed ? next : prev;
+    });
+  };
+
+  const sendSigningRemindersRef = useRef(sendSigningReminders);
+  sendSigningRemindersRef.current = sendSigningReminders;
+
+  useEffect(() => {
+    sendSigningRemindersRef.current();
+    const timer = setInterval(() => sendSigningRemindersRef.current(), REMINDER_CHECK_INTERVAL);
+    return () => clearInterval(timer);
+  }, []);
+
   // Verify a signature
   const verifySignature = async (docId: string, signatureId: string): Promise<boolean> => {
     const doc = documents.find(d => d.id === docId);
@@ -990,64 +1681,57 @@ export const DocumentProvider: React.FC<{ children: ReactNode }> = ({ children }
       return false;
     }
 
-    // Simulate verification process
-    // In a real app, this would use cryptographic verification
-    return new Promise((resolve) => {
-      setTimeout(() => {
-        // Update the signature's verified status
-        setDocuments(prev => prev.map(d => {
-          if (d.id === docId) {
-            return {
-              ...d,
-              signatures: d.signatures?.map(s => {
-                if (s.id === signatureId) {
-                  return { ...s, verified: true };
-                }
-                return s;
-              }),
-            };
-          }
-          return d;
-        }));
-        
-        toast({
-          title: "Signature verified",
-          description: "The digital signature has been verified successfully",
-        });
-        
-        resolve(true);
-      }, 1000); // Simulate network delay
+    // Checked against the signer's registered key, not the one the signature carries
+    const status = await checkSignature(doc, signature, certificates[signature.userId]);
+    const lastCheck: SignatureCheck = { status, checkedAt: new Date().toISOString() };
+    const verified = status === 'valid';
+
+    setDocuments(prev => prev.map(d => d.id === docId
+      ? { ...d, signatures: d.signatures?.map(s => s.id === signatureId ? { ...s, verified, lastCheck } : s) }
+      : d
+    ));
+
+    toast({
+      title: verified ? "Signature verified" : "Signature verification failed",
+      description: SIGNATURE_CHECK_LABELS[status],
+      variant: verified ? "default" : "destructive",
     });
+
+    return verified;
   };
 
   // Get signature requests for a document
   const getSignatureRequests = (documentId: string): SignatureRequest[] => {
-    const { user } = useAuth();
     if (!user) return [];
 
     const doc = documents.find(d => d.id === documentId);
-    if (!doc || !doc.signatureRequests || doc.signatureRequests.length === 0) {
-      return [];
-    }
+    if (!doc) return [];
 
-    // Transform the document's signatureRequests into the required format
-    const requests: SignatureRequest[] = doc.signatureRequests.map(request => {
-      // In a real app, you would fetch user details from a user store
-      const userName = `User ${request.userId.slice(0, 4)}`; // Placeholder
-      
-      return {
-        id: request.id,
+    const envelope = getCurrentEnvelope(doc);
+    if (envelope) {
+      return envelope.signers.map(signer => ({
+        id: `${envelope.id}-${signer.userId}`,
         documentId: doc.id,
-        requestedBy: doc.createdBy,
-        requestedFrom: request.userId,
-        requestedFromName: userName,
-        requestedAt: request.requestedAt,
-        status: request.status,
-        isCurrentUser: request.userId === user.id
-      };
-    });
+        requestedBy: envelope.createdBy,
+        requestedFrom: signer.userId,
+        requestedFromName: signer.userName,
+        requestedAt: signer.sentAt || envelope.createdAt,
+        status: signer.status === 'signed' ? 'completed' : signer.status === 'declined' ? 'rejected' : 'pending',
+        isCurrentUser: signer.userId === user.id,
+      }));
+    }
 
-    return requests;
+    // Requests made before envelopes
+    return (doc.signatureRequests || []).map(request => ({
+      id: request.id,
+      documentId: doc.id,
+      requestedBy: doc.createdBy,
+      requestedFrom: request.userId,
+      requestedFromName: getUserAccounts().find(account => account.id === request.userId)?.name || request.userId,
+      requestedAt: request.requestedAt,
+      status: request.status,
+      isCurrentUser: request.userId === user.id,
+    }));
   };
 
   useEffect(() => {
@@ -1068,16 +1752,30 @@ export const DocumentProvider: React.FC<{ children: ReactNode }> = ({ children }
     deleteDocument,
     getDocumentById,
     addDocumentVersion,
+    restoreDocumentVersion,
     addTag,
     deleteTag,
     filterDocuments,
+    searchDocuments,
     toggleFavorite,
     downloadDocument,
     shareDocument,
     signDocument,
     requestSignature,
+    createSigningEnvelope,
+    declineSignature,
+    cancelSigningEnvelope,
+    canRequestSignatures,
     verifySignature,
     getSignatureRequests,
+    getSigningCertificate,
+    retentionPolicies,
+    addRetentionPolicy,
+    deleteRetentionPolicy,
+    placeLegalHold,
+    releaseLegalHold,
+    getRetentionReport,
+    applyRetentionPolicies,
   };
 
   return (
@@ -1,14 +1,63 @@
-import React, { createContext, useState, useContext, ReactNode } from 'react';
+import React, { createContext, useState, useContext, useEffect, useRef, ReactNode } from 'react';
 import { v4 as uuidv4 } from 'uuid';
 import { format } from 'date-fns';
 import { useAuth } from './AuthProvider';
 import { useAudit } from './AuditProvider';
+import { useDepartments } from './DepartmentsProvider';
 import { toast } from "@/hooks/use-toast";
+import { findSlaPolicy, getGrievanceSlaStatus, getUnrecordedBreaches, GrievanceSlaStatus, SLA_TARGET_LABELS } from "@/lib/grievanceSla";
+import {
+  ANONYMOUS_SUBMITTER,
+  ANONYMOUS_SUBMITTER_NAME,
+  generateCaseToken,
+  getPublicCaseView,
+  hashCaseToken,
+  PublicCaseView,
+} from "@/lib/anonymousGrievances";
+import { canViewPii, describePiiTypes, RedactedText, redactPii } from "@/lib/grievancePii";
+import { buildGrievanceCaseFile, CaseFileFormat, CaseFileOptions, downloadCaseFile } from "@/lib/grievanceCaseFile";
+import { AssignmentConflict, canOverrideConflicts, findAssignmentConflicts, InvolvedParty } from "@/lib/grievanceConflicts";
+import { describeRoutingTarget, routeGrievance, RoutingDecision, RoutingRule, RoutingTeam } from "@/lib/grievanceRouting";
+import { CLOSED_GRIEVANCE_STATUSES, findSimilarGrievances as findSimilarTo, GrievanceDraft, SimilarGrievance } from "@/lib/grievanceSimilarity";
+import { getCurrentSurvey, getReopenDeadline, isGrievanceSubmitter, MAX_RATING, MIN_RATING } from "@/lib/grievanceSurveys";
+import {
+  getAvailableTransitions as getTransitionsFor,
+  GRIEVANCE_STATUS_LABELS,
+  GrievanceTransition,
+  REVIEWER_ROLES,
+  SENIOR_REVIEWER_ROLES,
+  TransitionActor,
+  TransitionInput,
+  validateTransition,
+} from "@/lib/grievanceWorkflow";
 
 // Define types
-export type GrievanceStatus = 'pending' | 'in-review' | 'escalated' | 'resolved' | 'rejected';
+export type GrievanceStatus = 'pending' | 'in-review' | 'escalated' | 'resolved' | 'rejected' | 'reopened' | 'merged';
 export type GrievancePriority = 'low' | 'medium' | 'high' | 'critical';
 export type GrievanceCategory = 'hr' | 'technical' | 'management' | 'financial' | 'infrastructure' | 'other';
+export type SlaTarget = 'first-response' | 'resolution';
+
+// Working hours SLA clocks run in
+export interface BusinessCalendar {
+  id: string;
+  name: string;
+  workingDays: number[]; // 0 = Sunday ... 6 = Saturday
+  startHour: number;
+  endHour: number; // 24 for end of day
+  holidays: string[]; // yyyy-MM-dd
+}
+
+// Response and resolution targets for a category/priority combination;
+// 'any' matches every value
+export interface SlaPolicy {
+  id: string;
+  name: string;
+  category: GrievanceCategory | 'any';
+  priority: GrievancePriority | 'any';
+  firstResponseHours: number; // business hours
+  resolutionHours: number; // business hours
+  calendarId: string;
+}
 
 export interface StatusUpdate {
   id: string;
@@ -17,12 +66,76 @@ export interface StatusUpdate {
   comment: string;
   updatedBy: string;
   updatedByName: string;
+  routingRuleId?: string; // routing rule that made this change
+}
+
+// An assignment made despite a conflict of interest
+export interface ConflictOverride {
+  id: string;
+  timestamp: string;
+  assignedTo: string;
+  assignedToName: string;
+  conflicts: string[];
+  justification: string;
+  overriddenBy: string;
+  overriddenByName: string;
+}
+
+// Someone else affected by the same issue who joined the case instead of filing their own
+export interface CoSubmitter {
+  id: string;
+  name: string;
+  joinedAt: string;
+}
+
+// A duplicate folded into this grievance, with the history it had up to the merge
+export interface MergedDuplicate {
+  grievanceId: string;
+  title: string;
+  submittedBy: string;
+  submittedByName: string;
+  mergedAt: string;
+  mergedBy: string;
+  mergedByName: string;
+  statusHistory: StatusUpdate[];
+}
+
+// A submitter's rating of a resolution
+export interface SurveyResponse {
+  userId: string;
+  userName: string;
+  rating: number; // 1 to 5
+  feedback?: string;
+  respondedAt: string;
+  reopened: boolean; // the submitter sent the case back because the fix didn't work
+}
+
+// Sent to the submitters each time a grievance is resolved
+export interface SatisfactionSurvey {
+  id: string;
+  requestedAt: string;
+  reopenUntil: string; // submitters can send the case back to review until then
+  handlerId?: string; // who resolved it, and who gets it back if reopened
+  handlerName?: string;
+  responses: SurveyResponse[];
+}
+
+export interface GrievanceComment {
+  id: string;
+  text: string;
+  createdBy: string;
+  createdByName: string;
+  createdAt: string;
+  isInternal: boolean;
+  mergedFrom?: string; // duplicate grievance the comment was first posted on
+  pii?: RedactedText; // text is masked; the original is only revealed to authorised handlers
 }
 
 export interface Grievance {
   id: string;
   title: string;
-  description: string;
+  description: string; // personal details are masked when submitted
+  descriptionPii?: RedactedText; // the unmasked description, for authorised handlers only
   category: GrievanceCategory;
   department: string;
   status: GrievanceStatus;
@@ -31,36 +144,214 @@ export interface Grievance {
   createdByName: string;
   assignedTo?: string;
   assignedToName?: string;
+  queue?: string; // waiting to be claimed from this queue
+  involvedParties?: InvolvedParty[]; // people the grievance is about, who can't handle it
+  conflictOverrides?: ConflictOverride[];
   createdAt: string;
   updatedAt: string;
   dueDate?: string;
   isAnonymous: boolean;
+  caseTokenHash?: string; // anonymous grievances: SHA-256 of the submitter's case token
   attachments?: string[];
   statusHistory: StatusUpdate[];
-  comments: {
-    id: string;
-    text: string;
-    createdBy: string;
-    createdByName: string;
-    createdAt: string;
-    isInternal: boolean;
-  }[];
+  resolution?: string; // set when resolved, cleared on reopening
+  rejectionReason?: string; // set when rejected, cleared on reopening
+  slaBreaches?: SlaTarget[]; // targets already escalated for breaching
+  relatedIds?: string[]; // linked both ways
+  coSubmitters?: CoSubmitter[];
+  mergedInto?: string; // set on a duplicate once merged
+  mergedDuplicates?: MergedDuplicate[];
+  satisfactionSurveys?: SatisfactionSurvey[]; // one per resolution, oldest first
+  comments: GrievanceComment[];
 }
 
+export type NewGrievance = Omit<Grievance, 'id' | 'createdAt' | 'updatedAt' | 'statusHistory' | 'comments'>;
+export type NewAnonymousGrievance = Omit<NewGrievance, 'createdBy' | 'createdByName' | 'isAnonymous' | 'caseTokenHash'>;
+
 interface GrievanceContextType {
   grievances: Grievance[];
-  addGrievance: (grievance: Omit<Grievance, 'id' | 'createdAt' | 'updatedAt' | 'statusHistory' | 'comments'>) => Grievance;
-  updateGrievanceStatus: (id: string, status: GrievanceStatus, comment: string) => boolean;
-  assignGrievance: (id: string, assignedTo: string, assignedToName: string) => boolean;
+  addGrievance: (grievance: NewGrievance) => Grievance;
+  addAnonymousGrievance: (grievance: NewAnonymousGrievance) => Promise<{ grievance: Grievance; caseToken: string }>;
+  findCaseByToken: (caseToken: string) => Promise<PublicCaseView | undefined>;
+  addAnonymousReply: (caseToken: string, text: string) => Promise<boolean>;
+  updateGrievanceStatus: (id: string, status: GrievanceStatus, comment: string, details?: Omit<TransitionInput, 'comment'>) => boolean;
+  assignGrievance: (id: string, assignedTo: string, assignedToName: string, overrideJustification?: string) => boolean;
+  getAssignmentConflicts: (grievance: Grievance, candidate: { id: string; name: string }) => AssignmentConflict[];
   addComment: (id: string, text: string, isInternal: boolean) => boolean;
-  escalateGrievance: (id: string, reason: string) => boolean;
+  escalateGrievance: (id: string, reason: string, options?: EscalationOptions) => boolean;
   resolveGrievance: (id: string, resolution: string) => boolean;
   getGrievanceById: (id: string) => Grievance | undefined;
   getGrievancesByUser: (userId: string) => Grievance[];
   getGrievancesByDepartment: (department: string) => Grievance[];
   getGrievancesByStatus: (status: GrievanceStatus) => Grievance[];
+  getAvailableTransitions: (grievance: Grievance) => GrievanceTransition[];
+  findSimilarGrievances: (draft: GrievanceDraft, excludeId?: string) => SimilarGrievance[];
+  joinGrievance: (id: string, note?: string) => boolean;
+  linkGrievances: (id: string, relatedId: string) => boolean;
+  unlinkGrievances: (id: string, relatedId: string) => boolean;
+  mergeGrievances: (duplicateId: string, targetId: string) => boolean;
+  respondToSurvey: (id: string, response: { rating: number; feedback?: string; reopen?: boolean }) => boolean;
+  exportCaseFile: (id: string, fileFormat: CaseFileFormat, options: CaseFileOptions) => boolean;
+  revealPii: (id: string, commentId?: string) => string | null;
+  slaPolicies: SlaPolicy[];
+  businessCalendars: BusinessCalendar[];
+  addSlaPolicy: (policy: Omit<SlaPolicy, 'id'>) => void;
+  updateSlaPolicy: (id: string, updates: Partial<SlaPolicy>) => void;
+  deleteSlaPolicy: (id: string) => void;
+  getGrievanceSla: (grievance: Grievance) => GrievanceSlaStatus | null;
+  routingRules: RoutingRule[];
+  routingTeams: RoutingTeam[];
+  addRoutingRule: (rule: Omit<RoutingRule, 'id'>) => void;
+  updateRoutingRule: (id: string, updates: Partial<RoutingRule>) => void;
+  deleteRoutingRule: (id: string) => void;
+  moveRoutingRule: (id: string, direction: 'up' | 'down') => void;
+  rerouteGrievance: (id: string) => boolean;
 }
 
+interface EscalationOptions {
+  system?: boolean; // raised automatically rather than by the current user
+  slaBreaches?: SlaTarget[]; // SLA targets this escalation is for
+}
+
+// Audit entries for anonymous submitters aren't attributed to whoever is signed in
+const ANONYMOUS_ACTOR = { id: ANONYMOUS_SUBMITTER, name: ANONYMOUS_SUBMITTER_NAME };
+
+// Routing decisions are made by the system, not whoever submitted the grievance
+const ROUTING_ACTOR = { id: 'system', name: 'Routing Engine' };
+
+// How often open grievances are checked against their SLAs
+const SLA_CHECK_INTERVAL = 60000;
+
+const INITIAL_BUSINESS_CALENDARS: BusinessCalendar[] = [
+  {
+    id: 'standard',
+    name: 'Standard office hours (Mon–Fri, 9:00–17:00)',
+    workingDays: [1, 2, 3, 4, 5],
+    startHour: 9,
+    endHour: 17,
+    holidays: []
+  },
+  {
+    id: 'always',
+    name: 'Around the clock (24/7)',
+    workingDays: [0, 1, 2, 3, 4, 5, 6],
+    startHour: 0,
+    endHour: 24,
+    holidays: []
+  }
+];
+
+const INITIAL_SLA_POLICIES: SlaPolicy[] = [
+  {
+    id: 'sla-critical',
+    name: 'Critical',
+    category: 'any',
+    priority: 'critical',
+    firstResponseHours: 1,
+    resolutionHours: 24,
+    calendarId: 'always'
+  },
+  {
+    id: 'sla-high',
+    name: 'High priority',
+    category: 'any',
+    priority: 'high',
+    firstResponseHours: 4,
+    resolutionHours: 40,
+    calendarId: 'standard'
+  },
+  {
+    id: 'sla-hr-high',
+    name: 'High priority HR',
+    category: 'hr',
+    priority: 'high',
+    firstResponseHours: 2,
+    resolutionHours: 24,
+    calendarId: 'standard'
+  },
+  {
+    id: 'sla-medium',
+    name: 'Medium priority',
+    category: 'any',
+    priority: 'medium',
+    firstResponseHours: 8,
+    resolutionHours: 80,
+    calendarId: 'standard'
+  },
+  {
+    id: 'sla-default',
+    name: 'Default',
+    category: 'any',
+    priority: 'any',
+    firstResponseHours: 16,
+    resolutionHours: 160,
+    calendarId: 'standard'
+  }
+];
+
+const INITIAL_ROUTING_TEAMS: RoutingTeam[] = [
+  {
+    id: 'people-team',
+    name: 'People & Culture',
+    members: [
+      { id: 'user2', name: 'Department Head' },
+      { id: 'user3', name: 'Manager User' }
+    ]
+  },
+  {
+    id: 'operations-team',
+    name: 'Operations',
+    members: [
+      { id: 'user3', name: 'Manager User' },
+      { id: 'user1', name: 'Admin User' }
+    ]
+  }
+];
+
+// Tried in order; fallback rules only when nothing else matched
+const INITIAL_ROUTING_RULES: RoutingRule[] = [
+  {
+    id: 'route-conduct',
+    name: 'Harassment and misconduct',
+    enabled: true,
+    isFallback: false,
+    conditions: { keywords: ['harassment', 'harassed', 'inappropriate', 'discrimination', 'bullying', 'retaliation'] },
+    target: { type: 'user', userId: 'user1', userName: 'Admin User' }
+  },
+  {
+    id: 'route-hr',
+    name: 'HR matters',
+    enabled: true,
+    isFallback: false,
+    conditions: { categories: ['hr', 'management'] },
+    target: { type: 'team', teamId: 'people-team' }
+  },
+  {
+    id: 'route-urgent-technical',
+    name: 'Urgent technical issues',
+    enabled: true,
+    isFallback: false,
+    conditions: { categories: ['technical', 'infrastructure'], priorities: ['high', 'critical'] },
+    target: { type: 'team', teamId: 'operations-team' }
+  },
+  {
+    id: 'route-finance',
+    name: 'Finance',
+    enabled: true,
+    isFallback: false,
+    conditions: { categories: ['financial'] },
+    target: { type: 'queue', queue: 'Finance' }
+  },
+  {
+    id: 'route-intake',
+    name: 'General intake',
+    enabled: true,
+    isFallback: true,
+    conditions: {},
+    target: { type: 'queue', queue: 'General intake' }
+  }
+];
+
 // Sample initial grievances for demonstration
 const INITIAL_GRIEVANCES: Grievance[] = [
   {
@@ -124,22 +415,24 @@ const INITIAL_GRIEVANCES: Grievance[] = [
     department: 'Development',
     status: 'escalated',
     priority: 'critical',
-    createdBy: 'user4',
-    createdByName: 'Employee User',
+    createdBy: ANONYMOUS_SUBMITTER,
+    createdByName: ANONYMOUS_SUBMITTER_NAME,
     assignedTo: 'user1',
     assignedToName: 'Admin User',
     createdAt: new Date(Date.now() - 3600000 * 120).toISOString(),
     updatedAt: new Date(Date.now() - 3600000 * 12).toISOString(),
     dueDate: new Date(Date.now() + 3600000 * 24).toISOString(),
+    involvedParties: [{ id: 'dev-2', name: 'Emma Davis' }],
     isAnonymous: true,
+    slaBreaches: ['resolution'],
     statusHistory: [
       {
         id: 'sh3',
         timestamp: new Date(Date.now() - 3600000 * 120).toISOString(),
         status: 'pending',
         comment: 'Grievance submitted',
-        updatedBy: 'user4',
-        updatedByName: 'Anonymous'
+        updatedBy: ANONYMOUS_SUBMITTER,
+        updatedByName: ANONYMOUS_SUBMITTER_NAME
       },
       {
         id: 'sh4',
@@ -192,6 +485,17 @@ const INITIAL_GRIEVANCES: Grievance[] = [
     createdAt: new Date(Date.now() - 3600000 * 168).toISOString(),
     updatedAt: new Date(Date.now() - 3600000 * 4).toISOString(),
     isAnonymous: false,
+    resolution: 'Reimbursement processed and payment initiated',
+    satisfactionSurveys: [
+      {
+        id: 'survey1',
+        requestedAt: new Date(Date.now() - 3600000 * 4).toISOString(),
+        reopenUntil: new Date(Date.now() - 3600000 * 4 + 86400000 * 7).toISOString(),
+        handlerId: 'user2',
+        handlerName: 'Department Head',
+        responses: []
+      }
+    ],
     statusHistory: [
       {
         id: 'sh6',
@@ -241,13 +545,218 @@ const INITIAL_GRIEVANCES: Grievance[] = [
 
 const GrievanceContext = createContext<GrievanceContextType | undefined>(undefined);
 
+const GRIEVANCES_STORAGE_KEY = 'grievances';
+const GRIEVANCES_VERSION_KEY = 'grievances_version';
+// Bump when the stored grievance shape changes and add a step to
+// migrateStoredGrievances
+const GRIEVANCES_STORAGE_VERSION = 1;
+
+// Upgrade grievances saved by older versions of the app. Version 1 is the
+// first stored shape, so there are no steps yet; add each one as
+// `if (version < N)` like migrateStoredTasks does.
+const migrateStoredGrievances = (stored: Grievance[], version: number): Grievance[] => {
+  const migrated = stored;
+  return migrated;
+};
+
+// Load grievances from localStorage, so anonymous case tokens keep working
+// across reloads and tabs, falling back to the sample data. Saves from a
+// newer version of the app can't be read; they're copied to a backup key
+// before the sample data replaces them.
+const loadStoredGrievances = (): Grievance[] => {
+  try {
+    const savedGrievances = localStorage.getItem(GRIEVANCES_STORAGE_KEY);
+    if (!savedGrievances) return INITIAL_GRIEVANCES;
+
+    const version = parseInt(localStorage.getItem(GRIEVANCES_VERSION_KEY) || '1', 10);
+    if (version > GRIEVANCES_STORAGE_VERSION) {
+      localStorage.setItem(`${GRIEVANCES_STORAGE_KEY}_backup_v${version}`, savedGrievances);
+      return INITIAL_GRIEVANCES;
+    }
+    return migrateStoredGrievances(JSON.parse(savedGrievances), version);
+  } catch (error) {
+    console.error('Error loading grievances from localStorage:', error);
+    return INITIAL_GRIEVANCES;
+  }
+};
+
+const SLA_POLICIES_STORAGE_KEY = 'grievance_sla_policies';
+
+// Load SLA policies from localStorage
+const loadStoredSlaPolicies = (): SlaPolicy[] => {
+  try {
+    const savedPolicies = localStorage.getItem(SLA_POLICIES_STORAGE_KEY);
+    return savedPolicies ? JSON.parse(savedPolicies) : INITIAL_SLA_POLICIES;
+  } catch (error) {
+    console.error('Error loading SLA policies from localStorage:', error);
+    return INITIAL_SLA_POLICIES;
+  }
+};
+
+const ROUTING_RULES_STORAGE_KEY = 'grievance_routing_rules';
+const ROUTING_CURSORS_STORAGE_KEY = 'grievance_routing_cursors';
+
+// Load routing rules from localStorage
+const loadStoredRoutingRules = (): RoutingRule[] => {
+  try {
+    const savedRules = localStorage.getItem(ROUTING_RULES_STORAGE_KEY);
+    return savedRules ? JSON.parse(savedRules) : INITIAL_ROUTING_RULES;
+  } catch (error) {
+    console.error('Error loading routing rules from localStorage:', error);
+    return INITIAL_ROUTING_RULES;
+  }
+};
+
+// Load round-robin positions from localStorage
+const loadStoredRoutingCursors = (): Record<string, number> => {
+  try {
+    const savedCursors = localStorage.getItem(ROUTING_CURSORS_STORAGE_KEY);
+    return savedCursors ? JSON.parse(savedCursors) : {};
+  } catch (error) {
+    console.error('Error loading routing cursors from localStorage:', error);
+    return {};
+  }
+};
+
 export const GrievanceProvider: React.FC<{children: ReactNode}> = ({ children }) => {
-  const [grievances, setGrievances] = useState<Grievance[]>(INITIAL_GRIEVANCES);
+  const [grievances, setGrievances] = useState<Grievance[]>(loadStoredGrievances);
+  const [slaPolicies, setSlaPolicies] = useState<SlaPolicy[]>(loadStoredSlaPolicies);
+  const [businessCalendars] = useState<BusinessCalendar[]>(INITIAL_BUSINESS_CALENDARS);
+  const [routingRules, setRoutingRules] = useState<RoutingRule[]>(loadStoredRoutingRules);
+  const [routingTeams] = useState<RoutingTeam[]>(INITIAL_ROUTING_TEAMS);
+  // Last member given a grievance in each team, for round-robin
+  const [storedRoutingCursors] = useState(loadStoredRoutingCursors);
+  const routingCursors = useRef<Record<string, number>>(storedRoutingCursors);
   const { user } = useAuth();
-  const { addAuditLog } = useAudit();
+  const { logs, addAuditLog } = useAudit();
+  const { departments } = useDepartments();
+
+  // Token lookups finish after an await, so read the latest grievances from a ref
+  const grievancesRef = useRef(grievances);
+  grievancesRef.current = grievances;
+
+  // Save grievances to localStorage whenever they change
+  useEffect(() => {
+    try {
+      localStorage.setItem(GRIEVANCES_STORAGE_KEY, JSON.stringify(grievances));
+      localStorage.setItem(GRIEVANCES_VERSION_KEY, String(GRIEVANCES_STORAGE_VERSION));
+    } catch (error) {
+      console.error('Error saving grievances to localStorage:', error);
+    }
+  }, [grievances]);
+
+  // Save SLA policies to localStorage whenever they change
+  useEffect(() => {
+    try {
+      localStorage.setItem(SLA_POLICIES_STORAGE_KEY, JSON.stringify(slaPolicies));
+    } catch (error) {
+      console.error('Error saving SLA policies to localStorage:', error);
+    }
+  }, [slaPolicies]);
+
+  // Save routing rules to localStorage whenever they change
+  useEffect(() => {
+    try {
+      localStorage.setItem(ROUTING_RULES_STORAGE_KEY, JSON.stringify(routingRules));
+    } catch (error) {
+      console.error('Error saving routing rules to localStorage:', error);
+    }
+  }, [routingRules]);
+
+  // Pick up grievances saved in other tabs, such as a case submitted
+  // anonymously while the case status page is already open
+  useEffect(() => {
+    const handleStorage = (event: StorageEvent) => {
+      if (event.key === GRIEVANCES_STORAGE_KEY) setGrievances(loadStoredGrievances());
+    };
+    window.addEventListener('storage', handleStorage);
+    return () => window.removeEventListener('storage', handleStorage);
+  }, []);
+
+  // SLA status for a grievance under its matching policy
+  const getGrievanceSla = (grievance: Grievance): GrievanceSlaStatus | null => {
+    const policy = findSlaPolicy(slaPolicies, grievance);
+    const calendar = policy && businessCalendars.find(c => c.id === policy.calendarId);
+    if (!policy || !calendar) return null;
+    return getGrievanceSlaStatus(grievance, policy, calendar);
+  };
+
+  // Reasons a person shouldn't handle a grievance
+  const getAssignmentConflicts = (grievance: Grievance, candidate: { id: string; name: string }): AssignmentConflict[] => {
+    return findAssignmentConflicts(candidate, grievance.involvedParties || [], departments);
+  };
+
+  // Assign or queue a grievance as the routing decision says, recording the
+  // rule that fired in its status history
+  const applyRouting = (grievance: Grievance, decision: RoutingDecision): Grievance => {
+    const now = new Date().toISOString();
+    const destination = decision.assignee
+      ? decision.assignee.name
+      : `the ${decision.queue} queue`;
+
+    if (decision.nextCursor) {
+      routingCursors.current[decision.nextCursor.teamId] = decision.nextCursor.index;
+      // The cursors live in a ref, so save them as they move
+      try {
+        localStorage.setItem(ROUTING_CURSORS_STORAGE_KEY, JSON.stringify(routingCursors.current));
+      } catch (error) {
+        console.error('Error saving routing cursors to localStorage:', error);
+      }
+    }
+
+    const routed: Grievance = {
+      ...grievance,
+      assignedTo: decision.assignee?.id,
+      assignedToName: decision.assignee?.name,
+      queue: decision.queue,
+      updatedAt: now,
+      statusHistory: [
+        ...grievance.statusHistory,
+        {
+          id: uuidv4(),
+          timestamp: now,
+          status: grievance.status,
+          comment: `Routed to ${destination} by rule "${decision.rule.name}" (${decision.reason})`,
+          updatedBy: ROUTING_ACTOR.id,
+          updatedByName: ROUTING_ACTOR.name,
+          routingRuleId: decision.rule.id
+        }
+      ]
+    };
+
+    addAuditLog(
+      'assign',
+      'grievance',
+      grievance.id,
+      grievance.title,
+      `Routed to ${destination} by rule "${decision.rule.name}"`,
+      [
+        { field: 'assignedTo', oldValue: grievance.assignedToName || 'None', newValue: decision.assignee?.name || 'None' },
+        { field: 'queue', oldValue: grievance.queue || 'None', newValue: decision.queue || 'None' }
+      ],
+      ROUTING_ACTOR
+    );
+
+    return routed;
+  };
+
+  // Mask personal details in free text, naming anyone on the staff list
+  const redactText = (text: string) => {
+    const knownNames = departments.flatMap(d => [...d.managers, ...d.teamMembers.map(m => m.name)]);
+    return redactPii(text, knownNames);
+  };
 
   // Add new grievance
-  const addGrievance = (grievanceData: Omit<Grievance, 'id' | 'createdAt' | 'updatedAt' | 'statusHistory' | 'comments'>): Grievance => {
+  const addGrievance = (submitted: NewGrievance): Grievance => {
+    // Personal details in the description are masked, and anonymous
+    // submissions never keep the submitter's identity
+    const description = redactText(submitted.description);
+    const grievanceData: NewGrievance = {
+      ...submitted,
+      description: description.text,
+      descriptionPii: description.redacted,
+      ...(submitted.isAnonymous ? { createdBy: ANONYMOUS_SUBMITTER, createdByName: ANONYMOUS_SUBMITTER_NAME } : {})
+    };
     const now = new Date().toISOString();
     const newGrievance: Grievance = {
       id: uuidv4(),
@@ -261,13 +770,17 @@ export const GrievanceProvider: React.FC<{children: ReactNode}> = ({ children })
           status: 'pending',
           comment: 'Grievance submitted',
           updatedBy: grievanceData.createdBy,
-          updatedByName: grievanceData.isAnonymous ? 'Anonymous' : grievanceData.createdByName
+          updatedByName: grievanceData.createdByName
         }
       ],
       comments: []
     };
 
-    setGrievances(prev => [newGrievance, ...prev]);
+    // Without a due date set by hand, the case is due when its SLA says so
+    if (!newGrievance.dueDate) {
+      const sla = getGrievanceSla(newGrievance);
+      if (sla) newGrievance.dueDate = sla.resolution.dueAt.toISOString();
+    }
     
     // Add audit log
     addAuditLog(
@@ -275,8 +788,26 @@ export const GrievanceProvider: React.FC<{children: ReactNode}> = ({ children })
       'grievance',
       newGrievance.id,
       newGrievance.title,
-      `New grievance submitted: ${newGrievance.title}`
+      `New grievance submitted: ${newGrievance.title}`,
+      undefined,
+      newGrievance.isAnonymous ? ANONYMOUS_ACTOR : undefined
     );
+
+    // Route it unless the submitter already picked someone
+    const decision = newGrievance.assignedTo
+      ? null
+      : routeGrievance(routingRules, routingTeams, routingCursors.current, newGrievance,
+          candidate => getAssignmentConflicts(newGrievance, candidate).length === 0);
+    const routedGrievance = decision ? applyRouting(newGrievance, decision) : newGrievance;
+
+    // Cases the submitter linked as related link back to it
+    const relatedIds = routedGrievance.relatedIds || [];
+    setGrievances(prev => [
+      routedGrievance,
+      ...prev.map(g => relatedIds.includes(g.id)
+        ? { ...g, relatedIds: [...(g.relatedIds || []), routedGrievance.id] }
+        : g)
+    ]);
     
     // Show toast notification
     toast({
@@ -284,13 +815,150 @@ export const GrievanceProvider: React.FC<{children: ReactNode}> = ({ children })
       description: "Your grievance has been submitted successfully",
     });
     
-    return newGrievance;
+    return routedGrievance;
+  };
+
+  // Run the routing rules again for an open grievance
+  const rerouteGrievance = (id: string): boolean => {
+    const grievanceIndex = grievances.findIndex(g => g.id === id);
+    if (grievanceIndex === -1 || !user) return false;
+
+    const grievance = grievances[grievanceIndex];
+    const decision = routeGrievance(routingRules, routingTeams, routingCursors.current, grievance,
+      candidate => getAssignmentConflicts(grievance, candidate).length === 0);
+    if (!decision) {
+      toast({
+        title: "Not Routed",
+        description: "No routing rule matches this grievance",
+        variant: "destructive",
+      });
+      return false;
+    }
+
+    const updatedGrievances = [...grievances];
+    updatedGrievances[grievanceIndex] = applyRouting(grievance, decision);
+    setGrievances(updatedGrievances);
+
+    toast({
+      title: "Grievance Routed",
+      description: `Rule "${decision.rule.name}" sent it to ${decision.assignee?.name || `the ${decision.queue} queue`}`,
+    });
+
+    return true;
   };
 
+  // Submit a grievance that isn't linked to the current user; the returned
+  // case token is the only way back to it and isn't stored anywhere
+  const addAnonymousGrievance = async (grievanceData: NewAnonymousGrievance) => {
+    const caseToken = generateCaseToken();
+    const caseTokenHash = await hashCaseToken(caseToken);
+    const grievance = addGrievance({
+      ...grievanceData,
+      createdBy: ANONYMOUS_SUBMITTER,
+      createdByName: ANONYMOUS_SUBMITTER_NAME,
+      isAnonymous: true,
+      caseTokenHash,
+    });
+    return { grievance, caseToken };
+  };
+
+  // Look up an anonymous grievance by its case token
+  const findByToken = async (caseToken: string): Promise<Grievance | undefined> => {
+    if (!caseToken.trim()) return undefined;
+    const caseTokenHash = await hashCaseToken(caseToken);
+    return grievancesRef.current.find(g => g.isAnonymous && g.caseTokenHash === caseTokenHash);
+  };
+
+  const findCaseByToken = async (caseToken: string): Promise<PublicCaseView | undefined> => {
+    const grievance = await findByToken(caseToken);
+    const mergedInto = grievance?.mergedInto && grievancesRef.current.find(g => g.id === grievance.mergedInto);
+    return grievance && getPublicCaseView(grievance, mergedInto || undefined);
+  };
+
+  // Reply from an anonymous submitter, who proves who they are with the case
+  // token; replies on a merged duplicate go to the case it was merged into
+  const addAnonymousReply = async (caseToken: string, text: string): Promise<boolean> => {
+    const grievance = await findByToken(caseToken);
+    if (!grievance || !text.trim()) return false;
+
+    const targetId = grievance.mergedInto || grievance.id;
+    const target = grievancesRef.current.find(g => g.id === targetId) || grievance;
+    const now = new Date().toISOString();
+    const redacted = redactText(text.trim());
+    const reply: GrievanceComment = {
+      id: uuidv4(),
+      text: redacted.text,
+      createdBy: ANONYMOUS_SUBMITTER,
+      createdByName: ANONYMOUS_SUBMITTER_NAME,
+      createdAt: now,
+      isInternal: false,
+      mergedFrom: grievance.mergedInto ? grievance.id : undefined,
+      pii: redacted.redacted
+    };
+    setGrievances(prev => prev.map(g =>
+      g.id === targetId ? { ...g, comments: [...g.comments, reply], updatedAt: now } : g
+    ));
+
+    addAuditLog(
+      'update',
+      'grievance',
+      target.id,
+      target.title,
+      grievance.mergedInto
+        ? `Reply added by the anonymous submitter of merged duplicate "${grievance.title}"`
+        : 'Reply added by the anonymous submitter',
+      undefined,
+      ANONYMOUS_ACTOR
+    );
+
+    toast({
+      title: "Reply Sent",
+      description: "Your reply has been added to the case",
+    });
+
+    return true;
+  };
+
+  // Check a status change against the workflow, explaining why it isn't allowed
+  const canTransition = (grievance: Grievance, status: GrievanceStatus, input: TransitionInput, actor: TransitionActor): boolean => {
+    const error = validateTransition(grievance, status, input, actor);
+    if (!error) return true;
+
+    toast({
+      title: "Status Not Changed",
+      description: error,
+      variant: "destructive",
+    });
+    return false;
+  };
+
+  // Ask the submitters to rate a resolution; the survey also opens the window
+  // in which they can send the case back to its handler
+  const withSatisfactionSurvey = (grievance: Grievance, resolvedAt: string): Grievance => ({
+    ...grievance,
+    satisfactionSurveys: [
+      ...(grievance.satisfactionSurveys || []),
+      {
+        id: uuidv4(),
+        requestedAt: resolvedAt,
+        reopenUntil: getReopenDeadline(new Date(resolvedAt)).toISOString(),
+        handlerId: grievance.assignedTo,
+        handlerName: grievance.assignedToName,
+        responses: []
+      }
+    ]
+  });
+
   // Update grievance status
-  const updateGrievanceStatus = (id: string, status: GrievanceStatus, comment: string): boolean => {
+  const updateGrievanceStatus = (
+    id: string,
+    status: GrievanceStatus,
+    comment: string,
+    details: Omit<TransitionInput, 'comment'> = {}
+  ): boolean => {
     const grievanceIndex = grievances.findIndex(g => g.id === id);
     if (grievanceIndex === -1 || !user) return false;
+    if (!canTransition(grievances[grievanceIndex], status, { ...details, comment }, user)) return false;
 
     const now = new Date().toISOString();
     const updatedGrievance = { ...grievances[grievanceIndex] };
@@ -300,7 +968,7 @@ export const GrievanceProvider: React.FC<{children: ReactNode}> = ({ children })
       id: uuidv4(),
       timestamp: now,
       status,
-      comment,
+      comment: comment || details.resolution || details.rejectionReason || '',
       updatedBy: user.id,
       updatedByName: user.name
     };
@@ -309,10 +977,16 @@ export const GrievanceProvider: React.FC<{children: ReactNode}> = ({ children })
     updatedGrievance.status = status;
     updatedGrievance.updatedAt = now;
     updatedGrievance.statusHistory = [...updatedGrievance.statusHistory, statusUpdate];
+    if (status === 'resolved') updatedGrievance.resolution = details.resolution;
+    if (status === 'rejected') updatedGrievance.rejectionReason = details.rejectionReason;
+    if (status === 'reopened') {
+      updatedGrievance.resolution = undefined;
+      updatedGrievance.rejectionReason = undefined;
+    }
     
     // Update state
     const updatedGrievances = [...grievances];
-    updatedGrievances[grievanceIndex] = updatedGrievance;
+    updatedGrievances[grievanceIndex] = status === 'resolved' ? withSatisfactionSurvey(updatedGrievance, now) : updatedGrievance;
     setGrievances(updatedGrievances);
     
     // Add audit log
@@ -335,16 +1009,62 @@ export const GrievanceProvider: React.FC<{children: ReactNode}> = ({ children })
   };
 
   // Assign grievance to user
-  const assignGrievance = (id: string, assignedTo: string, assignedToName: string): boolean => {
+  const assignGrievance = (id: string, assignedTo: string, assignedToName: string, overrideJustification?: string): boolean => {
     const grievanceIndex = grievances.findIndex(g => g.id === id);
     if (grievanceIndex === -1 || !user) return false;
 
     const now = new Date().toISOString();
     const updatedGrievance = { ...grievances[grievanceIndex] };
     
-    // Update assignment
+    // Named parties can never handle their own case; people in their
+    // reporting line only with a justification from a senior reviewer
+    const conflicts = getAssignmentConflicts(updatedGrievance, { id: assignedTo, name: assignedToName });
+    if (conflicts.length > 0) {
+      const reasons = conflicts.map(conflict => conflict.reason);
+      if (!canOverrideConflicts(conflicts)) {
+        toast({
+          title: "Assignment Blocked",
+          description: `${reasons.join('. ')}. Choose someone else.`,
+          variant: "destructive",
+        });
+        return false;
+      }
+      if (!SENIOR_REVIEWER_ROLES.includes(user.role) || !overrideJustification?.trim()) {
+        toast({
+          title: "Conflict of Interest",
+          description: `${reasons.join('. ')}. An admin or department head must give a justification to assign anyway.`,
+          variant: "destructive",
+        });
+        return false;
+      }
+
+      updatedGrievance.conflictOverrides = [
+        ...(updatedGrievance.conflictOverrides || []),
+        {
+          id: uuidv4(),
+          timestamp: now,
+          assignedTo,
+          assignedToName,
+          conflicts: reasons,
+          justification: overrideJustification.trim(),
+          overriddenBy: user.id,
+          overriddenByName: user.name
+        }
+      ];
+      addAuditLog(
+        'override',
+        'grievance',
+        id,
+        updatedGrievance.title,
+        `Conflict of interest overridden to assign ${assignedToName}: ${overrideJustification.trim()}`,
+        [{ field: 'conflicts', oldValue: null, newValue: reasons }]
+      );
+    }
+    
+    // Update assignment; an assigned grievance leaves its queue
     updatedGrievance.assignedTo = assignedTo;
     updatedGrievance.assignedToName = assignedToName;
+    updatedGrievance.queue = undefined;
     updatedGrievance.updatedAt = now;
     
     // Create status update if status is pending
@@ -394,14 +1114,16 @@ export const GrievanceProvider: React.FC<{children: ReactNode}> = ({ children })
     const now = new Date().toISOString();
     const updatedGrievance = { ...grievances[grievanceIndex] };
     
-    // Create new comment
-    const newComment = {
+    // Create new comment, with personal details masked
+    const redacted = redactText(text);
+    const newComment: GrievanceComment = {
       id: uuidv4(),
-      text,
+      text: redacted.text,
       createdBy: user.id,
       createdByName: user.name,
       createdAt: now,
-      isInternal
+      isInternal,
+      pii: redacted.redacted
     };
     
     // Update the grievance
@@ -432,9 +1154,10 @@ export const GrievanceProvider: React.FC<{children: ReactNode}> = ({ children })
   };
 
   // Escalate grievance
-  const escalateGrievance = (id: string, reason: string): boolean => {
+  const escalateGrievance = (id: string, reason: string, options: EscalationOptions = {}): boolean => {
     const grievanceIndex = grievances.findIndex(g => g.id === id);
-    if (grievanceIndex === -1 || !user) return false;
+    if (grievanceIndex === -1 || (!user && !options.system)) return false;
+    if (!canTransition(grievances[grievanceIndex], 'escalated', { comment: reason }, options.system || !user ? 'system' : user)) return false;
 
     const now = new Date().toISOString();
     const updatedGrievance = { ...grievances[grievanceIndex] };
@@ -445,25 +1168,29 @@ export const GrievanceProvider: React.FC<{children: ReactNode}> = ({ children })
       timestamp: now,
       status: 'escalated',
       comment: `Escalated: ${reason}`,
-      updatedBy: user.id,
-      updatedByName: user.name
+      updatedBy: options.system || !user ? 'system' : user.id,
+      updatedByName: options.system || !user ? 'SLA Monitor' : user.name
     };
     
     // Update the grievance
     updatedGrievance.status = 'escalated';
     updatedGrievance.updatedAt = now;
     updatedGrievance.statusHistory = [...updatedGrievance.statusHistory, statusUpdate];
+    if (options.slaBreaches) {
+      updatedGrievance.slaBreaches = [...(updatedGrievance.slaBreaches || []), ...options.slaBreaches];
+    }
     
-    // Update assignment to admin if exists
-    if (!updatedGrievance.assignedTo || updatedGrievance.assignedTo !== 'user1') {
+    // Update assignment to admin if exists, unless that would be a conflict of interest
+    if (
+      updatedGrievance.assignedTo !== 'user1' &&
+      getAssignmentConflicts(updatedGrievance, { id: 'user1', name: 'Admin User' }).length === 0
+    ) {
       updatedGrievance.assignedTo = 'user1';
       updatedGrievance.assignedToName = 'Admin User';
     }
     
-    // Update state
-    const updatedGrievances = [...grievances];
-    updatedGrievances[grievanceIndex] = updatedGrievance;
-    setGrievances(updatedGrievances);
+    // Update state (by ID, so several grievances can be escalated in one pass)
+    setGrievances(prev => prev.map(g => g.id === id ? updatedGrievance : g));
     
     // Add audit log
     addAuditLog(
@@ -477,8 +1204,11 @@ export const GrievanceProvider: React.FC<{children: ReactNode}> = ({ children })
     
     // Show toast notification
     toast({
-      title: "Grievance Escalated",
-      description: "Grievance has been escalated to higher management",
+      title: options.system ? "SLA Breached" : "Grievance Escalated",
+      description: options.system
+        ? `"${updatedGrievance.title}" was escalated automatically: ${reason}`
+        : "Grievance has been escalated to higher management",
+      variant: options.system ? "destructive" : undefined,
     });
     
     return true;
@@ -488,6 +1218,7 @@ export const GrievanceProvider: React.FC<{children: ReactNode}> = ({ children })
   const resolveGrievance = (id: string, resolution: string): boolean => {
     const grievanceIndex = grievances.findIndex(g => g.id === id);
     if (grievanceIndex === -1 || !user) return false;
+    if (!canTransition(grievances[grievanceIndex], 'resolved', { resolution }, user)) return false;
 
     const now = new Date().toISOString();
     const updatedGrievance = { ...grievances[grievanceIndex] };
@@ -504,12 +1235,13 @@ export const GrievanceProvider: React.FC<{children: ReactNode}> = ({ children })
     
     // Update the grievance
     updatedGrievance.status = 'resolved';
+    updatedGrievance.resolution = resolution;
     updatedGrievance.updatedAt = now;
     updatedGrievance.statusHistory = [...updatedGrievance.statusHistory, statusUpdate];
     
     // Update state
     const updatedGrievances = [...grievances];
-    updatedGrievances[grievanceIndex] = updatedGrievance;
+    updatedGrievances[grievanceIndex] = withSatisfactionSurvey(updatedGrievance, now);
     setGrievances(updatedGrievances);
     
     // Add audit log
@@ -531,14 +1263,553 @@ export const GrievanceProvider: React.FC<{children: ReactNode}> = ({ children })
     return true;
   };
 
+  // Rate a resolution. While the reopen window is open, a submitter who says
+  // the fix didn't work sends the case back to review with its handler.
+  const respondToSurvey = (id: string, response: { rating: number; feedback?: string; reopen?: boolean }): boolean => {
+    const grievanceIndex = grievances.findIndex(g => g.id === id);
+    if (grievanceIndex === -1 || !user) return false;
+
+    const grievance = grievances[grievanceIndex];
+    const survey = getCurrentSurvey(grievance);
+    const refuse = (description: string) => {
+      toast({ title: "Feedback Not Sent", description, variant: "destructive" });
+      return false;
+    };
+    if (!survey) return refuse("This grievance isn't waiting for feedback");
+    if (!isGrievanceSubmitter(grievance, user.id)) return refuse("Only the people who raised this grievance can rate its resolution");
+    if (survey.responses.some(r => r.userId === user.id)) return refuse("You've already rated this resolution");
+    if (!Number.isInteger(response.rating) || response.rating < MIN_RATING || response.rating > MAX_RATING) {
+      return refuse(`Choose a rating from ${MIN_RATING} to ${MAX_RATING}`);
+    }
+    if (response.reopen && !response.feedback?.trim()) return refuse("Say what still isn't working so the handler can pick it up");
+    if (response.reopen) {
+      const error = validateTransition(grievance, 'in-review', { comment: response.feedback }, user, 'survey');
+      if (error) return refuse(error);
+    }
+
+    const now = new Date().toISOString();
+    const surveyResponse: SurveyResponse = {
+      userId: user.id,
+      userName: user.name,
+      rating: response.rating,
+      feedback: response.feedback?.trim() || undefined,
+      respondedAt: now,
+      reopened: !!response.reopen
+    };
+    const updatedGrievance: Grievance = {
+      ...grievance,
+      updatedAt: now,
+      satisfactionSurveys: grievance.satisfactionSurveys!.map(s =>
+        s.id === survey.id ? { ...s, responses: [...s.responses, surveyResponse] } : s
+      )
+    };
+
+    // Back to the handler who resolved it, unless they can no longer handle it
+    const handler = survey.handlerId && survey.handlerName
+      ? { id: survey.handlerId, name: survey.handlerName }
+      : undefined;
+    const handlerAvailable = !!handler && getAssignmentConflicts(grievance, handler).length === 0;
+    if (response.reopen) {
+      updatedGrievance.status = 'in-review';
+      updatedGrievance.resolution = undefined;
+      updatedGrievance.assignedTo = handlerAvailable ? handler!.id : undefined;
+      updatedGrievance.assignedToName = handlerAvailable ? handler!.name : undefined;
+      updatedGrievance.statusHistory = [
+        ...grievance.statusHistory,
+        {
+          id: uuidv4(),
+          timestamp: now,
+          status: 'in-review',
+          comment: `Reopened by ${user.name}, the resolution didn't fix the problem: ${surveyResponse.feedback}` +
+            (handlerAvailable ? ` Returned to ${handler!.name}.` : ''),
+          updatedBy: user.id,
+          updatedByName: user.name
+        }
+      ];
+    }
+
+    const updatedGrievances = [...grievances];
+    updatedGrievances[grievanceIndex] = updatedGrievance;
+    setGrievances(updatedGrievances);
+
+    addAuditLog(
+      'update',
+      'grievance',
+      id,
+      grievance.title,
+      response.reopen
+        ? `Reopened by the submitter with a ${response.rating}/${MAX_RATING} rating`
+        : `Resolution rated ${response.rating}/${MAX_RATING} by the submitter`,
+      response.reopen
+        ? [
+            { field: 'status', oldValue: grievance.status, newValue: 'in-review' },
+            { field: 'assignedTo', oldValue: grievance.assignedToName || 'None', newValue: updatedGrievance.assignedToName || 'None' }
+          ]
+        : undefined
+    );
+
+    toast({
+      title: response.reopen ? "Grievance Reopened" : "Thanks for Your Feedback",
+      description: response.reopen
+        ? `The case is back in review${handlerAvailable ? ` with ${handler!.name}` : ''}`
+        : "Your rating has been recorded",
+    });
+
+    return true;
+  };
+
+  // Original text of a redacted description or comment, for authorised
+  // handlers; every reveal is audited
+  const revealPii = (id: string, commentId?: string): string | null => {
+    const grievance = grievances.find(g => g.id === id);
+    if (!grievance || !user) return null;
+
+    if (!canViewPii(user)) {
+      toast({
+        title: "Personal Details Hidden",
+        description: "Only admins and HR reviewers can see redacted personal details",
+        variant: "destructive",
+      });
+      return null;
+    }
+
+    const comment = commentId ? grievance.comments.find(c => c.id === commentId) : undefined;
+    const redacted = commentId ? comment?.pii : grievance.descriptionPii;
+    if (!redacted) return null;
+
+    addAuditLog(
+      'view',
+      'grievance',
+      id,
+      grievance.title,
+      `Revealed redacted ${describePiiTypes(redacted.types)} in ${comment ? `a comment by ${comment.createdByName}` : 'the description'}`
+    );
+
+    return redacted.original;
+  };
+
+  // Download the full case file for a legal or HR review
+  const exportCaseFile = (id: string, fileFormat: CaseFileFormat, options: CaseFileOptions): boolean => {
+    const grievance = grievances.find(g => g.id === id);
+    if (!grievance || !user) return false;
+
+    if (!REVIEWER_ROLES.includes(user.role)) {
+      toast({
+        title: "Export Not Allowed",
+        description: "Only admins, department heads, managers and team leads can export case files",
+        variant: "destructive",
+      });
+      return false;
+    }
+
+    const caseFile = buildGrievanceCaseFile(grievance, logs, { id: user.id, name: user.name }, options);
+    downloadCaseFile(caseFile, fileFormat);
+
+    addAuditLog(
+      'download',
+      'grievance',
+      id,
+      grievance.title,
+      `Case file exported as ${fileFormat.toUpperCase()}, ${options.includeInternal ? 'including' : 'excluding'} internal comments`
+    );
+
+    toast({
+      title: "Case File Exported",
+      description: `${grievance.title} was downloaded as ${fileFormat.toUpperCase()}`,
+    });
+
+    return true;
+  };
+
+  // Open grievances like a draft, to offer joining one instead of filing a duplicate
+  const findSimilarGrievances = (draft: GrievanceDraft, excludeId?: string): SimilarGrievance[] => {
+    return findSimilarTo(draft, grievances, { excludeId });
+  };
+
+  // Join an open case as someone else affected by the same issue, optionally
+  // adding their own account of it as a comment
+  const joinGrievance = (id: string, note?: string): boolean => {
+    const grievanceIndex = grievances.findIndex(g => g.id === id);
+    if (grievanceIndex === -1 || !user) return false;
+
+    const grievance = grievances[grievanceIndex];
+    if (CLOSED_GRIEVANCE_STATUSES.includes(grievance.status)) {
+      toast({
+        title: "Can't Join Case",
+        description: `This grievance is ${GRIEVANCE_STATUS_LABELS[grievance.status].toLowerCase()} and no longer open`,
+        variant: "destructive",
+      });
+      return false;
+    }
+    if (grievance.createdBy === user.id || grievance.coSubmitters?.some(c => c.id === user.id)) {
+      toast({
+        title: "Already Joined",
+        description: "You're already a submitter on this case",
+        variant: "destructive",
+      });
+      return false;
+    }
+
+    const now = new Date().toISOString();
+    const updatedGrievance: Grievance = {
+      ...grievance,
+      coSubmitters: [...(grievance.coSubmitters || []), { id: user.id, name: user.name, joinedAt: now }],
+      updatedAt: now
+    };
+    if (note?.trim()) {
+      const redacted = redactText(note.trim());
+      updatedGrievance.comments = [
+        ...grievance.comments,
+        {
+          id: uuidv4(),
+          text: redacted.text,
+          createdBy: user.id,
+          createdByName: user.name,
+          createdAt: now,
+          isInternal: false,
+          pii: redacted.redacted
+        }
+      ];
+    }
+
+    const updatedGrievances = [...grievances];
+    updatedGrievances[grievanceIndex] = updatedGrievance;
+    setGrievances(updatedGrievances);
+
+    addAuditLog(
+      'update',
+      'grievance',
+      id,
+      grievance.title,
+      `${user.name} joined the case as also affected`,
+      [{ field: 'coSubmitters', oldValue: grievance.coSubmitters?.length || 0, newValue: updatedGrievance.coSubmitters!.length }]
+    );
+
+    toast({
+      title: "Joined Case",
+      description: "You'll follow this grievance along with its other submitters",
+    });
+
+    return true;
+  };
+
+  // Link two grievances as related, in both directions
+  const linkGrievances = (id: string, relatedId: string): boolean => {
+    const grievance = grievances.find(g => g.id === id);
+    const related = grievances.find(g => g.id === relatedId);
+    if (!grievance || !related || !user || id === relatedId) return false;
+
+    if (!REVIEWER_ROLES.includes(user.role) && grievance.createdBy !== user.id) {
+      toast({
+        title: "Not Linked",
+        description: "Only the submitter or a grievance handler can link related cases",
+        variant: "destructive",
+      });
+      return false;
+    }
+    if (grievance.relatedIds?.includes(relatedId)) return true;
+
+    const now = new Date().toISOString();
+    setGrievances(prev => prev.map(g => {
+      if (g.id === id) return { ...g, relatedIds: [...(g.relatedIds || []), relatedId], updatedAt: now };
+      if (g.id === relatedId) return { ...g, relatedIds: [...(g.relatedIds || []), id], updatedAt: now };
+      return g;
+    }));
+
+    addAuditLog('update', 'grievance', id, grievance.title, `Linked as related to "${related.title}"`);
+
+    toast({
+      title: "Cases Linked",
+      description: `Linked to "${related.title}"`,
+    });
+
+    return true;
+  };
+
+  // Remove the link between two related grievances
+  const unlinkGrievances = (id: string, relatedId: string): boolean => {
+    const grievance = grievances.find(g => g.id === id);
+    if (!grievance || !user || !grievance.relatedIds?.includes(relatedId)) return false;
+
+    if (!REVIEWER_ROLES.includes(user.role)) {
+      toast({
+        title: "Not Unlinked",
+        description: "Only grievance handlers can unlink related cases",
+        variant: "destructive",
+      });
+      return false;
+    }
+
+    const now = new Date().toISOString();
+    setGrievances(prev => prev.map(g => {
+      if (g.id === id) return { ...g, relatedIds: g.relatedIds?.filter(r => r !== relatedId), updatedAt: now };
+      if (g.id === relatedId) return { ...g, relatedIds: g.relatedIds?.filter(r => r !== id), updatedAt: now };
+      return g;
+    }));
+
+    const related = grievances.find(g => g.id === relatedId);
+    addAuditLog('update', 'grievance', id, grievance.title, `Unlinked from "${related?.title || relatedId}"`);
+
+    return true;
+  };
+
+  // Fold a duplicate into another open grievance. The target takes on the
+  // duplicate's comments, submitters and links and keeps a copy of its
+  // status history; the duplicate is closed as merged but left intact.
+  const mergeGrievances = (duplicateId: string, targetId: string): boolean => {
+    const duplicate = grievances.find(g => g.id === duplicateId);
+    const target = grievances.find(g => g.id === targetId);
+    if (!duplicate || !target || !user) return false;
+
+    const refuse = (description: string) => {
+      toast({ title: "Not Merged", description, variant: "destructive" });
+      return false;
+    };
+    if (duplicateId === targetId) return refuse("A grievance can't be merged into itself");
+    const closed = [duplicate, target].find(g => CLOSED_GRIEVANCE_STATUSES.includes(g.status));
+    if (closed) return refuse(`"${closed.title}" is ${GRIEVANCE_STATUS_LABELS[closed.status].toLowerCase()}; only open grievances can be merged`);
+    const error = validateTransition(duplicate, 'merged', {}, user, 'merge');
+    if (error) return refuse(error);
+
+    const now = new Date().toISOString();
+    const closingUpdate: StatusUpdate = {
+      id: uuidv4(),
+      timestamp: now,
+      status: 'merged',
+      // Seen by anonymous submitters too, so it doesn't name the other case
+      comment: 'Merged with another report of the same issue',
+      updatedBy: user.id,
+      updatedByName: user.name
+    };
+    const mergedDuplicate: Grievance = {
+      ...duplicate,
+      status: 'merged',
+      mergedInto: targetId,
+      queue: undefined,
+      updatedAt: now,
+      statusHistory: [...duplicate.statusHistory, closingUpdate]
+    };
+
+    // Everyone who raised the issue follows the merged case; anonymous
+    // submitters keep following it through their own case token
+    const submitters: CoSubmitter[] = [
+      ...(duplicate.isAnonymous ? [] : [{ id: duplicate.createdBy, name: duplicate.createdByName, joinedAt: now }]),
+      ...(duplicate.coSubmitters || [])
+    ];
+    const coSubmitters = [...(target.coSubmitters || [])];
+    submitters.forEach(submitter => {
+      if (submitter.id !== target.createdBy && !coSubmitters.some(c => c.id === submitter.id)) {
+        coSubmitters.push(submitter);
+      }
+    });
+
+    const involvedParties = [...(target.involvedParties || [])];
+    (duplicate.involvedParties || []).forEach(party => {
+      if (!involvedParties.some(p => p.name.toLowerCase() === party.name.toLowerCase())) involvedParties.push(party);
+    });
+
+    const relatedIds = Array.from(new Set([...(target.relatedIds || []), ...(duplicate.relatedIds || [])]))
+      .filter(id => id !== targetId && id !== duplicateId);
+
+    const mergedTarget: Grievance = {
+      ...target,
+      coSubmitters,
+      involvedParties,
+      relatedIds,
+      attachments: Array.from(new Set([...(target.attachments || []), ...(duplicate.attachments || [])])),
+      comments: [
+        ...target.comments,
+        ...duplicate.comments.map(comment => ({ ...comment, mergedFrom: comment.mergedFrom || duplicateId }))
+      ].sort((a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime()),
+      mergedDuplicates: [
+        ...(target.mergedDuplicates || []),
+        ...(duplicate.mergedDuplicates || []),
+        {
+          grievanceId: duplicateId,
+          title: duplicate.title,
+          submittedBy: duplicate.createdBy,
+          submittedByName: duplicate.createdByName,
+          mergedAt: now,
+          mergedBy: user.id,
+          mergedByName: user.name,
+          statusHistory: duplicate.statusHistory
+        }
+      ],
+      updatedAt: now,
+      statusHistory: [
+        ...target.statusHistory,
+        {
+          id: uuidv4(),
+          timestamp: now,
+          status: target.status,
+          comment: `Merged duplicate "${duplicate.title}" submitted by ${duplicate.createdByName}`,
+          updatedBy: user.id,
+          updatedByName: user.name
+        }
+      ]
+    };
+
+    setGrievances(prev => prev.map(g => {
+      if (g.id === duplicateId) return mergedDuplicate;
+      if (g.id === targetId) return mergedTarget;
+      // Links to the duplicate now point at the case it was merged into
+      if (g.relatedIds?.includes(duplicateId)) {
+        return { ...g, relatedIds: Array.from(new Set(g.relatedIds.map(r => r === duplicateId ? targetId : r))).filter(r => r !== g.id) };
+      }
+      return g;
+    }));
+
+    addAuditLog(
+      'update',
+      'grievance',
+      targetId,
+      target.title,
+      `Merged duplicate "${duplicate.title}" into this grievance`,
+      [{ field: 'status', oldValue: duplicate.status, newValue: 'merged' }]
+    );
+
+    toast({
+      title: "Grievances Merged",
+      description: `"${duplicate.title}" was merged into "${target.title}"`,
+    });
+
+    return true;
+  };
+
+  // Escalate open grievances that have just breached an SLA target
+  const checkSlaBreaches = () => {
+    grievances
+      .filter(g => !CLOSED_GRIEVANCE_STATUSES.includes(g.status))
+      .forEach(grievance => {
+        const sla = getGrievanceSla(grievance);
+        if (!sla) return;
+
+        const breaches = getUnrecordedBreaches(sla, grievance.slaBreaches);
+        if (breaches.length === 0) return;
+
+        // Already escalated: just note the breach so it isn't reported again
+        if (grievance.status === 'escalated') {
+          setGrievances(prev => prev.map(g =>
+            g.id === grievance.id ? { ...g, slaBreaches: [...(g.slaBreaches || []), ...breaches] } : g
+          ));
+          return;
+        }
+
+        escalateGrievance(
+          grievance.id,
+          `${breaches.map(target => SLA_TARGET_LABELS[target]).join(' and ')} SLA breached (${sla.policy.name} policy)`,
+          { system: true, slaBreaches: breaches }
+        );
+      });
+  };
+
+  // Run the latest check on a timer; the ref keeps the interval from
+  // holding on to stale state
+  const checkSlaBreachesRef = useRef(checkSlaBreaches);
+  checkSlaBreachesRef.current = checkSlaBreaches;
+
+  useEffect(() => {
+    checkSlaBreachesRef.current();
+    const timer = setInterval(() => checkSlaBreachesRef.current(), SLA_CHECK_INTERVAL);
+    return () => clearInterval(timer);
+  }, []);
+
+  // Add an SLA policy
+  const addSlaPolicy = (policy: Omit<SlaPolicy, 'id'>) => {
+    setSlaPolicies(prev => [...prev, { ...policy, id: uuidv4() }]);
+    addAuditLog('create', 'system', undefined, policy.name, `Added SLA policy "${policy.name}"`);
+  };
+
+  // Update an SLA policy
+  const updateSlaPolicy = (id: string, updates: Partial<SlaPolicy>) => {
+    const policy = slaPolicies.find(p => p.id === id);
+    if (!policy) return;
+
+    setSlaPolicies(prev => prev.map(p => p.id === id ? { ...p, ...updates } : p));
+    addAuditLog(
+      'update',
+      'system',
+      id,
+      policy.name,
+      `Updated SLA policy "${policy.name}"`,
+      Object.entries(updates)
+        .filter(([field, value]) => policy[field as keyof SlaPolicy] !== value)
+        .map(([field, value]) => ({ field, oldValue: policy[field as keyof SlaPolicy], newValue: value }))
+    );
+  };
+
+  // Delete an SLA policy
+  const deleteSlaPolicy = (id: string) => {
+    const policy = slaPolicies.find(p => p.id === id);
+    setSlaPolicies(prev => prev.filter(p => p.id !== id));
+    addAuditLog('delete', 'system', id, policy?.name, `Deleted SLA policy "${policy?.name}"`);
+  };
+
+  // Add a routing rule, after the regular rules unless it's a fallback
+  const addRoutingRule = (rule: Omit<RoutingRule, 'id'>) => {
+    setRoutingRules(prev => [...prev, { ...rule, id: uuidv4() }]);
+    addAuditLog(
+      'create',
+      'system',
+      undefined,
+      rule.name,
+      `Added routing rule "${rule.name}" sending grievances to ${describeRoutingTarget(rule.target, routingTeams)}`
+    );
+  };
+
+  // Update a routing rule
+  const updateRoutingRule = (id: string, updates: Partial<RoutingRule>) => {
+    const rule = routingRules.find(r => r.id === id);
+    if (!rule) return;
+
+    setRoutingRules(prev => prev.map(r => r.id === id ? { ...r, ...updates } : r));
+    addAuditLog(
+      'update',
+      'system',
+      id,
+      rule.name,
+      `Updated routing rule "${rule.name}"`,
+      Object.entries(updates)
+        .filter(([field, value]) => JSON.stringify(rule[field as keyof RoutingRule]) !== JSON.stringify(value))
+        .map(([field, value]) => ({ field, oldValue: rule[field as keyof RoutingRule], newValue: value }))
+    );
+  };
+
+  // Delete a routing rule
+  const deleteRoutingRule = (id: string) => {
+    const rule = routingRules.find(r => r.id === id);
+    setRoutingRules(prev => prev.filter(r => r.id !== id));
+    addAuditLog('delete', 'system', id, rule?.name, `Deleted routing rule "${rule?.name}"`);
+  };
+
+  // Move a routing rule one place earlier or later in the evaluation order
+  const moveRoutingRule = (id: string, direction: 'up' | 'down') => {
+    const index = routingRules.findIndex(r => r.id === id);
+    const target = direction === 'up' ? index - 1 : index + 1;
+    if (index === -1 || target < 0 || target >= routingRules.length) return;
+
+    const reordered = [...routingRules];
+    [reordered[index], reordered[target]] = [reordered[target], reordered[index]];
+    setRoutingRules(reordered);
+    addAuditLog(
+      'update',
+      'system',
+      id,
+      routingRules[index].name,
+      `Moved routing rule "${routingRules[index].name}" ${direction} to position ${target + 1}`
+    );
+  };
+
   // Get grievance by ID
   const getGrievanceById = (id: string): Grievance | undefined => {
     return grievances.find(g => g.id === id);
   };
 
-  // Get grievances by user (created by or assigned to)
+  // Get grievances by user (created, joined or assigned to)
   const getGrievancesByUser = (userId: string): Grievance[] => {
-    return grievances.filter(g => g.createdBy === userId || g.assignedTo === userId);
+    return grievances.filter(g =>
+      g.createdBy === userId || g.assignedTo === userId || g.coSubmitters?.some(c => c.id === userId)
+    );
   };
 
   // Get grievances by department
@@ -551,20 +1822,51 @@ export const GrievanceProvider: React.FC<{children: ReactNode}> = ({ children })
     return grievances.filter(g => g.status === status);
   };
 
+  // Status changes the current user can make to a grievance
+  const getAvailableTransitions = (grievance: Grievance): GrievanceTransition[] => {
+    return user ? getTransitionsFor(grievance, user) : [];
+  };
+
   return (
     <GrievanceContext.Provider
       value={{
         grievances,
         addGrievance,
+        addAnonymousGrievance,
+        findCaseByToken,
+        addAnonymousReply,
         updateGrievanceStatus,
         assignGrievance,
+        getAssignmentConflicts,
         addComment,
         escalateGrievance,
         resolveGrievance,
         getGrievanceById,
         getGrievancesByUser,
         getGrievancesByDepartment,
-        getGrievancesByStatus
+        getGrievancesByStatus,
+        getAvailableTransitions,
+        findSimilarGrievances,
+        joinGrievance,
+        linkGrievances,
+        unlinkGrievances,
+        mergeGrievances,
+        respondToSurvey,
+        exportCaseFile,
+        revealPii,
+        slaPolicies,
+        businessCalendars,
+        addSlaPolicy,
+        updateSlaPolicy,
+        deleteSlaPolicy,
+        getGrievanceSla,
+        routingRules,
+        routingTeams,
+        addRoutingRule,
+        updateRoutingRule,
+        deleteRoutingRule,
+        moveRoutingRule,
+        rerouteGrievance
       }}
     >
       {children}
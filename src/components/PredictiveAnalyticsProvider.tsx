@@ -3,6 +3,7 @@ import { v4 as uuidv4 } from 'uuid';
 import { useTasks } from './TasksProvider';
 import { useDepartments } from './DepartmentsProvider';
 import { useAuth } from './AuthProvider';
+import { useTimeTracking } from './TimeTrackingProvider';
 import { toast } from "@/hooks/use-toast";
 import { analyticsService, 
   DepartmentPerformance,
@@ -112,6 +113,7 @@ interface PredictiveAnalyticsContextType {
   getWorkloadPrediction: (department: string, timeframe: Timeframe) => Promise<DataPoint[]>;
   getResourceUtilizationPrediction: (department: string, timeframe: Timeframe) => Promise<DataPoint[]>;
   getOptimalResourceAllocation: (departmentName: string) => Promise<ResourceOptimization[]>;
+  getDepartmentEfficiency: (department: string, timeframe?: Timeframe) => Promise<EfficiencyData>;
   getDashboardById: (id: string) => AnalyticsDashboard | undefined;
   getDefaultDashboard: () => AnalyticsDashboard | undefined;
   getReportScheduleById: (id: string) => ReportSchedule | undefined;
@@ -248,6 +250,7 @@ export const PredictiveAnalyticsProvider: React.FC<{ children: ReactNode }> = ({
   const { user } = useAuth();
   const { departments } = useDepartments();
   const { tasks } = useTasks();
+  const { timeEntries } = useTimeTracking();
   
   // Load initial data
   useEffect(() => {
@@ -749,6 +752,11 @@ export const PredictiveAnalyticsProvider: React.FC<{ children: ReactNode }> = ({
     }
   };
 
+  // Get completion effort, measured from the hours logged against tasks
+  const getDepartmentEfficiency = async (department: string, timeframe?: Timeframe): Promise<EfficiencyData> => {
+    return analyticsService.getDepartmentEfficiency(department, timeframe, { tasks, timeEntries });
+  };
+
   const getDashboardById = (id: string) => {
     return dashboards.find(d => d._id === id);
   };
@@ -783,6 +791,7 @@ export const PredictiveAnalyticsProvider: React.FC<{ children: ReactNode }> = ({
     getWorkloadPrediction,
     getResourceUtilizationPrediction,
     getOptimalResourceAllocation,
+    getDepartmentEfficiency,
     getDashboardById,
     getDefaultDashboard,
     getReportScheduleById,
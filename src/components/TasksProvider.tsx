@@ -1,25 +1,132 @@
-import React, { createContext, useState, useContext, ReactNode } from 'react';
+import React, { createContext, useState, useContext, useEffect, ReactNode } from 'react';
 import { v4 as uuidv4 } from 'uuid';
+import { addDays, format, set, startOfDay } from 'date-fns';
 import { toast } from "@/hooks/use-toast";
+import { useAuth } from './AuthProvider';
+import { useAudit } from './AuditProvider';
+import type { ProficiencyLevel } from './DepartmentsProvider';
+import { DEFAULT_DUE_HOUR, normalizeDueDate, toDueDateString } from "@/lib/dueDates";
+import { RecurrenceRule, describeRecurrence, getNextOccurrence, getOccurrenceDate } from "@/lib/recurrence";
+import { computeTaskProgress, getChildTasks, getDescendantIds, getOpenChildren } from "@/lib/taskHierarchy";
+import { computeCriticalPath, CriticalPathResult, getSuccessors, isTaskBlocked, wouldCreateCycle } from "@/lib/taskDependencies";
+import { countColumnTasks, getTaskColumnId, getWipLimit, isStatusColumn } from "@/lib/taskBoard";
+import { getTemplateItemDueDate } from "@/lib/taskTemplates";
+import type { TaskViewSettings } from "@/lib/taskViews";
+import { describeTaskChanges, getTaskChanges } from "@/lib/taskAudit";
 
 // Define types
 export type TaskStatus = "completed" | "in-progress" | "pending";
 export type TaskPriority = "high" | "medium" | "low";
+export type DependencyType = "finish-to-start" | "start-to-start";
+
+export interface TaskDependency {
+  taskId: string;
+  type: DependencyType;
+}
+
+export interface SkillRequirement {
+  skill: string;
+  level: ProficiencyLevel; // minimum proficiency needed
+}
+
+export interface ChecklistItem {
+  id: string;
+  text: string;
+  done: boolean;
+}
 
 export interface Task {
   id: string;
   title: string;
   description: string;
   status: TaskStatus;
-  dueDate: string;
+  dueDate: string; // ISO 8601 timestamp with timezone offset
   department: string;
   priority: TaskPriority;
   assignedTo?: string;
   createdBy?: string;
   createdAt: string;
   updatedAt: string;
+  startDate?: string;
+  estimatedDuration?: number; // in days
+  dependencies?: TaskDependency[]; // tasks this one is blocked by
+  seriesId?: string; // set on occurrences of a recurring task
+  occurrenceIndex?: number; // 1-based position within the series
+  parentId?: string; // set on subtasks
+  checklist?: ChecklistItem[];
+  boardColumn?: string; // user-defined Kanban column, if not a status column
+  requiredSkills?: SkillRequirement[];
+}
+
+export interface BoardColumn {
+  id: string; // built-in columns use the status as their ID
+  title: string;
+  status: TaskStatus; // status a task takes on when moved here
+  wipLimits?: Record<string, number>; // max tasks per department
+}
+
+// Fields copied onto each new occurrence of a recurring task
+export type TaskSeriesTemplate = Pick<
+  Task, 
+  'title' | 'description' | 'department' | 'priority' | 'assignedTo' | 'createdBy' | 'estimatedDuration' | 'checklist' | 'requiredSkills'
+>;
+
+export interface TaskSeries {
+  id: string;
+  recurrence: RecurrenceRule;
+  start: string; // due date of the first occurrence
+  template: TaskSeriesTemplate;
+}
+
+export type NewTask = Omit<Task, 'id' | 'createdAt' | 'updatedAt'> & { recurrence?: RecurrenceRule };
+
+// Which occurrences of a recurring task an edit applies to
+export type OccurrenceScope = "this" | "future";
+
+export interface AddTaskOptions {
+  silent?: boolean; // skip the per-task toast and audit entry when creating tasks in bulk
 }
 
+export interface TaskTemplateItem {
+  id: string;
+  title: string;
+  description: string;
+  dueOffsetDays: number; // days after the template's start date
+  priority: TaskPriority;
+  assigneeRole?: string; // placeholder filled in when the template is used
+  estimatedDuration?: number; // in days
+  dependsOn?: string[]; // IDs of earlier items in the same template
+}
+
+export interface TaskTemplate {
+  id: string;
+  name: string;
+  description: string;
+  department: string;
+  items: TaskTemplateItem[];
+  createdBy?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// A named filter/sort/grouping combination saved by a user
+export interface SavedTaskView extends TaskViewSettings {
+  id: string;
+  name: string;
+  userId: string;
+  createdAt: string;
+}
+
+export interface TemplateInstantiation {
+  startDate: string; // ISO; item due dates are offsets from this
+  department: string;
+  assignees: Record<string, string>; // role placeholder -> user or team member ID
+}
+
+// Due date `days` from today at the default due hour
+const dueInDays = (days: number) =>
+  toDueDateString(set(addDays(startOfDay(new Date()), days), { hours: DEFAULT_DUE_HOUR }));
+
 // Initial tasks data
 const INITIAL_TASKS: Task[] = [
   {
@@ -27,120 +134,371 @@ const INITIAL_TASKS: Task[] = [
     title: "Update department overview dashboard",
     description: "Implement new data visualization for the HR department dashboard",
     status: "in-progress",
-    dueDate: "Tomorrow",
+    dueDate: dueInDays(1),
     department: "Development",
     priority: "high",
     assignedTo: "user1",
     createdBy: "user2",
     createdAt: new Date(Date.now() - 7 * 24 * 60 * 60 * 1000).toISOString(),
-    updatedAt: new Date(Date.now() - 2 * 24 * 60 * 60 * 1000).toISOString()
+    updatedAt: new Date(Date.now() - 2 * 24 * 60 * 60 * 1000).toISOString(),
+    estimatedDuration: 2,
+    requiredSkills: [{ skill: "React", level: 4 }, { skill: "Data Visualization", level: 3 }]
   },
   {
     id: "task2",
     title: "Review quarterly performance metrics",
     description: "Analyze and prepare summary of Q3 performance data for all departments",
     status: "pending",
-    dueDate: "Next week",
+    dueDate: dueInDays(7),
     department: "HR",
     priority: "medium",
     assignedTo: "user3",
     createdBy: "user1",
     createdAt: new Date(Date.now() - 10 * 24 * 60 * 60 * 1000).toISOString(),
-    updatedAt: new Date(Date.now() - 10 * 24 * 60 * 60 * 1000).toISOString()
+    updatedAt: new Date(Date.now() - 10 * 24 * 60 * 60 * 1000).toISOString(),
+    estimatedDuration: 3
   },
   {
     id: "task3",
     title: "Prepare communication hub documentation",
     description: "Create user guide for the new messaging and notification system",
     status: "completed",
-    dueDate: "Yesterday",
+    dueDate: dueInDays(-1),
     department: "Sales",
     priority: "low",
     assignedTo: "user2",
     createdBy: "user5",
     createdAt: new Date(Date.now() - 14 * 24 * 60 * 60 * 1000).toISOString(),
-    updatedAt: new Date(Date.now() - 1 * 24 * 60 * 60 * 1000).toISOString()
+    updatedAt: new Date(Date.now() - 1 * 24 * 60 * 60 * 1000).toISOString(),
+    estimatedDuration: 2
   },
   {
     id: "task4",
     title: "Task assignment system update",
     description: "Implement new features for task tracking and assignment workflow",
     status: "in-progress",
-    dueDate: "3 days",
+    dueDate: dueInDays(3),
     department: "Development",
     priority: "medium",
     assignedTo: "user1",
     createdBy: "user4",
     createdAt: new Date(Date.now() - 5 * 24 * 60 * 60 * 1000).toISOString(),
-    updatedAt: new Date(Date.now() - 2 * 24 * 60 * 60 * 1000).toISOString()
+    updatedAt: new Date(Date.now() - 2 * 24 * 60 * 60 * 1000).toISOString(),
+    estimatedDuration: 3,
+    dependencies: [{ taskId: "task1", type: "start-to-start" }]
   },
   {
     id: "task5",
     title: "Create marketing campaign proposal",
     description: "Develop a comprehensive marketing strategy for Q4",
     status: "pending",
-    dueDate: "Next week",
+    dueDate: dueInDays(7),
     department: "Marketing",
     priority: "high",
     assignedTo: "user4",
     createdBy: "user2",
     createdAt: new Date(Date.now() - 8 * 24 * 60 * 60 * 1000).toISOString(),
-    updatedAt: new Date(Date.now() - 8 * 24 * 60 * 60 * 1000).toISOString()
+    updatedAt: new Date(Date.now() - 8 * 24 * 60 * 60 * 1000).toISOString(),
+    estimatedDuration: 4
   },
   {
     id: "task6",
     title: "Update employee onboarding documentation",
     description: "Revise the onboarding materials for new hires",
     status: "completed",
-    dueDate: "Last week",
+    dueDate: dueInDays(-7),
     department: "HR",
     priority: "medium",
     assignedTo: "user3",
     createdBy: "user5",
     createdAt: new Date(Date.now() - 20 * 24 * 60 * 60 * 1000).toISOString(),
-    updatedAt: new Date(Date.now() - 5 * 24 * 60 * 60 * 1000).toISOString()
+    updatedAt: new Date(Date.now() - 5 * 24 * 60 * 60 * 1000).toISOString(),
+    estimatedDuration: 2
   },
   {
     id: "task7",
     title: "Quarterly financial report",
     description: "Prepare and review the Q3 financial statements and analysis",
     status: "in-progress",
-    dueDate: "5 days",
+    dueDate: dueInDays(5),
     department: "Finance",
     priority: "high",
     assignedTo: "user5",
     createdBy: "user1",
     createdAt: new Date(Date.now() - 15 * 24 * 60 * 60 * 1000).toISOString(),
-    updatedAt: new Date(Date.now() - 3 * 24 * 60 * 60 * 1000).toISOString()
+    updatedAt: new Date(Date.now() - 3 * 24 * 60 * 60 * 1000).toISOString(),
+    estimatedDuration: 5,
+    dependencies: [{ taskId: "task2", type: "finish-to-start" }]
   },
   {
     id: "task8",
     title: "Implement new authentication system",
     description: "Update the user authentication flow with improved security",
     status: "pending",
-    dueDate: "2 weeks",
+    dueDate: dueInDays(14),
     department: "Development",
     priority: "high",
     assignedTo: "user1",
     createdBy: "user2",
     createdAt: new Date(Date.now() - 12 * 24 * 60 * 60 * 1000).toISOString(),
-    updatedAt: new Date(Date.now() - 12 * 24 * 60 * 60 * 1000).toISOString()
+    updatedAt: new Date(Date.now() - 12 * 24 * 60 * 60 * 1000).toISOString(),
+    estimatedDuration: 10,
+    dependencies: [{ taskId: "task4", type: "finish-to-start" }],
+    requiredSkills: [{ skill: "Security", level: 4 }, { skill: "Node.js", level: 3 }],
+    checklist: [
+      { id: "check1", text: "Security review sign-off", done: false },
+      { id: "check2", text: "Update login documentation", done: false }
+    ]
+  },
+  {
+    id: "task8a",
+    title: "Design token refresh flow",
+    description: "Specify access/refresh token lifetimes and rotation",
+    status: "completed",
+    dueDate: dueInDays(4),
+    department: "Development",
+    priority: "high",
+    assignedTo: "user1",
+    createdBy: "user2",
+    createdAt: new Date(Date.now() - 11 * 24 * 60 * 60 * 1000).toISOString(),
+    updatedAt: new Date(Date.now() - 4 * 24 * 60 * 60 * 1000).toISOString(),
+    estimatedDuration: 2,
+    parentId: "task8"
+  },
+  {
+    id: "task8b",
+    title: "Add multi-factor authentication",
+    description: "Support TOTP authenticator apps as a second factor",
+    status: "pending",
+    dueDate: dueInDays(10),
+    department: "Development",
+    priority: "high",
+    assignedTo: "user1",
+    createdBy: "user2",
+    createdAt: new Date(Date.now() - 11 * 24 * 60 * 60 * 1000).toISOString(),
+    updatedAt: new Date(Date.now() - 11 * 24 * 60 * 60 * 1000).toISOString(),
+    estimatedDuration: 5,
+    parentId: "task8"
+  },
+  {
+    id: "task9",
+    title: "Weekly payroll check",
+    description: "Verify timesheets and payroll adjustments before the weekly payroll run",
+    status: "pending",
+    dueDate: dueInDays(2),
+    department: "Finance",
+    priority: "medium",
+    assignedTo: "user5",
+    createdBy: "user1",
+    createdAt: new Date(Date.now() - 5 * 24 * 60 * 60 * 1000).toISOString(),
+    updatedAt: new Date(Date.now() - 5 * 24 * 60 * 60 * 1000).toISOString(),
+    estimatedDuration: 1,
+    seriesId: "series1",
+    occurrenceIndex: 1
+  },
+];
+
+// Initial recurring task series
+const INITIAL_SERIES: TaskSeries[] = [
+  {
+    id: "series1",
+    recurrence: { frequency: "weekly", interval: 1, skipHolidays: true },
+    start: dueInDays(2),
+    template: {
+      title: "Weekly payroll check",
+      description: "Verify timesheets and payroll adjustments before the weekly payroll run",
+      department: "Finance",
+      priority: "medium",
+      assignedTo: "user5",
+      createdBy: "user1",
+      estimatedDuration: 1,
+    },
   },
 ];
 
+// Initial task templates
+const INITIAL_TEMPLATES: TaskTemplate[] = [
+  {
+    id: "template1",
+    name: "New hire onboarding",
+    description: "Everything HR, IT and the hiring manager need to do for a new starter",
+    department: "HR",
+    createdBy: "user1",
+    createdAt: new Date(Date.now() - 30 * 24 * 60 * 60 * 1000).toISOString(),
+    updatedAt: new Date(Date.now() - 30 * 24 * 60 * 60 * 1000).toISOString(),
+    items: [
+      { id: "onboard1", title: "Send offer paperwork", description: "Contract, NDA and tax forms", dueOffsetDays: -10, priority: "high", assigneeRole: "Recruiter", estimatedDuration: 1 },
+      { id: "onboard2", title: "Order laptop and accounts", description: "Hardware, email and SSO access", dueOffsetDays: -5, priority: "high", assigneeRole: "HR Specialist", estimatedDuration: 2, dependsOn: ["onboard1"] },
+      { id: "onboard3", title: "Prepare first-week schedule", description: "Intro meetings and training sessions", dueOffsetDays: -2, priority: "medium", assigneeRole: "HR Manager", estimatedDuration: 1, dependsOn: ["onboard1"] },
+      { id: "onboard4", title: "Welcome session", description: "Company overview and policies walkthrough", dueOffsetDays: 0, priority: "medium", assigneeRole: "HR Manager", estimatedDuration: 1, dependsOn: ["onboard3"] },
+      { id: "onboard5", title: "Complete compliance training", description: "Security and code-of-conduct modules", dueOffsetDays: 5, priority: "medium", assigneeRole: "HR Specialist", estimatedDuration: 3, dependsOn: ["onboard2"] },
+      { id: "onboard6", title: "30-day check-in", description: "Review progress and gather feedback", dueOffsetDays: 30, priority: "low", assigneeRole: "HR Director", estimatedDuration: 1, dependsOn: ["onboard4"] },
+    ],
+  },
+  {
+    id: "template2",
+    name: "Quarter close",
+    description: "Month-end and quarter-end financial close checklist",
+    department: "Finance",
+    createdBy: "user1",
+    createdAt: new Date(Date.now() - 60 * 24 * 60 * 60 * 1000).toISOString(),
+    updatedAt: new Date(Date.now() - 60 * 24 * 60 * 60 * 1000).toISOString(),
+    items: [
+      { id: "close1", title: "Reconcile bank accounts", description: "Match statements to the ledger", dueOffsetDays: 2, priority: "high", assigneeRole: "Accountant", estimatedDuration: 2 },
+      { id: "close2", title: "Accrue unpaid expenses", description: "Record outstanding invoices and accruals", dueOffsetDays: 3, priority: "high", assigneeRole: "Accountant", estimatedDuration: 1 },
+      { id: "close3", title: "Review variances against budget", description: "Explain material differences", dueOffsetDays: 5, priority: "medium", assigneeRole: "Financial Controller", estimatedDuration: 2, dependsOn: ["close1", "close2"] },
+      { id: "close4", title: "Prepare quarterly statements", description: "P&L, balance sheet and cash flow", dueOffsetDays: 8, priority: "high", assigneeRole: "Financial Controller", estimatedDuration: 3, dependsOn: ["close3"] },
+      { id: "close5", title: "Director sign-off", description: "Final review and approval", dueOffsetDays: 10, priority: "high", assigneeRole: "Finance Director", estimatedDuration: 1, dependsOn: ["close4"] },
+    ],
+  },
+];
+
+// Kanban columns: one per status plus user-defined ones
+const INITIAL_BOARD_COLUMNS: BoardColumn[] = [
+  { id: "pending", title: "Pending", status: "pending" },
+  { id: "in-progress", title: "In Progress", status: "in-progress", wipLimits: { Development: 3 } },
+  { id: "completed", title: "Completed", status: "completed" },
+];
+
+const TASKS_STORAGE_KEY = 'tasks';
+const TASKS_VERSION_KEY = 'tasks_version';
+const SERIES_STORAGE_KEY = 'task_series';
+const BLOCK_PARENT_COMPLETION_KEY = 'tasks_block_parent_completion';
+const BOARD_COLUMNS_STORAGE_KEY = 'task_board_columns';
+const TEMPLATES_STORAGE_KEY = 'task_templates';
+const SAVED_VIEWS_STORAGE_KEY = 'task_saved_views';
+// Bump when the stored task shape changes and add a step to migrateStoredTasks
+const TASKS_STORAGE_VERSION = 2;
+
+// Upgrade tasks saved by older versions of the app
+const migrateStoredTasks = (stored: Task[], version: number): Task[] => {
+  let migrated = stored;
+
+  // v1 saved free-text due dates ("Tomorrow", "3 days"); resolve them
+  // relative to when each task was created
+  if (version < 2) {
+    migrated = migrated.map(task => ({
+      ...task,
+      dueDate: normalizeDueDate(task.dueDate, new Date(task.createdAt)),
+    }));
+  }
+
+  return migrated;
+};
+
+// Load tasks from localStorage, falling back to the sample data
+const loadStoredTasks = (): Task[] => {
+  try {
+    const savedTasks = localStorage.getItem(TASKS_STORAGE_KEY);
+    if (!savedTasks) return INITIAL_TASKS;
+
+    const version = parseInt(localStorage.getItem(TASKS_VERSION_KEY) || '1', 10);
+    return migrateStoredTasks(JSON.parse(savedTasks), version);
+  } catch (error) {
+    console.error('Error loading tasks from localStorage:', error);
+    return INITIAL_TASKS;
+  }
+};
+
+// Load recurring task series from localStorage
+const loadStoredSeries = (): TaskSeries[] => {
+  try {
+    const savedSeries = localStorage.getItem(SERIES_STORAGE_KEY);
+    return savedSeries ? JSON.parse(savedSeries) : INITIAL_SERIES;
+  } catch (error) {
+    console.error('Error loading task series from localStorage:', error);
+    return INITIAL_SERIES;
+  }
+};
+
+// Load Kanban columns from localStorage
+const loadStoredBoardColumns = (): BoardColumn[] => {
+  try {
+    const savedColumns = localStorage.getItem(BOARD_COLUMNS_STORAGE_KEY);
+    return savedColumns ? JSON.parse(savedColumns) : INITIAL_BOARD_COLUMNS;
+  } catch (error) {
+    console.error('Error loading board columns from localStorage:', error);
+    return INITIAL_BOARD_COLUMNS;
+  }
+};
+
+// Load task templates from localStorage
+const loadStoredTemplates = (): TaskTemplate[] => {
+  try {
+    const savedTemplates = localStorage.getItem(TEMPLATES_STORAGE_KEY);
+    return savedTemplates ? JSON.parse(savedTemplates) : INITIAL_TEMPLATES;
+  } catch (error) {
+    console.error('Error loading task templates from localStorage:', error);
+    return INITIAL_TEMPLATES;
+  }
+};
+
+// Load saved task views from localStorage
+const loadStoredViews = (): SavedTaskView[] => {
+  try {
+    const savedViews = localStorage.getItem(SAVED_VIEWS_STORAGE_KEY);
+    return savedViews ? JSON.parse(savedViews) : [];
+  } catch (error) {
+    console.error('Error loading saved task views from localStorage:', error);
+    return [];
+  }
+};
+
+// Pick the template fields out of a task
+const toSeriesTemplate = (task: TaskSeriesTemplate): TaskSeriesTemplate => ({
+  title: task.title,
+  description: task.description,
+  department: task.department,
+  priority: task.priority,
+  assignedTo: task.assignedTo,
+  createdBy: task.createdBy,
+  estimatedDuration: task.estimatedDuration,
+  checklist: task.checklist,
+  requiredSkills: task.requiredSkills,
+});
+
 // Context type
 interface TasksContextType {
   tasks: Task[];
-  addTask: (task: Omit<Task, 'id' | 'createdAt' | 'updatedAt'>) => void;
+  series: TaskSeries[];
+  addTask: (task: NewTask, options?: AddTaskOptions) => Task;
   updateTask: (id: string, updates: Partial<Task>) => void;
   deleteTask: (id: string) => void;
-  markAsCompleted: (id: string) => void;
+  markAsCompleted: (id: string, updates?: Partial<Task>) => Task[];
   markAsInProgress: (id: string) => void;
   markAsPending: (id: string) => void;
   getTasksByDepartment: (department: string) => Task[];
   getTasksByStatus: (status: TaskStatus) => Task[];
   getTasksByPriority: (priority: TaskPriority) => Task[];
   getTasksByAssignee: (assignedTo: string) => Task[];
+  addDependency: (taskId: string, dependsOnId: string, type?: DependencyType) => boolean;
+  removeDependency: (taskId: string, dependsOnId: string) => void;
+  getBlockedBy: (id: string) => Task[];
+  getBlocking: (id: string) => Task[];
+  isBlocked: (id: string) => boolean;
+  getCriticalPath: (department?: string, deadline?: string) => CriticalPathResult;
+  getSeries: (seriesId: string) => TaskSeries | undefined;
+  updateOccurrence: (id: string, updates: Partial<Task>, scope: OccurrenceScope, recurrence?: RecurrenceRule | null) => void;
+  getSubtasks: (id: string) => Task[];
+  getTaskProgress: (id: string) => number;
+  addChecklistItem: (taskId: string, text: string) => void;
+  toggleChecklistItem: (taskId: string, itemId: string) => void;
+  removeChecklistItem: (taskId: string, itemId: string) => void;
+  blockParentCompletion: boolean;
+  setBlockParentCompletion: (block: boolean) => void;
+  boardColumns: BoardColumn[];
+  addBoardColumn: (title: string, status: TaskStatus) => void;
+  removeBoardColumn: (id: string) => void;
+  setWipLimit: (columnId: string, department: string, limit: number | null) => void;
+  moveTaskToColumn: (taskId: string, columnId: string) => boolean;
+  templates: TaskTemplate[];
+  addTemplate: (template: Omit<TaskTemplate, 'id' | 'createdAt' | 'updatedAt'>) => void;
+  updateTemplate: (id: string, updates: Partial<TaskTemplate>) => void;
+  deleteTemplate: (id: string) => void;
+  instantiateTemplate: (templateId: string, options: TemplateInstantiation) => Task[];
+  savedViews: SavedTaskView[]; // the current user's views
+  saveView: (name: string, settings: TaskViewSettings) => SavedTaskView | undefined;
+  deleteView: (id: string) => void;
 }
 
 // Create context
@@ -148,49 +506,186 @@ const TasksContext = createContext<TasksContextType | null>(null);
 
 // Provider component
 export const TasksProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
-  const [tasks, setTasks] = useState<Task[]>(INITIAL_TASKS);
+  const [tasks, setTasks] = useState<Task[]>(loadStoredTasks);
+  const [series, setSeries] = useState<TaskSeries[]>(loadStoredSeries);
+  // Whether a parent task can only be completed once its subtasks and
+  // checklist items are done
+  const [blockParentCompletion, setBlockParentCompletionState] = useState<boolean>(
+    () => localStorage.getItem(BLOCK_PARENT_COMPLETION_KEY) !== 'false'
+  );
+  const [boardColumns, setBoardColumns] = useState<BoardColumn[]>(loadStoredBoardColumns);
+  const [templates, setTemplates] = useState<TaskTemplate[]>(loadStoredTemplates);
+  const [allSavedViews, setAllSavedViews] = useState<SavedTaskView[]>(loadStoredViews);
+  const { user } = useAuth();
+  const { addAuditLog } = useAudit();
+
+  // Save tasks to localStorage whenever they change
+  useEffect(() => {
+    try {
+      localStorage.setItem(TASKS_STORAGE_KEY, JSON.stringify(tasks));
+      localStorage.setItem(TASKS_VERSION_KEY, String(TASKS_STORAGE_VERSION));
+    } catch (error) {
+      console.error('Error saving tasks to localStorage:', error);
+    }
+  }, [tasks]);
+
+  // Save recurring series to localStorage whenever they change
+  useEffect(() => {
+    try {
+      localStorage.setItem(SERIES_STORAGE_KEY, JSON.stringify(series));
+    } catch (error) {
+      console.error('Error saving task series to localStorage:', error);
+    }
+  }, [series]);
+
+  // Save Kanban columns to localStorage whenever they change
+  useEffect(() => {
+    try {
+      localStorage.setItem(BOARD_COLUMNS_STORAGE_KEY, JSON.stringify(boardColumns));
+    } catch (error) {
+      console.error('Error saving board columns to localStorage:', error);
+    }
+  }, [boardColumns]);
+
+  // Save task templates to localStorage whenever they change
+  useEffect(() => {
+    try {
+      localStorage.setItem(TEMPLATES_STORAGE_KEY, JSON.stringify(templates));
+    } catch (error) {
+      console.error('Error saving task templates to localStorage:', error);
+    }
+  }, [templates]);
+
+  // Save task views to localStorage whenever they change
+  useEffect(() => {
+    try {
+      localStorage.setItem(SAVED_VIEWS_STORAGE_KEY, JSON.stringify(allSavedViews));
+    } catch (error) {
+      console.error('Error saving task views to localStorage:', error);
+    }
+  }, [allSavedViews]);
 
   // Add a new task
-  const addTask = (task: Omit<Task, 'id' | 'createdAt' | 'updatedAt'>) => {
+  const addTask = ({ recurrence, ...task }: NewTask, options: AddTaskOptions = {}): Task => {
     const now = new Date().toISOString();
     const newTask: Task = {
       ...task,
+      dueDate: normalizeDueDate(task.dueDate),
       id: uuidv4(),
       createdAt: now,
       updatedAt: now,
     };
 
+    // Recurring tasks start a series; snap the first due date onto the rule
+    if (recurrence) {
+      const start = toDueDateString(getOccurrenceDate(recurrence, newTask.dueDate, 1));
+      const newSeries: TaskSeries = {
+        id: uuidv4(),
+        recurrence,
+        start,
+        template: toSeriesTemplate(newTask),
+      };
+      newTask.dueDate = start;
+      newTask.seriesId = newSeries.id;
+      newTask.occurrenceIndex = 1;
+      setSeries(prev => [...prev, newSeries]);
+    }
+
     setTasks(prev => [newTask, ...prev]);
 
-    toast({
-      title: "Task Added",
-      description: `"${newTask.title}" has been added successfully.`,
-    });
+    if (!options.silent) {
+      addAuditLog(
+        'create',
+        'task',
+        newTask.id,
+        newTask.title,
+        newTask.parentId ? `Created subtask in ${newTask.department}` : `Created task in ${newTask.department}`,
+        getTaskChanges({}, {
+          title: newTask.title,
+          status: newTask.status,
+          priority: newTask.priority,
+          department: newTask.department,
+          dueDate: newTask.dueDate,
+          assignedTo: newTask.assignedTo,
+        })
+      );
+
+      toast({
+        title: "Task Added",
+        description: `"${newTask.title}" has been added successfully.`,
+      });
+    }
+
+    return newTask;
+  };
+
+  // Record the fields an edit changed; reassignments are logged as such
+  const auditTaskChanges = (before: Task, after: Task, details?: string) => {
+    const changes = getTaskChanges(before, after);
+    if (changes.length === 0) return;
+
+    const isReassignment = changes.every(change => change.field === 'assignedTo');
+    addAuditLog(
+      isReassignment ? 'assign' : 'update',
+      'task',
+      before.id,
+      after.title,
+      details || describeTaskChanges(changes),
+      changes
+    );
   };
 
   // Update an existing task
   const updateTask = (id: string, updates: Partial<Task>) => {
+    const before = tasks.find(task => task.id === id);
+    const applyUpdates = (task: Task): Task => ({ 
+      ...task, 
+      ...updates, 
+      ...(updates.dueDate !== undefined && { dueDate: normalizeDueDate(updates.dueDate) }),
+      updatedAt: new Date().toISOString() 
+    });
+
     setTasks(prev => 
-      prev.map(task => 
-        task.id === id 
-          ? { 
-              ...task, 
-              ...updates, 
-              updatedAt: new Date().toISOString() 
-            } 
-          : task
-      )
+      prev.map(task => task.id === id ? applyUpdates(task) : task)
     );
 
+    if (before) {
+      auditTaskChanges(before, applyUpdates(before));
+    }
+
     toast({
       title: "Task Updated",
       description: "The task has been updated successfully.",
     });
   };
 
-  // Delete a task
+  // Delete a task along with its subtasks
   const deleteTask = (id: string) => {
-    setTasks(prev => prev.filter(task => task.id !== id));
+    const task = tasks.find(t => t.id === id);
+    const removedIds = [id, ...getDescendantIds(tasks, id)];
+    setTasks(prev => 
+      prev
+        .filter(task => !removedIds.includes(task.id))
+        .map(task => 
+          task.dependencies?.some(dep => removedIds.includes(dep.taskId))
+            ? { ...task, dependencies: task.dependencies.filter(dep => !removedIds.includes(dep.taskId)) }
+            : task
+        )
+    );
+
+    if (task) {
+      const subtaskCount = removedIds.length - 1;
+      addAuditLog(
+        'delete',
+        'task',
+        id,
+        task.title,
+        subtaskCount > 0 
+          ? `Deleted task and ${subtaskCount} subtask${subtaskCount === 1 ? '' : 's'}` 
+          : 'Deleted task',
+        getTaskChanges({ status: task.status, assignedTo: task.assignedTo }, {})
+      );
+    }
 
     toast({
       title: "Task Deleted",
@@ -198,13 +693,92 @@ export const TasksProvider: React.FC<{ children: ReactNode }> = ({ children }) =
     });
   };
 
-  // Mark task as completed
-  const markAsCompleted = (id: string) => {
-    updateTask(id, { status: "completed" });
+  // Check whether a task may be completed, explaining why not if it can't
+  const canComplete = (id: string): boolean => {
+    if (!blockParentCompletion) return true;
+
+    const { subtasks, checklistItems } = getOpenChildren(tasks, id);
+    if (subtasks.length > 0 || checklistItems > 0) {
+      toast({
+        title: "Task Not Completed",
+        description: `Finish ${[
+          subtasks.length > 0 && `${subtasks.length} open subtask(s)`,
+          checklistItems > 0 && `${checklistItems} checklist item(s)`,
+        ].filter(Boolean).join(" and ")} first.`,
+        variant: "destructive",
+      });
+      return false;
+    }
+    return true;
+  };
+
+  // Mark task as completed and report the tasks it was the last blocker for
+  const markAsCompleted = (id: string, updates: Partial<Task> = {}): Task[] => {
+    if (!canComplete(id)) return [];
+
+    const afterCompletion = tasks.map(task => 
+      task.id === id ? { ...task, status: "completed" as TaskStatus } : task
+    );
+    const unblockedTasks = getSuccessors(id, tasks).filter(task => 
+      task.status !== "completed" &&
+      isTaskBlocked(task, tasks) &&
+      !isTaskBlocked(task, afterCompletion)
+    );
+
+    updateTask(id, { ...updates, status: "completed" });
     
     toast({
       title: "Task Completed",
-      description: "The task has been marked as completed.",
+      description: unblockedTasks.length > 0
+        ? `Now unblocked: ${unblockedTasks.map(task => `"${task.title}"`).join(", ")}.`
+        : "The task has been marked as completed.",
+    });
+
+    scheduleNextOccurrence(id);
+
+    return unblockedTasks;
+  };
+
+  // Create the next occurrence of a recurring task, unless the series has
+  // ended or the occurrence already exists
+  const scheduleNextOccurrence = (id: string) => {
+    const task = tasks.find(t => t.id === id);
+    const taskSeries = task?.seriesId ? series.find(s => s.id === task.seriesId) : undefined;
+    if (!task || !taskSeries) return;
+
+    const currentIndex = task.occurrenceIndex || 1;
+    const alreadyScheduled = tasks.some(t => 
+      t.seriesId === taskSeries.id && (t.occurrenceIndex || 1) > currentIndex
+    );
+    const next = getNextOccurrence(taskSeries.recurrence, taskSeries.start, currentIndex);
+    if (alreadyScheduled || !next) return;
+
+    const now = new Date().toISOString();
+    const nextTask: Task = {
+      ...taskSeries.template,
+      checklist: taskSeries.template.checklist?.map(item => ({ ...item, id: uuidv4(), done: false })),
+      id: uuidv4(),
+      status: "pending",
+      dueDate: toDueDateString(next),
+      seriesId: taskSeries.id,
+      occurrenceIndex: currentIndex + 1,
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    setTasks(prev => [nextTask, ...prev]);
+
+    addAuditLog(
+      'create',
+      'task',
+      nextTask.id,
+      nextTask.title,
+      `Scheduled occurrence ${nextTask.occurrenceIndex} of a recurring task`
+    );
+
+    toast({
+      title: "Next Occurrence Scheduled",
+      description: `"${nextTask.title}" is due again on ${format(next, "EEE, MMM d")}.`,
     });
   };
 
@@ -248,9 +822,437 @@ export const TasksProvider: React.FC<{ children: ReactNode }> = ({ children }) =
     return tasks.filter(task => task.assignedTo === assignedTo);
   };
 
+  // Make a task depend on another one, refusing links that would form a cycle
+  const addDependency = (taskId: string, dependsOnId: string, type: DependencyType = "finish-to-start"): boolean => {
+    const task = tasks.find(t => t.id === taskId);
+    const dependsOn = tasks.find(t => t.id === dependsOnId);
+    if (!task || !dependsOn) return false;
+
+    if (wouldCreateCycle(tasks, taskId, dependsOnId)) {
+      toast({
+        title: "Dependency Not Added",
+        description: `"${task.title}" cannot depend on "${dependsOn.title}" because it would create a circular dependency.`,
+        variant: "destructive",
+      });
+      return false;
+    }
+
+    const dependencies = [
+      ...(task.dependencies || []).filter(dep => dep.taskId !== dependsOnId),
+      { taskId: dependsOnId, type },
+    ];
+
+    setTasks(prev => 
+      prev.map(t => 
+        t.id === taskId 
+          ? { ...t, dependencies, updatedAt: new Date().toISOString() } 
+          : t
+      )
+    );
+
+    auditTaskChanges(task, { ...task, dependencies }, `Now blocked by "${dependsOn.title}"`);
+
+    return true;
+  };
+
+  // Remove a dependency link
+  const removeDependency = (taskId: string, dependsOnId: string) => {
+    const task = tasks.find(t => t.id === taskId);
+    const dependencies = (task?.dependencies || []).filter(dep => dep.taskId !== dependsOnId);
+
+    setTasks(prev => 
+      prev.map(t => 
+        t.id === taskId 
+          ? { ...t, dependencies, updatedAt: new Date().toISOString() } 
+          : t
+      )
+    );
+
+    if (task) {
+      const predecessor = tasks.find(t => t.id === dependsOnId);
+      auditTaskChanges(task, { ...task, dependencies }, `No longer blocked by "${predecessor?.title || dependsOnId}"`);
+    }
+  };
+
+  // Get the tasks a task is blocked by
+  const getBlockedBy = (id: string) => {
+    const task = tasks.find(t => t.id === id);
+    if (!task) return [];
+    return (task.dependencies || [])
+      .map(dep => tasks.find(t => t.id === dep.taskId))
+      .filter((t): t is Task => !!t);
+  };
+
+  // Get the tasks waiting on a task
+  const getBlocking = (id: string) => {
+    return getSuccessors(id, tasks);
+  };
+
+  // Check whether a task is still waiting on its predecessors
+  const isBlocked = (id: string) => {
+    const task = tasks.find(t => t.id === id);
+    return task ? isTaskBlocked(task, tasks) : false;
+  };
+
+  // Critical path for a department (or all tasks)
+  const getCriticalPath = (department?: string, deadline?: string) => {
+    const scope = department ? getTasksByDepartment(department) : tasks;
+    return computeCriticalPath(scope, deadline);
+  };
+
+  // Get a recurring series by ID
+  const getSeries = (seriesId: string) => {
+    return series.find(s => s.id === seriesId);
+  };
+
+  // Edit an occurrence of a recurring task. "this" only touches the given
+  // occurrence; "future" also updates later open occurrences and splits off
+  // a new series from this point so earlier occurrences keep their rule.
+  // Passing recurrence: null stops the task repeating.
+  const updateOccurrence = (
+    id: string, 
+    updates: Partial<Task>, 
+    scope: OccurrenceScope, 
+    recurrence?: RecurrenceRule | null
+  ) => {
+    const task = tasks.find(t => t.id === id);
+    if (!task) return;
+
+    if (scope === "this") {
+      updateTask(id, updates);
+      return;
+    }
+
+    const currentSeries = task.seriesId ? series.find(s => s.id === task.seriesId) : undefined;
+    const currentIndex = task.occurrenceIndex || 1;
+    const updatedTask = { ...task, ...updates };
+    const dueDate = normalizeDueDate(updatedTask.dueDate);
+
+    // Work out the rule for the split-off series; an unchanged rule with an
+    // occurrence limit keeps only the occurrences that are left
+    let newRule: RecurrenceRule | null = recurrence === undefined ? currentSeries?.recurrence || null : recurrence;
+    if (
+      newRule && currentSeries && newRule.count &&
+      JSON.stringify(newRule) === JSON.stringify(currentSeries.recurrence)
+    ) {
+      newRule = { ...newRule, count: Math.max(newRule.count - (currentIndex - 1), 1) };
+    }
+
+    const newSeries: TaskSeries | null = newRule
+      ? {
+          id: uuidv4(),
+          recurrence: newRule,
+          start: toDueDateString(getOccurrenceDate(newRule, dueDate, 1)),
+          template: toSeriesTemplate(updatedTask),
+        }
+      : null;
+
+    const templateUpdates = toSeriesTemplate(updatedTask);
+    const now = new Date().toISOString();
+
+    setTasks(prev => 
+      prev.map(t => {
+        if (t.id === id) {
+          return {
+            ...t,
+            ...updates,
+            dueDate: newSeries ? newSeries.start : dueDate,
+            seriesId: newSeries?.id,
+            occurrenceIndex: newSeries ? 1 : undefined,
+            updatedAt: now,
+          };
+        }
+        // Later open occurrences of the old series pick up the new details
+        if (
+          currentSeries && newSeries &&
+          t.seriesId === currentSeries.id && 
+          (t.occurrenceIndex || 1) > currentIndex && 
+          t.status !== "completed"
+        ) {
+          return {
+            ...t,
+            ...templateUpdates,
+            seriesId: newSeries.id,
+            occurrenceIndex: (t.occurrenceIndex || 1) - currentIndex + 1,
+            updatedAt: now,
+          };
+        }
+        return t;
+      })
+    );
+
+    // The old series now ends just before this occurrence (or goes away
+    // entirely if this was its first occurrence)
+    setSeries(prev => [
+      ...prev
+        .filter(s => !(currentSeries && s.id === currentSeries.id && currentIndex === 1))
+        .map(s => 
+          currentSeries && s.id === currentSeries.id
+            ? { ...s, recurrence: { ...s.recurrence, count: currentIndex - 1, until: undefined } }
+            : s
+        ),
+      ...(newSeries ? [newSeries] : []),
+    ]);
+
+    auditTaskChanges(
+      task, 
+      { ...task, ...updates, dueDate },
+      newSeries
+        ? `Updated this and future occurrences (${describeRecurrence(newSeries.recurrence)})`
+        : "Stopped the task repeating"
+    );
+
+    toast({
+      title: "Task Updated",
+      description: newSeries
+        ? `This and future occurrences: ${describeRecurrence(newSeries.recurrence)}.`
+        : "The task no longer repeats.",
+    });
+  };
+
+  // Get the direct subtasks of a task
+  const getSubtasks = (id: string) => {
+    return getChildTasks(tasks, id);
+  };
+
+  // Completion between 0 and 1, rolled up from subtasks and checklist items
+  const getTaskProgress = (id: string) => {
+    return computeTaskProgress(tasks, id);
+  };
+
+  // Apply a change to one task's checklist
+  const updateChecklist = (
+    taskId: string, 
+    update: (checklist: ChecklistItem[]) => ChecklistItem[], 
+    details: string
+  ) => {
+    setTasks(prev => 
+      prev.map(task => 
+        task.id === taskId 
+          ? { ...task, checklist: update(task.checklist || []), updatedAt: new Date().toISOString() } 
+          : task
+      )
+    );
+
+    const task = tasks.find(t => t.id === taskId);
+    if (task) {
+      auditTaskChanges(task, { ...task, checklist: update(task.checklist || []) }, details);
+    }
+  };
+
+  // Add a checklist item to a task
+  const addChecklistItem = (taskId: string, text: string) => {
+    const item: ChecklistItem = { id: uuidv4(), text, done: false };
+    updateChecklist(taskId, checklist => [...checklist, item], `Added checklist item "${text}"`);
+  };
+
+  // Tick or untick a checklist item
+  const toggleChecklistItem = (taskId: string, itemId: string) => {
+    const item = tasks.find(t => t.id === taskId)?.checklist?.find(i => i.id === itemId);
+    updateChecklist(
+      taskId, 
+      checklist => checklist.map(i => i.id === itemId ? { ...i, done: !i.done } : i),
+      `${item?.done ? 'Unticked' : 'Ticked'} checklist item "${item?.text}"`
+    );
+  };
+
+  // Remove a checklist item
+  const removeChecklistItem = (taskId: string, itemId: string) => {
+    const item = tasks.find(t => t.id === taskId)?.checklist?.find(i => i.id === itemId);
+    updateChecklist(
+      taskId, 
+      checklist => checklist.filter(i => i.id !== itemId),
+      `Removed checklist item "${item?.text}"`
+    );
+  };
+
+  // Change and remember the parent completion setting
+  const setBlockParentCompletion = (block: boolean) => {
+    setBlockParentCompletionState(block);
+    localStorage.setItem(BLOCK_PARENT_COMPLETION_KEY, String(block));
+  };
+
+  // Add a user-defined column, placed before the first "done" column
+  const addBoardColumn = (title: string, status: TaskStatus) => {
+    const newColumn: BoardColumn = { id: uuidv4(), title, status };
+    setBoardColumns(prev => {
+      const doneIndex = prev.findIndex(column => column.status === "completed");
+      const insertAt = doneIndex === -1 ? prev.length : doneIndex;
+      return [...prev.slice(0, insertAt), newColumn, ...prev.slice(insertAt)];
+    });
+  };
+
+  // Remove a user-defined column; its tasks return to their status column
+  const removeBoardColumn = (id: string) => {
+    const column = boardColumns.find(c => c.id === id);
+    if (!column || isStatusColumn(column)) return;
+
+    setBoardColumns(prev => prev.filter(c => c.id !== id));
+    setTasks(prev => 
+      prev.map(task => task.boardColumn === id ? { ...task, boardColumn: undefined } : task)
+    );
+  };
+
+  // Set or clear a column's WIP limit for one department
+  const setWipLimit = (columnId: string, department: string, limit: number | null) => {
+    setBoardColumns(prev => 
+      prev.map(column => {
+        if (column.id !== columnId) return column;
+        const wipLimits = { ...column.wipLimits };
+        if (limit === null) {
+          delete wipLimits[department];
+        } else {
+          wipLimits[department] = limit;
+        }
+        return { ...column, wipLimits };
+      })
+    );
+  };
+
+  // Move a task to a board column, respecting the column's WIP limit for
+  // the task's department. Returns whether the task was moved.
+  const moveTaskToColumn = (taskId: string, columnId: string): boolean => {
+    const task = tasks.find(t => t.id === taskId);
+    const column = boardColumns.find(c => c.id === columnId);
+    if (!task || !column || getTaskColumnId(task, boardColumns) === columnId) return false;
+
+    const limit = getWipLimit(column, task.department);
+    if (limit !== undefined && countColumnTasks(tasks, boardColumns, columnId, task.department) >= limit) {
+      toast({
+        title: "WIP Limit Reached",
+        description: `"${column.title}" already holds ${limit} ${task.department} task(s). Finish one before pulling in more.`,
+        variant: "destructive",
+      });
+      return false;
+    }
+
+    const boardColumn = isStatusColumn(column) ? undefined : column.id;
+    if (column.status === "completed" && task.status !== "completed") {
+      if (!canComplete(taskId)) return false;
+      markAsCompleted(taskId, { boardColumn });
+    } else {
+      updateTask(taskId, { status: column.status, boardColumn });
+    }
+    return true;
+  };
+
+  // Save a new task template
+  const addTemplate = (template: Omit<TaskTemplate, 'id' | 'createdAt' | 'updatedAt'>) => {
+    const now = new Date().toISOString();
+    setTemplates(prev => [...prev, { ...template, id: uuidv4(), createdAt: now, updatedAt: now }]);
+
+    toast({
+      title: "Template Saved",
+      description: `"${template.name}" is ready to use.`,
+    });
+  };
+
+  // Update a task template
+  const updateTemplate = (id: string, updates: Partial<TaskTemplate>) => {
+    setTemplates(prev => 
+      prev.map(template => 
+        template.id === id 
+          ? { ...template, ...updates, updatedAt: new Date().toISOString() } 
+          : template
+      )
+    );
+
+    toast({
+      title: "Template Updated",
+      description: "The template has been updated successfully.",
+    });
+  };
+
+  // Delete a task template; tasks already created from it are kept
+  const deleteTemplate = (id: string) => {
+    setTemplates(prev => prev.filter(template => template.id !== id));
+
+    toast({
+      title: "Template Deleted",
+      description: "The template has been deleted.",
+    });
+  };
+
+  // Create every task in a template, resolving due offsets against the
+  // start date, role placeholders against the chosen people and item
+  // dependencies against the newly created tasks
+  const instantiateTemplate = (templateId: string, { startDate, department, assignees }: TemplateInstantiation): Task[] => {
+    const template = templates.find(t => t.id === templateId);
+    if (!template) return [];
+
+    const start = new Date(startDate);
+    const createdIds: Record<string, string> = {};
+
+    // Items only depend on earlier ones, so creating in order resolves them all
+    const created = template.items.map(item => {
+      const task = addTask({
+        title: item.title,
+        description: item.description,
+        status: "pending",
+        dueDate: toDueDateString(getTemplateItemDueDate(start, item)),
+        department,
+        priority: item.priority,
+        assignedTo: item.assigneeRole ? assignees[item.assigneeRole] : undefined,
+        createdBy: user?.id,
+        estimatedDuration: item.estimatedDuration,
+        dependencies: (item.dependsOn || [])
+          .filter(itemId => createdIds[itemId])
+          .map(itemId => ({ taskId: createdIds[itemId], type: "finish-to-start" as DependencyType })),
+      }, { silent: true });
+      createdIds[item.id] = task.id;
+      return task;
+    });
+
+    addAuditLog(
+      'create',
+      'task',
+      template.id,
+      template.name,
+      `Created ${created.length} tasks from template "${template.name}" for ${department}, starting ${format(start, "MMM d, yyyy")}`
+    );
+
+    toast({
+      title: "Template Applied",
+      description: `${created.length} tasks were created from "${template.name}".`,
+    });
+
+    return created;
+  };
+
+  const savedViews = allSavedViews.filter(view => view.userId === user?.id);
+
+  // Save the current filters, sort and grouping under a name; saving over an
+  // existing name replaces that view
+  const saveView = (name: string, settings: TaskViewSettings): SavedTaskView | undefined => {
+    if (!user) return undefined;
+
+    const existing = savedViews.find(view => view.name.toLowerCase() === name.toLowerCase());
+    const view: SavedTaskView = {
+      ...settings,
+      id: existing?.id || uuidv4(),
+      name,
+      userId: user.id,
+      createdAt: existing?.createdAt || new Date().toISOString(),
+    };
+    setAllSavedViews(prev => [...prev.filter(v => v.id !== view.id), view]);
+
+    toast({
+      title: existing ? "View Updated" : "View Saved",
+      description: `"${name}" is now in your saved views.`,
+    });
+
+    return view;
+  };
+
+  // Delete one of the current user's saved views
+  const deleteView = (id: string) => {
+    setAllSavedViews(prev => prev.filter(view => !(view.id === id && view.userId === user?.id)));
+  };
+
   // Context value
   const contextValue: TasksContextType = {
     tasks,
+    series,
     addTask,
     updateTask,
     deleteTask,
@@ -261,6 +1263,34 @@ export const TasksProvider: React.FC<{ children: ReactNode }> = ({ children }) =
     getTasksByStatus,
     getTasksByPriority,
     getTasksByAssignee,
+    addDependency,
+    removeDependency,
+    getBlockedBy,
+    getBlocking,
+    isBlocked,
+    getCriticalPath,
+    getSeries,
+    updateOccurrence,
+    getSubtasks,
+    getTaskProgress,
+    addChecklistItem,
+    toggleChecklistItem,
+    removeChecklistItem,
+    blockParentCompletion,
+    setBlockParentCompletion,
+    boardColumns,
+    addBoardColumn,
+    removeBoardColumn,
+    setWipLimit,
+    moveTaskToColumn,
+    templates,
+    addTemplate,
+    updateTemplate,
+    deleteTemplate,
+    instantiateTemplate,
+    savedViews,
+    saveView,
+    deleteView,
   };
 
   return (
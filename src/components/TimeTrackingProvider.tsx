@@ -0,0 +1,391 @@
+import React, { createContext, useState, useContext, useEffect, ReactNode } from 'react';
+import { v4 as uuidv4 } from 'uuid';
+import { addDays, differenceInMinutes, parseISO, set, startOfWeek, subWeeks } from 'date-fns';
+import { toast } from "@/hooks/use-toast";
+import { useAuth } from './AuthProvider';
+import { useAudit } from './AuditProvider';
+import { formatMinutes, getWeekStart } from "@/lib/timesheets";
+
+// Define types
+export type TimeEntrySource = "timer" | "manual";
+export type TimesheetStatus = "draft" | "submitted" | "approved" | "rejected";
+
+export interface TimeEntry {
+  id: string;
+  taskId: string;
+  userId: string;
+  date: string; // ISO timestamp the work started
+  minutes: number;
+  note?: string;
+  source: TimeEntrySource;
+  createdAt: string;
+}
+
+export interface ActiveTimer {
+  taskId: string;
+  userId: string;
+  startedAt: string;
+}
+
+export interface Timesheet {
+  id: string;
+  userId: string;
+  weekStart: string; // Monday, yyyy-MM-dd
+  status: TimesheetStatus;
+  submittedAt?: string;
+  reviewedBy?: string;
+  reviewedAt?: string;
+  reviewNote?: string;
+}
+
+export type NewTimeEntry = Pick<TimeEntry, 'taskId' | 'date' | 'minutes' | 'note'>;
+
+// Work logged at `hour` o'clock `days` after the Monday `weeksAgo` weeks back
+const loggedAt = (weeksAgo: number, days: number, hour: number) =>
+  set(addDays(startOfWeek(subWeeks(new Date(), weeksAgo), { weekStartsOn: 1 }), days), {
+    hours: hour, minutes: 0, seconds: 0, milliseconds: 0,
+  }).toISOString();
+
+// Initial time entries
+const INITIAL_TIME_ENTRIES: TimeEntry[] = [
+  { id: "time1", taskId: "task3", userId: "user2", date: loggedAt(1, 1, 9), minutes: 240, source: "manual", note: "First draft of the guide", createdAt: loggedAt(1, 1, 13) },
+  { id: "time2", taskId: "task3", userId: "user2", date: loggedAt(1, 2, 10), minutes: 180, source: "timer", createdAt: loggedAt(1, 2, 13) },
+  { id: "time3", taskId: "task6", userId: "user3", date: loggedAt(1, 0, 9), minutes: 300, source: "manual", createdAt: loggedAt(1, 0, 14) },
+  { id: "time4", taskId: "task6", userId: "user3", date: loggedAt(1, 3, 9), minutes: 420, source: "manual", createdAt: loggedAt(1, 3, 16) },
+  { id: "time5", taskId: "task8a", userId: "user1", date: loggedAt(1, 3, 10), minutes: 600, source: "timer", createdAt: loggedAt(1, 3, 20) },
+  { id: "time6", taskId: "task1", userId: "user1", date: loggedAt(0, 0, 9), minutes: 210, source: "timer", createdAt: loggedAt(0, 0, 12) },
+  { id: "time7", taskId: "task4", userId: "user1", date: loggedAt(0, 0, 13), minutes: 150, source: "manual", note: "Assignment workflow spike", createdAt: loggedAt(0, 0, 16) },
+];
+
+// Initial timesheets; weeks without one are drafts
+const INITIAL_TIMESHEETS: Timesheet[] = [
+  {
+    id: "sheet1",
+    userId: "user2",
+    weekStart: getWeekStart(subWeeks(new Date(), 1)),
+    status: "submitted",
+    submittedAt: loggedAt(1, 4, 17),
+  },
+];
+
+const TIME_ENTRIES_STORAGE_KEY = 'time_entries';
+const ACTIVE_TIMERS_STORAGE_KEY = 'active_timers';
+const TIMESHEETS_STORAGE_KEY = 'timesheets';
+
+// Load a value from localStorage, falling back to the sample data
+const loadStored = <T,>(key: string, fallback: T): T => {
+  try {
+    const saved = localStorage.getItem(key);
+    return saved ? JSON.parse(saved) : fallback;
+  } catch (error) {
+    console.error(`Error loading ${key} from localStorage:`, error);
+    return fallback;
+  }
+};
+
+// Context type
+interface TimeTrackingContextType {
+  timeEntries: TimeEntry[];
+  activeTimers: ActiveTimer[];
+  timesheets: Timesheet[];
+  startTimer: (taskId: string) => void;
+  stopTimer: () => TimeEntry | null;
+  getActiveTimer: (userId?: string) => ActiveTimer | undefined;
+  addTimeEntry: (entry: NewTimeEntry) => boolean;
+  deleteTimeEntry: (id: string) => void;
+  getTaskTimeEntries: (taskId: string) => TimeEntry[];
+  getLoggedMinutes: (taskId: string) => number;
+  getUserTimeEntries: (userId: string) => TimeEntry[];
+  getTimesheet: (userId: string, weekStart: string) => Timesheet;
+  isWeekLocked: (userId: string, weekStart: string) => boolean;
+  submitTimesheet: (weekStart: string) => void;
+  approveTimesheet: (userId: string, weekStart: string, note?: string) => void;
+  rejectTimesheet: (userId: string, weekStart: string, note: string) => void;
+  canApproveTimesheets: boolean;
+}
+
+// Create context
+const TimeTrackingContext = createContext<TimeTrackingContextType | null>(null);
+
+// Provider component
+export const TimeTrackingProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
+  const { user, hasPermission } = useAuth();
+  const { addAuditLog } = useAudit();
+  const [timeEntries, setTimeEntries] = useState<TimeEntry[]>(() => loadStored(TIME_ENTRIES_STORAGE_KEY, INITIAL_TIME_ENTRIES));
+  const [activeTimers, setActiveTimers] = useState<ActiveTimer[]>(() => loadStored(ACTIVE_TIMERS_STORAGE_KEY, []));
+  const [timesheets, setTimesheets] = useState<Timesheet[]>(() => loadStored(TIMESHEETS_STORAGE_KEY, INITIAL_TIMESHEETS));
+
+  // Save time tracking data to localStorage whenever it changes
+  useEffect(() => {
+    try {
+      localStorage.setItem(TIME_ENTRIES_STORAGE_KEY, JSON.stringify(timeEntries));
+      localStorage.setItem(ACTIVE_TIMERS_STORAGE_KEY, JSON.stringify(activeTimers));
+      localStorage.setItem(TIMESHEETS_STORAGE_KEY, JSON.stringify(timesheets));
+    } catch (error) {
+      console.error('Error saving time tracking data to localStorage:', error);
+    }
+  }, [timeEntries, activeTimers, timesheets]);
+
+  // Managers approve timesheets (though never their own)
+  const canApproveTimesheets = hasPermission('manage', 'task');
+
+  // Get a user's timesheet for a week; weeks never submitted are drafts
+  const getTimesheet = (userId: string, weekStart: string): Timesheet => {
+    return timesheets.find(sheet => sheet.userId === userId && sheet.weekStart === weekStart) || {
+      id: `draft-${userId}-${weekStart}`,
+      userId,
+      weekStart,
+      status: "draft",
+    };
+  };
+
+  // Submitted and approved weeks can no longer be edited
+  const isWeekLocked = (userId: string, weekStart: string) => {
+    const { status } = getTimesheet(userId, weekStart);
+    return status === "submitted" || status === "approved";
+  };
+
+  // Refuse changes to a locked week, explaining why
+  const ensureWeekEditable = (userId: string, date: string): boolean => {
+    const weekStart = getWeekStart(parseISO(date));
+    if (isWeekLocked(userId, weekStart)) {
+      toast({
+        title: "Timesheet Locked",
+        description: `The timesheet for the week of ${weekStart} has been ${getTimesheet(userId, weekStart).status}.`,
+        variant: "destructive",
+      });
+      return false;
+    }
+    return true;
+  };
+
+  // Get the running timer for a user (the current user by default)
+  const getActiveTimer = (userId: string = user?.id) => {
+    return activeTimers.find(timer => timer.userId === userId);
+  };
+
+  // Stop the current user's timer and log the elapsed time
+  const stopTimer = (): TimeEntry | null => {
+    const timer = user ? getActiveTimer(user.id) : undefined;
+    if (!timer) return null;
+
+    // Keep the timer running rather than lose the time; it can be logged
+    // once the timesheet is sent back
+    if (!ensureWeekEditable(timer.userId, timer.startedAt)) return null;
+
+    setActiveTimers(prev => prev.filter(t => t.userId !== timer.userId));
+
+    const minutes = differenceInMinutes(new Date(), parseISO(timer.startedAt));
+    if (minutes < 1) {
+      toast({
+        title: "Timer Discarded",
+        description: "Less than a minute was tracked, so nothing was logged.",
+      });
+      return null;
+    }
+
+    const entry: TimeEntry = {
+      id: uuidv4(),
+      taskId: timer.taskId,
+      userId: timer.userId,
+      date: timer.startedAt,
+      minutes,
+      source: "timer",
+      createdAt: new Date().toISOString(),
+    };
+    setTimeEntries(prev => [entry, ...prev]);
+
+    toast({
+      title: "Time Logged",
+      description: `${formatMinutes(minutes)} recorded.`,
+    });
+    return entry;
+  };
+
+  // Start a timer on a task; a user has at most one timer running
+  const startTimer = (taskId: string) => {
+    if (!user) return;
+    const running = getActiveTimer(user.id);
+    if (running && !ensureWeekEditable(running.userId, running.startedAt)) return;
+    if (running) stopTimer();
+
+    setActiveTimers(prev => [
+      ...prev.filter(timer => timer.userId !== user.id),
+      { taskId, userId: user.id, startedAt: new Date().toISOString() },
+    ]);
+  };
+
+  // Log time manually for the current user
+  const addTimeEntry = ({ taskId, date, minutes, note }: NewTimeEntry): boolean => {
+    if (!user) return false;
+    if (!(minutes > 0)) {
+      toast({
+        title: "Time Not Logged",
+        description: "Enter a duration greater than zero.",
+        variant: "destructive",
+      });
+      return false;
+    }
+    if (!ensureWeekEditable(user.id, date)) return false;
+
+    const entry: TimeEntry = {
+      id: uuidv4(),
+      taskId,
+      userId: user.id,
+      date,
+      minutes,
+      note,
+      source: "manual",
+      createdAt: new Date().toISOString(),
+    };
+    setTimeEntries(prev => [entry, ...prev]);
+
+    toast({
+      title: "Time Logged",
+      description: `${formatMinutes(minutes)} recorded.`,
+    });
+    return true;
+  };
+
+  // Delete a time entry from an editable week
+  const deleteTimeEntry = (id: string) => {
+    const entry = timeEntries.find(e => e.id === id);
+    if (!entry || !ensureWeekEditable(entry.userId, entry.date)) return;
+
+    setTimeEntries(prev => prev.filter(e => e.id !== id));
+  };
+
+  // Get time entries for a task
+  const getTaskTimeEntries = (taskId: string) => {
+    return timeEntries.filter(entry => entry.taskId === taskId);
+  };
+
+  // Total minutes logged against a task by everyone
+  const getLoggedMinutes = (taskId: string) => {
+    return getTaskTimeEntries(taskId).reduce((sum, entry) => sum + entry.minutes, 0);
+  };
+
+  // Get time entries for a user
+  const getUserTimeEntries = (userId: string) => {
+    return timeEntries.filter(entry => entry.userId === userId);
+  };
+
+  // Store a timesheet's new state
+  const saveTimesheet = (sheet: Timesheet) => {
+    setTimesheets(prev => [
+      ...prev.filter(s => !(s.userId === sheet.userId && s.weekStart === sheet.weekStart)),
+      { ...sheet, id: sheet.id.startsWith('draft-') ? uuidv4() : sheet.id },
+    ]);
+  };
+
+  // Submit the current user's week for approval
+  const submitTimesheet = (weekStart: string) => {
+    if (!user) return;
+    // Its time would have nowhere to go once the week is locked
+    const timer = getActiveTimer(user.id);
+    if (timer && getWeekStart(parseISO(timer.startedAt)) === weekStart) {
+      toast({
+        title: "Timer Running",
+        description: "Stop the timer running this week before submitting its timesheet.",
+        variant: "destructive",
+      });
+      return;
+    }
+    saveTimesheet({
+      ...getTimesheet(user.id, weekStart),
+      status: "submitted",
+      submittedAt: new Date().toISOString(),
+      reviewedBy: undefined,
+      reviewedAt: undefined,
+      reviewNote: undefined,
+    });
+
+    toast({
+      title: "Timesheet Submitted",
+      description: "Your timesheet has been sent to your manager for approval.",
+    });
+  };
+
+  // Record a manager's decision on a submitted timesheet
+  const reviewTimesheet = (userId: string, weekStart: string, status: "approved" | "rejected", note?: string) => {
+    const sheet = getTimesheet(userId, weekStart);
+    if (!user || !canApproveTimesheets || userId === user.id || sheet.status !== "submitted") {
+      toast({
+        title: "Review Not Allowed",
+        description: userId === user?.id
+          ? "You cannot review your own timesheet."
+          : "Only submitted timesheets can be reviewed by a manager.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    saveTimesheet({
+      ...sheet,
+      status,
+      reviewedBy: user.id,
+      reviewedAt: new Date().toISOString(),
+      reviewNote: note,
+    });
+
+    addAuditLog(
+      status === "approved" ? 'approve' : 'reject',
+      'timesheet',
+      sheet.id,
+      `Timesheet ${userId} week of ${weekStart}`,
+      note,
+      [{ field: 'status', oldValue: sheet.status, newValue: status }]
+    );
+
+    toast({
+      title: status === "approved" ? "Timesheet Approved" : "Timesheet Rejected",
+      description: `Week of ${weekStart} has been ${status}.`,
+    });
+  };
+
+  // Approve a submitted timesheet
+  const approveTimesheet = (userId: string, weekStart: string, note?: string) => {
+    reviewTimesheet(userId, weekStart, "approved", note);
+  };
+
+  // Send a timesheet back for changes; the week becomes editable again
+  const rejectTimesheet = (userId: string, weekStart: string, note: string) => {
+    reviewTimesheet(userId, weekStart, "rejected", note);
+  };
+
+  // Context value
+  const contextValue: TimeTrackingContextType = {
+    timeEntries,
+    activeTimers,
+    timesheets,
+    startTimer,
+    stopTimer,
+    getActiveTimer,
+    addTimeEntry,
+    deleteTimeEntry,
+    getTaskTimeEntries,
+    getLoggedMinutes,
+    getUserTimeEntries,
+    getTimesheet,
+    isWeekLocked,
+    submitTimesheet,
+    approveTimesheet,
+    rejectTimesheet,
+    canApproveTimesheets,
+  };
+
+  return (
+    <TimeTrackingContext.Provider value={contextValue}>
+      {children}
+    </TimeTrackingContext.Provider>
+  );
+};
+
+// Custom hook for using the time tracking context
+export const useTimeTracking = (): TimeTrackingContextType => {
+  const context = useContext(TimeTrackingContext);
+  if (!context) {
+    throw new Error('useTimeTracking must be used within a TimeTrackingProvider');
+  }
+  return context;
+};
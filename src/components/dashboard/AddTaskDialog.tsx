@@ -1,7 +1,14 @@
 import React, { useState } from "react";
 import { toast } from "@/hooks/use-toast";
-import { useTasks, TaskStatus, TaskPriority } from "@/components/TasksProvider";
+import { useTasks, TaskStatus, TaskPriority, SkillRequirement } from "@/components/TasksProvider";
 import { useCommunication } from "@/components/CommunicationProvider";
+import { useDepartments } from "@/components/DepartmentsProvider";
+import { DueDateInput } from "@/components/dashboard/DueDateInput";
+import { RecurrenceEditor } from "@/components/dashboard/RecurrenceEditor";
+import { SkillRequirementsEditor } from "@/components/dashboard/SkillRequirementsEditor";
+import { AssigneeSuggestions } from "@/components/dashboard/AssigneeSuggestions";
+import { parseNaturalDate, toDueDateString } from "@/lib/dueDates";
+import { RecurrenceRule } from "@/lib/recurrence";
 import {
   Dialog,
   DialogContent,
@@ -17,7 +24,9 @@ import { Textarea } from "@/components/ui/textarea";
 import {
   Select,
   SelectContent,
+  SelectGroup,
   SelectItem,
+  SelectLabel,
   SelectTrigger,
   SelectValue,
 } from "@/components/ui/select";
@@ -42,8 +51,12 @@ const taskFormSchema = z.object({
   department: z.string(),
   assignedTo: z.string(),
   priority: z.enum(["high", "medium", "low"] as const),
-  dueDate: z.string(),
+  dueDate: z.string().refine(
+    (value) => parseNaturalDate(value) !== null,
+    "Enter a date like \"tomorrow\", \"next Friday 5pm\" or \"Oct 4\""
+  ),
   status: z.enum(["pending", "in-progress", "completed"] as const),
+  estimatedDuration: z.coerce.number().min(1, "Duration must be at least 1 day"),
 });
 
 type TaskFormValues = z.infer<typeof taskFormSchema>;
@@ -55,8 +68,11 @@ interface AddTaskDialogProps {
 
 export function AddTaskDialog({ className, trigger }: AddTaskDialogProps) {
   const [open, setOpen] = useState(false);
+  const [recurrence, setRecurrence] = useState<RecurrenceRule | undefined>(undefined);
+  const [requiredSkills, setRequiredSkills] = useState<SkillRequirement[]>([]);
   const { addTask } = useTasks();
   const { users } = useCommunication();
+  const { teamMembers } = useDepartments();
   
   // Departments
   const departments = ["Development", "HR", "Marketing", "Finance", "Sales", "Operations"];
@@ -70,8 +86,9 @@ export function AddTaskDialog({ className, trigger }: AddTaskDialogProps) {
       department: "Development",
       assignedTo: users[0]?.id || "",
       priority: "medium",
-      dueDate: "1 week",
-      status: "pending"
+      dueDate: "next week",
+      status: "pending",
+      estimatedDuration: 1
     },
   });
 
@@ -83,9 +100,12 @@ export function AddTaskDialog({ className, trigger }: AddTaskDialogProps) {
       department: data.department,
       assignedTo: data.assignedTo,
       priority: data.priority,
-      dueDate: data.dueDate,
+      dueDate: toDueDateString(parseNaturalDate(data.dueDate)!),
       status: data.status,
+      estimatedDuration: data.estimatedDuration,
       createdBy: users[0]?.id || "",
+      requiredSkills: requiredSkills.length > 0 ? requiredSkills : undefined,
+      recurrence,
     });
     
     toast({
@@ -95,6 +115,8 @@ export function AddTaskDialog({ className, trigger }: AddTaskDialogProps) {
     
     setOpen(false);
     form.reset();
+    setRecurrence(undefined);
+    setRequiredSkills([]);
   }
 
   return (
@@ -107,7 +129,7 @@ export function AddTaskDialog({ className, trigger }: AddTaskDialogProps) {
           </Button>
         )}
       </DialogTrigger>
-      <DialogContent className="sm:max-w-[600px]">
+      <DialogContent className="sm:max-w-[600px] max-h-[90vh] overflow-y-auto">
         <DialogHeader>
           <DialogTitle>Create New Task</DialogTitle>
           <DialogDescription>
@@ -182,7 +204,7 @@ export function AddTaskDialog({ className, trigger }: AddTaskDialogProps) {
                     <FormLabel>Assigned To</FormLabel>
                     <Select 
                       onValueChange={field.onChange} 
-                      defaultValue={field.value}
+                      value={field.value}
                     >
                       <FormControl>
                         <SelectTrigger>
@@ -190,11 +212,24 @@ export function AddTaskDialog({ className, trigger }: AddTaskDialogProps) {
                         </SelectTrigger>
                       </FormControl>
                       <SelectContent>
-                        {users.map((user) => (
-                          <SelectItem key={user.id} value={user.id}>
-                            {user.name}
-                          </SelectItem>
-                        ))}
+                        <SelectGroup>
+                          <SelectLabel>Workspace users</SelectLabel>
+                          {users.map((user) => (
+                            <SelectItem key={user.id} value={user.id}>
+                              {user.name}
+                            </SelectItem>
+                          ))}
+                        </SelectGroup>
+                        <SelectGroup>
+                          <SelectLabel>Team members</SelectLabel>
+                          {teamMembers
+                            .filter((member) => member.status !== "inactive")
+                            .map((member) => (
+                              <SelectItem key={member.id} value={member.id}>
+                                {member.name} ({member.department})
+                              </SelectItem>
+                            ))}
+                        </SelectGroup>
                       </SelectContent>
                     </Select>
                     <FormMessage />
@@ -234,54 +269,68 @@ export function AddTaskDialog({ className, trigger }: AddTaskDialogProps) {
                 render={({ field }) => (
                   <FormItem>
                     <FormLabel>Due Date</FormLabel>
+                    <FormControl>
+                      <DueDateInput {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="status"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Status</FormLabel>
                     <Select 
                       onValueChange={field.onChange} 
                       defaultValue={field.value}
                     >
                       <FormControl>
                         <SelectTrigger>
-                          <SelectValue placeholder="Select due date" />
+                          <SelectValue placeholder="Select status" />
                         </SelectTrigger>
                       </FormControl>
                       <SelectContent>
-                        <SelectItem value="Today">Today</SelectItem>
-                        <SelectItem value="Tomorrow">Tomorrow</SelectItem>
-                        <SelectItem value="3 days">3 days</SelectItem>
-                        <SelectItem value="1 week">1 week</SelectItem>
-                        <SelectItem value="2 weeks">2 weeks</SelectItem>
-                        <SelectItem value="1 month">1 month</SelectItem>
+                        <SelectItem value="pending">Pending</SelectItem>
+                        <SelectItem value="in-progress">In Progress</SelectItem>
+                        <SelectItem value="completed">Completed</SelectItem>
                       </SelectContent>
                     </Select>
                     <FormMessage />
                   </FormItem>
                 )}
               />
-            </div>
-            <FormField
-              control={form.control}
-              name="status"
-              render={({ field }) => (
-                <FormItem>
-                  <FormLabel>Status</FormLabel>
-                  <Select 
-                    onValueChange={field.onChange} 
-                    defaultValue={field.value}
-                  >
+              <FormField
+                control={form.control}
+                name="estimatedDuration"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Estimated Duration (days)</FormLabel>
                     <FormControl>
-                      <SelectTrigger>
-                        <SelectValue placeholder="Select status" />
-                      </SelectTrigger>
+                      <Input type="number" min={1} {...field} />
                     </FormControl>
-                    <SelectContent>
-                      <SelectItem value="pending">Pending</SelectItem>
-                      <SelectItem value="in-progress">In Progress</SelectItem>
-                      <SelectItem value="completed">Completed</SelectItem>
-                    </SelectContent>
-                  </Select>
-                  <FormMessage />
-                </FormItem>
-              )}
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+            <div className="space-y-2">
+              <label className="text-sm font-medium">Required Skills</label>
+              <SkillRequirementsEditor value={requiredSkills} onChange={setRequiredSkills} />
+            </div>
+            <AssigneeSuggestions
+              department={form.watch("department")}
+              requiredSkills={requiredSkills}
+              selectedId={form.watch("assignedTo")}
+              onSelect={(memberId) => form.setValue("assignedTo", memberId)}
             />
+            <div className="space-y-2">
+              <label className="text-sm font-medium">Repeat</label>
+              <RecurrenceEditor key={open ? "open" : "closed"} value={recurrence} onChange={setRecurrence} />
+            </div>
             <DialogFooter>
               <Button variant="outline" type="button" onClick={() => setOpen(false)}>
                 Cancel
@@ -0,0 +1,173 @@
+import React, { useState } from "react";
+import { AlertTriangle, Ban, ShieldCheck } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectGroup,
+  SelectItem,
+  SelectLabel,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Grievance, useGrievance } from "@/components/GrievanceProvider";
+import { useDepartments } from "@/components/DepartmentsProvider";
+import { useAuth } from "@/components/AuthProvider";
+import { canOverrideConflicts } from "@/lib/grievanceConflicts";
+import { SENIOR_REVIEWER_ROLES } from "@/lib/grievanceWorkflow";
+
+interface AssignGrievanceDialogProps {
+  grievance: Grievance;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+// Pick a handler for a grievance, checking them for conflicts of interest first
+export function AssignGrievanceDialog({ grievance, open, onOpenChange }: AssignGrievanceDialogProps) {
+  const { routingTeams, assignGrievance, getAssignmentConflicts } = useGrievance();
+  const { departments } = useDepartments();
+  const { user } = useAuth();
+  const [candidateId, setCandidateId] = useState("");
+  const [justification, setJustification] = useState("");
+
+  // Grievance handlers first, then everyone in the directory by department
+  const handlers = routingTeams
+    .flatMap((team) => team.members)
+    .filter((member, index, all) => all.findIndex((m) => m.id === member.id) === index);
+  const candidates = [...handlers, ...departments.flatMap((d) => d.teamMembers)];
+  const candidate = candidates.find((c) => c.id === candidateId);
+
+  const conflicts = candidate ? getAssignmentConflicts(grievance, candidate) : [];
+  const blocked = conflicts.length > 0 && !canOverrideConflicts(conflicts);
+  const needsOverride = conflicts.length > 0 && !blocked;
+  const canOverride = !!user && SENIOR_REVIEWER_ROLES.includes(user.role);
+
+  const close = () => {
+    setCandidateId("");
+    setJustification("");
+    onOpenChange(false);
+  };
+
+  const handleAssign = () => {
+    if (!candidate) return;
+    if (assignGrievance(grievance.id, candidate.id, candidate.name, needsOverride ? justification : undefined)) {
+      close();
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(next) => (next ? onOpenChange(true) : close())}>
+      <DialogContent className="sm:max-w-[480px]">
+        <DialogHeader>
+          <DialogTitle>Assign Grievance</DialogTitle>
+          <DialogDescription>
+            People named in the grievance, and anyone in their reporting line, are checked for conflicts of interest.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid gap-4 py-2">
+          {grievance.involvedParties && grievance.involvedParties.length > 0 && (
+            <p className="text-sm text-muted-foreground">
+              Involved: {grievance.involvedParties.map((party) => party.name).join(", ")}
+            </p>
+          )}
+
+          <div className="grid gap-2">
+            <Label htmlFor="assign-candidate">Assign to</Label>
+            <Select value={candidateId} onValueChange={(value) => { setCandidateId(value); setJustification(""); }}>
+              <SelectTrigger id="assign-candidate">
+                <SelectValue placeholder="Choose a handler" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectGroup>
+                  <SelectLabel>Grievance handlers</SelectLabel>
+                  {handlers.map((handler) => (
+                    <SelectItem key={handler.id} value={handler.id}>
+                      {handler.name}
+                    </SelectItem>
+                  ))}
+                </SelectGroup>
+                {departments.map((department) => (
+                  <SelectGroup key={department.id}>
+                    <SelectLabel>{department.name}</SelectLabel>
+                    {department.teamMembers.map((member) => (
+                      <SelectItem key={member.id} value={member.id}>
+                        {member.name} · {member.role}
+                      </SelectItem>
+                    ))}
+                  </SelectGroup>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {candidate && conflicts.length === 0 && (
+            <p className="flex items-center gap-2 text-sm text-green-700 dark:text-green-400">
+              <ShieldCheck className="h-4 w-4" />
+              No conflicts of interest found
+            </p>
+          )}
+
+          {conflicts.length > 0 && (
+            <div
+              className={`rounded-md border p-3 text-sm ${
+                blocked ? "border-destructive/50 bg-destructive/10" : "border-amber-300 bg-amber-50 dark:bg-amber-900/20"
+              }`}
+            >
+              <p className="flex items-center gap-2 font-medium">
+                {blocked ? <Ban className="h-4 w-4" /> : <AlertTriangle className="h-4 w-4" />}
+                {blocked ? "Can't be assigned" : "Conflict of interest"}
+              </p>
+              <ul className="mt-1 list-disc pl-6 text-muted-foreground">
+                {conflicts.map((conflict) => (
+                  <li key={`${conflict.kind}-${conflict.party.name}`}>{conflict.reason}</li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          {needsOverride && canOverride && (
+            <div className="grid gap-2">
+              <Label htmlFor="override-justification" className="required">
+                Justification for overriding
+              </Label>
+              <Textarea
+                id="override-justification"
+                value={justification}
+                onChange={(e) => setJustification(e.target.value)}
+                placeholder="Why is this person still the right handler? This is recorded in the audit log."
+                rows={3}
+              />
+            </div>
+          )}
+          {needsOverride && !canOverride && (
+            <p className="text-sm text-muted-foreground">Only an admin or department head can override this conflict.</p>
+          )}
+        </div>
+
+        <DialogFooter className="gap-2 sm:gap-0">
+          <Button variant="outline" onClick={close}>
+            Cancel
+          </Button>
+          <Button
+            onClick={handleAssign}
+            disabled={!candidate || blocked || (needsOverride && (!canOverride || !justification.trim()))}
+            variant={needsOverride ? "destructive" : "default"}
+          >
+            {needsOverride ? "Override and assign" : "Assign"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
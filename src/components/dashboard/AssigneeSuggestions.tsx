@@ -0,0 +1,83 @@
+import React from "react";
+import { Check, Sparkles } from "lucide-react";
+import { Avatar, AvatarFallback } from "@/components/ui/avatar";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { cn } from "@/lib/utils";
+import { useDepartments } from "@/components/DepartmentsProvider";
+import { SkillRequirement, useTasks } from "@/components/TasksProvider";
+import { rankAssignees } from "@/lib/assigneeRecommendation";
+
+interface AssigneeSuggestionsProps {
+  department: string;
+  requiredSkills: SkillRequirement[];
+  selectedId?: string;
+  onSelect: (memberId: string) => void;
+  limit?: number;
+}
+
+// Best-matching team members for a task, with the reasoning for each
+export function AssigneeSuggestions({
+  department,
+  requiredSkills,
+  selectedId,
+  onSelect,
+  limit = 3,
+}: AssigneeSuggestionsProps) {
+  const { teamMembers } = useDepartments();
+  const { getTasksByAssignee } = useTasks();
+
+  const suggestions = rankAssignees(
+    teamMembers,
+    requiredSkills,
+    (memberId) => getTasksByAssignee(memberId).filter((task) => task.status !== "completed").length,
+    department
+  ).slice(0, limit);
+
+  if (suggestions.length === 0) return null;
+
+  return (
+    <div className="space-y-2 rounded-md border p-3">
+      <div className="flex items-center gap-1.5 text-sm font-medium">
+        <Sparkles className="h-4 w-4 text-primary" />
+        Suggested assignees
+      </div>
+      {suggestions.map(({ member, score, available, reasons }) => (
+        <div
+          key={member.id}
+          className={cn(
+            "flex items-start gap-3 rounded-md p-2",
+            selectedId === member.id ? "bg-primary/10" : "hover:bg-muted/50"
+          )}
+        >
+          <Avatar className="h-8 w-8">
+            <AvatarFallback className="text-xs">{member.avatar}</AvatarFallback>
+          </Avatar>
+          <div className="min-w-0 flex-1">
+            <div className="flex items-center gap-2 text-sm">
+              <span className="font-medium">{member.name}</span>
+              <span className="text-xs text-muted-foreground truncate">{member.role}</span>
+              <Badge variant={available ? "secondary" : "outline"} className="ml-auto text-xs">
+                {score}% match
+              </Badge>
+            </div>
+            <ul className="mt-1 space-y-0.5 text-xs text-muted-foreground">
+              {reasons.map((reason) => (
+                <li key={reason}>• {reason}</li>
+              ))}
+            </ul>
+          </div>
+          <Button
+            type="button"
+            size="sm"
+            variant={selectedId === member.id ? "default" : "outline"}
+            className="h-7 shrink-0"
+            onClick={() => onSelect(member.id)}
+          >
+            {selectedId === member.id ? <Check className="h-3.5 w-3.5" /> : "Assign"}
+          </Button>
+        </div>
+      ))}
+    </div>
+  );
+}
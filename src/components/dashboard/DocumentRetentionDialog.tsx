@@ -0,0 +1,360 @@
+import React, { useState } from "react";
+import { format } from "date-fns";
+import { Archive, Gavel, Play, Plus, Trash2 } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { DocumentType, useDocuments } from "@/components/DocumentProvider";
+import { useAuth } from "@/components/AuthProvider";
+import { useDepartments } from "@/components/DepartmentsProvider";
+import { toast } from "@/hooks/use-toast";
+import { cn } from "@/lib/utils";
+import {
+  RETENTION_ACTION_LABELS,
+  RETENTION_REPORT_DAYS,
+  RETENTION_START_LABELS,
+  RetentionAction,
+  RetentionPolicy,
+  RetentionStart,
+  validateRetentionPolicy,
+} from "@/lib/documentRetention";
+
+type PolicyDraft = Omit<RetentionPolicy, "id" | "createdBy" | "createdAt">;
+
+const DOCUMENT_TYPES: DocumentType[] = ["pdf", "doc", "xls", "ppt", "txt", "image", "other"];
+
+const EMPTY_DRAFT: PolicyDraft = {
+  name: "",
+  tags: [],
+  departments: [],
+  types: [],
+  retainYears: 7,
+  from: "created",
+  action: "archive",
+};
+
+// Far enough ahead to list every scheduled action
+const ALL_UPCOMING_DAYS = 365 * 100;
+
+const toggle = <T,>(values: T[], value: T) =>
+  values.includes(value) ? values.filter((v) => v !== value) : [...values, value];
+
+const formatDueDate = (date: string, daysUntilDue: number) =>
+  daysUntilDue < 0
+    ? `Overdue since ${format(new Date(date), "MMM d, yyyy")}`
+    : daysUntilDue === 0
+      ? "Today"
+      : format(new Date(date), "MMM d, yyyy");
+
+// Retention policies and the archiving and deletion they have scheduled
+export function DocumentRetentionDialog() {
+  const {
+    documents,
+    tags,
+    retentionPolicies,
+    addRetentionPolicy,
+    deleteRetentionPolicy,
+    getRetentionReport,
+    applyRetentionPolicies,
+  } = useDocuments();
+  const { departments } = useDepartments();
+  const { user } = useAuth();
+  const isAdmin = user?.role === "admin";
+  const [showAll, setShowAll] = useState(false);
+  const [draft, setDraft] = useState<PolicyDraft>(EMPTY_DRAFT);
+
+  const report = getRetentionReport(showAll ? ALL_UPCOMING_DAYS : RETENTION_REPORT_DAYS);
+  const departmentNames = Array.from(
+    new Set([...departments.map((department) => department.name), ...documents.map((doc) => doc.department)])
+  ).sort();
+  const problem = validateRetentionPolicy(draft);
+
+  const describeScope = (policy: RetentionPolicy) =>
+    [
+      policy.tags.length > 0 &&
+        `Tagged ${policy.tags.map((tagId) => tags.find((tag) => tag.id === tagId)?.name || tagId).join(" or ")}`,
+      policy.departments.length > 0 && `in ${policy.departments.join(" or ")}`,
+      policy.types.length > 0 && policy.types.map((type) => type.toUpperCase()).join(", "),
+    ]
+      .filter(Boolean)
+      .join(" · ");
+
+  const handleApply = () => {
+    if (applyRetentionPolicies() === 0) {
+      toast({ title: "Nothing to apply", description: "No document has reached the end of its retention period." });
+    }
+  };
+
+  const handleSave = () => {
+    if (addRetentionPolicy(draft)) setDraft(EMPTY_DRAFT);
+  };
+
+  return (
+    <Dialog onOpenChange={(open) => !open && setDraft(EMPTY_DRAFT)}>
+      <DialogTrigger asChild>
+        <Button variant="outline">
+          <Archive className="h-4 w-4 mr-2" />
+          Retention
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-3xl max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Document Retention</DialogTitle>
+          <DialogDescription>
+            Policies are checked daily. When several apply to a document, the one that keeps it longest decides.
+            Documents on legal hold are never deleted.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Tabs defaultValue="upcoming">
+          <TabsList>
+            <TabsTrigger value="upcoming">Upcoming actions</TabsTrigger>
+            <TabsTrigger value="policies">Policies</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="upcoming" className="space-y-3">
+            <div className="flex items-center justify-between gap-2">
+              <div className="flex items-center space-x-2">
+                <Checkbox
+                  id="retention-show-all"
+                  checked={showAll}
+                  onCheckedChange={(checked) => setShowAll(checked === true)}
+                />
+                <label htmlFor="retention-show-all" className="text-sm">
+                  Show everything scheduled, not just the next {RETENTION_REPORT_DAYS} days
+                </label>
+              </div>
+              {isAdmin && (
+                <Button variant="outline" size="sm" onClick={handleApply}>
+                  <Play className="h-3.5 w-3.5 mr-1" /> Apply now
+                </Button>
+              )}
+            </div>
+
+            {report.length === 0 ? (
+              <p className="rounded-md bg-muted p-6 text-center text-sm text-muted-foreground">
+                No retention actions are due {showAll ? "for any document" : `in the next ${RETENTION_REPORT_DAYS} days`}.
+              </p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Document</TableHead>
+                    <TableHead>Action</TableHead>
+                    <TableHead>Due</TableHead>
+                    <TableHead>Policy</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {report.map((item) => (
+                    <TableRow key={item.document.id}>
+                      <TableCell>
+                        <div className="font-medium">{item.document.title}</div>
+                        <div className="text-xs text-muted-foreground">{item.document.department}</div>
+                      </TableCell>
+                      <TableCell>
+                        <div className="flex flex-wrap items-center gap-1">
+                          <Badge variant={item.action === "delete" ? "destructive" : "secondary"}>
+                            {RETENTION_ACTION_LABELS[item.action]}
+                          </Badge>
+                          {item.document.legalHold && (
+                            <Badge variant="outline" className="border-amber-200 bg-amber-50 text-amber-700">
+                              <Gavel className="h-3 w-3 mr-1" />
+                              {item.blockedByHold ? "Blocked by legal hold" : "On legal hold"}
+                            </Badge>
+                          )}
+                        </div>
+                      </TableCell>
+                      <TableCell className={cn("text-sm", item.daysUntilDue < 0 && "text-destructive")}>
+                        {formatDueDate(item.dueDate, item.daysUntilDue)}
+                      </TableCell>
+                      <TableCell className="text-sm text-muted-foreground">{item.policy.name}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </TabsContent>
+
+          <TabsContent value="policies" className="space-y-4">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Policy</TableHead>
+                  <TableHead>Applies to</TableHead>
+                  <TableHead>Retention</TableHead>
+                  {isAdmin && <TableHead className="w-[50px]" />}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {retentionPolicies.map((policy) => (
+                  <TableRow key={policy.id}>
+                    <TableCell className="font-medium">{policy.name}</TableCell>
+                    <TableCell className="text-sm text-muted-foreground">{describeScope(policy)}</TableCell>
+                    <TableCell className="text-sm">
+                      {policy.retainYears} {policy.retainYears === 1 ? "year" : "years"} from{" "}
+                      {RETENTION_START_LABELS[policy.from]}, then {RETENTION_ACTION_LABELS[policy.action].toLowerCase()}
+                    </TableCell>
+                    {isAdmin && (
+                      <TableCell>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="h-7 w-7 text-destructive"
+                          onClick={() => deleteRetentionPolicy(policy.id)}
+                        >
+                          <Trash2 className="h-3.5 w-3.5" />
+                          <span className="sr-only">Delete policy</span>
+                        </Button>
+                      </TableCell>
+                    )}
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+
+            {isAdmin && (
+              <div className="space-y-3 rounded-md border p-4">
+                <p className="text-sm font-medium">New policy</p>
+                <div className="space-y-1">
+                  <span className="text-xs text-muted-foreground">Name</span>
+                  <Input value={draft.name} onChange={(e) => setDraft({ ...draft, name: e.target.value })} />
+                </div>
+
+                <div className="grid grid-cols-1 gap-3 sm:grid-cols-3">
+                  <div className="space-y-1">
+                    <span className="text-xs text-muted-foreground">Tags</span>
+                    {tags.map((tag) => (
+                      <div key={tag.id} className="flex items-center space-x-2">
+                        <Checkbox
+                          id={`retention-tag-${tag.id}`}
+                          checked={draft.tags.includes(tag.id)}
+                          onCheckedChange={() => setDraft({ ...draft, tags: toggle(draft.tags, tag.id) })}
+                        />
+                        <label htmlFor={`retention-tag-${tag.id}`} className="text-sm">
+                          {tag.name}
+                        </label>
+                      </div>
+                    ))}
+                  </div>
+                  <div className="space-y-1">
+                    <span className="text-xs text-muted-foreground">Departments</span>
+                    {departmentNames.map((name) => (
+                      <div key={name} className="flex items-center space-x-2">
+                        <Checkbox
+                          id={`retention-department-${name}`}
+                          checked={draft.departments.includes(name)}
+                          onCheckedChange={() => setDraft({ ...draft, departments: toggle(draft.departments, name) })}
+                        />
+                        <label htmlFor={`retention-department-${name}`} className="text-sm">
+                          {name}
+                        </label>
+                      </div>
+                    ))}
+                  </div>
+                  <div className="space-y-1">
+                    <span className="text-xs text-muted-foreground">Types</span>
+                    {DOCUMENT_TYPES.map((type) => (
+                      <div key={type} className="flex items-center space-x-2">
+                        <Checkbox
+                          id={`retention-type-${type}`}
+                          checked={draft.types.includes(type)}
+                          onCheckedChange={() => setDraft({ ...draft, types: toggle(draft.types, type) })}
+                        />
+                        <label htmlFor={`retention-type-${type}`} className="text-sm">
+                          {type.toUpperCase()}
+                        </label>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+
+                <div className="grid grid-cols-1 gap-3 sm:grid-cols-3">
+                  <div className="space-y-1">
+                    <span className="text-xs text-muted-foreground">Keep for (years)</span>
+                    <Input
+                      type="number"
+                      min={1}
+                      step={1}
+                      value={draft.retainYears}
+                      onChange={(e) => setDraft({ ...draft, retainYears: Number(e.target.value) })}
+                    />
+                  </div>
+                  <div className="space-y-1">
+                    <span className="text-xs text-muted-foreground">Counted from</span>
+                    <Select
+                      value={draft.from}
+                      onValueChange={(value) => setDraft({ ...draft, from: value as RetentionStart })}
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {(Object.keys(RETENTION_START_LABELS) as RetentionStart[]).map((start) => (
+                          <SelectItem key={start} value={start}>
+                            {RETENTION_START_LABELS[start].charAt(0).toUpperCase() + RETENTION_START_LABELS[start].slice(1)}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="space-y-1">
+                    <span className="text-xs text-muted-foreground">Then</span>
+                    <Select
+                      value={draft.action}
+                      onValueChange={(value) => setDraft({ ...draft, action: value as RetentionAction })}
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {(Object.keys(RETENTION_ACTION_LABELS) as RetentionAction[]).map((action) => (
+                          <SelectItem key={action} value={action}>
+                            {RETENTION_ACTION_LABELS[action]}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                </div>
+
+                {problem && draft.name.trim() !== "" && <p className="text-xs text-destructive">{problem}.</p>}
+                <div className="flex justify-end">
+                  <Button size="sm" onClick={handleSave} disabled={!!problem}>
+                    <Plus className="mr-1 h-4 w-4" />
+                    Add policy
+                  </Button>
+                </div>
+              </div>
+            )}
+          </TabsContent>
+        </Tabs>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,310 @@
+import React, { useState } from "react";
+import { format } from "date-fns";
+import { History, RotateCcw } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Document, useDocuments } from "@/components/DocumentProvider";
+import { getUserAccounts } from "@/lib/userAccounts";
+import { getActiveEnvelope } from "@/lib/signingEnvelopes";
+import { cn } from "@/lib/utils";
+import {
+  canDiffText,
+  collapseUnchanged,
+  countChanges,
+  DiffGap,
+  DiffLine,
+  diffLines,
+  diffVersionMetadata,
+  TEXT_DOCUMENT_TYPES,
+  toSideBySide,
+} from "@/lib/documentVersionDiff";
+
+interface DocumentVersionsDialogProps {
+  document: Document;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const getUserName = (userId: string) => getUserAccounts().find((account) => account.id === userId)?.name || userId;
+
+const LINE_STYLES = {
+  equal: "",
+  insert: "bg-green-50 dark:bg-green-950/40",
+  delete: "bg-red-50 dark:bg-red-950/40",
+};
+
+const WORD_STYLES = {
+  equal: "",
+  insert: "bg-green-200 dark:bg-green-800",
+  delete: "bg-red-200 dark:bg-red-800 line-through",
+};
+
+function LineText({ line }: { line: DiffLine }) {
+  if (!line.words) return <>{line.text || " "}</>;
+  return (
+    <>
+      {line.words.map((word, index) => (
+        <span key={index} className={WORD_STYLES[word.op]}>
+          {word.value}
+        </span>
+      ))}
+    </>
+  );
+}
+
+function Gap({ gap, colSpan }: { gap: DiffGap; colSpan: number }) {
+  return (
+    <tr>
+      <td colSpan={colSpan} className="bg-muted px-2 py-1 text-center text-xs text-muted-foreground">
+        {gap.count} unchanged {gap.count === 1 ? "line" : "lines"}
+      </td>
+    </tr>
+  );
+}
+
+const numberCell = "w-10 select-none px-2 text-right align-top text-muted-foreground";
+const textCell = "whitespace-pre-wrap break-words px-2 align-top";
+
+// A document's versions: compare any two and restore an older one
+export function DocumentVersionsDialog({ document, open, onOpenChange }: DocumentVersionsDialogProps) {
+  const { restoreDocumentVersion } = useDocuments();
+  const versions = [...document.versions].sort((a, b) => b.version - a.version);
+  const latest = versions[0];
+  // The version being signed can't be replaced until signing ends
+  const outForSignature = !!getActiveEnvelope(document);
+  // Until a version is picked, the two newest are compared
+  const [fromId, setFromId] = useState("");
+  const [toId, setToId] = useState("");
+  const from = versions.find((version) => version.id === (fromId || versions[1]?.id));
+  const to = versions.find((version) => version.id === (toId || latest?.id));
+
+  const handleRestore = (versionId: string) => {
+    restoreDocumentVersion(document.id, versionId);
+    setFromId("");
+    setToId("");
+  };
+
+  const textDiff = from && to && canDiffText(document, from, to) ? diffLines(from.content!, to.content!) : null;
+  const changes = textDiff && countChanges(textDiff);
+  const collapsed = textDiff && collapseUnchanged(textDiff);
+
+  const versionSelect = (value: string, onChange: (id: string) => void, id: string) => (
+    <Select value={value} onValueChange={onChange}>
+      <SelectTrigger id={id} className="w-[220px]">
+        <SelectValue placeholder="Choose a version" />
+      </SelectTrigger>
+      <SelectContent>
+        {versions.map((version) => (
+          <SelectItem key={version.id} value={version.id}>
+            Version {version.version}
+            {version.id === latest.id ? " (current)" : ""}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[900px]">
+        <DialogHeader>
+          <DialogTitle>Version History - {document.title}</DialogTitle>
+          <DialogDescription>
+            Compare any two versions. Restoring a version adds a copy of it as the newest version, so nothing is lost.
+            {outForSignature && " While the document is out for signature no version can be restored."}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid gap-4 md:grid-cols-[240px_1fr]">
+          <ScrollArea className="max-h-[480px] pr-2">
+            <ol className="space-y-2">
+              {versions.map((version) => (
+                <li key={version.id} className="rounded-md border p-3 text-sm">
+                  <div className="flex items-center justify-between gap-2">
+                    <span className="font-medium">Version {version.version}</span>
+                    {version.id === latest.id ? (
+                      <Badge variant="secondary">Current</Badge>
+                    ) : (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="h-7 px-2"
+                        disabled={outForSignature}
+                        onClick={() => handleRestore(version.id)}
+                      >
+                        <RotateCcw className="h-3.5 w-3.5 mr-1" /> Restore
+                      </Button>
+                    )}
+                  </div>
+                  <p className="mt-1">{version.changeDescription}</p>
+                  <p className="mt-1 text-xs text-muted-foreground">
+                    {getUserName(version.updatedBy)}, {format(new Date(version.updatedAt), "MMM d, yyyy p")}
+                  </p>
+                </li>
+              ))}
+            </ol>
+          </ScrollArea>
+
+          <div className="min-w-0 space-y-4">
+            {versions.length < 2 ? (
+              <div className="flex flex-col items-center gap-2 rounded-md bg-muted p-8 text-center text-sm text-muted-foreground">
+                <History className="h-6 w-6" />
+                This document has only one version, so there's nothing to compare yet.
+              </div>
+            ) : (
+              <>
+                <div className="flex flex-wrap items-end gap-3">
+                  <div className="space-y-1">
+                    <Label htmlFor="diff-from">Compare</Label>
+                    {versionSelect(from?.id || "", setFromId, "diff-from")}
+                  </div>
+                  <div className="space-y-1">
+                    <Label htmlFor="diff-to">With</Label>
+                    {versionSelect(to?.id || "", setToId, "diff-to")}
+                  </div>
+                  {changes && (
+                    <span className="pb-2 text-sm">
+                      <span className="text-green-600">+{changes.added}</span>{" "}
+                      <span className="text-red-600">−{changes.removed}</span>
+                    </span>
+                  )}
+                </div>
+
+                {from && to && textDiff && collapsed ? (
+                  textDiff.every((line) => line.op === "equal") ? (
+                    <p className="rounded-md bg-muted p-4 text-sm text-muted-foreground">
+                      The text of these versions is identical.
+                    </p>
+                  ) : (
+                    <Tabs defaultValue="side-by-side">
+                      <TabsList>
+                        <TabsTrigger value="side-by-side">Side by side</TabsTrigger>
+                        <TabsTrigger value="inline">Inline</TabsTrigger>
+                      </TabsList>
+
+                      <TabsContent value="side-by-side">
+                        <ScrollArea className="h-[380px] rounded-md border">
+                          <table className="w-full table-fixed font-mono text-xs">
+                            <colgroup>
+                              <col className="w-10" />
+                              <col />
+                              <col className="w-10" />
+                              <col />
+                            </colgroup>
+                            <thead>
+                              <tr className="border-b text-left text-muted-foreground">
+                                <th colSpan={2} className="px-2 py-1 font-medium">Version {from.version}</th>
+                                <th colSpan={2} className="border-l px-2 py-1 font-medium">Version {to.version}</th>
+                              </tr>
+                            </thead>
+                            <tbody>
+                              {toSideBySide(collapsed).map((row, index) =>
+                                "op" in row ? (
+                                  <Gap key={index} gap={row} colSpan={4} />
+                                ) : (
+                                  <tr key={index}>
+                                    <td className={cn(numberCell, row.left && LINE_STYLES[row.left.op])}>{row.left?.oldNumber}</td>
+                                    <td className={cn(textCell, row.left && LINE_STYLES[row.left.op])}>
+                                      {row.left && <LineText line={row.left} />}
+                                    </td>
+                                    <td className={cn(numberCell, "border-l", row.right && LINE_STYLES[row.right.op])}>
+                                      {row.right?.newNumber}
+                                    </td>
+                                    <td className={cn(textCell, row.right && LINE_STYLES[row.right.op])}>
+                                      {row.right && <LineText line={row.right} />}
+                                    </td>
+                                  </tr>
+                                )
+                              )}
+                            </tbody>
+                          </table>
+                        </ScrollArea>
+                      </TabsContent>
+
+                      <TabsContent value="inline">
+                        <ScrollArea className="h-[380px] rounded-md border">
+                          <table className="w-full table-fixed font-mono text-xs">
+                            <colgroup>
+                              <col className="w-10" />
+                              <col className="w-10" />
+                              <col className="w-5" />
+                              <col />
+                            </colgroup>
+                            <tbody>
+                              {collapsed.map((line, index) =>
+                                line.op === "skip" ? (
+                                  <Gap key={index} gap={line} colSpan={4} />
+                                ) : (
+                                  <tr key={index} className={LINE_STYLES[line.op]}>
+                                    <td className={numberCell}>{line.oldNumber}</td>
+                                    <td className={numberCell}>{line.newNumber}</td>
+                                    <td className="select-none align-top text-muted-foreground">
+                                      {line.op === "insert" ? "+" : line.op === "delete" ? "−" : ""}
+                                    </td>
+                                    <td className={textCell}>
+                                      <LineText line={line} />
+                                    </td>
+                                  </tr>
+                                )
+                              )}
+                            </tbody>
+                          </table>
+                        </ScrollArea>
+                      </TabsContent>
+                    </Tabs>
+                  )
+                ) : (
+                  from &&
+                  to && (
+                    <div className="space-y-2">
+                      <p className="text-sm text-muted-foreground">
+                        {TEXT_DOCUMENT_TYPES.includes(document.type)
+                          ? "These versions have no saved text, so only their details are compared."
+                          : `The contents of ${document.type.toUpperCase()} files can't be compared, so only their details are shown.`}
+                      </p>
+                      <table className="w-full text-sm">
+                        <thead>
+                          <tr className="border-b text-left text-muted-foreground">
+                            <th className="py-2 pr-2 font-medium"></th>
+                            <th className="py-2 pr-2 font-medium">Version {from.version}</th>
+                            <th className="py-2 font-medium">Version {to.version}</th>
+                          </tr>
+                        </thead>
+                        <tbody>
+                          {diffVersionMetadata(from, to, getUserName).map((change) => (
+                            <tr key={change.label} className={cn("border-b align-top", change.changed && "bg-amber-50 dark:bg-amber-950/30")}>
+                              <td className="py-2 pr-2 text-muted-foreground">{change.label}</td>
+                              <td className="py-2 pr-2 break-all">{change.before}</td>
+                              <td className={cn("py-2 break-all", change.changed && "font-medium")}>{change.after}</td>
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                    </div>
+                  )
+                )}
+              </>
+            )}
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
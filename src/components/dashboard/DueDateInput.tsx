@@ -0,0 +1,45 @@
+import React from "react";
+import { format } from "date-fns";
+import { CalendarClock } from "lucide-react";
+import { Input } from "@/components/ui/input";
+import { cn } from "@/lib/utils";
+import { parseNaturalDate } from "@/lib/dueDates";
+
+interface DueDateInputProps extends Omit<React.ComponentProps<typeof Input>, "value" | "onChange"> {
+  value: string;
+  onChange: (value: string) => void;
+}
+
+// Free-text due date input ("next Friday 5pm") with a preview of the parsed date
+export const DueDateInput = React.forwardRef<HTMLInputElement, DueDateInputProps>(
+  ({ value, onChange, className, ...props }, ref) => {
+    const parsed = parseNaturalDate(value);
+
+    return (
+      <div className="space-y-1">
+        <Input
+          ref={ref}
+          placeholder="e.g. next Friday 5pm"
+          value={value}
+          onChange={(e) => onChange(e.target.value)}
+          className={className}
+          {...props}
+        />
+        <p
+          className={cn(
+            "flex items-center gap-1 text-xs",
+            parsed || !value ? "text-muted-foreground" : "text-destructive"
+          )}
+        >
+          <CalendarClock className="h-3 w-3" />
+          {parsed
+            ? format(parsed, "EEE, MMM d, yyyy 'at' p")
+            : value
+              ? "Couldn't understand that date"
+              : "Type a date like \"tomorrow\" or \"Oct 4 9am\""}
+        </p>
+      </div>
+    );
+  }
+);
+DueDateInput.displayName = "DueDateInput";
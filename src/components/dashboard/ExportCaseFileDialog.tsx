@@ -0,0 +1,93 @@
+import React, { useState } from "react";
+import { Download } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Grievance, useGrievance } from "@/components/GrievanceProvider";
+import { CaseFileFormat } from "@/lib/grievanceCaseFile";
+
+interface ExportCaseFileDialogProps {
+  grievance: Grievance;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+// Download a grievance's complete case file for a legal or HR review
+export function ExportCaseFileDialog({ grievance, open, onOpenChange }: ExportCaseFileDialogProps) {
+  const { exportCaseFile } = useGrievance();
+  const [fileFormat, setFileFormat] = useState<CaseFileFormat>("pdf");
+  const [includeInternal, setIncludeInternal] = useState(false);
+
+  const internalCount = grievance.comments.filter((comment) => comment.isInternal).length;
+
+  const handleExport = () => {
+    if (exportCaseFile(grievance.id, fileFormat, { includeInternal })) {
+      setIncludeInternal(false);
+      onOpenChange(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[460px]">
+        <DialogHeader>
+          <DialogTitle>Export Case File</DialogTitle>
+          <DialogDescription>
+            The grievance's details, status history, comments, attachments, assignments and audit log.
+            {grievance.isAnonymous && " The anonymous submitter's identity is redacted."}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid gap-4 py-2">
+          <div className="space-y-2">
+            <Label>Format</Label>
+            <RadioGroup
+              value={fileFormat}
+              onValueChange={(value) => setFileFormat(value as CaseFileFormat)}
+              className="flex gap-4"
+            >
+              <label className="flex items-center gap-2 text-sm">
+                <RadioGroupItem value="pdf" />
+                PDF document
+              </label>
+              <label className="flex items-center gap-2 text-sm">
+                <RadioGroupItem value="json" />
+                JSON bundle
+              </label>
+            </RadioGroup>
+          </div>
+
+          <div className="flex items-center space-x-2">
+            <Checkbox
+              id="case-file-internal"
+              checked={includeInternal}
+              onCheckedChange={(checked) => setIncludeInternal(checked === true)}
+            />
+            <Label htmlFor="case-file-internal" className="text-sm font-normal">
+              Include internal notes ({internalCount})
+            </Label>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleExport}>
+            <Download className="mr-2 h-4 w-4" />
+            Export
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,275 @@
+import React, { useMemo, useState } from "react";
+import { subDays } from "date-fns";
+import { AlertTriangle, Clock, MessageSquareReply, RotateCcw, Star } from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { StatCard } from "@/components/dashboard/StatCard";
+import { ChartCard } from "@/components/dashboard/ChartCard";
+import { useGrievance } from "@/components/GrievanceProvider";
+import {
+  computeGrievanceAnalytics,
+  formatHours,
+  GRIEVANCE_CATEGORY_LABELS,
+  GrievanceTimingRow,
+} from "@/lib/grievanceAnalytics";
+
+// Submission windows the metrics can be limited to, in days
+const PERIODS: Record<string, number | null> = {
+  "30": 30,
+  "90": 90,
+  "365": 365,
+  all: null,
+};
+
+const timingChartData = (rows: GrievanceTimingRow[]) =>
+  rows.map((row) => ({
+    name: row.name,
+    "First response (h)": row.firstResponseHours,
+    "Resolution (h)": row.resolutionHours,
+  }));
+
+const formatRate = (rate: number) => `${Math.round(rate * 100)}%`;
+
+// How grievances are being handled: response and resolution times, escalations,
+// reopenings, backlog age and where grievances come from
+export function GrievanceAnalytics() {
+  const { grievances } = useGrievance();
+  const [period, setPeriod] = useState("90");
+
+  const analytics = useMemo(() => {
+    const days = PERIODS[period];
+    const since = days === null ? null : subDays(new Date(), days);
+    return computeGrievanceAnalytics(
+      since ? grievances.filter((g) => new Date(g.createdAt) >= since) : grievances
+    );
+  }, [grievances, period]);
+
+  const { heatmap } = analytics;
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between gap-4">
+        <p className="text-sm text-muted-foreground">
+          {analytics.total} grievances submitted in this period, {analytics.open} still open
+        </p>
+        <Select value={period} onValueChange={setPeriod}>
+          <SelectTrigger className="w-[180px]">
+            <SelectValue placeholder="Period" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="30">Last 30 days</SelectItem>
+            <SelectItem value="90">Last 90 days</SelectItem>
+            <SelectItem value="365">Last 12 months</SelectItem>
+            <SelectItem value="all">All time</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="grid grid-cols-1 gap-6 md:grid-cols-2 lg:grid-cols-4">
+        <StatCard
+          title="Median First Response"
+          value={formatHours(analytics.medianFirstResponseHours)}
+          description="From submission to the first reply or status change by a handler"
+          icon={MessageSquareReply}
+          className="animate-fade-in [animation-delay:100ms]"
+        />
+        <StatCard
+          title="Median Time to Resolution"
+          value={formatHours(analytics.medianResolutionHours)}
+          description="For grievances that are resolved"
+          icon={Clock}
+          className="animate-fade-in [animation-delay:200ms]"
+        />
+        <StatCard
+          title="Escalation Rate"
+          value={formatRate(analytics.escalationRate)}
+          description="Grievances escalated at least once"
+          icon={AlertTriangle}
+          className="animate-fade-in [animation-delay:300ms]"
+        />
+        <StatCard
+          title="Reopen Rate"
+          value={formatRate(analytics.reopenRate)}
+          description="Closed grievances that were reopened"
+          icon={RotateCcw}
+          className="animate-fade-in [animation-delay:400ms]"
+        />
+      </div>
+
+      <div className="grid grid-cols-1 gap-6 lg:grid-cols-2">
+        <ChartCard
+          title="Median Hours by Category"
+          type="bar"
+          data={timingChartData(analytics.byCategory)}
+          dataKey="value"
+          categories={["First response (h)", "Resolution (h)"]}
+        />
+        <ChartCard
+          title="Median Hours by Department"
+          type="bar"
+          data={timingChartData(analytics.byDepartment)}
+          dataKey="value"
+          categories={["First response (h)", "Resolution (h)"]}
+        />
+      </div>
+
+      <div className="grid grid-cols-1 gap-6 lg:grid-cols-2">
+        <ChartCard
+          title="Open Backlog by Age"
+          type="bar"
+          data={analytics.backlogAgeing.map((bucket) => ({ name: bucket.name, Open: bucket.count }))}
+          dataKey="value"
+          categories={["Open"]}
+          colors={["#F59E0B"]}
+        />
+
+        <Card className="animate-fade-in">
+          <CardHeader>
+            <CardTitle>Department × Category</CardTitle>
+            <CardDescription>Grievances submitted, darker cells have more</CardDescription>
+          </CardHeader>
+          <CardContent className="overflow-x-auto">
+            {heatmap.departments.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No grievances in this period.</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Department</TableHead>
+                    {heatmap.categories.map((category) => (
+                      <TableHead key={category} className="text-center">
+                        {GRIEVANCE_CATEGORY_LABELS[category]}
+                      </TableHead>
+                    ))}
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {heatmap.departments.map((department) => (
+                    <TableRow key={department}>
+                      <TableCell className="font-medium">{department}</TableCell>
+                      {heatmap.categories.map((category) => {
+                        const count = heatmap.counts[department]?.[category] || 0;
+                        const intensity = heatmap.max > 0 ? count / heatmap.max : 0;
+                        return (
+                          <TableCell
+                            key={category}
+                            className="text-center"
+                            style={{
+                              backgroundColor: count > 0 ? `rgba(139, 92, 246, ${0.15 + intensity * 0.7})` : undefined,
+                              color: intensity > 0.6 ? "white" : undefined,
+                            }}
+                          >
+                            {count || ""}
+                          </TableCell>
+                        );
+                      })}
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card className="animate-fade-in">
+        <CardHeader>
+          <CardTitle>Handler Performance</CardTitle>
+          <CardDescription>
+            Resolutions and satisfaction ratings are credited to whoever resolved the grievance
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {analytics.byHandler.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No grievances have been handled in this period.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Handler</TableHead>
+                  <TableHead className="text-right">Assigned</TableHead>
+                  <TableHead className="text-right">Open</TableHead>
+                  <TableHead className="text-right">Resolved</TableHead>
+                  <TableHead className="text-right">Median resolution</TableHead>
+                  <TableHead className="text-right">Satisfaction</TableHead>
+                  <TableHead className="text-right">Reopened by submitter</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {analytics.byHandler.map((handler) => (
+                  <TableRow key={handler.id}>
+                    <TableCell className="font-medium">{handler.name}</TableCell>
+                    <TableCell className="text-right">{handler.assigned}</TableCell>
+                    <TableCell className="text-right">{handler.open}</TableCell>
+                    <TableCell className="text-right">{handler.resolved}</TableCell>
+                    <TableCell className="text-right">{formatHours(handler.medianResolutionHours)}</TableCell>
+                    <TableCell className="text-right">
+                      {handler.averageRating === null ? (
+                        "—"
+                      ) : (
+                        <span className="inline-flex items-center gap-1">
+                          <Star className="h-3.5 w-3.5 fill-amber-400 text-amber-400" />
+                          {handler.averageRating}
+                          <span className="text-xs text-muted-foreground">({handler.ratings})</span>
+                        </span>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-right">{handler.reopenedBySubmitter}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card className="animate-fade-in">
+        <CardHeader>
+          <CardTitle>Handling Times</CardTitle>
+          <CardDescription>Median times by category and department</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Group</TableHead>
+                <TableHead className="text-right">Grievances</TableHead>
+                <TableHead className="text-right">First response</TableHead>
+                <TableHead className="text-right">Resolution</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {[
+                ...analytics.byCategory.map((row) => ({ ...row, group: "Category" })),
+                ...analytics.byDepartment.map((row) => ({ ...row, group: "Department" })),
+              ].map((row) => (
+                <TableRow key={`${row.group}-${row.name}`}>
+                  <TableCell>
+                    <span className="text-muted-foreground">{row.group}:</span> {row.name}
+                  </TableCell>
+                  <TableCell className="text-right">{row.count}</TableCell>
+                  <TableCell className="text-right">{formatHours(row.firstResponseHours)}</TableCell>
+                  <TableCell className="text-right">{formatHours(row.resolutionHours)}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,83 @@
+import React, { useEffect, useState } from "react";
+import { format } from "date-fns";
+import { AlarmClock, CheckCircle2, TimerOff } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Tooltip, TooltipContent, TooltipTrigger } from "@/components/ui/tooltip";
+import { cn } from "@/lib/utils";
+import { Grievance, useGrievance } from "@/components/GrievanceProvider";
+import { SLA_TARGET_LABELS, SlaState, SlaTargetStatus, formatSlaCountdown } from "@/lib/grievanceSla";
+
+interface GrievanceSlaBadgeProps {
+  grievance: Grievance;
+  // Show both targets instead of only the one that matters most right now
+  detailed?: boolean;
+}
+
+const STATE_STYLES: Record<SlaState, string> = {
+  "on-track": "bg-muted/50 text-foreground",
+  "at-risk": "bg-amber-100 text-amber-800 dark:bg-amber-900 dark:text-amber-200",
+  breached: "bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200",
+  met: "bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200",
+  missed: "bg-gray-100 text-gray-700 dark:bg-gray-800 dark:text-gray-300",
+};
+
+const describeTarget = (status: SlaTargetStatus) => {
+  const label = SLA_TARGET_LABELS[status.target];
+  switch (status.state) {
+    case "met":
+      return `${label} met`;
+    case "missed":
+      return `${label} late`;
+    default:
+      return `${label}: ${formatSlaCountdown(status.remainingMinutes)}`;
+  }
+};
+
+const TargetBadge = ({ status }: { status: SlaTargetStatus }) => {
+  const Icon = status.state === "met" ? CheckCircle2 : status.state === "missed" || status.state === "breached" ? TimerOff : AlarmClock;
+  return (
+    <Tooltip>
+      <TooltipTrigger asChild>
+        <Badge className={cn("gap-1 font-normal hover:bg-inherit", STATE_STYLES[status.state])}>
+          <Icon className="h-3 w-3" />
+          {describeTarget(status)}
+        </Badge>
+      </TooltipTrigger>
+      <TooltipContent>
+        {status.completedAt
+          ? `Due ${format(status.dueAt, "MMM d, p")} · done ${format(status.completedAt, "MMM d, p")}`
+          : `Due ${format(status.dueAt, "EEE, MMM d 'at' p")}`}
+      </TooltipContent>
+    </Tooltip>
+  );
+};
+
+// SLA countdown for a grievance, refreshed every minute
+export function GrievanceSlaBadge({ grievance, detailed = false }: GrievanceSlaBadgeProps) {
+  const { getGrievanceSla } = useGrievance();
+  const [, setTick] = useState(0);
+
+  useEffect(() => {
+    const timer = setInterval(() => setTick((tick) => tick + 1), 60000);
+    return () => clearInterval(timer);
+  }, []);
+
+  const sla = getGrievanceSla(grievance);
+  if (!sla) return null;
+
+  if (detailed) {
+    return (
+      <div className="flex flex-wrap items-center gap-2">
+        <TargetBadge status={sla.firstResponse} />
+        <TargetBadge status={sla.resolution} />
+        <span className="text-xs text-muted-foreground">
+          {sla.policy.name} SLA · {sla.calendar.name}
+        </span>
+      </div>
+    );
+  }
+
+  // Until someone responds that's the clock that matters; after that, resolution
+  const open = sla.firstResponse.completedAt ? sla.resolution : sla.firstResponse;
+  return <TargetBadge status={open} />;
+}
@@ -0,0 +1,41 @@
+import { useEffect, useRef } from "react";
+import { format } from "date-fns";
+import { useAuth } from "@/components/AuthProvider";
+import { useCommunication } from "@/components/CommunicationProvider";
+import { useGrievance } from "@/components/GrievanceProvider";
+import { getPendingSurveys, isReopenWindowOpen } from "@/lib/grievanceSurveys";
+
+// Sender shown on grievance notifications
+export const GRIEVANCE_NOTIFICATION_SENDER = "grievances";
+
+// Notifies the signed-in user about resolutions they haven't rated yet
+export function GrievanceSurveyNotifier() {
+  const { user } = useAuth();
+  const { grievances } = useGrievance();
+  const { addNotification } = useCommunication();
+  // Each survey is announced once, so deleting the notification sticks
+  const notified = useRef(new Set<string>());
+
+  useEffect(() => {
+    if (!user) return;
+
+    getPendingSurveys(grievances, user.id).forEach(({ grievance, survey }) => {
+      const id = `grievance-survey-${survey.id}-${user.id}`;
+      if (notified.current.has(id)) return;
+      notified.current.add(id);
+
+      addNotification({
+        id,
+        type: "grievance",
+        content: `Your grievance "${grievance.title}" was resolved. How did we do?`,
+        senderId: GRIEVANCE_NOTIFICATION_SENDER,
+        grievanceId: grievance.id,
+        additionalInfo: isReopenWindowOpen(survey)
+          ? `If the problem isn't fixed you can reopen it until ${format(new Date(survey.reopenUntil), "MMM d, p")}.`
+          : undefined,
+      });
+    });
+  }, [grievances, user, addNotification]);
+
+  return null;
+}
@@ -0,0 +1,78 @@
+import React, { useState } from "react";
+import { Plus, X } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { useDepartments } from "@/components/DepartmentsProvider";
+import { InvolvedParty } from "@/lib/grievanceConflicts";
+
+interface InvolvedPartiesInputProps {
+  value: InvolvedParty[];
+  onChange: (parties: InvolvedParty[]) => void;
+}
+
+// Name the people a grievance is about, from the directory or by free text
+export function InvolvedPartiesInput({ value, onChange }: InvolvedPartiesInputProps) {
+  const { teamMembers } = useDepartments();
+  const [name, setName] = useState("");
+
+  const addParty = () => {
+    const trimmed = name.trim();
+    if (!trimmed) return;
+    if (value.some((party) => party.name.toLowerCase() === trimmed.toLowerCase())) {
+      setName("");
+      return;
+    }
+
+    const member = teamMembers.find((m) => m.name.toLowerCase() === trimmed.toLowerCase());
+    onChange([...value, member ? { id: member.id, name: member.name } : { name: trimmed }]);
+    setName("");
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex gap-2">
+        <Input
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === "Enter") {
+              e.preventDefault();
+              addParty();
+            }
+          }}
+          placeholder="Start typing a name"
+          list="involved-party-options"
+        />
+        <datalist id="involved-party-options">
+          {teamMembers.map((member) => (
+            <option key={member.id} value={member.name}>
+              {member.role}, {member.department}
+            </option>
+          ))}
+        </datalist>
+        <Button type="button" variant="outline" size="icon" onClick={addParty} disabled={!name.trim()}>
+          <Plus className="h-4 w-4" />
+          <span className="sr-only">Add person</span>
+        </Button>
+      </div>
+      {value.length > 0 && (
+        <div className="flex flex-wrap gap-1.5">
+          {value.map((party) => (
+            <Badge key={party.id || party.name} variant="secondary" className="gap-1 pr-1 font-normal">
+              {party.name}
+              <button
+                type="button"
+                onClick={() => onChange(value.filter((p) => p !== party))}
+                className="rounded-full p-0.5 hover:bg-muted"
+              >
+                <X className="h-3 w-3" />
+                <span className="sr-only">Remove {party.name}</span>
+              </button>
+            </Badge>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,60 @@
+import React, { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Document, useDocuments } from "@/components/DocumentProvider";
+
+interface LegalHoldDialogProps {
+  document: Document;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+// Asks why a document is being put on legal hold before placing it
+export function LegalHoldDialog({ document, open, onOpenChange }: LegalHoldDialogProps) {
+  const { placeLegalHold } = useDocuments();
+  const [reason, setReason] = useState("");
+
+  const handlePlace = () => {
+    if (placeLegalHold(document.id, reason)) onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Place Legal Hold - {document.title}</DialogTitle>
+          <DialogDescription>
+            While the hold is in place nobody can delete this document, and retention policies won't delete it either.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-2">
+          <Label htmlFor="legal-hold-reason">Reason</Label>
+          <Textarea
+            id="legal-hold-reason"
+            rows={3}
+            value={reason}
+            onChange={(e) => setReason(e.target.value)}
+            placeholder="e.g. Pending litigation, case 2024-117"
+          />
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handlePlace} disabled={!reason.trim()}>
+            Place hold
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
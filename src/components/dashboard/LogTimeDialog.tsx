@@ -0,0 +1,136 @@
+import React, { useState } from "react";
+import { format, parseISO, set } from "date-fns";
+import { Timer, Trash2 } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import { formatMinutes, parseDuration } from "@/lib/timesheets";
+import { Task } from "@/components/TasksProvider";
+import { useTimeTracking } from "@/components/TimeTrackingProvider";
+import { useCommunication } from "@/components/CommunicationProvider";
+import { useAuth } from "@/components/AuthProvider";
+
+interface LogTimeDialogProps {
+  task: Task | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+// Manual time entry for a task, with the time already logged against it
+export function LogTimeDialog({ task, onOpenChange }: LogTimeDialogProps) {
+  const { addTimeEntry, deleteTimeEntry, getTaskTimeEntries, getLoggedMinutes } = useTimeTracking();
+  const { users } = useCommunication();
+  const { user } = useAuth();
+  const [duration, setDuration] = useState("");
+  const [day, setDay] = useState(() => format(new Date(), "yyyy-MM-dd"));
+  const [note, setNote] = useState("");
+
+  const minutes = parseDuration(duration);
+  const entries = task
+    ? [...getTaskTimeEntries(task.id)].sort((a, b) => b.date.localeCompare(a.date))
+    : [];
+
+  const getUserName = (userId: string) =>
+    users.find((u) => u.id === userId)?.name || userId;
+
+  const handleSubmit = () => {
+    if (!task || minutes === null) return;
+    // Manual entries are dated at the start of the working day
+    const date = set(parseISO(day), { hours: 9 }).toISOString();
+    if (addTimeEntry({ taskId: task.id, date, minutes, note: note.trim() || undefined })) {
+      setDuration("");
+      setNote("");
+      onOpenChange(false);
+    }
+  };
+
+  return (
+    <Dialog open={!!task} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[480px]">
+        <DialogHeader>
+          <DialogTitle>Log Time</DialogTitle>
+          <DialogDescription>
+            {task?.title} · {formatMinutes(task ? getLoggedMinutes(task.id) : 0)} logged so far
+          </DialogDescription>
+        </DialogHeader>
+        <div className="grid gap-4 py-2">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="grid gap-2">
+              <label htmlFor="log-duration" className="text-sm font-medium">Duration</label>
+              <Input
+                id="log-duration"
+                placeholder="e.g. 1h 30m"
+                value={duration}
+                onChange={(e) => setDuration(e.target.value)}
+              />
+              <p className="text-xs text-muted-foreground">
+                {minutes !== null ? formatMinutes(minutes) : duration ? "Couldn't understand that duration" : "Hours, or 1h 30m, 90m, 1:30"}
+              </p>
+            </div>
+            <div className="grid gap-2">
+              <label htmlFor="log-date" className="text-sm font-medium">Date</label>
+              <Input
+                id="log-date"
+                type="date"
+                value={day}
+                onChange={(e) => e.target.value && setDay(e.target.value)}
+              />
+            </div>
+          </div>
+          <div className="grid gap-2">
+            <label htmlFor="log-note" className="text-sm font-medium">Note</label>
+            <Textarea
+              id="log-note"
+              placeholder="What did you work on?"
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+            />
+          </div>
+          {entries.length > 0 && (
+            <div className="space-y-1 border-t pt-3 max-h-48 overflow-y-auto">
+              {entries.map((entry) => (
+                <div key={entry.id} className="flex items-center gap-2 text-sm">
+                  <span className="w-20 shrink-0 text-muted-foreground">{format(parseISO(entry.date), "MMM d")}</span>
+                  <span className="flex-1 truncate" title={entry.note}>{getUserName(entry.userId)}</span>
+                  {entry.source === "timer" && (
+                    <Badge variant="outline" className="text-xs flex items-center gap-1">
+                      <Timer className="h-3 w-3" />
+                      Timer
+                    </Badge>
+                  )}
+                  <span className="w-16 text-right tabular-nums">{formatMinutes(entry.minutes)}</span>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-7 w-7"
+                    disabled={entry.userId !== user?.id}
+                    onClick={() => deleteTimeEntry(entry.id)}
+                  >
+                    <Trash2 className="h-3.5 w-3.5" />
+                    <span className="sr-only">Delete entry</span>
+                  </Button>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleSubmit} disabled={minutes === null || minutes <= 0}>
+            Log Time
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
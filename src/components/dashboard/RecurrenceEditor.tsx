@@ -0,0 +1,170 @@
+import React, { useState } from "react";
+import { format, parseISO } from "date-fns";
+import { Repeat } from "lucide-react";
+import { Input } from "@/components/ui/input";
+import { Checkbox } from "@/components/ui/checkbox";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { RecurrenceFrequency, RecurrenceRule, describeRecurrence } from "@/lib/recurrence";
+
+type RepeatMode = "none" | RecurrenceFrequency | "custom";
+type EndMode = "never" | "count" | "until";
+
+const WEEKDAY_LABELS = ["S", "M", "T", "W", "T", "F", "S"];
+
+interface RecurrenceEditorProps {
+  value?: RecurrenceRule;
+  onChange: (value: RecurrenceRule | undefined) => void;
+}
+
+const getRepeatMode = (rule?: RecurrenceRule): RepeatMode => {
+  if (!rule) return "none";
+  if (rule.interval > 1 || (rule.byWeekday && rule.byWeekday.length > 0)) return "custom";
+  return rule.frequency;
+};
+
+export function RecurrenceEditor({ value, onChange }: RecurrenceEditorProps) {
+  const [mode, setMode] = useState<RepeatMode>(getRepeatMode(value));
+  const endMode: EndMode = value?.count ? "count" : value?.until ? "until" : "never";
+
+  const handleModeChange = (newMode: RepeatMode) => {
+    setMode(newMode);
+    if (newMode === "none") {
+      onChange(undefined);
+    } else if (newMode === "custom") {
+      onChange({ frequency: "weekly", interval: 1, ...value });
+    } else {
+      onChange({ ...value, frequency: newMode, interval: 1, byWeekday: undefined });
+    }
+  };
+
+  const handleEndModeChange = (newEndMode: EndMode) => {
+    if (!value) return;
+    onChange({
+      ...value,
+      count: newEndMode === "count" ? value.count || 10 : undefined,
+      until: newEndMode === "until" ? value.until || new Date().toISOString() : undefined,
+    });
+  };
+
+  return (
+    <div className="space-y-3">
+      <Select value={mode} onValueChange={(v) => handleModeChange(v as RepeatMode)}>
+        <SelectTrigger>
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value="none">Does not repeat</SelectItem>
+          <SelectItem value="daily">Daily</SelectItem>
+          <SelectItem value="weekly">Weekly</SelectItem>
+          <SelectItem value="monthly">Monthly</SelectItem>
+          <SelectItem value="custom">Custom...</SelectItem>
+        </SelectContent>
+      </Select>
+
+      {value && mode === "custom" && (
+        <div className="space-y-2">
+          <div className="flex items-center gap-2 text-sm">
+            <span>Every</span>
+            <Input
+              type="number"
+              min={1}
+              className="w-20"
+              value={value.interval}
+              onChange={(e) => onChange({ ...value, interval: Math.max(1, Number(e.target.value)) })}
+            />
+            <Select
+              value={value.frequency}
+              onValueChange={(v) => onChange({
+                ...value,
+                frequency: v as RecurrenceFrequency,
+                byWeekday: v === "weekly" ? value.byWeekday : undefined,
+              })}
+            >
+              <SelectTrigger className="w-[120px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="daily">day(s)</SelectItem>
+                <SelectItem value="weekly">week(s)</SelectItem>
+                <SelectItem value="monthly">month(s)</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          {value.frequency === "weekly" && (
+            <ToggleGroup
+              type="multiple"
+              className="justify-start"
+              value={(value.byWeekday || []).map(String)}
+              onValueChange={(days) => onChange({ ...value, byWeekday: days.map(Number) })}
+            >
+              {WEEKDAY_LABELS.map((label, day) => (
+                <ToggleGroupItem key={day} value={String(day)} size="sm" variant="outline" className="w-8">
+                  {label}
+                </ToggleGroupItem>
+              ))}
+            </ToggleGroup>
+          )}
+        </div>
+      )}
+
+      {value && (
+        <>
+          <div className="flex items-center gap-2 text-sm">
+            <span>Ends</span>
+            <Select value={endMode} onValueChange={(v) => handleEndModeChange(v as EndMode)}>
+              <SelectTrigger className="w-[140px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="never">Never</SelectItem>
+                <SelectItem value="count">After</SelectItem>
+                <SelectItem value="until">On date</SelectItem>
+              </SelectContent>
+            </Select>
+            {endMode === "count" && (
+              <>
+                <Input
+                  type="number"
+                  min={1}
+                  className="w-20"
+                  value={value.count}
+                  onChange={(e) => onChange({ ...value, count: Math.max(1, Number(e.target.value)) })}
+                />
+                <span>occurrences</span>
+              </>
+            )}
+            {endMode === "until" && (
+              <Input
+                type="date"
+                className="w-[160px]"
+                value={format(parseISO(value.until!), "yyyy-MM-dd")}
+                onChange={(e) => e.target.value && onChange({
+                  ...value,
+                  until: new Date(`${e.target.value}T23:59:59`).toISOString(),
+                })}
+              />
+            )}
+          </div>
+          <label className="flex items-center gap-2 text-sm">
+            <Checkbox
+              checked={!!value.skipHolidays}
+              onCheckedChange={(checked) => onChange({ ...value, skipHolidays: checked === true })}
+            />
+            Skip weekends and company holidays
+          </label>
+          <p className="flex items-center gap-1 text-xs text-muted-foreground">
+            <Repeat className="h-3 w-3" />
+            {describeRecurrence(value)}
+          </p>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,44 @@
+import React, { useState } from "react";
+import { Eye, EyeOff, ShieldAlert } from "lucide-react";
+import { useGrievance } from "@/components/GrievanceProvider";
+import { useAuth } from "@/components/AuthProvider";
+import { canViewPii, describePiiTypes, RedactedText as RedactedOriginal } from "@/lib/grievancePii";
+
+interface RedactedTextProps {
+  grievanceId: string;
+  commentId?: string; // the grievance's description when not set
+  text: string;
+  pii?: RedactedOriginal;
+}
+
+// Grievance text with personal details masked; authorised handlers can reveal
+// the original, which is audited
+export function RedactedText({ grievanceId, commentId, text, pii }: RedactedTextProps) {
+  const { revealPii } = useGrievance();
+  const { user } = useAuth();
+  const [original, setOriginal] = useState<string | null>(null);
+
+  if (!pii) return <>{text}</>;
+
+  const handleReveal = () => setOriginal(revealPii(grievanceId, commentId));
+
+  return (
+    <>
+      <span className="whitespace-pre-wrap">{original ?? text}</span>
+      <span className="mt-2 flex items-center gap-2 text-xs text-muted-foreground">
+        <ShieldAlert className="h-3.5 w-3.5" />
+        {original ? "Showing personal details" : `Personal details hidden: ${describePiiTypes(pii.types)}`}
+        {user && canViewPii(user) && (
+          <button
+            type="button"
+            className="inline-flex items-center gap-1 font-medium text-foreground hover:underline"
+            onClick={original ? () => setOriginal(null) : handleReveal}
+          >
+            {original ? <EyeOff className="h-3.5 w-3.5" /> : <Eye className="h-3.5 w-3.5" />}
+            {original ? "Hide" : "Show original"}
+          </button>
+        )}
+      </span>
+    </>
+  );
+}
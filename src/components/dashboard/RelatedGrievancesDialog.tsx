@@ -0,0 +1,128 @@
+import React, { useState } from "react";
+import { GitMerge, Link2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectGroup,
+  SelectItem,
+  SelectLabel,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Grievance, useGrievance } from "@/components/GrievanceProvider";
+import { useAuth } from "@/components/AuthProvider";
+import { CLOSED_GRIEVANCE_STATUSES } from "@/lib/grievanceSimilarity";
+import { REVIEWER_ROLES } from "@/lib/grievanceWorkflow";
+
+interface RelatedGrievancesDialogProps {
+  grievance: Grievance;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+// Link a grievance to another open case, or merge it into one as a duplicate
+export function RelatedGrievancesDialog({ grievance, open, onOpenChange }: RelatedGrievancesDialogProps) {
+  const { grievances, findSimilarGrievances, linkGrievances, mergeGrievances } = useGrievance();
+  const { user } = useAuth();
+  const [targetId, setTargetId] = useState("");
+
+  const canMerge = !!user && REVIEWER_ROLES.includes(user.role);
+  const similar = findSimilarGrievances(grievance, grievance.id);
+  const others = grievances.filter((g) =>
+    g.id !== grievance.id &&
+    !CLOSED_GRIEVANCE_STATUSES.includes(g.status) &&
+    !similar.some((match) => match.grievance.id === g.id)
+  );
+  const target = grievances.find((g) => g.id === targetId);
+  const alreadyLinked = !!grievance.relatedIds?.includes(targetId);
+
+  const close = () => {
+    setTargetId("");
+    onOpenChange(false);
+  };
+
+  const handleLink = () => {
+    if (target && linkGrievances(grievance.id, target.id)) close();
+  };
+
+  const handleMerge = () => {
+    if (target && mergeGrievances(grievance.id, target.id)) close();
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(next) => (next ? onOpenChange(true) : close())}>
+      <DialogContent className="sm:max-w-[520px]">
+        <DialogHeader>
+          <DialogTitle>Related Cases</DialogTitle>
+          <DialogDescription>
+            Link this grievance to another open case, or merge it into one that reports the same issue.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid gap-4 py-2">
+          <div className="grid gap-2">
+            <Label htmlFor="related-case">Other case</Label>
+            <Select value={targetId} onValueChange={setTargetId}>
+              <SelectTrigger id="related-case">
+                <SelectValue placeholder="Choose an open grievance" />
+              </SelectTrigger>
+              <SelectContent>
+                {similar.length > 0 && (
+                  <SelectGroup>
+                    <SelectLabel>Likely duplicates</SelectLabel>
+                    {similar.map(({ grievance: match, score }) => (
+                      <SelectItem key={match.id} value={match.id}>
+                        {match.title} · {Math.round(score * 100)}% match
+                      </SelectItem>
+                    ))}
+                  </SelectGroup>
+                )}
+                <SelectGroup>
+                  <SelectLabel>Other open cases</SelectLabel>
+                  {others.map((other) => (
+                    <SelectItem key={other.id} value={other.id}>
+                      {other.title} · {other.department}
+                    </SelectItem>
+                  ))}
+                </SelectGroup>
+              </SelectContent>
+            </Select>
+          </div>
+
+          {target && canMerge && (
+            <p className="text-sm text-muted-foreground">
+              Merging closes this grievance and moves its comments, submitters and links to "{target.title}".
+              Its status history is kept with both cases.
+            </p>
+          )}
+        </div>
+
+        <DialogFooter className="gap-2 sm:gap-0">
+          <Button variant="outline" onClick={close}>
+            Cancel
+          </Button>
+          <Button variant="secondary" onClick={handleLink} disabled={!target || alreadyLinked}>
+            <Link2 className="mr-2 h-4 w-4" />
+            {alreadyLinked ? "Already linked" : "Link as related"}
+          </Button>
+          {canMerge && (
+            <Button onClick={handleMerge} disabled={!target}>
+              <GitMerge className="mr-2 h-4 w-4" />
+              Merge as duplicate
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
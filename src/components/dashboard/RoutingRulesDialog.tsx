@@ -0,0 +1,373 @@
+import React, { useState } from "react";
+import { ArrowDown, ArrowUp, Pencil, Plus, Route, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { Checkbox } from "@/components/ui/checkbox";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { GrievanceCategory, GrievancePriority, useGrievance } from "@/components/GrievanceProvider";
+import { RoutingRule, RoutingTarget, describeRoutingTarget } from "@/lib/grievanceRouting";
+
+type RuleDraft = Omit<RoutingRule, "id">;
+
+const CATEGORIES: GrievanceCategory[] = ["hr", "technical", "management", "financial", "infrastructure", "other"];
+const PRIORITIES: GrievancePriority[] = ["critical", "high", "medium", "low"];
+
+const EMPTY_DRAFT: RuleDraft = {
+  name: "",
+  enabled: true,
+  isFallback: false,
+  conditions: {},
+  target: { type: "queue", queue: "General intake" },
+};
+
+const capitalize = (value: string) => (value === "hr" ? "HR" : value.charAt(0).toUpperCase() + value.slice(1));
+
+const splitList = (value: string) =>
+  value
+    .split(",")
+    .map((item) => item.trim())
+    .filter(Boolean);
+
+const describeConditions = (rule: RoutingRule) => {
+  const { categories, departments, priorities, keywords } = rule.conditions;
+  const parts = [
+    categories?.length && categories.map(capitalize).join("/"),
+    departments?.length && departments.join("/"),
+    priorities?.length && priorities.join("/"),
+    keywords?.length && `"${keywords.slice(0, 3).join('", "')}"${keywords.length > 3 ? "…" : ""}`,
+  ].filter(Boolean);
+  return parts.length > 0 ? parts.join(" · ") : "Any grievance";
+};
+
+// Admin editor for the rules that route new grievances
+export function RoutingRulesDialog() {
+  const {
+    routingRules,
+    routingTeams,
+    addRoutingRule,
+    updateRoutingRule,
+    deleteRoutingRule,
+    moveRoutingRule,
+  } = useGrievance();
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draft, setDraft] = useState<RuleDraft>(EMPTY_DRAFT);
+  // Comma-separated text, parsed on save
+  const [departmentsText, setDepartmentsText] = useState("");
+  const [keywordsText, setKeywordsText] = useState("");
+
+  // Anyone on a routing team can be picked as a direct assignee
+  const assignees = routingTeams
+    .flatMap((team) => team.members)
+    .filter((member, index, all) => all.findIndex((m) => m.id === member.id) === index);
+
+  const isValid =
+    draft.name.trim() !== "" &&
+    (draft.target.type !== "queue" || draft.target.queue.trim() !== "");
+
+  const startEditing = (rule: RoutingRule) => {
+    const { id, ...rest } = rule;
+    setEditingId(id);
+    setDraft(rest);
+    setDepartmentsText(rule.conditions.departments?.join(", ") || "");
+    setKeywordsText(rule.conditions.keywords?.join(", ") || "");
+  };
+
+  const resetForm = () => {
+    setEditingId(null);
+    setDraft(EMPTY_DRAFT);
+    setDepartmentsText("");
+    setKeywordsText("");
+  };
+
+  const setTargetType = (type: RoutingTarget["type"]) => {
+    if (type === "user") {
+      const first = assignees[0];
+      setDraft({ ...draft, target: { type, userId: first?.id || "", userName: first?.name || "" } });
+    } else if (type === "team") {
+      setDraft({ ...draft, target: { type, teamId: routingTeams[0]?.id || "" } });
+    } else {
+      setDraft({ ...draft, target: { type, queue: "" } });
+    }
+  };
+
+  const handleSave = () => {
+    if (!isValid) return;
+    const rule: RuleDraft = {
+      ...draft,
+      name: draft.name.trim(),
+      conditions: {
+        ...draft.conditions,
+        departments: splitList(departmentsText),
+        keywords: splitList(keywordsText),
+      },
+    };
+    if (editingId) {
+      updateRoutingRule(editingId, rule);
+    } else {
+      addRoutingRule(rule);
+    }
+    resetForm();
+  };
+
+  return (
+    <Dialog onOpenChange={(open) => !open && resetForm()}>
+      <DialogTrigger asChild>
+        <Button variant="outline" className="md:self-start w-full md:w-auto">
+          <Route className="mr-2 h-4 w-4" />
+          Routing Rules
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-4xl max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Routing Rules</DialogTitle>
+          <DialogDescription>
+            New grievances go to the first enabled rule whose conditions all match. Fallback rules apply only when no
+            other rule does. Team rules take turns between the team's members.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead className="w-[60px]">Order</TableHead>
+              <TableHead>Rule</TableHead>
+              <TableHead>When</TableHead>
+              <TableHead>Send to</TableHead>
+              <TableHead className="w-[60px]">On</TableHead>
+              <TableHead className="w-[80px]" />
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {routingRules.map((rule, index) => (
+              <TableRow key={rule.id} className={editingId === rule.id ? "bg-muted/50" : undefined}>
+                <TableCell>
+                  <div className="flex">
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-6 w-6"
+                      disabled={index === 0}
+                      onClick={() => moveRoutingRule(rule.id, "up")}
+                    >
+                      <ArrowUp className="h-3 w-3" />
+                      <span className="sr-only">Move up</span>
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-6 w-6"
+                      disabled={index === routingRules.length - 1}
+                      onClick={() => moveRoutingRule(rule.id, "down")}
+                    >
+                      <ArrowDown className="h-3 w-3" />
+                      <span className="sr-only">Move down</span>
+                    </Button>
+                  </div>
+                </TableCell>
+                <TableCell className="font-medium">
+                  {rule.name}
+                  {rule.isFallback && (
+                    <Badge variant="outline" className="ml-2 text-xs font-normal">
+                      Fallback
+                    </Badge>
+                  )}
+                </TableCell>
+                <TableCell className="text-sm text-muted-foreground">{describeConditions(rule)}</TableCell>
+                <TableCell className="text-sm">{describeRoutingTarget(rule.target, routingTeams)}</TableCell>
+                <TableCell>
+                  <Switch
+                    checked={rule.enabled}
+                    onCheckedChange={(enabled) => updateRoutingRule(rule.id, { enabled })}
+                  />
+                </TableCell>
+                <TableCell>
+                  <div className="flex justify-end gap-1">
+                    <Button variant="ghost" size="icon" className="h-7 w-7" onClick={() => startEditing(rule)}>
+                      <Pencil className="h-3.5 w-3.5" />
+                      <span className="sr-only">Edit rule</span>
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-7 w-7 text-destructive"
+                      onClick={() => deleteRoutingRule(rule.id)}
+                    >
+                      <Trash2 className="h-3.5 w-3.5" />
+                      <span className="sr-only">Delete rule</span>
+                    </Button>
+                  </div>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+
+        <div className="space-y-3 rounded-md border p-4">
+          <p className="text-sm font-medium">{editingId ? "Edit rule" : "New rule"}</p>
+          <div className="grid grid-cols-1 gap-3 sm:grid-cols-2">
+            <div className="space-y-1">
+              <span className="text-xs text-muted-foreground">Name</span>
+              <Input value={draft.name} onChange={(e) => setDraft({ ...draft, name: e.target.value })} />
+            </div>
+            <div className="space-y-1">
+              <span className="text-xs text-muted-foreground">Departments (comma-separated, empty for any)</span>
+              <Input value={departmentsText} onChange={(e) => setDepartmentsText(e.target.value)} placeholder="HR, Finance" />
+            </div>
+            <div className="space-y-1">
+              <span className="text-xs text-muted-foreground">Categories (none selected matches any)</span>
+              <ToggleGroup
+                type="multiple"
+                variant="outline"
+                size="sm"
+                className="flex-wrap justify-start"
+                value={draft.conditions.categories || []}
+                onValueChange={(categories) =>
+                  setDraft({ ...draft, conditions: { ...draft.conditions, categories: categories as GrievanceCategory[] } })
+                }
+              >
+                {CATEGORIES.map((category) => (
+                  <ToggleGroupItem key={category} value={category} className="h-7 px-2 text-xs">
+                    {capitalize(category)}
+                  </ToggleGroupItem>
+                ))}
+              </ToggleGroup>
+            </div>
+            <div className="space-y-1">
+              <span className="text-xs text-muted-foreground">Priorities (none selected matches any)</span>
+              <ToggleGroup
+                type="multiple"
+                variant="outline"
+                size="sm"
+                className="flex-wrap justify-start"
+                value={draft.conditions.priorities || []}
+                onValueChange={(priorities) =>
+                  setDraft({ ...draft, conditions: { ...draft.conditions, priorities: priorities as GrievancePriority[] } })
+                }
+              >
+                {PRIORITIES.map((priority) => (
+                  <ToggleGroupItem key={priority} value={priority} className="h-7 px-2 text-xs">
+                    {capitalize(priority)}
+                  </ToggleGroupItem>
+                ))}
+              </ToggleGroup>
+            </div>
+            <div className="space-y-1 sm:col-span-2">
+              <span className="text-xs text-muted-foreground">
+                Keywords in title or description (comma-separated, any one matches)
+              </span>
+              <Input value={keywordsText} onChange={(e) => setKeywordsText(e.target.value)} placeholder="harassment, payroll" />
+            </div>
+            <div className="space-y-1">
+              <span className="text-xs text-muted-foreground">Send to</span>
+              <Select value={draft.target.type} onValueChange={(value) => setTargetType(value as RoutingTarget["type"])}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="user">A person</SelectItem>
+                  <SelectItem value="team">A team (round-robin)</SelectItem>
+                  <SelectItem value="queue">A queue</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <span className="text-xs text-muted-foreground">
+                {draft.target.type === "user" ? "Person" : draft.target.type === "team" ? "Team" : "Queue name"}
+              </span>
+              {draft.target.type === "user" && (
+                <Select
+                  value={draft.target.userId}
+                  onValueChange={(userId) =>
+                    setDraft({
+                      ...draft,
+                      target: { type: "user", userId, userName: assignees.find((a) => a.id === userId)?.name || userId },
+                    })
+                  }
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {assignees.map((assignee) => (
+                      <SelectItem key={assignee.id} value={assignee.id}>
+                        {assignee.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              )}
+              {draft.target.type === "team" && (
+                <Select
+                  value={draft.target.teamId}
+                  onValueChange={(teamId) => setDraft({ ...draft, target: { type: "team", teamId } })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {routingTeams.map((team) => (
+                      <SelectItem key={team.id} value={team.id}>
+                        {team.name} ({team.members.length})
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              )}
+              {draft.target.type === "queue" && (
+                <Input
+                  value={draft.target.queue}
+                  onChange={(e) => setDraft({ ...draft, target: { type: "queue", queue: e.target.value } })}
+                />
+              )}
+            </div>
+          </div>
+          <div className="flex items-center space-x-2">
+            <Checkbox
+              id="routing-fallback"
+              checked={draft.isFallback}
+              onCheckedChange={(checked) => setDraft({ ...draft, isFallback: checked === true })}
+            />
+            <label htmlFor="routing-fallback" className="text-sm font-medium">
+              Fallback rule (only used when no other rule matches)
+            </label>
+          </div>
+          <div className="flex justify-end gap-2">
+            {editingId && (
+              <Button variant="outline" size="sm" onClick={resetForm}>
+                Cancel
+              </Button>
+            )}
+            <Button size="sm" onClick={handleSave} disabled={!isValid}>
+              {editingId ? "Save rule" : <><Plus className="mr-1 h-4 w-4" />Add rule</>}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,134 @@
+import React, { useState } from "react";
+import { format, formatDistanceToNow } from "date-fns";
+import { RotateCcw, Star } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Grievance, useGrievance } from "@/components/GrievanceProvider";
+import { useAuth } from "@/components/AuthProvider";
+import {
+  getCurrentSurvey,
+  isGrievanceSubmitter,
+  isReopenWindowOpen,
+  MAX_RATING,
+  RATING_LABELS,
+} from "@/lib/grievanceSurveys";
+import { REVIEWER_ROLES } from "@/lib/grievanceWorkflow";
+
+interface SatisfactionSurveyCardProps {
+  grievance: Grievance;
+}
+
+const Stars = ({ rating }: { rating: number }) => (
+  <span className="inline-flex">
+    {Array.from({ length: MAX_RATING }, (_, i) => (
+      <Star key={i} className={`h-3.5 w-3.5 ${i < rating ? "fill-amber-400 text-amber-400" : "text-muted-foreground"}`} />
+    ))}
+  </span>
+);
+
+// Lets submitters rate a resolution or send it back, and shows handlers the ratings
+export function SatisfactionSurveyCard({ grievance }: SatisfactionSurveyCardProps) {
+  const { respondToSurvey } = useGrievance();
+  const { user } = useAuth();
+  const [rating, setRating] = useState(0);
+  const [feedback, setFeedback] = useState("");
+
+  const survey = getCurrentSurvey(grievance);
+  const isSubmitter = !!user && isGrievanceSubmitter(grievance, user.id);
+  const isReviewer = !!user && REVIEWER_ROLES.includes(user.role);
+  const responses = (grievance.satisfactionSurveys || []).flatMap((s) => s.responses);
+  const ownResponse = survey?.responses.find((r) => r.userId === user?.id);
+  const canRespond = !!survey && isSubmitter && !ownResponse;
+  const windowOpen = !!survey && isReopenWindowOpen(survey);
+
+  if (!canRespond && !(isReviewer && responses.length > 0) && !ownResponse) return null;
+
+  const submit = (reopen: boolean) => {
+    if (respondToSurvey(grievance.id, { rating, feedback, reopen })) {
+      setRating(0);
+      setFeedback("");
+    }
+  };
+
+  return (
+    <div>
+      <h3 className="text-base font-medium mb-2">Satisfaction</h3>
+
+      {canRespond && (
+        <div className="rounded-lg border p-4 space-y-3">
+          <p className="text-sm">How satisfied are you with how this grievance was resolved?</p>
+          <div className="flex items-center gap-1">
+            {Array.from({ length: MAX_RATING }, (_, i) => i + 1).map((value) => (
+              <button
+                key={value}
+                type="button"
+                onClick={() => setRating(value)}
+                className="p-0.5"
+                title={RATING_LABELS[value]}
+              >
+                <Star className={`h-6 w-6 ${value <= rating ? "fill-amber-400 text-amber-400" : "text-muted-foreground"}`} />
+                <span className="sr-only">{RATING_LABELS[value]}</span>
+              </button>
+            ))}
+            {rating > 0 && <span className="ml-2 text-sm text-muted-foreground">{RATING_LABELS[rating]}</span>}
+          </div>
+          <div className="space-y-1.5">
+            <Label htmlFor="survey-feedback" className="text-xs">Feedback</Label>
+            <Textarea
+              id="survey-feedback"
+              value={feedback}
+              onChange={(e) => setFeedback(e.target.value)}
+              placeholder="Anything the handler should know? If the problem isn't fixed, say what's still wrong."
+              rows={3}
+            />
+          </div>
+          <div className="flex flex-wrap items-center justify-between gap-2">
+            <p className="text-xs text-muted-foreground">
+              {windowOpen
+                ? `You can reopen this grievance until ${format(new Date(survey!.reopenUntil), "MMM d, p")}`
+                : "The window for reopening has closed"}
+            </p>
+            <div className="flex gap-2">
+              {windowOpen && (
+                <Button variant="outline" size="sm" onClick={() => submit(true)} disabled={!rating || !feedback.trim()}>
+                  <RotateCcw className="mr-2 h-3.5 w-3.5" />
+                  Not fixed, reopen
+                </Button>
+              )}
+              <Button size="sm" onClick={() => submit(false)} disabled={!rating}>
+                Send rating
+              </Button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {ownResponse && !isReviewer && (
+        <p className="flex items-center gap-2 text-sm text-muted-foreground">
+          You rated this resolution <Stars rating={ownResponse.rating} />
+        </p>
+      )}
+
+      {isReviewer && responses.length > 0 && (
+        <div className="space-y-2">
+          {responses.map((response) => (
+            <div key={`${response.userId}-${response.respondedAt}`} className="rounded-lg bg-muted/30 p-3 text-sm">
+              <div className="flex items-center justify-between gap-2">
+                <span className="flex items-center gap-2 font-medium">
+                  {response.userName}
+                  <Stars rating={response.rating} />
+                </span>
+                <span className="text-xs text-muted-foreground">
+                  {response.reopened && "Reopened · "}
+                  {formatDistanceToNow(new Date(response.respondedAt), { addSuffix: true })}
+                </span>
+              </div>
+              {response.feedback && <p className="mt-1">{response.feedback}</p>}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,151 @@
+import React, { useState } from "react";
+import { Bookmark, Check, Link2, Save, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { useToast } from "@/hooks/use-toast";
+import { useTasks } from "@/components/TasksProvider";
+import { TaskViewSettings, viewSettingsToParams } from "@/lib/taskViews";
+
+interface SavedViewsMenuProps {
+  settings: TaskViewSettings;
+  onApply: (settings: TaskViewSettings) => void;
+}
+
+const sameSettings = (a: TaskViewSettings, b: TaskViewSettings) =>
+  a.query.trim() === b.query.trim() &&
+  a.sortBy === b.sortBy &&
+  a.sortDirection === b.sortDirection &&
+  a.groupBy === b.groupBy &&
+  a.layout === b.layout;
+
+// Saved views for the current user, plus saving and sharing the current one
+export function SavedViewsMenu({ settings, onApply }: SavedViewsMenuProps) {
+  const { savedViews, saveView, deleteView } = useTasks();
+  const { toast } = useToast();
+  const [showSaveDialog, setShowSaveDialog] = useState(false);
+  const [name, setName] = useState("");
+
+  const activeView = savedViews.find((view) => sameSettings(view, settings));
+
+  const handleSave = () => {
+    if (!name.trim()) return;
+    saveView(name.trim(), settings);
+    setShowSaveDialog(false);
+  };
+
+  const handleCopyLink = async () => {
+    const params = viewSettingsToParams(settings).toString();
+    const url = `${window.location.origin}${window.location.pathname}${params ? `?${params}` : ""}`;
+    try {
+      await navigator.clipboard.writeText(url);
+      toast({
+        title: "View link copied",
+        description: "Anyone with the link will see the same filters and sorting",
+      });
+    } catch (error) {
+      console.error("Error copying view link:", error);
+      toast({
+        title: "Couldn't copy link",
+        description: url,
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="outline" size="sm" className="flex items-center gap-2">
+            <Bookmark size={16} />
+            {activeView ? activeView.name : "Views"}
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end" className="w-60">
+          <DropdownMenuLabel>My views</DropdownMenuLabel>
+          {savedViews.length === 0 && (
+            <p className="px-2 py-1.5 text-sm text-muted-foreground">No saved views yet</p>
+          )}
+          {savedViews.map((view) => (
+            <DropdownMenuItem key={view.id} onClick={() => onApply(view)} className="group">
+              <Check className={activeView?.id === view.id ? "mr-2 h-4 w-4" : "mr-2 h-4 w-4 invisible"} />
+              <span className="flex-1 truncate">{view.name}</span>
+              <button
+                type="button"
+                className="ml-2 text-muted-foreground opacity-0 group-hover:opacity-100 hover:text-destructive"
+                onClick={(e) => {
+                  e.stopPropagation();
+                  deleteView(view.id);
+                }}
+              >
+                <Trash2 className="h-3.5 w-3.5" />
+                <span className="sr-only">Delete view</span>
+              </button>
+            </DropdownMenuItem>
+          ))}
+          <DropdownMenuSeparator />
+          <DropdownMenuItem
+            onClick={() => {
+              setName(activeView?.name || "");
+              setShowSaveDialog(true);
+            }}
+          >
+            <Save className="mr-2 h-4 w-4" />
+            Save current view…
+          </DropdownMenuItem>
+          <DropdownMenuItem onClick={handleCopyLink}>
+            <Link2 className="mr-2 h-4 w-4" />
+            Copy link to view
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <Dialog open={showSaveDialog} onOpenChange={setShowSaveDialog}>
+        <DialogContent className="sm:max-w-[420px]">
+          <DialogHeader>
+            <DialogTitle>Save View</DialogTitle>
+            <DialogDescription>
+              Saves the current filter query, sorting, grouping and layout. Saving with an existing name replaces that view.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Input
+              placeholder="e.g. My overdue HR tasks"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              onKeyDown={(e) => e.key === "Enter" && handleSave()}
+              autoFocus
+            />
+            {settings.query && (
+              <p className="text-xs text-muted-foreground font-mono break-all">{settings.query}</p>
+            )}
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setShowSaveDialog(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleSave} disabled={!name.trim()}>
+              Save
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
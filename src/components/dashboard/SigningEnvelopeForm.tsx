@@ -0,0 +1,183 @@
+import React, { useState } from "react";
+import { ArrowDown, ArrowUp, Plus, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useDocuments } from "@/components/DocumentProvider";
+import { getUserAccounts } from "@/lib/userAccounts";
+import { DueDateInput } from "@/components/dashboard/DueDateInput";
+import { parseNaturalDate } from "@/lib/dueDates";
+import { SigningOrder, validateEnvelope } from "@/lib/signingEnvelopes";
+
+interface SigningEnvelopeFormProps {
+  documentId: string;
+  onDone: () => void;
+}
+
+interface SignerRow {
+  key: number;
+  userId: string;
+  required: boolean;
+  dueDate: string; // as typed, e.g. "Friday 5pm"
+}
+
+// Choose who signs a document, in what order and by when
+export function SigningEnvelopeForm({ documentId, onDone }: SigningEnvelopeFormProps) {
+  const { createSigningEnvelope } = useDocuments();
+  const [order, setOrder] = useState<SigningOrder>("sequential");
+  const [message, setMessage] = useState("");
+  const [rows, setRows] = useState<SignerRow[]>([{ key: 0, userId: "", required: true, dueDate: "" }]);
+  const [nextKey, setNextKey] = useState(1);
+
+  const updateRow = (key: number, updates: Partial<SignerRow>) =>
+    setRows((prev) => prev.map((row) => (row.key === key ? { ...row, ...updates } : row)));
+
+  const moveRow = (index: number, offset: number) =>
+    setRows((prev) => {
+      const next = [...prev];
+      [next[index], next[index + offset]] = [next[index + offset], next[index]];
+      return next;
+    });
+
+  const addRow = () => {
+    setRows((prev) => [...prev, { key: nextKey, userId: "", required: true, dueDate: "" }]);
+    setNextKey(nextKey + 1);
+  };
+
+  const signers = rows
+    .filter((row) => row.userId)
+    .map((row) => ({
+      userId: row.userId,
+      userName: getUserAccounts().find((account) => account.id === row.userId)?.name || row.userId,
+      required: row.required,
+      dueDate: parseNaturalDate(row.dueDate)?.toISOString(),
+    }));
+  const unreadableDate = rows.some((row) => row.userId && row.dueDate && !parseNaturalDate(row.dueDate));
+  const problem = unreadableDate ? "Check the deadlines" : validateEnvelope(signers);
+
+  const handleSend = () => {
+    if (createSigningEnvelope(documentId, signers, { order, message })) {
+      onDone();
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        <Label>Signing order</Label>
+        <RadioGroup value={order} onValueChange={(value) => setOrder(value as SigningOrder)} className="grid grid-cols-2 gap-2">
+          <Label htmlFor="order-sequential" className="flex items-start gap-2 rounded-md border p-3 font-normal cursor-pointer">
+            <RadioGroupItem value="sequential" id="order-sequential" className="mt-0.5" />
+            <span>
+              <span className="block font-medium">One after another</span>
+              <span className="text-xs text-muted-foreground">Each signer is asked once the one before has signed</span>
+            </span>
+          </Label>
+          <Label htmlFor="order-parallel" className="flex items-start gap-2 rounded-md border p-3 font-normal cursor-pointer">
+            <RadioGroupItem value="parallel" id="order-parallel" className="mt-0.5" />
+            <span>
+              <span className="block font-medium">All at once</span>
+              <span className="text-xs text-muted-foreground">Everyone is asked now and can sign in any order</span>
+            </span>
+          </Label>
+        </RadioGroup>
+      </div>
+
+      <div className="space-y-2">
+        <Label>Signers</Label>
+        {rows.map((row, index) => (
+          <div key={row.key} className="flex flex-wrap items-start gap-2 rounded-md border p-2">
+            {order === "sequential" && (
+              <span className="w-5 pt-2 text-center text-sm text-muted-foreground">{index + 1}</span>
+            )}
+            <Select value={row.userId} onValueChange={(userId) => updateRow(row.key, { userId })}>
+              <SelectTrigger className="w-[170px]">
+                <SelectValue placeholder="Choose a person" />
+              </SelectTrigger>
+              <SelectContent>
+                {getUserAccounts().map((account) => (
+                  <SelectItem key={account.id} value={account.id}>
+                    {account.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <div className="w-[200px]">
+              <DueDateInput
+                aria-label="Deadline"
+                placeholder="Deadline, e.g. Friday 5pm"
+                value={row.dueDate}
+                onChange={(dueDate) => updateRow(row.key, { dueDate })}
+              />
+            </div>
+            <Label className="flex items-center gap-1.5 pt-2 text-sm font-normal">
+              <Checkbox
+                checked={row.required}
+                onCheckedChange={(checked) => updateRow(row.key, { required: checked === true })}
+              />
+              Required
+            </Label>
+            <div className="ml-auto flex">
+              {order === "sequential" && (
+                <>
+                  <Button variant="ghost" size="icon" className="h-8 w-8" disabled={index === 0} onClick={() => moveRow(index, -1)}>
+                    <ArrowUp className="h-4 w-4" />
+                  </Button>
+                  <Button variant="ghost" size="icon" className="h-8 w-8" disabled={index === rows.length - 1} onClick={() => moveRow(index, 1)}>
+                    <ArrowDown className="h-4 w-4" />
+                  </Button>
+                </>
+              )}
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-8 w-8"
+                disabled={rows.length === 1}
+                onClick={() => setRows((prev) => prev.filter((r) => r.key !== row.key))}
+              >
+                <X className="h-4 w-4" />
+              </Button>
+            </div>
+          </div>
+        ))}
+        <Button variant="outline" size="sm" onClick={addRow}>
+          <Plus className="h-4 w-4 mr-1" /> Add signer
+        </Button>
+        <p className="text-xs text-muted-foreground">
+          Signers with a deadline are reminded a day before it and again if it passes. The document is
+          published once every required signer has signed.
+        </p>
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="envelope-message">Message to signers</Label>
+        <Textarea
+          id="envelope-message"
+          rows={2}
+          value={message}
+          onChange={(e) => setMessage(e.target.value)}
+          placeholder="Optional"
+        />
+      </div>
+
+      <div className="flex items-center justify-end gap-2">
+        {problem && <span className="mr-auto text-xs text-muted-foreground">{problem}</span>}
+        <Button variant="outline" onClick={onDone}>
+          Cancel
+        </Button>
+        <Button onClick={handleSend} disabled={!!problem}>
+          Send for signature
+        </Button>
+      </div>
+    </div>
+  );
+}
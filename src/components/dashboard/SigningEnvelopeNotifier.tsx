@@ -0,0 +1,82 @@
+import { useEffect, useRef } from "react";
+import { format } from "date-fns";
+import { useAuth } from "@/components/AuthProvider";
+import { useCommunication } from "@/components/CommunicationProvider";
+import { useDocuments } from "@/components/DocumentProvider";
+
+// Sender shown on signing notifications
+export const DOCUMENT_NOTIFICATION_SENDER = "documents";
+
+// Notifies the signed-in user when it's their turn to sign, when reminders
+// go out and, for senders, when signing finishes or is declined
+export function SigningEnvelopeNotifier() {
+  const { user } = useAuth();
+  const { documents } = useDocuments();
+  const { addNotification } = useCommunication();
+  // Each step is announced once, so deleting the notification sticks
+  const notified = useRef(new Set<string>());
+
+  useEffect(() => {
+    if (!user) return;
+
+    const notify = (id: string, documentId: string, content: string, additionalInfo?: string) => {
+      if (notified.current.has(id)) return;
+      notified.current.add(id);
+      addNotification({
+        id,
+        type: "document",
+        content,
+        senderId: DOCUMENT_NOTIFICATION_SENDER,
+        documentId,
+        additionalInfo,
+      });
+    };
+
+    documents.forEach((doc) => {
+      doc.envelopes?.forEach((envelope) => {
+        const signer = envelope.signers.find((s) => s.userId === user.id);
+        const due = signer?.dueDate ? `Please sign by ${format(new Date(signer.dueDate), "MMM d, p")}.` : undefined;
+
+        if (envelope.status === "in-progress" && signer?.status === "pending") {
+          notify(
+            `signing-request-${envelope.id}-${user.id}`,
+            doc.id,
+            `${envelope.createdByName} asked you to sign "${doc.title}"`,
+            envelope.message || due
+          );
+          signer.reminders.forEach((reminder) =>
+            notify(
+              `signing-reminder-${envelope.id}-${user.id}-${reminder}`,
+              doc.id,
+              reminder === "overdue"
+                ? `Your signature on "${doc.title}" is overdue`
+                : `"${doc.title}" is still waiting for your signature`,
+              due
+            )
+          );
+        }
+
+        if (envelope.createdBy !== user.id) return;
+        if (envelope.status === "completed") {
+          notify(
+            `signing-completed-${envelope.id}`,
+            doc.id,
+            `Everyone required has signed "${doc.title}" and it's now published`
+          );
+        }
+        envelope.signers
+          .filter((s) => s.status === "declined")
+          .forEach((s) =>
+            notify(
+              `signing-declined-${envelope.id}-${s.userId}`,
+              doc.id,
+              `${s.userName} declined to sign "${doc.title}"`,
+              s.declineReason
+            )
+          );
+      });
+    });
+  }, [documents, user, addNotification]);
+
+  return null;
+}
@@ -0,0 +1,181 @@
+import React, { useState } from "react";
+import { format, isPast } from "date-fns";
+import { Ban, Bell, CheckCircle, Clock, FileSignature, Send, XCircle } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { useDocuments } from "@/components/DocumentProvider";
+import { useAuth } from "@/components/AuthProvider";
+import { cn } from "@/lib/utils";
+import {
+  ENVELOPE_STATUS_LABELS,
+  EnvelopeEventType,
+  SIGNER_STATUS_LABELS,
+  SigningEnvelope,
+} from "@/lib/signingEnvelopes";
+
+interface SigningEnvelopePanelProps {
+  documentId: string;
+  envelope: SigningEnvelope;
+  onSign: () => void;
+}
+
+const formatDate = (date: string) => format(new Date(date), "MMM d, yyyy p");
+
+// Where a signing envelope stands, with the signed-in signer's actions
+export function SigningEnvelopePanel({ documentId, envelope, onSign }: SigningEnvelopePanelProps) {
+  const { declineSignature, cancelSigningEnvelope, canRequestSignatures } = useDocuments();
+  const { user } = useAuth();
+  const [declining, setDeclining] = useState(false);
+  const [reason, setReason] = useState("");
+
+  const active = envelope.status === "in-progress";
+  const mySigner = envelope.signers.find((signer) => signer.userId === user?.id);
+  const myTurn = active && mySigner?.status === "pending";
+
+  const handleDecline = () => {
+    if (declineSignature(documentId, reason)) {
+      setDeclining(false);
+      setReason("");
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="rounded-md bg-muted p-4">
+        <div className="flex items-center justify-between gap-2">
+          <h3 className="font-medium flex items-center gap-2">
+            <FileSignature className="h-4 w-4" />
+            {myTurn ? "This document requires your signature" : ENVELOPE_STATUS_LABELS[envelope.status]}
+          </h3>
+          <Badge variant={envelope.status === "declined" ? "destructive" : active ? "outline" : "secondary"}>
+            {ENVELOPE_STATUS_LABELS[envelope.status]}
+          </Badge>
+        </div>
+        <p className="text-sm text-muted-foreground mt-2">
+          Sent by {envelope.createdByName} on {formatDate(envelope.createdAt)},{" "}
+          {envelope.order === "sequential" ? "to sign one after another" : "to sign in any order"}.
+        </p>
+        {envelope.message && <p className="text-sm mt-2 whitespace-pre-wrap">"{envelope.message}"</p>}
+        {myTurn && (
+          <p className="text-sm text-muted-foreground mt-2">
+            By signing this document, you acknowledge that your digital signature
+            will be legally binding and equivalent to a handwritten signature.
+          </p>
+        )}
+      </div>
+
+      <div className="space-y-2">
+        <h4 className="text-sm font-medium">Signers</h4>
+        {envelope.signers.map((signer, index) => {
+          const overdue = active && signer.status === "pending" && !!signer.dueDate && isPast(new Date(signer.dueDate));
+          return (
+            <div key={signer.userId} className="border rounded-md p-3">
+              <div className="flex items-center justify-between gap-2">
+                <div className="flex items-center gap-2">
+                  {envelope.order === "sequential" && (
+                    <span className="w-4 text-center text-sm text-muted-foreground">{index + 1}</span>
+                  )}
+                  <span className="text-sm">{signer.userName}</span>
+                  {!signer.required && <span className="text-xs text-muted-foreground">(optional)</span>}
+                  <Badge
+                    variant={
+                      signer.status === "declined" ? "destructive" : signer.status === "signed" ? "secondary" : "outline"
+                    }
+                  >
+                    <span className="flex items-center gap-1">
+                      {signer.status === "signed" ? <CheckCircle className="h-3 w-3" /> : <Clock className="h-3 w-3" />}
+                      {SIGNER_STATUS_LABELS[signer.status]}
+                    </span>
+                  </Badge>
+                </div>
+                {myTurn && signer.userId === user?.id && !declining && (
+                  <div className="flex gap-2">
+                    <Button variant="outline" size="sm" onClick={() => setDeclining(true)}>
+                      Decline
+                    </Button>
+                    <Button size="sm" onClick={onSign}>
+                      Sign Now
+                    </Button>
+                  </div>
+                )}
+              </div>
+              <p className={cn("mt-1 text-xs text-muted-foreground", overdue && "text-destructive")}>
+                {signer.signedAt
+                  ? `Signed ${formatDate(signer.signedAt)}`
+                  : signer.declinedAt
+                    ? `Declined ${formatDate(signer.declinedAt)}: ${signer.declineReason}`
+                    : signer.dueDate
+                      ? `${overdue ? "Overdue, was due" : "Due"} ${formatDate(signer.dueDate)}`
+                      : "No deadline"}
+              </p>
+              {declining && signer.userId === user?.id && (
+                <div className="mt-3 space-y-2">
+                  <Textarea
+                    rows={2}
+                    autoFocus
+                    value={reason}
+                    onChange={(e) => setReason(e.target.value)}
+                    placeholder="Why are you declining to sign?"
+                  />
+                  <div className="flex justify-end gap-2">
+                    <Button variant="outline" size="sm" onClick={() => setDeclining(false)}>
+                      Back
+                    </Button>
+                    <Button variant="destructive" size="sm" onClick={handleDecline} disabled={!reason.trim()}>
+                      Decline to sign
+                    </Button>
+                  </div>
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      {active && canRequestSignatures(documentId) && (
+        <div className="flex justify-end">
+          <Button variant="outline" size="sm" onClick={() => cancelSigningEnvelope(documentId)}>
+            Cancel signing
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
+
+const EVENT_ICONS: Record<EnvelopeEventType, React.ElementType> = {
+  created: FileSignature,
+  sent: Send,
+  reminded: Bell,
+  signed: CheckCircle,
+  declined: XCircle,
+  completed: CheckCircle,
+  cancelled: Ban,
+};
+
+// Everything that has happened to a signing envelope, oldest first
+export function EnvelopeTimeline({ envelope }: { envelope: SigningEnvelope }) {
+  return (
+    <ol className="relative ml-2 border-l pl-5 space-y-4">
+      {envelope.events.map((event) => {
+        const Icon = EVENT_ICONS[event.type];
+        return (
+          <li key={event.id} className="relative">
+            <span className="absolute -left-[29px] flex h-4 w-4 items-center justify-center rounded-full bg-background">
+              <Icon
+                className={cn(
+                  "h-4 w-4 text-muted-foreground",
+                  event.type === "declined" && "text-destructive",
+                  event.type === "completed" && "text-green-600"
+                )}
+              />
+            </span>
+            <p className="text-sm">{event.details}</p>
+            <p className="text-xs text-muted-foreground">{formatDate(event.timestamp)}</p>
+          </li>
+        );
+      })}
+    </ol>
+  );
+}
@@ -0,0 +1,72 @@
+import React from "react";
+import { Copy, Link2, UserPlus } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { useGrievance } from "@/components/GrievanceProvider";
+import { GrievanceDraft } from "@/lib/grievanceSimilarity";
+import { GRIEVANCE_STATUS_LABELS } from "@/lib/grievanceWorkflow";
+
+interface SimilarGrievancesPanelProps {
+  draft: GrievanceDraft;
+  isAnonymous: boolean;
+  linkedIds: string[];
+  onToggleLink: (id: string) => void;
+  onJoin: (id: string) => void;
+}
+
+// Open cases that read like the grievance being written, offered before it's filed
+export function SimilarGrievancesPanel({ draft, isAnonymous, linkedIds, onToggleLink, onJoin }: SimilarGrievancesPanelProps) {
+  const { findSimilarGrievances } = useGrievance();
+  const matches = findSimilarGrievances(draft);
+
+  if (matches.length === 0) return null;
+
+  return (
+    <div className="rounded-md border border-amber-300 bg-amber-50 p-3 text-sm dark:border-amber-800 dark:bg-amber-900/20">
+      <p className="flex items-center gap-2 font-medium">
+        <Copy className="h-4 w-4" />
+        Similar open cases
+      </p>
+      <p className="mb-2 text-muted-foreground">
+        Someone may already have reported this. Join their case to be kept up to date, or link yours to it.
+      </p>
+      <ul className="space-y-2">
+        {matches.map(({ grievance, score, sharedTerms }) => {
+          const linked = linkedIds.includes(grievance.id);
+          return (
+            <li key={grievance.id} className="rounded-md bg-background p-2">
+              <div className="flex items-start justify-between gap-2">
+                <div className="min-w-0">
+                  <p className="truncate font-medium">{grievance.title}</p>
+                  <p className="text-xs text-muted-foreground">
+                    {grievance.department} · {GRIEVANCE_STATUS_LABELS[grievance.status]}
+                    {grievance.coSubmitters?.length ? ` · ${grievance.coSubmitters.length + 1} people affected` : ""}
+                    {sharedTerms.length > 0 && ` · mentions ${sharedTerms.join(", ")}`}
+                  </p>
+                </div>
+                <Badge variant="outline" className="shrink-0">{Math.round(score * 100)}% match</Badge>
+              </div>
+              <div className="mt-2 flex gap-2">
+                <Button
+                  type="button"
+                  size="sm"
+                  variant="secondary"
+                  onClick={() => onJoin(grievance.id)}
+                  disabled={isAnonymous}
+                  title={isAnonymous ? "Joining a case shows your name, so it isn't available for anonymous submissions" : undefined}
+                >
+                  <UserPlus className="mr-1.5 h-3.5 w-3.5" />
+                  Join this case
+                </Button>
+                <Button type="button" size="sm" variant={linked ? "default" : "outline"} onClick={() => onToggleLink(grievance.id)}>
+                  <Link2 className="mr-1.5 h-3.5 w-3.5" />
+                  {linked ? "Linked as related" : "Link as related"}
+                </Button>
+              </div>
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+}
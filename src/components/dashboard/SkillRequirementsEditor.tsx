@@ -0,0 +1,100 @@
+import React, { useState } from "react";
+import { Plus, X } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { ProficiencyLevel, useDepartments } from "@/components/DepartmentsProvider";
+import { SkillRequirement } from "@/components/TasksProvider";
+import { PROFICIENCY_LABELS } from "@/lib/assigneeRecommendation";
+
+interface SkillRequirementsEditorProps {
+  value: SkillRequirement[];
+  onChange: (value: SkillRequirement[]) => void;
+}
+
+export function SkillRequirementsEditor({ value, onChange }: SkillRequirementsEditorProps) {
+  const { teamMembers } = useDepartments();
+  const [skill, setSkill] = useState("");
+  const [level, setLevel] = useState<ProficiencyLevel>(3);
+
+  // Suggest skills people in the organisation already have
+  const knownSkills = Array.from(
+    new Set(teamMembers.flatMap((member) => (member.skills || []).map((s) => s.name)))
+  ).sort();
+
+  const handleAdd = () => {
+    const name = skill.trim();
+    if (!name) return;
+    // Match the casing of a known skill so requirements line up with profiles
+    const canonical = knownSkills.find((s) => s.toLowerCase() === name.toLowerCase()) || name;
+    onChange([
+      ...value.filter((requirement) => requirement.skill.toLowerCase() !== canonical.toLowerCase()),
+      { skill: canonical, level },
+    ]);
+    setSkill("");
+  };
+
+  return (
+    <div className="space-y-2">
+      {value.length > 0 && (
+        <div className="flex flex-wrap gap-1">
+          {value.map((requirement) => (
+            <Badge key={requirement.skill} variant="secondary" className="flex items-center gap-1">
+              {requirement.skill} · {PROFICIENCY_LABELS[requirement.level]}
+              <button
+                type="button"
+                className="ml-0.5 rounded-full hover:text-destructive"
+                onClick={() => onChange(value.filter((r) => r.skill !== requirement.skill))}
+              >
+                <X className="h-3 w-3" />
+                <span className="sr-only">Remove {requirement.skill}</span>
+              </button>
+            </Badge>
+          ))}
+        </div>
+      )}
+      <div className="flex items-center gap-2">
+        <Input
+          placeholder="Add a skill, e.g. React"
+          list="known-skills"
+          value={skill}
+          onChange={(e) => setSkill(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === "Enter") {
+              e.preventDefault();
+              handleAdd();
+            }
+          }}
+        />
+        <datalist id="known-skills">
+          {knownSkills.map((name) => (
+            <option key={name} value={name} />
+          ))}
+        </datalist>
+        <Select value={String(level)} onValueChange={(v) => setLevel(Number(v) as ProficiencyLevel)}>
+          <SelectTrigger className="w-[150px]">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {Object.entries(PROFICIENCY_LABELS).map(([lvl, label]) => (
+              <SelectItem key={lvl} value={lvl}>
+                {label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Button type="button" variant="outline" size="icon" onClick={handleAdd} disabled={!skill.trim()}>
+          <Plus className="h-4 w-4" />
+          <span className="sr-only">Add skill</span>
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,239 @@
+import React, { useState } from "react";
+import { Pencil, Plus, Timer, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { SlaPolicy, useGrievance } from "@/components/GrievanceProvider";
+
+type PolicyDraft = Omit<SlaPolicy, "id">;
+
+const CATEGORIES = ["hr", "technical", "management", "financial", "infrastructure", "other"];
+const PRIORITIES = ["critical", "high", "medium", "low"];
+
+const EMPTY_DRAFT: PolicyDraft = {
+  name: "",
+  category: "any",
+  priority: "any",
+  firstResponseHours: 8,
+  resolutionHours: 40,
+  calendarId: "standard",
+};
+
+const capitalize = (value: string) => (value === "hr" ? "HR" : value.charAt(0).toUpperCase() + value.slice(1));
+
+// Admin editor for grievance SLA policies
+export function SlaPoliciesDialog() {
+  const { slaPolicies, businessCalendars, addSlaPolicy, updateSlaPolicy, deleteSlaPolicy } = useGrievance();
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draft, setDraft] = useState<PolicyDraft>(EMPTY_DRAFT);
+
+  const isValid =
+    draft.name.trim() !== "" &&
+    draft.firstResponseHours > 0 &&
+    draft.resolutionHours >= draft.firstResponseHours;
+
+  const startEditing = (policy: SlaPolicy) => {
+    const { id, ...rest } = policy;
+    setEditingId(id);
+    setDraft(rest);
+  };
+
+  const resetForm = () => {
+    setEditingId(null);
+    setDraft(EMPTY_DRAFT);
+  };
+
+  const handleSave = () => {
+    if (!isValid) return;
+    const policy = { ...draft, name: draft.name.trim() };
+    if (editingId) {
+      updateSlaPolicy(editingId, policy);
+    } else {
+      addSlaPolicy(policy);
+    }
+    resetForm();
+  };
+
+  return (
+    <Dialog onOpenChange={(open) => !open && resetForm()}>
+      <DialogTrigger asChild>
+        <Button variant="outline" className="md:self-start w-full md:w-auto">
+          <Timer className="mr-2 h-4 w-4" />
+          SLA Policies
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-3xl max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>SLA Policies</DialogTitle>
+          <DialogDescription>
+            The most specific policy matching a grievance's category and priority applies. Hours count only
+            within the policy's business calendar.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Policy</TableHead>
+              <TableHead>Applies to</TableHead>
+              <TableHead className="text-right">First response</TableHead>
+              <TableHead className="text-right">Resolution</TableHead>
+              <TableHead>Calendar</TableHead>
+              <TableHead className="w-[80px]" />
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {slaPolicies.map((policy) => (
+              <TableRow key={policy.id} className={editingId === policy.id ? "bg-muted/50" : undefined}>
+                <TableCell className="font-medium">{policy.name}</TableCell>
+                <TableCell className="text-sm text-muted-foreground">
+                  {policy.category === "any" ? "Any category" : capitalize(policy.category)} ·{" "}
+                  {policy.priority === "any" ? "any priority" : policy.priority}
+                </TableCell>
+                <TableCell className="text-right">{policy.firstResponseHours}h</TableCell>
+                <TableCell className="text-right">{policy.resolutionHours}h</TableCell>
+                <TableCell className="text-sm text-muted-foreground">
+                  {businessCalendars.find((c) => c.id === policy.calendarId)?.name || policy.calendarId}
+                </TableCell>
+                <TableCell>
+                  <div className="flex justify-end gap-1">
+                    <Button variant="ghost" size="icon" className="h-7 w-7" onClick={() => startEditing(policy)}>
+                      <Pencil className="h-3.5 w-3.5" />
+                      <span className="sr-only">Edit policy</span>
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-7 w-7 text-destructive"
+                      onClick={() => deleteSlaPolicy(policy.id)}
+                    >
+                      <Trash2 className="h-3.5 w-3.5" />
+                      <span className="sr-only">Delete policy</span>
+                    </Button>
+                  </div>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+
+        <div className="space-y-3 rounded-md border p-4">
+          <p className="text-sm font-medium">{editingId ? "Edit policy" : "New policy"}</p>
+          <div className="grid grid-cols-1 gap-3 sm:grid-cols-3">
+            <div className="space-y-1">
+              <span className="text-xs text-muted-foreground">Name</span>
+              <Input value={draft.name} onChange={(e) => setDraft({ ...draft, name: e.target.value })} />
+            </div>
+            <div className="space-y-1">
+              <span className="text-xs text-muted-foreground">Category</span>
+              <Select
+                value={draft.category}
+                onValueChange={(value) => setDraft({ ...draft, category: value as PolicyDraft["category"] })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="any">Any category</SelectItem>
+                  {CATEGORIES.map((category) => (
+                    <SelectItem key={category} value={category}>
+                      {capitalize(category)}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <span className="text-xs text-muted-foreground">Priority</span>
+              <Select
+                value={draft.priority}
+                onValueChange={(value) => setDraft({ ...draft, priority: value as PolicyDraft["priority"] })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="any">Any priority</SelectItem>
+                  {PRIORITIES.map((priority) => (
+                    <SelectItem key={priority} value={priority}>
+                      {capitalize(priority)}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <span className="text-xs text-muted-foreground">First response (business hours)</span>
+              <Input
+                type="number"
+                min={0.5}
+                step={0.5}
+                value={draft.firstResponseHours}
+                onChange={(e) => setDraft({ ...draft, firstResponseHours: Number(e.target.value) })}
+              />
+            </div>
+            <div className="space-y-1">
+              <span className="text-xs text-muted-foreground">Resolution (business hours)</span>
+              <Input
+                type="number"
+                min={1}
+                value={draft.resolutionHours}
+                onChange={(e) => setDraft({ ...draft, resolutionHours: Number(e.target.value) })}
+              />
+            </div>
+            <div className="space-y-1">
+              <span className="text-xs text-muted-foreground">Business calendar</span>
+              <Select value={draft.calendarId} onValueChange={(value) => setDraft({ ...draft, calendarId: value })}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {businessCalendars.map((calendar) => (
+                    <SelectItem key={calendar.id} value={calendar.id}>
+                      {calendar.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          {draft.resolutionHours < draft.firstResponseHours && (
+            <p className="text-xs text-destructive">Resolution can't be due before the first response.</p>
+          )}
+          <div className="flex justify-end gap-2">
+            {editingId && (
+              <Button variant="outline" size="sm" onClick={resetForm}>
+                Cancel
+              </Button>
+            )}
+            <Button size="sm" onClick={handleSave} disabled={!isValid}>
+              {editingId ? "Save policy" : <><Plus className="mr-1 h-4 w-4" />Add policy</>}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,178 @@
+import React, { useState } from "react";
+import { format } from "date-fns";
+import { AlertTriangle, Link2 } from "lucide-react";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Tooltip,
+  TooltipContent,
+  TooltipTrigger,
+} from "@/components/ui/tooltip";
+import { Badge } from "@/components/ui/badge";
+import { cn } from "@/lib/utils";
+import { useTasks } from "@/components/TasksProvider";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+interface TaskGanttChartProps {
+  className?: string;
+}
+
+export function TaskGanttChart({ className }: TaskGanttChartProps) {
+  const { tasks, getCriticalPath, getBlockedBy, isBlocked } = useTasks();
+  const [department, setDepartment] = useState("all");
+
+  const departments = Array.from(new Set(tasks.map((task) => task.department)));
+  const scopedTasks = department === "all"
+    ? tasks
+    : tasks.filter((task) => task.department === department);
+
+  // The work is due when its last open task is due
+  const openTasks = scopedTasks.filter((task) => task.status !== "completed");
+  const dueDates = (openTasks.length > 0 ? openTasks : scopedTasks).map((task) => new Date(task.dueDate).getTime());
+  const dueBy = dueDates.length > 0 ? new Date(Math.max(...dueDates)).toISOString() : undefined;
+
+  const { schedule, projectStart, projectFinish, deadline, criticalTaskIds } = getCriticalPath(
+    department === "all" ? undefined : department,
+    dueBy
+  );
+
+  // Order rows by when they can start, then by title
+  const rows = [...scopedTasks].sort((a, b) =>
+    schedule[a.id].earliestStart - schedule[b.id].earliestStart || a.title.localeCompare(b.title)
+  );
+
+  // Add a day of padding so zero-length (completed) tasks remain visible
+  const rangeStart = Math.min(projectStart, deadline);
+  const rangeEnd = Math.max(projectFinish, deadline) + DAY_MS;
+  const range = Math.max(rangeEnd - rangeStart, DAY_MS);
+  const totalDays = Math.ceil(range / DAY_MS);
+  const tickEvery = Math.max(1, Math.ceil(totalDays / 8));
+  const ticks = Array.from({ length: Math.floor(totalDays / tickEvery) + 1 }, (_, i) => rangeStart + i * tickEvery * DAY_MS);
+
+  const toPercent = (time: number) => ((time - rangeStart) / range) * 100;
+
+  const getBarColor = (taskId: string, status: string) => {
+    if (status === "completed") return "bg-green-500/70";
+    if (criticalTaskIds.includes(taskId)) return "bg-red-500";
+    if (isBlocked(taskId)) return "bg-muted-foreground/40";
+    return "bg-primary/70";
+  };
+
+  return (
+    <Card className={cn("animate-fade-in", className)}>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle>Project Timeline</CardTitle>
+            <CardDescription>
+              Scheduled from task dependencies against the latest due date. Red tasks have no slack left and will miss it if delayed.
+            </CardDescription>
+          </div>
+          <Select value={department} onValueChange={setDepartment}>
+            <SelectTrigger className="w-[180px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All departments</SelectItem>
+              {departments.map((dept) => (
+                <SelectItem key={dept} value={dept}>
+                  {dept}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {rows.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-8">No tasks to schedule.</p>
+        ) : (
+          <div className="space-y-1">
+            <div className="flex text-xs text-muted-foreground">
+              <div className="w-56 shrink-0" />
+              <div className="relative flex-1 h-5">
+                {ticks.map((tick) => (
+                  <span
+                    key={tick}
+                    className="absolute -translate-x-1/2"
+                    style={{ left: `${toPercent(tick)}%` }}
+                  >
+                    {format(tick, "MMM d")}
+                  </span>
+                ))}
+              </div>
+            </div>
+            {rows.map((task) => {
+              const entry = schedule[task.id];
+              const blockedBy = getBlockedBy(task.id);
+              const isCritical = criticalTaskIds.includes(task.id);
+              const left = toPercent(entry.earliestStart);
+              const width = Math.max(toPercent(entry.earliestFinish) - left, 0.75);
+
+              return (
+                <div key={task.id} className="flex items-center">
+                  <div className="w-56 shrink-0 pr-3 flex items-center gap-1.5 text-sm truncate">
+                    {isCritical && <AlertTriangle className="h-3.5 w-3.5 shrink-0 text-red-500" />}
+                    {blockedBy.length > 0 && <Link2 className="h-3.5 w-3.5 shrink-0 text-muted-foreground" />}
+                    <span className="truncate" title={task.title}>{task.title}</span>
+                  </div>
+                  <div className="relative flex-1 h-7 rounded bg-muted/40">
+                    <div
+                      className="absolute inset-y-0 border-l border-dashed border-red-400"
+                      style={{ left: `${toPercent(deadline)}%` }}
+                    />
+                    <Tooltip>
+                      <TooltipTrigger asChild>
+                        <div
+                          className={cn("absolute top-1 bottom-1 rounded", getBarColor(task.id, task.status))}
+                          style={{ left: `${left}%`, width: `${width}%` }}
+                        />
+                      </TooltipTrigger>
+                      <TooltipContent>
+                        <div className="space-y-1 text-xs">
+                          <div className="font-medium">{task.title}</div>
+                          <div>
+                            {format(entry.earliestStart, "MMM d")} – {format(entry.earliestFinish, "MMM d")}
+                          </div>
+                          <div>
+                            {entry.slack < 0 && task.status !== "completed"
+                              ? `Late: finishes ${Math.ceil(-entry.slack / DAY_MS)} day(s) after the deadline`
+                              : isCritical
+                                ? "Critical: any delay slips the deadline"
+                                : `Slack: ${Math.floor(entry.slack / DAY_MS)} day(s)`}
+                          </div>
+                          {blockedBy.length > 0 && (
+                            <div>Blocked by: {blockedBy.map((t) => t.title).join(", ")}</div>
+                          )}
+                        </div>
+                      </TooltipContent>
+                    </Tooltip>
+                  </div>
+                </div>
+              );
+            })}
+            <div className="flex items-center gap-2 pt-3 text-xs text-muted-foreground">
+              <Badge variant="outline" className="border-red-300 text-red-600">
+                {criticalTaskIds.length} critical
+              </Badge>
+              <span>Deadline {format(deadline, "PPP")}</span>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,85 @@
+import React from "react";
+import { formatDistanceToNow } from "date-fns";
+import { ArrowRight, History } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { useAudit } from "@/components/AuditProvider";
+import { useCommunication } from "@/components/CommunicationProvider";
+import { useDepartments } from "@/components/DepartmentsProvider";
+import { TASK_FIELD_LABELS, formatTaskAuditValue } from "@/lib/taskAudit";
+
+interface TaskHistoryProps {
+  taskId: string;
+}
+
+const ACTION_LABELS: Record<string, string> = {
+  create: "Created",
+  update: "Updated",
+  assign: "Reassigned",
+  delete: "Deleted",
+};
+
+// Audit trail for a single task, newest first, with field-level changes
+export function TaskHistory({ taskId }: TaskHistoryProps) {
+  const { getEntityHistory } = useAudit();
+  const { users } = useCommunication();
+  const { teamMembers } = useDepartments();
+
+  const history = getEntityHistory("task", taskId)?.history || [];
+
+  const getName = (id: string) =>
+    users.find((u) => u.id === id)?.name ||
+    teamMembers.find((member) => member.id === id)?.name ||
+    id;
+
+  if (history.length === 0) {
+    return (
+      <div className="flex flex-col items-center gap-2 py-8 text-center text-sm text-muted-foreground">
+        <History className="h-6 w-6" />
+        No changes have been recorded for this task yet.
+      </div>
+    );
+  }
+
+  return (
+    <ol className="relative space-y-4 border-l pl-4">
+      {history.map((log) => (
+        <li key={log.id} className="relative">
+          <span className="absolute -left-[21px] top-1.5 h-2.5 w-2.5 rounded-full bg-primary" />
+          <div className="flex flex-wrap items-center gap-2 text-sm">
+            <Badge variant="outline" className="text-xs">
+              {ACTION_LABELS[log.actionType] || log.actionType}
+            </Badge>
+            <span className="font-medium">{log.userName}</span>
+            <span
+              className="text-xs text-muted-foreground"
+              title={new Date(log.timestamp).toLocaleString()}
+            >
+              {formatDistanceToNow(new Date(log.timestamp), { addSuffix: true })}
+            </span>
+          </div>
+          {log.details && <p className="mt-1 text-sm text-muted-foreground">{log.details}</p>}
+          {log.changes && log.changes.length > 0 && (
+            <div className="mt-2 space-y-1 rounded-md bg-muted/40 p-2 text-xs">
+              {log.changes.map((change) => (
+                <div key={change.field} className="flex flex-wrap items-center gap-1.5">
+                  <span className="w-28 shrink-0 font-medium">
+                    {TASK_FIELD_LABELS[change.field] || change.field}
+                  </span>
+                  {log.actionType !== "create" && (
+                    <>
+                      <span className="text-muted-foreground line-through">
+                        {formatTaskAuditValue(change.field, change.oldValue, getName)}
+                      </span>
+                      <ArrowRight className="h-3 w-3 text-muted-foreground" />
+                    </>
+                  )}
+                  <span>{formatTaskAuditValue(change.field, change.newValue, getName)}</span>
+                </div>
+              ))}
+            </div>
+          )}
+        </li>
+      ))}
+    </ol>
+  );
+}
@@ -0,0 +1,412 @@
+import React, { useEffect, useRef, useState } from "react";
+import { GripVertical, Lock, Plus, Settings2, Trash2 } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { cn } from "@/lib/utils";
+import { formatDueDate, isOverdue } from "@/lib/dueDates";
+import { countColumnTasks, getTaskColumnId, getWipLimit, isStatusColumn } from "@/lib/taskBoard";
+import { useTasks, Task, TaskPriority, TaskStatus, BoardColumn } from "@/components/TasksProvider";
+import { useCommunication } from "@/components/CommunicationProvider";
+import { useDepartments } from "@/components/DepartmentsProvider";
+
+type Swimlane = "none" | "assignee" | "priority";
+
+interface Lane {
+  key: string;
+  title: string;
+  tasks: Task[];
+}
+
+const PRIORITIES: TaskPriority[] = ["high", "medium", "low"];
+
+const STATUS_LABELS: Record<TaskStatus, string> = {
+  pending: "Pending",
+  "in-progress": "In Progress",
+  completed: "Completed",
+};
+
+const getPriorityColor = (priority: string) => {
+  switch (priority) {
+    case "high":
+      return "bg-red-500/10 text-red-600 hover:bg-red-500/20";
+    case "medium":
+      return "bg-amber-500/10 text-amber-600 hover:bg-amber-500/20";
+    case "low":
+      return "bg-green-500/10 text-green-600 hover:bg-green-500/20";
+    default:
+      return "bg-gray-500/10 text-gray-600 hover:bg-gray-500/20";
+  }
+};
+
+interface TaskKanbanBoardProps {
+  tasks: Task[];
+}
+
+export function TaskKanbanBoard({ tasks: visibleTasks }: TaskKanbanBoardProps) {
+  const {
+    tasks,
+    boardColumns,
+    addBoardColumn,
+    removeBoardColumn,
+    setWipLimit,
+    moveTaskToColumn,
+    isBlocked,
+  } = useTasks();
+  const { users } = useCommunication();
+  const { teamMembers } = useDepartments();
+  const [department, setDepartment] = useState("all");
+  const [swimlane, setSwimlane] = useState<Swimlane>("none");
+  const [draggingId, setDraggingId] = useState<string | null>(null);
+  const [dropTarget, setDropTarget] = useState<string | null>(null);
+  const [focusTaskId, setFocusTaskId] = useState<string | null>(null);
+  const [announcement, setAnnouncement] = useState("");
+  const [newColumnTitle, setNewColumnTitle] = useState("");
+  const [newColumnStatus, setNewColumnStatus] = useState<TaskStatus>("in-progress");
+  const boardRef = useRef<HTMLDivElement>(null);
+
+  const departments = Array.from(new Set(tasks.map((task) => task.department)));
+  const boardTasks = department === "all"
+    ? visibleTasks
+    : visibleTasks.filter((task) => task.department === department);
+
+  // Keep focus on a card after a keyboard move re-renders it in another column
+  useEffect(() => {
+    if (!focusTaskId) return;
+    boardRef.current
+      ?.querySelector<HTMLElement>(`[data-task-id="${focusTaskId}"]`)
+      ?.focus();
+    setFocusTaskId(null);
+  }, [focusTaskId, tasks]);
+
+  // Tasks can be assigned to workspace users or department team members
+  const getAssigneeName = (userId?: string) =>
+    userId
+      ? users.find((user) => user.id === userId)?.name ||
+        teamMembers.find((member) => member.id === userId)?.name ||
+        userId
+      : "Unassigned";
+
+  const getLaneKey = (task: Task) => {
+    if (swimlane === "assignee") return task.assignedTo || "unassigned";
+    if (swimlane === "priority") return task.priority;
+    return "all";
+  };
+
+  const lanes: Lane[] = (() => {
+    if (swimlane === "priority") {
+      return PRIORITIES.map((priority) => ({
+        key: priority,
+        title: `${priority.charAt(0).toUpperCase()}${priority.slice(1)} priority`,
+        tasks: boardTasks.filter((task) => task.priority === priority),
+      }));
+    }
+    if (swimlane === "assignee") {
+      const keys = Array.from(new Set(boardTasks.map(getLaneKey)));
+      return keys
+        .map((key) => ({
+          key,
+          title: key === "unassigned" ? "Unassigned" : getAssigneeName(key),
+          tasks: boardTasks.filter((task) => getLaneKey(task) === key),
+        }))
+        .sort((a, b) => a.title.localeCompare(b.title));
+    }
+    return [{ key: "all", title: "", tasks: boardTasks }];
+  })();
+
+  // WIP counts always cover every task, not just the filtered ones
+  const getColumnLoad = (column: BoardColumn) => {
+    if (department !== "all") {
+      const limit = getWipLimit(column, department);
+      const count = countColumnTasks(tasks, boardColumns, column.id, department);
+      return { count, limit, overLimit: limit !== undefined && count > limit, atLimit: count === limit };
+    }
+    const count = tasks.filter((task) => getTaskColumnId(task, boardColumns) === column.id).length;
+    const overLimit = Object.entries(column.wipLimits || {}).some(
+      ([dept, limit]) => countColumnTasks(tasks, boardColumns, column.id, dept) > limit
+    );
+    return { count, limit: undefined, overLimit, atLimit: false };
+  };
+
+  const moveTask = (task: Task, column: BoardColumn) => {
+    if (moveTaskToColumn(task.id, column.id)) {
+      setAnnouncement(`Moved "${task.title}" to ${column.title}.`);
+      return true;
+    }
+    setAnnouncement(`"${task.title}" could not be moved to ${column.title}.`);
+    return false;
+  };
+
+  const handleCardKeyDown = (e: React.KeyboardEvent, task: Task) => {
+    if (e.key !== "ArrowLeft" && e.key !== "ArrowRight") return;
+    e.preventDefault();
+
+    const index = boardColumns.findIndex((column) => column.id === getTaskColumnId(task, boardColumns));
+    const target = boardColumns[index + (e.key === "ArrowLeft" ? -1 : 1)];
+    if (target && moveTask(task, target)) {
+      setFocusTaskId(task.id);
+    }
+  };
+
+  const handleDrop = (e: React.DragEvent, column: BoardColumn) => {
+    e.preventDefault();
+    const task = tasks.find((t) => t.id === e.dataTransfer.getData("text/plain"));
+    setDraggingId(null);
+    setDropTarget(null);
+    if (task) moveTask(task, column);
+  };
+
+  const draggingTask = draggingId ? tasks.find((task) => task.id === draggingId) : undefined;
+
+  const handleAddColumn = () => {
+    if (!newColumnTitle.trim()) return;
+    addBoardColumn(newColumnTitle.trim(), newColumnStatus);
+    setNewColumnTitle("");
+  };
+
+  const gridStyle = { gridTemplateColumns: `repeat(${boardColumns.length}, minmax(220px, 1fr))` };
+
+  return (
+    <div className="space-y-4 p-6 pt-0" ref={boardRef}>
+      <div className="flex flex-wrap items-center gap-2">
+        <Select value={department} onValueChange={setDepartment}>
+          <SelectTrigger className="w-[180px]">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All departments</SelectItem>
+            {departments.map((dept) => (
+              <SelectItem key={dept} value={dept}>
+                {dept}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select value={swimlane} onValueChange={(value) => setSwimlane(value as Swimlane)}>
+          <SelectTrigger className="w-[180px]">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="none">No swimlanes</SelectItem>
+            <SelectItem value="assignee">Swimlanes by assignee</SelectItem>
+            <SelectItem value="priority">Swimlanes by priority</SelectItem>
+          </SelectContent>
+        </Select>
+        <Dialog>
+          <DialogTrigger asChild>
+            <Button variant="outline" size="sm" className="ml-auto flex items-center gap-2">
+              <Settings2 size={16} />
+              Columns & WIP limits
+            </Button>
+          </DialogTrigger>
+          <DialogContent className="sm:max-w-[520px]">
+            <DialogHeader>
+              <DialogTitle>Board Columns</DialogTitle>
+              <DialogDescription>
+                {department === "all"
+                  ? "Choose a department on the board to set its work-in-progress limits."
+                  : `Work-in-progress limits for ${department}. Leave empty for no limit.`}
+              </DialogDescription>
+            </DialogHeader>
+            <div className="space-y-2">
+              {boardColumns.map((column) => (
+                <div key={column.id} className="flex items-center gap-2">
+                  <div className="flex-1 text-sm font-medium">{column.title}</div>
+                  <Badge variant="outline" className="text-xs">
+                    {STATUS_LABELS[column.status]}
+                  </Badge>
+                  {department !== "all" && (
+                    <Input
+                      type="number"
+                      min={1}
+                      className="w-20"
+                      placeholder="No limit"
+                      aria-label={`WIP limit for ${column.title}`}
+                      value={getWipLimit(column, department) ?? ""}
+                      onChange={(e) => setWipLimit(
+                        column.id,
+                        department,
+                        e.target.value ? Math.max(1, Number(e.target.value)) : null
+                      )}
+                    />
+                  )}
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-8 w-8"
+                    disabled={isStatusColumn(column)}
+                    onClick={() => removeBoardColumn(column.id)}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                    <span className="sr-only">Remove {column.title}</span>
+                  </Button>
+                </div>
+              ))}
+            </div>
+            <div className="flex items-center gap-2 border-t pt-4">
+              <Input
+                placeholder="New column, e.g. In Review"
+                value={newColumnTitle}
+                onChange={(e) => setNewColumnTitle(e.target.value)}
+                onKeyDown={(e) => e.key === "Enter" && handleAddColumn()}
+              />
+              <Select value={newColumnStatus} onValueChange={(value) => setNewColumnStatus(value as TaskStatus)}>
+                <SelectTrigger className="w-[150px]">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(STATUS_LABELS).map(([status, label]) => (
+                    <SelectItem key={status} value={status}>
+                      {label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button size="icon" onClick={handleAddColumn} disabled={!newColumnTitle.trim()}>
+                <Plus className="h-4 w-4" />
+                <span className="sr-only">Add column</span>
+              </Button>
+            </div>
+          </DialogContent>
+        </Dialog>
+      </div>
+
+      <p id="kanban-instructions" className="text-xs text-muted-foreground">
+        Drag cards between columns, or focus a card and press the left and right arrow keys to move it.
+      </p>
+      <div className="sr-only" aria-live="polite">
+        {announcement}
+      </div>
+
+      <div className="overflow-x-auto">
+        <div className="grid gap-3 min-w-max" style={gridStyle}>
+          {boardColumns.map((column) => {
+            const { count, limit, overLimit, atLimit } = getColumnLoad(column);
+            return (
+              <div
+                key={column.id}
+                className={cn(
+                  "flex items-center justify-between rounded-md border px-3 py-2 text-sm font-medium",
+                  overLimit && "border-red-500 bg-red-500/10 text-red-600",
+                  atLimit && "border-amber-500 bg-amber-500/10"
+                )}
+              >
+                <span>{column.title}</span>
+                <span className="text-xs" title={limit !== undefined ? "Tasks / WIP limit" : "Tasks"}>
+                  {count}{limit !== undefined && ` / ${limit}`}
+                </span>
+              </div>
+            );
+          })}
+
+          {lanes.map((lane) => (
+            <React.Fragment key={lane.key}>
+              {swimlane !== "none" && (
+                <div className="col-span-full pt-2 text-sm font-semibold text-muted-foreground">
+                  {lane.title} ({lane.tasks.length})
+                </div>
+              )}
+              {boardColumns.map((column) => {
+                const cellId = `${lane.key}:${column.id}`;
+                const cellTasks = lane.tasks.filter(
+                  (task) => getTaskColumnId(task, boardColumns) === column.id
+                );
+                // Cards only move between columns, never across swimlanes
+                const acceptsDrop = !!draggingTask && getLaneKey(draggingTask) === lane.key;
+
+                return (
+                  <div
+                    key={cellId}
+                    className={cn(
+                      "min-h-[120px] space-y-2 rounded-md bg-muted/40 p-2 transition-colors",
+                      dropTarget === cellId && "bg-primary/10 ring-2 ring-primary/40"
+                    )}
+                    onDragOver={(e) => {
+                      if (!acceptsDrop) return;
+                      e.preventDefault();
+                      setDropTarget(cellId);
+                    }}
+                    onDragLeave={() => setDropTarget((prev) => (prev === cellId ? null : prev))}
+                    onDrop={(e) => handleDrop(e, column)}
+                  >
+                    {cellTasks.map((task) => (
+                      <div
+                        key={task.id}
+                        data-task-id={task.id}
+                        draggable
+                        tabIndex={0}
+                        aria-roledescription="Draggable task"
+                        aria-describedby="kanban-instructions"
+                        aria-label={`${task.title}, ${column.title}`}
+                        onDragStart={(e) => {
+                          e.dataTransfer.setData("text/plain", task.id);
+                          e.dataTransfer.effectAllowed = "move";
+                          setDraggingId(task.id);
+                        }}
+                        onDragEnd={() => {
+                          setDraggingId(null);
+                          setDropTarget(null);
+                        }}
+                        onKeyDown={(e) => handleCardKeyDown(e, task)}
+                        className={cn(
+                          "cursor-grab rounded-md border bg-card p-3 shadow-sm outline-none transition-opacity",
+                          "focus-visible:ring-2 focus-visible:ring-primary",
+                          draggingId === task.id && "opacity-50"
+                        )}
+                      >
+                        <div className="flex items-start gap-1.5">
+                          <GripVertical className="mt-0.5 h-4 w-4 shrink-0 text-muted-foreground" />
+                          <div className="min-w-0 flex-1">
+                            <div className="text-sm font-medium leading-snug">{task.title}</div>
+                            <div className="mt-2 flex flex-wrap items-center gap-1">
+                              <Badge variant="outline" className="text-xs">
+                                {task.department}
+                              </Badge>
+                              <Badge
+                                variant="secondary"
+                                className={cn("text-xs", getPriorityColor(task.priority))}
+                              >
+                                {task.priority}
+                              </Badge>
+                              {task.status !== "completed" && isBlocked(task.id) && (
+                                <Badge variant="outline" className="text-xs flex items-center gap-1">
+                                  <Lock className="h-3 w-3" />
+                                  Blocked
+                                </Badge>
+                              )}
+                            </div>
+                            <div className="mt-2 flex items-center justify-between text-xs text-muted-foreground">
+                              <span className="truncate">{getAssigneeName(task.assignedTo)}</span>
+                              <span className={cn(isOverdue(task.dueDate, task.status) && "text-red-600 font-medium")}>
+                                {formatDueDate(task.dueDate)}
+                              </span>
+                            </div>
+                          </div>
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                );
+              })}
+            </React.Fragment>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,258 @@
+import React, { useState } from "react";
+import { v4 as uuidv4 } from "uuid";
+import { ArrowDown, ArrowUp, Plus, Trash2 } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { TaskPriority, TaskTemplate, TaskTemplateItem } from "@/components/TasksProvider";
+import { validateTemplate } from "@/lib/taskTemplates";
+
+export type TemplateDraft = Pick<TaskTemplate, "name" | "description" | "department" | "items">;
+
+interface TaskTemplateEditorProps {
+  initialValue?: TemplateDraft;
+  departments: string[];
+  onSave: (template: TemplateDraft) => void;
+  onCancel: () => void;
+}
+
+const newItem = (): TaskTemplateItem => ({
+  id: uuidv4(),
+  title: "",
+  description: "",
+  dueOffsetDays: 0,
+  priority: "medium",
+});
+
+export function TaskTemplateEditor({ initialValue, departments, onSave, onCancel }: TaskTemplateEditorProps) {
+  const [name, setName] = useState(initialValue?.name || "");
+  const [description, setDescription] = useState(initialValue?.description || "");
+  const [department, setDepartment] = useState(initialValue?.department || departments[0] || "");
+  const [items, setItems] = useState<TaskTemplateItem[]>(initialValue?.items || [newItem()]);
+  const [errors, setErrors] = useState<string[]>([]);
+
+  const updateItem = (id: string, updates: Partial<TaskTemplateItem>) => {
+    setItems((prev) => prev.map((item) => (item.id === id ? { ...item, ...updates } : item)));
+  };
+
+  // Removing an item also removes it from the dependencies of later items
+  const removeItem = (id: string) => {
+    setItems((prev) =>
+      prev
+        .filter((item) => item.id !== id)
+        .map((item) => ({ ...item, dependsOn: item.dependsOn?.filter((dep) => dep !== id) }))
+    );
+  };
+
+  // Moving an item drops any dependency that would no longer point upwards
+  const moveItem = (index: number, direction: -1 | 1) => {
+    setItems((prev) => {
+      const next = [...prev];
+      const [item] = next.splice(index, 1);
+      next.splice(index + direction, 0, item);
+      return next.map((entry, i) => ({
+        ...entry,
+        dependsOn: entry.dependsOn?.filter((dep) => next.findIndex((other) => other.id === dep) < i),
+      }));
+    });
+  };
+
+  const toggleDependency = (item: TaskTemplateItem, dependencyId: string) => {
+    const current = item.dependsOn || [];
+    updateItem(item.id, {
+      dependsOn: current.includes(dependencyId)
+        ? current.filter((dep) => dep !== dependencyId)
+        : [...current, dependencyId],
+    });
+  };
+
+  const handleSave = () => {
+    const draft: TemplateDraft = {
+      name: name.trim(),
+      description: description.trim(),
+      department,
+      items: items.map((item) => ({
+        ...item,
+        title: item.title.trim(),
+        assigneeRole: item.assigneeRole?.trim() || undefined,
+      })),
+    };
+    const problems = validateTemplate(draft);
+    setErrors(problems);
+    if (problems.length === 0) {
+      onSave(draft);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-2 gap-4">
+        <div className="space-y-1.5">
+          <label className="text-sm font-medium">Name</label>
+          <Input placeholder="e.g. New hire onboarding" value={name} onChange={(e) => setName(e.target.value)} />
+        </div>
+        <div className="space-y-1.5">
+          <label className="text-sm font-medium">Default department</label>
+          <Select value={department} onValueChange={setDepartment}>
+            <SelectTrigger>
+              <SelectValue placeholder="Select department" />
+            </SelectTrigger>
+            <SelectContent>
+              {departments.map((dept) => (
+                <SelectItem key={dept} value={dept}>
+                  {dept}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+      <div className="space-y-1.5">
+        <label className="text-sm font-medium">Description</label>
+        <Textarea
+          placeholder="When should this template be used?"
+          className="min-h-[60px]"
+          value={description}
+          onChange={(e) => setDescription(e.target.value)}
+        />
+      </div>
+
+      <div className="space-y-2">
+        <div className="flex items-center justify-between">
+          <label className="text-sm font-medium">Tasks</label>
+          <Button type="button" variant="outline" size="sm" onClick={() => setItems((prev) => [...prev, newItem()])}>
+            <Plus className="mr-1 h-4 w-4" />
+            Add task
+          </Button>
+        </div>
+        {items.map((item, index) => (
+          <div key={item.id} className="space-y-2 rounded-md border p-3">
+            <div className="flex items-center gap-2">
+              <span className="w-5 text-xs text-muted-foreground">{index + 1}.</span>
+              <Input
+                placeholder="Task title"
+                value={item.title}
+                onChange={(e) => updateItem(item.id, { title: e.target.value })}
+              />
+              <Button
+                type="button"
+                variant="ghost"
+                size="icon"
+                className="h-8 w-8 shrink-0"
+                disabled={index === 0}
+                onClick={() => moveItem(index, -1)}
+              >
+                <ArrowUp className="h-4 w-4" />
+                <span className="sr-only">Move up</span>
+              </Button>
+              <Button
+                type="button"
+                variant="ghost"
+                size="icon"
+                className="h-8 w-8 shrink-0"
+                disabled={index === items.length - 1}
+                onClick={() => moveItem(index, 1)}
+              >
+                <ArrowDown className="h-4 w-4" />
+                <span className="sr-only">Move down</span>
+              </Button>
+              <Button
+                type="button"
+                variant="ghost"
+                size="icon"
+                className="h-8 w-8 shrink-0 text-destructive"
+                disabled={items.length === 1}
+                onClick={() => removeItem(item.id)}
+              >
+                <Trash2 className="h-4 w-4" />
+                <span className="sr-only">Remove task</span>
+              </Button>
+            </div>
+            <Input
+              placeholder="Description"
+              value={item.description}
+              onChange={(e) => updateItem(item.id, { description: e.target.value })}
+            />
+            <div className="grid grid-cols-3 gap-2">
+              <div className="space-y-1">
+                <span className="text-xs text-muted-foreground">Due (days from start)</span>
+                <Input
+                  type="number"
+                  value={item.dueOffsetDays}
+                  onChange={(e) => updateItem(item.id, { dueOffsetDays: parseInt(e.target.value) || 0 })}
+                />
+              </div>
+              <div className="space-y-1">
+                <span className="text-xs text-muted-foreground">Priority</span>
+                <Select
+                  value={item.priority}
+                  onValueChange={(value) => updateItem(item.id, { priority: value as TaskPriority })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="high">High</SelectItem>
+                    <SelectItem value="medium">Medium</SelectItem>
+                    <SelectItem value="low">Low</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1">
+                <span className="text-xs text-muted-foreground">Assignee role</span>
+                <Input
+                  placeholder="e.g. Recruiter"
+                  value={item.assigneeRole || ""}
+                  onChange={(e) => updateItem(item.id, { assigneeRole: e.target.value })}
+                />
+              </div>
+            </div>
+            {index > 0 && (
+              <div className="flex flex-wrap items-center gap-1">
+                <span className="mr-1 text-xs text-muted-foreground">Depends on:</span>
+                {items.slice(0, index).map((earlier, earlierIndex) => {
+                  const selected = item.dependsOn?.includes(earlier.id);
+                  return (
+                    <Badge
+                      key={earlier.id}
+                      variant={selected ? "default" : "outline"}
+                      className="cursor-pointer"
+                      onClick={() => toggleDependency(item, earlier.id)}
+                    >
+                      {earlier.title || `Task ${earlierIndex + 1}`}
+                    </Badge>
+                  );
+                })}
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+
+      {errors.length > 0 && (
+        <ul className="space-y-0.5 text-sm text-destructive">
+          {errors.map((error) => (
+            <li key={error}>{error}</li>
+          ))}
+        </ul>
+      )}
+
+      <div className="flex justify-end gap-2">
+        <Button type="button" variant="outline" onClick={onCancel}>
+          Cancel
+        </Button>
+        <Button type="button" onClick={handleSave}>
+          Save template
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,299 @@
+import React, { useState } from "react";
+import { format } from "date-fns";
+import { ArrowLeft, LayoutTemplate, Pencil, Play, Plus, Trash2 } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectGroup,
+  SelectItem,
+  SelectLabel,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useAuth } from "@/components/AuthProvider";
+import { useCommunication } from "@/components/CommunicationProvider";
+import { useDepartments } from "@/components/DepartmentsProvider";
+import { TaskTemplate, useTasks } from "@/components/TasksProvider";
+import { DueDateInput } from "@/components/dashboard/DueDateInput";
+import { TaskTemplateEditor, TemplateDraft } from "@/components/dashboard/TaskTemplateEditor";
+import { parseNaturalDate } from "@/lib/dueDates";
+import { getTemplateItemDueDate, getTemplateRoles, suggestRoleAssignees } from "@/lib/taskTemplates";
+
+const UNASSIGNED = "unassigned";
+
+type Mode =
+  | { type: "list" }
+  | { type: "edit"; template?: TaskTemplate }
+  | { type: "use"; template: TaskTemplate };
+
+export function TaskTemplatesDialog() {
+  const { templates, addTemplate, updateTemplate, deleteTemplate, instantiateTemplate } = useTasks();
+  const { user } = useAuth();
+  const { users } = useCommunication();
+  const { teamMembers } = useDepartments();
+  const [open, setOpen] = useState(false);
+  const [mode, setMode] = useState<Mode>({ type: "list" });
+  const [startDate, setStartDate] = useState("");
+  const [department, setDepartment] = useState("");
+  const [assignees, setAssignees] = useState<Record<string, string>>({});
+
+  const departments = ["Development", "HR", "Marketing", "Finance", "Sales", "Operations"];
+  const start = parseNaturalDate(startDate);
+
+  const handleOpenChange = (value: boolean) => {
+    setOpen(value);
+    if (!value) setMode({ type: "list" });
+  };
+
+  const startUsing = (template: TaskTemplate) => {
+    setStartDate("today");
+    setDepartment(template.department);
+    setAssignees(suggestRoleAssignees(getTemplateRoles(template), teamMembers, template.department));
+    setMode({ type: "use", template });
+  };
+
+  // Re-suggest people for each role when the department changes
+  const handleDepartmentChange = (template: TaskTemplate, value: string) => {
+    setDepartment(value);
+    setAssignees(suggestRoleAssignees(getTemplateRoles(template), teamMembers, value));
+  };
+
+  const handleSave = (draft: TemplateDraft) => {
+    if (mode.type === "edit" && mode.template) {
+      updateTemplate(mode.template.id, draft);
+    } else {
+      addTemplate({ ...draft, createdBy: user?.id });
+    }
+    setMode({ type: "list" });
+  };
+
+  const handleUse = (template: TaskTemplate) => {
+    if (!start) return;
+    instantiateTemplate(template.id, {
+      startDate: start.toISOString(),
+      department,
+      assignees,
+    });
+    handleOpenChange(false);
+  };
+
+  const getAssigneeName = (id?: string) => {
+    if (!id) return "Unassigned";
+    return (
+      users.find((u) => u.id === id)?.name ||
+      teamMembers.find((member) => member.id === id)?.name ||
+      "Unassigned"
+    );
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="outline">
+          <LayoutTemplate className="mr-2 h-4 w-4" />
+          Templates
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-[640px] max-h-[90vh] overflow-y-auto">
+        {mode.type === "list" && (
+          <>
+            <DialogHeader>
+              <DialogTitle>Task Templates</DialogTitle>
+              <DialogDescription>
+                Create a whole set of related tasks in one go.
+              </DialogDescription>
+            </DialogHeader>
+            <div className="space-y-2">
+              {templates.length === 0 && (
+                <p className="py-6 text-center text-sm text-muted-foreground">
+                  No templates yet.
+                </p>
+              )}
+              {templates.map((template) => (
+                <div key={template.id} className="flex items-start gap-3 rounded-md border p-3">
+                  <div className="min-w-0 flex-1">
+                    <div className="flex items-center gap-2">
+                      <span className="font-medium">{template.name}</span>
+                      <Badge variant="outline">{template.department}</Badge>
+                      <span className="text-xs text-muted-foreground">
+                        {template.items.length} task{template.items.length === 1 ? "" : "s"}
+                      </span>
+                    </div>
+                    {template.description && (
+                      <p className="mt-1 text-sm text-muted-foreground">{template.description}</p>
+                    )}
+                  </div>
+                  <div className="flex shrink-0 items-center gap-1">
+                    <Button size="sm" onClick={() => startUsing(template)}>
+                      <Play className="mr-1 h-3.5 w-3.5" />
+                      Use
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-8 w-8"
+                      onClick={() => setMode({ type: "edit", template })}
+                    >
+                      <Pencil className="h-4 w-4" />
+                      <span className="sr-only">Edit template</span>
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-8 w-8 text-destructive"
+                      onClick={() => deleteTemplate(template.id)}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                      <span className="sr-only">Delete template</span>
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </div>
+            <div className="flex justify-end">
+              <Button variant="outline" onClick={() => setMode({ type: "edit" })}>
+                <Plus className="mr-2 h-4 w-4" />
+                New template
+              </Button>
+            </div>
+          </>
+        )}
+
+        {mode.type === "edit" && (
+          <>
+            <DialogHeader>
+              <DialogTitle>{mode.template ? "Edit Template" : "New Template"}</DialogTitle>
+              <DialogDescription>
+                Due dates are days from the start date; roles are filled in when the template is used.
+              </DialogDescription>
+            </DialogHeader>
+            <TaskTemplateEditor
+              initialValue={mode.template}
+              departments={departments}
+              onSave={handleSave}
+              onCancel={() => setMode({ type: "list" })}
+            />
+          </>
+        )}
+
+        {mode.type === "use" && (
+          <>
+            <DialogHeader>
+              <DialogTitle>Use "{mode.template.name}"</DialogTitle>
+              <DialogDescription>
+                Pick a start date and who fills each role.
+              </DialogDescription>
+            </DialogHeader>
+            <div className="space-y-4">
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-1.5">
+                  <label className="text-sm font-medium">Start date</label>
+                  <DueDateInput value={startDate} onChange={setStartDate} />
+                </div>
+                <div className="space-y-1.5">
+                  <label className="text-sm font-medium">Department</label>
+                  <Select value={department} onValueChange={(value) => handleDepartmentChange(mode.template, value)}>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Select department" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {departments.map((dept) => (
+                        <SelectItem key={dept} value={dept}>
+                          {dept}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+
+              {getTemplateRoles(mode.template).length > 0 && (
+                <div className="space-y-2">
+                  <label className="text-sm font-medium">Roles</label>
+                  {getTemplateRoles(mode.template).map((role) => (
+                    <div key={role} className="flex items-center gap-3">
+                      <span className="w-40 shrink-0 text-sm">{role}</span>
+                      <Select
+                        value={assignees[role] || UNASSIGNED}
+                        onValueChange={(value) =>
+                          setAssignees((prev) => {
+                            const next = { ...prev };
+                            if (value === UNASSIGNED) delete next[role];
+                            else next[role] = value;
+                            return next;
+                          })
+                        }
+                      >
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value={UNASSIGNED}>Unassigned</SelectItem>
+                          <SelectGroup>
+                            <SelectLabel>Workspace users</SelectLabel>
+                            {users.map((u) => (
+                              <SelectItem key={u.id} value={u.id}>
+                                {u.name}
+                              </SelectItem>
+                            ))}
+                          </SelectGroup>
+                          <SelectGroup>
+                            <SelectLabel>Team members</SelectLabel>
+                            {teamMembers
+                              .filter((member) => member.status !== "inactive")
+                              .map((member) => (
+                                <SelectItem key={member.id} value={member.id}>
+                                  {member.name} ({member.role}, {member.department})
+                                </SelectItem>
+                              ))}
+                          </SelectGroup>
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  ))}
+                </div>
+              )}
+
+              <div className="space-y-1">
+                <label className="text-sm font-medium">Preview</label>
+                <div className="divide-y rounded-md border text-sm">
+                  {mode.template.items.map((item) => (
+                    <div key={item.id} className="flex items-center gap-2 px-3 py-2">
+                      <span className="flex-1 truncate">{item.title}</span>
+                      <span className="text-xs text-muted-foreground">
+                        {getAssigneeName(item.assigneeRole ? assignees[item.assigneeRole] : undefined)}
+                      </span>
+                      <span className="w-24 text-right text-xs text-muted-foreground">
+                        {start ? format(getTemplateItemDueDate(start, item), "MMM d, yyyy") : "—"}
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              </div>
+
+              <div className="flex justify-end gap-2">
+                <Button variant="outline" onClick={() => setMode({ type: "list" })}>
+                  <ArrowLeft className="mr-2 h-4 w-4" />
+                  Back
+                </Button>
+                <Button disabled={!start} onClick={() => handleUse(mode.template)}>
+                  Create {mode.template.items.length} tasks
+                </Button>
+              </div>
+            </div>
+          </>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
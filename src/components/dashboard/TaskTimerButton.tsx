@@ -0,0 +1,44 @@
+import React, { useEffect, useState } from "react";
+import { differenceInSeconds, parseISO } from "date-fns";
+import { Play, Square } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { cn } from "@/lib/utils";
+import { formatMinutes } from "@/lib/timesheets";
+import { useTimeTracking } from "@/components/TimeTrackingProvider";
+
+interface TaskTimerButtonProps {
+  taskId: string;
+}
+
+// Start/stop timer for a task, showing elapsed time while running and the
+// total logged otherwise
+export function TaskTimerButton({ taskId }: TaskTimerButtonProps) {
+  const { getActiveTimer, startTimer, stopTimer, getLoggedMinutes } = useTimeTracking();
+  const timer = getActiveTimer();
+  const isRunning = timer?.taskId === taskId;
+  const [now, setNow] = useState(() => new Date());
+
+  // Tick once a second while this task's timer runs
+  useEffect(() => {
+    if (!isRunning) return;
+    const interval = setInterval(() => setNow(new Date()), 1000);
+    return () => clearInterval(interval);
+  }, [isRunning]);
+
+  const elapsed = isRunning ? Math.max(differenceInSeconds(now, parseISO(timer.startedAt)), 0) : 0;
+  const clock = `${Math.floor(elapsed / 3600)}:${String(Math.floor(elapsed / 60) % 60).padStart(2, "0")}:${String(elapsed % 60).padStart(2, "0")}`;
+  const logged = getLoggedMinutes(taskId);
+
+  return (
+    <Button
+      variant="outline"
+      size="sm"
+      className={cn("h-8 gap-1.5 px-2 text-xs tabular-nums", isRunning && "border-red-500 text-red-600")}
+      onClick={() => (isRunning ? stopTimer() : startTimer(taskId))}
+      title={isRunning ? "Stop timer and log time" : "Start timer"}
+    >
+      {isRunning ? <Square className="h-3 w-3" /> : <Play className="h-3 w-3" />}
+      {isRunning ? clock : logged > 0 ? formatMinutes(logged) : "Track"}
+    </Button>
+  );
+}
@@ -1,5 +1,16 @@
 import React from "react";
-import { CheckCircle2, AlertCircle, Clock, MoreHorizontal } from "lucide-react";
+import { 
+  CheckCircle2, 
+  AlertCircle, 
+  Clock, 
+  MoreHorizontal, 
+  Lock, 
+  Repeat, 
+  X, 
+  ChevronDown, 
+  ChevronRight, 
+  ListChecks 
+} from "lucide-react";
 import { 
   Card, 
   CardContent,
@@ -15,7 +26,7 @@ import {
 } from "@/components/ui/dropdown-menu";
 import { Badge } from "@/components/ui/badge";
 import { cn } from "@/lib/utils";
-import { useTasks, Task, TaskStatus } from "@/components/TasksProvider";
+import { useTasks, Task, TaskStatus, DependencyType, OccurrenceScope } from "@/components/TasksProvider";
 import { 
   Dialog,
   DialogContent,
@@ -35,18 +46,60 @@ import {
   SelectValue,
 } from "@/components/ui/select";
 import { useToast } from "@/hooks/use-toast";
+import { DueDateInput } from "@/components/dashboard/DueDateInput";
+import { RecurrenceEditor } from "@/components/dashboard/RecurrenceEditor";
+import { TaskTimerButton } from "@/components/dashboard/TaskTimerButton";
+import { LogTimeDialog } from "@/components/dashboard/LogTimeDialog";
+import { TaskHistory } from "@/components/dashboard/TaskHistory";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Progress } from "@/components/ui/progress";
+import { RecurrenceRule, describeRecurrence } from "@/lib/recurrence";
+import { formatDueDate, isOverdue, parseNaturalDate, toDueDateString } from "@/lib/dueDates";
+import { TaskGroup } from "@/lib/taskViews";
 
 interface TasksListProps {
   tasks: Task[];
+  groups?: TaskGroup[]; // show the tasks under group headings instead
   className?: string;
 }
 
-export function TasksList({ tasks, className }: TasksListProps) {
-  const { markAsCompleted, markAsInProgress, markAsPending, updateTask, deleteTask } = useTasks();
+export function TasksList({ tasks, groups, className }: TasksListProps) {
+  const { 
+    tasks: allTasks, 
+    markAsCompleted, 
+    markAsInProgress, 
+    markAsPending, 
+    updateTask, 
+    deleteTask,
+    addDependency,
+    removeDependency,
+    getBlockedBy,
+    isBlocked,
+    getSeries,
+    updateOccurrence,
+    addTask,
+    getSubtasks,
+    getTaskProgress,
+    addChecklistItem,
+    toggleChecklistItem,
+    removeChecklistItem,
+  } = useTasks();
   const { toast } = useToast();
   const [editingTask, setEditingTask] = React.useState<Task | null>(null);
+  const [dueDateInput, setDueDateInput] = React.useState("");
+  const [editingRecurrence, setEditingRecurrence] = React.useState<RecurrenceRule | undefined>(undefined);
+  const [editScope, setEditScope] = React.useState<OccurrenceScope>("this");
+  const [editTab, setEditTab] = React.useState<"details" | "history">("details");
+  const [expandedTaskIds, setExpandedTaskIds] = React.useState<string[]>([]);
+  const [newSubtaskTitles, setNewSubtaskTitles] = React.useState<Record<string, string>>({});
+  const [newChecklistTexts, setNewChecklistTexts] = React.useState<Record<string, string>>({});
+  const [newDependencyId, setNewDependencyId] = React.useState("");
+  const [newDependencyType, setNewDependencyType] = React.useState<DependencyType>("finish-to-start");
   const [showDeleteDialog, setShowDeleteDialog] = React.useState(false);
   const [taskToDelete, setTaskToDelete] = React.useState<string | null>(null);
+  const [loggingTask, setLoggingTask] = React.useState<Task | null>(null);
   
   // Departments
   const departments = ["Development", "HR", "Marketing", "Finance", "Sales", "Operations"];
@@ -85,8 +138,12 @@ export function TasksList({ tasks, className }: TasksListProps) {
     }
   };
 
-  const handleEditClick = (task: Task) => {
+  const handleEditClick = (task: Task, tab: "details" | "history" = "details") => {
     setEditingTask(task);
+    setEditTab(tab);
+    setDueDateInput(task.dueDate);
+    setEditingRecurrence(task.seriesId ? getSeries(task.seriesId)?.recurrence : undefined);
+    setEditScope(task.seriesId ? "this" : "future");
   };
 
   const handleDeleteClick = (taskId: string) => {
@@ -104,11 +161,255 @@ export function TasksList({ tasks, className }: TasksListProps) {
 
   const handleUpdateTask = () => {
     if (editingTask) {
-      updateTask(editingTask.id, editingTask);
+      // Dependencies are saved as they are edited, so don't overwrite them here
+      const { dependencies, status, ...updates } = editingTask;
+      const parsedDueDate = parseNaturalDate(dueDateInput);
+      const taskUpdates = {
+        ...updates,
+        dueDate: parsedDueDate ? toDueDateString(parsedDueDate) : editingTask.dueDate,
+      };
+      // Completing goes through markAsCompleted so subtasks and checklists are
+      // checked, unblocked tasks are reported and the next occurrence is
+      // scheduled; it runs first so a change to future occurrences carries
+      // over to the new one. The other edits are saved even if it refuses.
+      const completing =
+        status === "completed" && allTasks.find(task => task.id === editingTask.id)?.status !== "completed";
+      if (completing) markAsCompleted(editingTask.id);
+      const savedUpdates = completing ? taskUpdates : { ...taskUpdates, status };
+
+      if (editingTask.seriesId || editingRecurrence) {
+        updateOccurrence(
+          editingTask.id, 
+          savedUpdates, 
+          editScope, 
+          editScope === "future" ? editingRecurrence ?? null : undefined
+        );
+      } else {
+        updateTask(editingTask.id, savedUpdates);
+      }
       setEditingTask(null);
     }
   };
 
+  const handleAddDependency = () => {
+    if (editingTask && newDependencyId) {
+      if (addDependency(editingTask.id, newDependencyId, newDependencyType)) {
+        setNewDependencyId("");
+      }
+    }
+  };
+
+  // Live copy of the task being edited, so dependency changes show up immediately
+  const editingDependencies = editingTask
+    ? allTasks.find((task) => task.id === editingTask.id)?.dependencies || []
+    : [];
+
+  const toggleExpanded = (taskId: string) => {
+    setExpandedTaskIds((prev) => 
+      prev.includes(taskId) ? prev.filter((id) => id !== taskId) : [...prev, taskId]
+    );
+  };
+
+  const handleAddSubtask = (parent: Task) => {
+    const title = (newSubtaskTitles[parent.id] || "").trim();
+    if (!title) return;
+    addTask({
+      title,
+      description: "",
+      status: "pending",
+      dueDate: parent.dueDate,
+      department: parent.department,
+      priority: parent.priority,
+      assignedTo: parent.assignedTo,
+      createdBy: parent.createdBy,
+      parentId: parent.id,
+    });
+    setNewSubtaskTitles((prev) => ({ ...prev, [parent.id]: "" }));
+  };
+
+  const handleAddChecklistItem = (taskId: string) => {
+    const text = (newChecklistTexts[taskId] || "").trim();
+    if (!text) return;
+    addChecklistItem(taskId, text);
+    setNewChecklistTexts((prev) => ({ ...prev, [taskId]: "" }));
+  };
+
+  // Tasks whose parent is also in the list are shown nested under it
+  const getRootTasks = (listed: Task[]) => {
+    const listedIds = new Set(listed.map((task) => task.id));
+    return listed.filter((task) => !task.parentId || !listedIds.has(task.parentId));
+  };
+
+  const renderTask = (task: Task, depth: number): React.ReactNode => {
+    const subtasks = getSubtasks(task.id);
+    const checklist = task.checklist || [];
+    const hasChildren = subtasks.length > 0 || checklist.length > 0;
+    const completedParts = 
+      subtasks.filter((subtask) => subtask.status === "completed").length + 
+      checklist.filter((item) => item.done).length;
+    const progress = getTaskProgress(task.id);
+    const isExpanded = expandedTaskIds.includes(task.id);
+
+    return (
+      <React.Fragment key={task.id}>
+        <div
+          className="p-4 hover:bg-muted/50 transition-colors group relative overflow-hidden"
+          style={{ paddingLeft: `${1 + depth * 1.5}rem` }}
+        >
+          <div className="absolute inset-y-0 left-0 w-1 bg-primary transform scale-y-0 group-hover:scale-y-100 transition-transform origin-top"></div>
+          <div className="flex items-start justify-between">
+            <div className="flex items-start gap-3">
+              <button
+                type="button"
+                className="mt-0.5 -ml-1 text-muted-foreground hover:text-foreground"
+                onClick={() => toggleExpanded(task.id)}
+                aria-expanded={isExpanded}
+                aria-label={isExpanded ? "Collapse subtasks" : "Expand subtasks"}
+              >
+                {isExpanded ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+              </button>
+              <div className="mt-0.5">{getStatusIcon(task.status)}</div>
+              <div className="flex-1">
+                <div className="font-medium">{task.title}</div>
+                <div className="text-sm text-muted-foreground mt-1">
+                  {task.description}
+                </div>
+                <div className="flex items-center gap-2 mt-2">
+                  <Badge variant="outline" className="text-xs">
+                    {task.department}
+                  </Badge>
+                  <Badge
+                    variant="secondary"
+                    className={cn("text-xs", getPriorityColor(task.priority))}
+                  >
+                    {task.priority}
+                  </Badge>
+                  {task.seriesId && getSeries(task.seriesId) && (
+                    <Badge
+                      variant="outline"
+                      className="text-xs flex items-center gap-1"
+                      title={describeRecurrence(getSeries(task.seriesId)!.recurrence)}
+                    >
+                      <Repeat className="h-3 w-3" />
+                      Repeats
+                    </Badge>
+                  )}
+                  {hasChildren && (
+                    <Badge variant="outline" className="text-xs flex items-center gap-1">
+                      <ListChecks className="h-3 w-3" />
+                      {completedParts}/{subtasks.length + checklist.length}
+                    </Badge>
+                  )}
+                  {task.status !== "completed" && isBlocked(task.id) && (
+                    <Badge
+                      variant="outline"
+                      className="text-xs flex items-center gap-1"
+                      title={`Blocked by ${getBlockedBy(task.id).map((t) => t.title).join(", ")}`}
+                    >
+                      <Lock className="h-3 w-3" />
+                      Blocked
+                    </Badge>
+                  )}
+                </div>
+                {hasChildren && (
+                  <Progress value={progress * 100} className="h-1.5 mt-3 max-w-xs" />
+                )}
+              </div>
+            </div>
+            <div className="flex items-center gap-2">
+              <div 
+                className={cn(
+                  "text-xs",
+                  isOverdue(task.dueDate, task.status) ? "text-red-600 font-medium" : "text-muted-foreground"
+                )}
+                title={task.dueDate}
+              >
+                {isOverdue(task.dueDate, task.status) ? "Overdue" : "Due"} {formatDueDate(task.dueDate)}
+              </div>
+              <TaskTimerButton taskId={task.id} />
+              <DropdownMenu>
+                <DropdownMenuTrigger className="flex h-8 w-8 items-center justify-center rounded-md border transition-colors hover:bg-muted">
+                  <MoreHorizontal className="h-4 w-4" />
+                  <span className="sr-only">Open</span>
+                </DropdownMenuTrigger>
+                <DropdownMenuContent align="end">
+                  <DropdownMenuItem onClick={() => handleEditClick(task)}>
+                    Edit
+                  </DropdownMenuItem>
+                  <DropdownMenuItem onClick={() => setLoggingTask(task)}>
+                    Log time
+                  </DropdownMenuItem>
+                  <DropdownMenuItem onClick={() => handleEditClick(task, "history")}>
+                    View history
+                  </DropdownMenuItem>
+                  {task.status !== "completed" && (
+                    <DropdownMenuItem onClick={() => handleStatusChange(task.id, "completed")}>
+                      Mark as completed
+                    </DropdownMenuItem>
+                  )}
+                  {task.status !== "in-progress" && (
+                    <DropdownMenuItem onClick={() => handleStatusChange(task.id, "in-progress")}>
+                      Mark as in progress
+                    </DropdownMenuItem>
+                  )}
+                  {task.status !== "pending" && (
+                    <DropdownMenuItem onClick={() => handleStatusChange(task.id, "pending")}>
+                      Mark as pending
+                    </DropdownMenuItem>
+                  )}
+                  <DropdownMenuItem 
+                    onClick={() => handleDeleteClick(task.id)}
+                    className="text-red-600"
+                  >
+                    Delete
+                  </DropdownMenuItem>
+                </DropdownMenuContent>
+              </DropdownMenu>
+            </div>
+          </div>
+        </div>
+        {isExpanded && (
+          <div className="py-3 pr-4 space-y-2 bg-muted/20" style={{ paddingLeft: `${3.5 + depth * 1.5}rem` }}>
+            {checklist.map((item) => (
+              <div key={item.id} className="flex items-center gap-2 text-sm group/item">
+                <Checkbox
+                  checked={item.done}
+                  onCheckedChange={() => toggleChecklistItem(task.id, item.id)}
+                />
+                <span className={cn(item.done && "line-through text-muted-foreground")}>{item.text}</span>
+                <button
+                  type="button"
+                  className="opacity-0 group-hover/item:opacity-100 text-muted-foreground hover:text-foreground"
+                  onClick={() => removeChecklistItem(task.id, item.id)}
+                >
+                  <X className="h-3 w-3" />
+                  <span className="sr-only">Remove checklist item</span>
+                </button>
+              </div>
+            ))}
+            <div className="flex gap-2 max-w-md">
+              <Input
+                className="h-8"
+                placeholder="Add checklist item"
+                value={newChecklistTexts[task.id] || ""}
+                onChange={(e) => setNewChecklistTexts((prev) => ({ ...prev, [task.id]: e.target.value }))}
+                onKeyDown={(e) => e.key === "Enter" && handleAddChecklistItem(task.id)}
+              />
+              <Input
+                className="h-8"
+                placeholder="Add subtask"
+                value={newSubtaskTitles[task.id] || ""}
+                onChange={(e) => setNewSubtaskTitles((prev) => ({ ...prev, [task.id]: e.target.value }))}
+                onKeyDown={(e) => e.key === "Enter" && handleAddSubtask(task)}
+              />
+            </div>
+          </div>
+        )}
+        {isExpanded && subtasks.map((subtask) => renderTask(subtask, depth + 1))}
+      </React.Fragment>
+    );
+  };
+
   return (
     <>
       <div className="divide-y">
@@ -116,198 +417,250 @@ export function TasksList({ tasks, className }: TasksListProps) {
           <div className="p-8 text-center">
             <p className="text-muted-foreground">No tasks found matching your criteria.</p>
           </div>
-        ) : (
-          tasks.map((task) => (
-            <div
-              key={task.id}
-              className="p-4 hover:bg-muted/50 transition-colors group relative overflow-hidden"
-            >
-              <div className="absolute inset-y-0 left-0 w-1 bg-primary transform scale-y-0 group-hover:scale-y-100 transition-transform origin-top"></div>
-              <div className="flex items-start justify-between">
-                <div className="flex items-start gap-3">
-                  <div className="mt-0.5">{getStatusIcon(task.status)}</div>
-                  <div>
-                    <div className="font-medium">{task.title}</div>
-                    <div className="text-sm text-muted-foreground mt-1">
-                      {task.description}
-                    </div>
-                    <div className="flex items-center gap-2 mt-2">
-                      <Badge variant="outline" className="text-xs">
-                        {task.department}
-                      </Badge>
-                      <Badge
-                        variant="secondary"
-                        className={cn("text-xs", getPriorityColor(task.priority))}
-                      >
-                        {task.priority}
-                      </Badge>
-                    </div>
-                  </div>
-                </div>
-                <div className="flex items-center gap-2">
-                  <div className="text-xs text-muted-foreground">
-                    Due {task.dueDate}
-                  </div>
-                  <DropdownMenu>
-                    <DropdownMenuTrigger className="flex h-8 w-8 items-center justify-center rounded-md border transition-colors hover:bg-muted">
-                      <MoreHorizontal className="h-4 w-4" />
-                      <span className="sr-only">Open</span>
-                    </DropdownMenuTrigger>
-                    <DropdownMenuContent align="end">
-                      <DropdownMenuItem onClick={() => handleEditClick(task)}>
-                        Edit
-                      </DropdownMenuItem>
-                      {task.status !== "completed" && (
-                        <DropdownMenuItem onClick={() => handleStatusChange(task.id, "completed")}>
-                          Mark as completed
-                        </DropdownMenuItem>
-                      )}
-                      {task.status !== "in-progress" && (
-                        <DropdownMenuItem onClick={() => handleStatusChange(task.id, "in-progress")}>
-                          Mark as in progress
-                        </DropdownMenuItem>
-                      )}
-                      {task.status !== "pending" && (
-                        <DropdownMenuItem onClick={() => handleStatusChange(task.id, "pending")}>
-                          Mark as pending
-                        </DropdownMenuItem>
-                      )}
-                      <DropdownMenuItem 
-                        onClick={() => handleDeleteClick(task.id)}
-                        className="text-red-600"
-                      >
-                        Delete
-                      </DropdownMenuItem>
-                    </DropdownMenuContent>
-                  </DropdownMenu>
-                </div>
+        ) : groups ? (
+          groups.map((group) => (
+            <React.Fragment key={group.key}>
+              <div className="flex items-center gap-2 bg-muted/40 px-4 py-2 text-sm font-medium">
+                {group.label}
+                <Badge variant="secondary" className="text-xs">{group.tasks.length}</Badge>
               </div>
-            </div>
+              {getRootTasks(group.tasks).map((task) => renderTask(task, 0))}
+            </React.Fragment>
           ))
+        ) : (
+          getRootTasks(tasks).map((task) => renderTask(task, 0))
         )}
       </div>
 
+      <LogTimeDialog task={loggingTask} onOpenChange={(open) => !open && setLoggingTask(null)} />
+
       {/* Edit Task Dialog */}
       {editingTask && (
         <Dialog open={!!editingTask} onOpenChange={(open) => !open && setEditingTask(null)}>
-          <DialogContent className="sm:max-w-[500px]">
+          <DialogContent className="sm:max-w-[500px] max-h-[90vh] overflow-y-auto">
             <DialogHeader>
               <DialogTitle>Edit Task</DialogTitle>
               <DialogDescription>
                 Make changes to the task details below.
               </DialogDescription>
             </DialogHeader>
-            <div className="space-y-4 py-2">
-              <div className="space-y-2">
-                <label className="text-sm font-medium" htmlFor="title">
-                  Title
-                </label>
-                <Input
-                  id="title"
-                  value={editingTask.title}
-                  onChange={(e) => setEditingTask({ ...editingTask, title: e.target.value })}
-                />
-              </div>
-              <div className="space-y-2">
-                <label className="text-sm font-medium" htmlFor="description">
-                  Description
-                </label>
-                <Textarea
-                  id="description"
-                  value={editingTask.description}
-                  onChange={(e) => setEditingTask({ ...editingTask, description: e.target.value })}
-                  className="min-h-[100px]"
-                />
-              </div>
-              <div className="grid grid-cols-2 gap-4">
-                <div className="space-y-2">
-                  <label className="text-sm font-medium">Department</label>
-                  <Select
-                    value={editingTask.department}
-                    onValueChange={(value) => setEditingTask({ ...editingTask, department: value })}
-                  >
-                    <SelectTrigger>
-                      <SelectValue />
-                    </SelectTrigger>
-                    <SelectContent>
-                      {departments.map((dept) => (
-                        <SelectItem key={dept} value={dept}>
-                          {dept}
-                        </SelectItem>
-                      ))}
-                    </SelectContent>
-                  </Select>
-                </div>
-                <div className="space-y-2">
-                  <label className="text-sm font-medium">Priority</label>
-                  <Select
-                    value={editingTask.priority}
-                    onValueChange={(value) => 
-                      setEditingTask({ 
-                        ...editingTask, 
-                        priority: value as "high" | "medium" | "low" 
-                      })
-                    }
-                  >
-                    <SelectTrigger>
-                      <SelectValue />
-                    </SelectTrigger>
-                    <SelectContent>
-                      <SelectItem value="high">High</SelectItem>
-                      <SelectItem value="medium">Medium</SelectItem>
-                      <SelectItem value="low">Low</SelectItem>
-                    </SelectContent>
-                  </Select>
-                </div>
-              </div>
-              <div className="grid grid-cols-2 gap-4">
-                <div className="space-y-2">
-                  <label className="text-sm font-medium">Due Date</label>
-                  <Select
-                    value={editingTask.dueDate}
-                    onValueChange={(value) => setEditingTask({ ...editingTask, dueDate: value })}
-                  >
-                    <SelectTrigger>
-                      <SelectValue />
-                    </SelectTrigger>
-                    <SelectContent>
-                      <SelectItem value="Today">Today</SelectItem>
-                      <SelectItem value="Tomorrow">Tomorrow</SelectItem>
-                      <SelectItem value="3 days">3 days</SelectItem>
-                      <SelectItem value="1 week">1 week</SelectItem>
-                      <SelectItem value="2 weeks">2 weeks</SelectItem>
-                      <SelectItem value="1 month">1 month</SelectItem>
-                    </SelectContent>
-                  </Select>
-                </div>
-                <div className="space-y-2">
-                  <label className="text-sm font-medium">Status</label>
-                  <Select
-                    value={editingTask.status}
-                    onValueChange={(value) => 
-                      setEditingTask({ 
-                        ...editingTask, 
-                        status: value as "completed" | "in-progress" | "pending" 
-                      })
-                    }
-                  >
-                    <SelectTrigger>
-                      <SelectValue />
-                    </SelectTrigger>
-                    <SelectContent>
-                      <SelectItem value="pending">Pending</SelectItem>
-                      <SelectItem value="in-progress">In Progress</SelectItem>
-                      <SelectItem value="completed">Completed</SelectItem>
-                    </SelectContent>
-                  </Select>
+            <Tabs value={editTab} onValueChange={(value) => setEditTab(value as "details" | "history")}>
+              <TabsList className="grid w-full grid-cols-2">
+                <TabsTrigger value="details">Details</TabsTrigger>
+                <TabsTrigger value="history">History</TabsTrigger>
+              </TabsList>
+              <TabsContent value="details">
+                <div className="space-y-4 py-2">
+                  <div className="space-y-2">
+                    <label className="text-sm font-medium" htmlFor="title">
+                      Title
+                    </label>
+                    <Input
+                      id="title"
+                      value={editingTask.title}
+                      onChange={(e) => setEditingTask({ ...editingTask, title: e.target.value })}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <label className="text-sm font-medium" htmlFor="description">
+                      Description
+                    </label>
+                    <Textarea
+                      id="description"
+                      value={editingTask.description}
+                      onChange={(e) => setEditingTask({ ...editingTask, description: e.target.value })}
+                      className="min-h-[100px]"
+                    />
+                  </div>
+                  <div className="grid grid-cols-2 gap-4">
+                    <div className="space-y-2">
+                      <label className="text-sm font-medium">Department</label>
+                      <Select
+                        value={editingTask.department}
+                        onValueChange={(value) => setEditingTask({ ...editingTask, department: value })}
+                      >
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {departments.map((dept) => (
+                            <SelectItem key={dept} value={dept}>
+                              {dept}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <div className="space-y-2">
+                      <label className="text-sm font-medium">Priority</label>
+                      <Select
+                        value={editingTask.priority}
+                        onValueChange={(value) => 
+                          setEditingTask({ 
+                            ...editingTask, 
+                            priority: value as "high" | "medium" | "low" 
+                          })
+                        }
+                      >
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="high">High</SelectItem>
+                          <SelectItem value="medium">Medium</SelectItem>
+                          <SelectItem value="low">Low</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  </div>
+                  <div className="grid grid-cols-2 gap-4">
+                    <div className="space-y-2">
+                      <label className="text-sm font-medium">Due Date</label>
+                      <DueDateInput value={dueDateInput} onChange={setDueDateInput} />
+                    </div>
+                    <div className="space-y-2">
+                      <label className="text-sm font-medium">Status</label>
+                      <Select
+                        value={editingTask.status}
+                        onValueChange={(value) => 
+                          setEditingTask({ 
+                            ...editingTask, 
+                            status: value as "completed" | "in-progress" | "pending" 
+                          })
+                        }
+                      >
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="pending">Pending</SelectItem>
+                          <SelectItem value="in-progress">In Progress</SelectItem>
+                          <SelectItem value="completed">Completed</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  </div>
+                  <div className="space-y-2">
+                    <label className="text-sm font-medium" htmlFor="estimatedDuration">
+                      Estimated Duration (days)
+                    </label>
+                    <Input
+                      id="estimatedDuration"
+                      type="number"
+                      min={1}
+                      value={editingTask.estimatedDuration ?? 1}
+                      onChange={(e) => setEditingTask({ ...editingTask, estimatedDuration: Number(e.target.value) })}
+                    />
+                  </div>
+                  {editingTask.seriesId && (
+                    <div className="space-y-2">
+                      <label className="text-sm font-medium">Apply Changes To</label>
+                      <RadioGroup 
+                        value={editScope} 
+                        onValueChange={(value) => setEditScope(value as OccurrenceScope)}
+                        className="flex gap-4"
+                      >
+                        <label className="flex items-center gap-2 text-sm">
+                          <RadioGroupItem value="this" />
+                          This occurrence
+                        </label>
+                        <label className="flex items-center gap-2 text-sm">
+                          <RadioGroupItem value="future" />
+                          This and all future occurrences
+                        </label>
+                      </RadioGroup>
+                    </div>
+                  )}
+                  {editScope === "future" && (
+                    <div className="space-y-2">
+                      <label className="text-sm font-medium">Repeat</label>
+                      <RecurrenceEditor 
+                        key={editingTask.id} 
+                        value={editingRecurrence} 
+                        onChange={setEditingRecurrence} 
+                      />
+                    </div>
+                  )}
+                  <div className="space-y-2">
+                    <label className="text-sm font-medium">Blocked By</label>
+                    {editingDependencies.length === 0 ? (
+                      <p className="text-sm text-muted-foreground">This task has no dependencies.</p>
+                    ) : (
+                      <div className="space-y-1">
+                        {editingDependencies.map((dep) => {
+                          const predecessor = allTasks.find((task) => task.id === dep.taskId);
+                          return (
+                            <div key={dep.taskId} className="flex items-center justify-between rounded-md border px-3 py-1.5 text-sm">
+                              <span className="truncate">
+                                {predecessor?.title || dep.taskId}
+                                <span className="text-muted-foreground ml-2">
+                                  ({dep.type === "finish-to-start" ? "finish to start" : "start to start"})
+                                </span>
+                              </span>
+                              <Button
+                                variant="ghost"
+                                size="icon"
+                                className="h-6 w-6"
+                                onClick={() => removeDependency(editingTask.id, dep.taskId)}
+                              >
+                                <X className="h-3 w-3" />
+                                <span className="sr-only">Remove dependency</span>
+                              </Button>
+                            </div>
+                          );
+                        })}
+                      </div>
+                    )}
+                    <div className="flex gap-2">
+                      <Select value={newDependencyId} onValueChange={setNewDependencyId}>
+                        <SelectTrigger className="flex-1">
+                          <SelectValue placeholder="Select a task" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {allTasks
+                            .filter((task) => 
+                              task.id !== editingTask.id && 
+                              !editingDependencies.some((dep) => dep.taskId === task.id)
+                            )
+                            .map((task) => (
+                              <SelectItem key={task.id} value={task.id}>
+                                {task.title}
+                              </SelectItem>
+                            ))}
+                        </SelectContent>
+                      </Select>
+                      <Select 
+                        value={newDependencyType} 
+                        onValueChange={(value) => setNewDependencyType(value as DependencyType)}
+                      >
+                        <SelectTrigger className="w-[150px]">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="finish-to-start">Finish to start</SelectItem>
+                          <SelectItem value="start-to-start">Start to start</SelectItem>
+                        </SelectContent>
+                      </Select>
+                      <Button variant="outline" onClick={handleAddDependency} disabled={!newDependencyId}>
+                        Add
+                      </Button>
+                    </div>
+                  </div>
                 </div>
-              </div>
-            </div>
+              </TabsContent>
+              <TabsContent value="history" className="pt-2">
+                <TaskHistory taskId={editingTask.id} />
+              </TabsContent>
+            </Tabs>
             <DialogFooter>
               <Button variant="outline" onClick={() => setEditingTask(null)}>
-                Cancel
+                {editTab === "history" ? "Close" : "Cancel"}
               </Button>
-              <Button onClick={handleUpdateTask}>Save Changes</Button>
+              {editTab === "details" && (
+                <Button onClick={handleUpdateTask} disabled={!parseNaturalDate(dueDateInput)}>
+                  Save Changes
+                </Button>
+              )}
             </DialogFooter>
           </DialogContent>
         </Dialog>
@@ -319,7 +672,7 @@ export function TasksList({ tasks, className }: TasksListProps) {
           <DialogHeader>
             <DialogTitle>Confirm Deletion</DialogTitle>
             <DialogDescription>
-              Are you sure you want to delete this task? This action cannot be undone.
+              Are you sure you want to delete this task and its subtasks? This action cannot be undone.
             </DialogDescription>
           </DialogHeader>
           <DialogFooter className="mt-4">
@@ -8,7 +8,11 @@ import { Button } from "@/components/ui/button"
 import { SignaturePad } from "@/components/ui/signature-pad"
 import { useDocuments } from "@/components/DocumentProvider"
 import { useToast } from "@/components/ui/use-toast"
-import { CheckCircle, Clock, FileSignature, User } from "lucide-react"
+import { CheckCircle, Clock, FileSignature, ShieldAlert, ShieldCheck, User } from "lucide-react"
+import { SIGNATURE_CHECK_LABELS } from "@/lib/documentSigning"
+import { ENVELOPE_STATUS_LABELS, getActiveEnvelope, getCurrentEnvelope } from "@/lib/signingEnvelopes"
+import { SigningEnvelopeForm } from "@/components/dashboard/SigningEnvelopeForm"
+import { EnvelopeTimeline, SigningEnvelopePanel } from "@/components/dashboard/SigningEnvelopePanel"
 
 interface DocumentSignatureModalProps {
   documentId: string
@@ -25,12 +29,15 @@ export function DocumentSignatureModal({
     getDocumentById, 
     signDocument, 
     getSignatureRequests,
-    verifySignature 
+    verifySignature,
+    canRequestSignatures
   } = useDocuments()
   
   const { toast } = useToast()
   const [activeTab, setActiveTab] = useState("sign")
   const [showSignaturePad, setShowSignaturePad] = useState(false)
+  const [verifyingId, setVerifyingId] = useState<string | null>(null)
+  const [showEnvelopeForm, setShowEnvelopeForm] = useState(false)
   
   const document = getDocumentById(documentId)
   const signatureRequests = document ? getSignatureRequests(documentId) : []
@@ -39,15 +46,21 @@ export function DocumentSignatureModal({
     return null
   }
 
+  const envelope = getCurrentEnvelope(document)
+  const canRequest = canRequestSignatures(documentId) && !getActiveEnvelope(document) && document.status !== "archived"
+  const requestButton = canRequest && (
+    <div className="flex justify-end">
+      <Button variant="outline" onClick={() => setShowEnvelopeForm(true)}>
+        {envelope ? "Send for signature again" : "Request signatures"}
+      </Button>
+    </div>
+  )
+
   const handleSignatureCapture = async (signatureData: string, type: 'drawn' | 'typed' | 'certificate') => {
     try {
-      await signDocument(documentId, signatureData, type)
-      setShowSignaturePad(false)
-      toast({
-        title: "Document signed successfully",
-        description: "Your signature has been added to the document.",
-        variant: "default"
-      })
+      if (await signDocument(documentId, signatureData, type)) {
+        setShowSignaturePad(false)
+      }
     } catch (error) {
       toast({
         title: "Error signing document",
@@ -57,22 +70,19 @@ export function DocumentSignatureModal({
     }
   }
 
+  // The provider reports the outcome
   const handleVerifySignature = async (signatureId: string) => {
+    setVerifyingId(signatureId)
     try {
-      const verified = await verifySignature(documentId, signatureId)
-      toast({
-        title: verified ? "Signature verified" : "Signature verification failed",
-        description: verified 
-          ? "The signature is valid and has not been tampered with." 
-          : "The signature could not be verified. It may have been tampered with.",
-        variant: verified ? "default" : "destructive"
-      })
+      await verifySignature(documentId, signatureId)
     } catch (error) {
       toast({
         title: "Error verifying signature",
         description: error instanceof Error ? error.message : "An unknown error occurred",
         variant: "destructive"
       })
+    } finally {
+      setVerifyingId(null)
     }
   }
 
@@ -90,15 +100,27 @@ export function DocumentSignatureModal({
           />
         ) : (
           <Tabs defaultValue={activeTab} onValueChange={setActiveTab}>
-            <TabsList className="grid w-full grid-cols-2">
+            <TabsList className="grid w-full grid-cols-3">
               <TabsTrigger value="sign">Sign Document</TabsTrigger>
               <TabsTrigger value="signatures">
                 Signatures ({document.signatures?.length || 0})
               </TabsTrigger>
+              <TabsTrigger value="timeline">Timeline</TabsTrigger>
             </TabsList>
 
             <TabsContent value="sign" className="space-y-4 py-4">
-              {document.needsSignature ? (
+              {showEnvelopeForm ? (
+                <SigningEnvelopeForm documentId={documentId} onDone={() => setShowEnvelopeForm(false)} />
+              ) : envelope ? (
+                <>
+                  <SigningEnvelopePanel
+                    documentId={documentId}
+                    envelope={envelope}
+                    onSign={() => setShowSignaturePad(true)}
+                  />
+                  {requestButton}
+                </>
+              ) : document.needsSignature ? (
                 <>
                   <div className="rounded-md bg-muted p-4">
                     <h3 className="font-medium flex items-center gap-2">
@@ -156,11 +178,14 @@ export function DocumentSignatureModal({
                   </div>
                 </>
               ) : (
-                <div className="rounded-md bg-muted p-4 text-center">
-                  <p className="text-muted-foreground">
-                    This document does not require signatures.
-                  </p>
-                </div>
+                <>
+                  <div className="rounded-md bg-muted p-4 text-center">
+                    <p className="text-muted-foreground">
+                      This document does not require signatures.
+                    </p>
+                  </div>
+                  {requestButton}
+                </>
               )}
             </TabsContent>
 
@@ -176,18 +201,19 @@ export function DocumentSignatureModal({
                             Signed on {new Date(signature.signedAt).toLocaleString()}
                           </p>
                           <Badge 
-                            variant={signature.verified ? "success" : "outline"}
+                            variant={signature.verified ? "secondary" : signature.lastCheck ? "destructive" : "outline"}
                             className="mt-1"
                           >
-                            {signature.verified ? "Verified" : "Unverified"}
+                            {signature.verified ? "Verified" : signature.lastCheck ? "Invalid" : "Unverified"}
                           </Badge>
                         </div>
                         <Button 
                           variant="outline" 
                           size="sm"
                           onClick={() => handleVerifySignature(signature.id)}
+                          disabled={verifyingId === signature.id}
                         >
-                          Verify
+                          {verifyingId === signature.id ? "Verifying…" : "Verify"}
                         </Button>
                       </div>
                       <div className="mt-2 p-2 bg-background rounded border">
@@ -197,6 +223,42 @@ export function DocumentSignatureModal({
                           className="max-h-16 mx-auto"
                         />
                       </div>
+                      
+                      {/* Signature Certificate */}
+                      <details className="mt-3 text-sm">
+                        <summary className="cursor-pointer font-medium">Signature certificate</summary>
+                        {signature.seal ? (
+                          <dl className="mt-2 grid grid-cols-[max-content_1fr] gap-x-4 gap-y-1.5 rounded-md bg-muted p-3 text-xs">
+                            <dt className="text-muted-foreground">Signed by</dt>
+                            <dd>{signature.seal.certificate.issuedTo.name} ({signature.seal.certificate.issuedTo.role})</dd>
+                            <dt className="text-muted-foreground">Signed version</dt>
+                            <dd>Version {signature.seal.versionNumber}</dd>
+                            <dt className="text-muted-foreground">Document hash</dt>
+                            <dd className="font-mono break-all">SHA-256 {signature.seal.contentHash}</dd>
+                            <dt className="text-muted-foreground">Algorithm</dt>
+                            <dd>{signature.seal.certificate.algorithm}</dd>
+                            <dt className="text-muted-foreground">Key fingerprint</dt>
+                            <dd className="font-mono break-all">{signature.seal.certificate.fingerprint}</dd>
+                            <dt className="text-muted-foreground">Key issued</dt>
+                            <dd>{new Date(signature.seal.certificate.issuedAt).toLocaleString()}</dd>
+                            <dt className="text-muted-foreground">Signature</dt>
+                            <dd className="font-mono break-all line-clamp-2">{signature.seal.signatureValue}</dd>
+                          </dl>
+                        ) : (
+                          <p className="mt-2 text-xs text-muted-foreground">
+                            No certificate. This signature was added before signatures were sealed cryptographically.
+                          </p>
+                        )}
+                        {signature.lastCheck && (
+                          <p className={`mt-2 flex items-start gap-1.5 text-xs ${signature.verified ? "text-green-600" : "text-destructive"}`}>
+                            {signature.verified
+                              ? <ShieldCheck className="h-3.5 w-3.5 shrink-0" />
+                              : <ShieldAlert className="h-3.5 w-3.5 shrink-0" />}
+                            {SIGNATURE_CHECK_LABELS[signature.lastCheck.status]}
+                            {" "}(checked {new Date(signature.lastCheck.checkedAt).toLocaleString()})
+                          </p>
+                        )}
+                      </details>
                     </div>
                   ))}
                 </div>
@@ -208,6 +270,32 @@ export function DocumentSignatureModal({
                 </div>
               )}
             </TabsContent>
+
+            <TabsContent value="timeline" className="py-4">
+              {document.envelopes && document.envelopes.length > 0 ? (
+                <div className="space-y-6">
+                  {[...document.envelopes].reverse().map((envelope) => (
+                    <div key={envelope.id} className="space-y-3">
+                      <div className="flex items-center justify-between">
+                        <h4 className="text-sm font-medium">
+                          Sent {new Date(envelope.createdAt).toLocaleString()}
+                        </h4>
+                        <Badge variant={envelope.status === "declined" ? "destructive" : envelope.status === "in-progress" ? "outline" : "secondary"}>
+                          {ENVELOPE_STATUS_LABELS[envelope.status]}
+                        </Badge>
+                      </div>
+                      <EnvelopeTimeline envelope={envelope} />
+                    </div>
+                  ))}
+                </div>
+              ) : (
+                <div className="text-center py-8">
+                  <p className="text-muted-foreground">
+                    This document hasn't been sent for signature.
+                  </p>
+                </div>
+              )}
+            </TabsContent>
           </Tabs>
         )}
       </DialogContent>
@@ -4,6 +4,8 @@ import { Outlet } from "react-router-dom";
 import { cn } from "@/lib/utils";
 import { DashboardSidebar } from "./DashboardSidebar";
 import { DashboardHeader } from "./DashboardHeader";
+import { GrievanceSurveyNotifier } from "@/components/dashboard/GrievanceSurveyNotifier";
+import { SigningEnvelopeNotifier } from "@/components/dashboard/SigningEnvelopeNotifier";
 
 export function DashboardLayout() {
   const [sidebarCollapsed, setSidebarCollapsed] = useState(false);
@@ -11,6 +13,8 @@ export function DashboardLayout() {
   return (
     <div className="h-screen flex flex-col overflow-hidden bg-background">
       <DashboardHeader sidebarCollapsed={sidebarCollapsed} setSidebarCollapsed={setSidebarCollapsed} />
+      <GrievanceSurveyNotifier />
+      <SigningEnvelopeNotifier />
       
       <div className="flex flex-1 overflow-hidden">
         <DashboardSidebar collapsed={sidebarCollapsed} />
@@ -19,7 +19,8 @@ import {
   ChevronRightSquare,
   ClipboardList,
   Package,
-  BrainCircuit
+  BrainCircuit,
+  Timer
 } from "lucide-react";
 import { useAuth } from "@/components/AuthProvider";
 
@@ -109,6 +110,13 @@ export function DashboardSidebar({ collapsed }: DashboardSidebarProps) {
             collapsed={collapsed} 
             active={location.pathname === "/tasks"} 
           />
+          <SidebarItem 
+            icon={Timer} 
+            label="Timesheets" 
+            to="/timesheets" 
+            collapsed={collapsed} 
+            active={location.pathname === "/timesheets"} 
+          />
           <SidebarItem 
             icon={BarChart3} 
             label="Analytics" 
@@ -1,4 +1,6 @@
 import axios from 'axios';
+import type { Task } from '@/components/TasksProvider';
+import type { TimeEntry } from '@/components/TimeTrackingProvider';
 
 // Base API URL from environment variable or default to localhost
 const API_BASE_URL = import.meta.env.VITE_API_BASE_URL || 'http://localhost:5000/api';
@@ -33,6 +35,12 @@ export interface EfficiencyData {
   totalCompletedTasks: number;
 }
 
+// Time logged in the app, used to measure actual effort per task
+export interface LoggedTimeData {
+  tasks: Task[];
+  timeEntries: TimeEntry[];
+}
+
 export interface SkillsData {
   skillsCoverage: {
     skill: string;
@@ -277,6 +285,41 @@ const SAMPLE_SKILLS_DATA = {
   ]
 };
 
+/**
+ * Average hours actually logged per completed task, by priority. Only
+ * completed tasks with time logged against them are counted.
+ */
+export const calculateEfficiencyFromLoggedTime = (
+  { tasks, timeEntries }: LoggedTimeData,
+  departmentId?: string
+): EfficiencyData => {
+  const minutesByTask: Record<string, number> = {};
+  timeEntries.forEach(entry => {
+    minutesByTask[entry.taskId] = (minutesByTask[entry.taskId] || 0) + entry.minutes;
+  });
+
+  const measuredTasks = tasks.filter(task =>
+    task.status === 'completed' &&
+    minutesByTask[task.id] > 0 &&
+    (!departmentId || departmentId === 'all' || task.department === departmentId)
+  );
+  const hoursFor = (list: Task[]) => list.reduce((sum, task) => sum + minutesByTask[task.id] / 60, 0);
+  const round = (value: number) => Math.round(value * 10) / 10;
+
+  return {
+    efficiencyByPriority: ['high', 'medium', 'low'].map(priority => {
+      const priorityTasks = measuredTasks.filter(task => task.priority === priority);
+      return {
+        priority,
+        avgCompletionHours: priorityTasks.length ? round(hoursFor(priorityTasks) / priorityTasks.length) : 0,
+        taskCount: priorityTasks.length,
+      };
+    }),
+    overallAvgCompletionHours: measuredTasks.length ? round(hoursFor(measuredTasks) / measuredTasks.length) : 0,
+    totalCompletedTasks: measuredTasks.length,
+  };
+};
+
 // Add a flag to block certain API calls
 let blockPredictionApiCalls = false;
 
@@ -349,8 +392,20 @@ export const analyticsService = {
     );
   },
 
-  // Department Efficiency
-  getDepartmentEfficiency: async (departmentId: string, timeframe?: Timeframe): Promise<EfficiencyData> => {
+  // Department Efficiency. Time is logged in the app, so when logged hours
+  // are passed in they take precedence over the server's estimates.
+  getDepartmentEfficiency: async (
+    departmentId: string, 
+    timeframe?: Timeframe, 
+    loggedTime?: LoggedTimeData
+  ): Promise<EfficiencyData> => {
+    if (loggedTime) {
+      const measured = calculateEfficiencyFromLoggedTime(loggedTime, departmentId);
+      if (measured.totalCompletedTasks > 0) {
+        return measured;
+      }
+    }
+
     if (isOfflineMode()) {
       return SAMPLE_EFFICIENCY_DATA;
     }
@@ -0,0 +1,124 @@
+/**
+ * Anonymous Grievances
+ *
+ * Case tokens for anonymous grievances. An anonymous submission isn't linked
+ * to any user; instead the submitter is shown a random case token once and
+ * only its SHA-256 hash is kept, so whoever holds the token can follow the
+ * case and reply on the public case status page without signing in.
+ */
+
+import type { Grievance, GrievanceComment, GrievanceStatus } from '@/components/GrievanceProvider';
+
+// Stand-in submitter for grievances that aren't linked to a user
+export const ANONYMOUS_SUBMITTER = 'anonymous';
+export const ANONYMOUS_SUBMITTER_NAME = 'Anonymous';
+
+// No 0/O or 1/I so tokens can be read back without confusion
+const TOKEN_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+const TOKEN_GROUPS = 4;
+const TOKEN_GROUP_LENGTH = 4;
+
+// What the submitter sees of their case: no assignee and no internal notes
+export interface PublicCaseView {
+  id: string;
+  title: string;
+  category: Grievance['category'];
+  department: string;
+  status: GrievanceStatus;
+  createdAt: string;
+  updatedAt: string;
+  resolution?: string;
+  rejectionReason?: string;
+  // Set once the case was merged into another report of the same issue
+  mergedCase?: { status: GrievanceStatus; resolution?: string; rejectionReason?: string; updatedAt: string };
+  statusHistory: { id: string; timestamp: string; status: GrievanceStatus; message: string }[];
+  comments: { id: string; text: string; author: string; createdAt: string; fromSubmitter: boolean }[];
+}
+
+// Staff comments on status changes can name handlers and other employees,
+// so the submitter only ever sees one of these generic messages
+const PUBLIC_STATUS_MESSAGES: Record<GrievanceStatus, string> = {
+  pending: 'Your report was received',
+  'in-review': 'Under review by the people handling your case',
+  escalated: 'Escalated for senior review',
+  resolved: 'A resolution was reached',
+  rejected: 'Closed without further action',
+  reopened: 'Reopened for another look',
+  merged: 'Merged with a similar case',
+};
+
+/**
+ * A new random case token such as "K7QD-M2XP-9TRC-H4WN"
+ */
+export const generateCaseToken = (): string => {
+  const values = new Uint8Array(TOKEN_GROUPS * TOKEN_GROUP_LENGTH);
+  crypto.getRandomValues(values);
+  // 256 is a multiple of the alphabet size, so the modulo doesn't skew the odds
+  const chars = Array.from(values, value => TOKEN_ALPHABET[value % TOKEN_ALPHABET.length]).join('');
+  return chars.match(new RegExp(`.{${TOKEN_GROUP_LENGTH}}`, 'g'))!.join('-');
+};
+
+/**
+ * A token as typed by the submitter, ignoring case, spaces and dashes
+ */
+export const normalizeCaseToken = (token: string): string => token.toUpperCase().replace(/[^A-Z0-9]/g, '');
+
+/**
+ * Hex SHA-256 of a normalized token; this is all that's stored
+ */
+export const hashCaseToken = async (token: string): Promise<string> => {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(normalizeCaseToken(token)));
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+};
+
+// The comments posted on this case itself: its own comments without those
+// merged in from duplicates, and those carried over into the case it was
+// merged into, including replies sent there since
+const getOwnThread = (grievance: Grievance, mergedInto?: Grievance): GrievanceComment[] => [
+  ...grievance.comments.filter(comment => !comment.mergedFrom),
+  ...(mergedInto?.comments || []).filter(comment =>
+    comment.mergedFrom === grievance.id && !grievance.comments.some(own => own.id === comment.id)
+  ),
+];
+
+/**
+ * The parts of a grievance its anonymous submitter may see. For a merged
+ * duplicate that includes the outcome of the case it was merged into and
+ * the submitter's own replies there, but nothing from other submitters.
+ */
+export const getPublicCaseView = (grievance: Grievance, mergedInto?: Grievance): PublicCaseView => ({
+  id: grievance.id,
+  title: grievance.title,
+  category: grievance.category,
+  department: grievance.department,
+  status: grievance.status,
+  createdAt: grievance.createdAt,
+  updatedAt: grievance.updatedAt,
+  resolution: grievance.resolution,
+  rejectionReason: grievance.rejectionReason,
+  mergedCase: mergedInto && {
+    status: mergedInto.status,
+    resolution: mergedInto.resolution,
+    rejectionReason: mergedInto.rejectionReason,
+    updatedAt: mergedInto.updatedAt,
+  },
+  // Only changes of status; updates that leave it as it was (assignments,
+  // merges into this case) would just repeat the previous message
+  statusHistory: grievance.statusHistory
+    .filter((update, index, history) => index === 0 || update.status !== history[index - 1].status)
+    .map(({ id, timestamp, status }) => ({ id, timestamp, status, message: PUBLIC_STATUS_MESSAGES[status] })),
+  comments: getOwnThread(grievance, mergedInto)
+    .filter(comment => !comment.isInternal)
+    .map(comment => {
+      // Everything in the thread belongs to this case, so an anonymous
+      // comment can only be this submitter's
+      const fromSubmitter = comment.createdBy === ANONYMOUS_SUBMITTER;
+      return {
+        id: comment.id,
+        text: comment.text,
+        author: fromSubmitter ? 'You' : comment.createdByName,
+        createdAt: comment.createdAt,
+        fromSubmitter,
+      };
+    }),
+});
@@ -0,0 +1,113 @@
+/**
+ * Assignee Recommendation
+ *
+ * Ranks team members for a task by how well their skills cover the task's
+ * requirements, how many open tasks they already carry and whether they
+ * are available, keeping the reasons behind each score so they can be
+ * shown next to the suggestion.
+ */
+
+import type { ProficiencyLevel, TeamMember } from '@/components/DepartmentsProvider';
+import type { SkillRequirement } from '@/components/TasksProvider';
+
+export const PROFICIENCY_LABELS: Record<ProficiencyLevel, string> = {
+  1: 'Beginner',
+  2: 'Basic',
+  3: 'Intermediate',
+  4: 'Advanced',
+  5: 'Expert',
+};
+
+export interface AssigneeSuggestion {
+  member: TeamMember;
+  score: number; // 0 – 100
+  skillMatch: number; // 0 – 1
+  openTasks: number;
+  available: boolean;
+  reasons: string[];
+}
+
+// Relative weight of each factor in the overall score
+const WEIGHTS = { skills: 0.6, load: 0.25, department: 0.15 };
+// Members who are away keep this share of their score
+const UNAVAILABLE_FACTOR = 0.3;
+
+const sameSkill = (a: string, b: string) => a.trim().toLowerCase() === b.trim().toLowerCase();
+
+/**
+ * Score team members for a task, best first. Inactive members are left out;
+ * members on vacation or leave are kept but ranked down.
+ */
+export const rankAssignees = (
+  members: TeamMember[],
+  requirements: SkillRequirement[],
+  getOpenTaskCount: (memberId: string) => number,
+  department?: string
+): AssigneeSuggestion[] => {
+  return members
+    .filter(member => member.status !== 'inactive')
+    .map(member => {
+      const reasons: string[] = [];
+      const skills = member.skills || [];
+
+      // Skill coverage: each requirement counts fully once the member's
+      // level reaches the required level, partially below it
+      let skillMatch = 1;
+      if (requirements.length > 0) {
+        const met: string[] = [];
+        const partial: string[] = [];
+        const missing: string[] = [];
+        const coverage = requirements.map(requirement => {
+          const skill = skills.find(s => sameSkill(s.name, requirement.skill));
+          if (!skill) {
+            missing.push(requirement.skill);
+            return 0;
+          }
+          if (skill.level >= requirement.level) {
+            met.push(`${requirement.skill} (${PROFICIENCY_LABELS[skill.level]})`);
+            return 1;
+          }
+          partial.push(`${requirement.skill} ${skill.level}/${requirement.level}`);
+          return skill.level / requirement.level;
+        });
+        skillMatch = coverage.reduce((sum, value) => sum + value, 0) / requirements.length;
+
+        reasons.push(`Meets ${met.length} of ${requirements.length} required skills${met.length ? `: ${met.join(', ')}` : ''}`);
+        if (partial.length) reasons.push(`Below required level in ${partial.join(', ')}`);
+        if (missing.length) reasons.push(`Missing ${missing.join(', ')}`);
+      } else {
+        reasons.push('No skills required');
+      }
+
+      // Workload: every open task lowers the score a little
+      const openTasks = getOpenTaskCount(member.id);
+      const loadScore = 1 / (1 + openTasks * 0.5);
+      reasons.push(openTasks === 0 ? 'No open tasks' : `${openTasks} open task${openTasks === 1 ? '' : 's'}`);
+
+      const inDepartment = !department || member.department === department;
+      if (department) {
+        reasons.push(inDepartment ? `In ${department}` : `From ${member.department}`);
+      }
+
+      const available = member.status === 'active';
+      if (!available) {
+        reasons.push(`Currently on ${member.status}`);
+      }
+
+      const score = (
+        WEIGHTS.skills * skillMatch +
+        WEIGHTS.load * loadScore +
+        WEIGHTS.department * (inDepartment ? 1 : 0)
+      ) * (available ? 1 : UNAVAILABLE_FACTOR);
+
+      return {
+        member,
+        score: Math.round(score * 100),
+        skillMatch,
+        openTasks,
+        available,
+        reasons,
+      };
+    })
+    .sort((a, b) => b.score - a.score || a.member.name.localeCompare(b.member.name));
+};
@@ -0,0 +1,119 @@
+/**
+ * Document Retention
+ *
+ * Retention policies say how long documents must be kept and what happens
+ * to them afterwards. A policy picks documents by tag, department or type
+ * and keeps them for a number of years from when they were created or last
+ * changed, then archives or deletes them. Where several policies apply the
+ * one that keeps the document longest wins, so nothing is disposed of
+ * earlier than any policy allows. Documents on legal hold are never deleted.
+ */
+
+import { addYears, differenceInCalendarDays, isBefore } from 'date-fns';
+import type { Document, DocumentType } from '@/components/DocumentProvider';
+
+export type RetentionAction = 'archive' | 'delete';
+export type RetentionStart = 'created' | 'updated';
+
+export interface RetentionPolicy {
+  id: string;
+  name: string;
+  // A document must match every criterion that's set, and any one value within it
+  tags: string[];
+  departments: string[];
+  types: DocumentType[];
+  retainYears: number;
+  from: RetentionStart;
+  action: RetentionAction;
+  createdBy: string;
+  createdAt: string;
+}
+
+export interface LegalHold {
+  reason: string;
+  placedBy: string;
+  placedByName: string;
+  placedAt: string;
+}
+
+export interface ScheduledRetention {
+  document: Document;
+  policy: RetentionPolicy;
+  action: RetentionAction;
+  dueDate: string;
+  daysUntilDue: number; // negative once overdue
+  blockedByHold: boolean;
+}
+
+export const RETENTION_ACTION_LABELS: Record<RetentionAction, string> = {
+  archive: 'Archive',
+  delete: 'Delete',
+};
+
+export const RETENTION_START_LABELS: Record<RetentionStart, string> = {
+  created: 'creation',
+  updated: 'last update',
+};
+
+// How far ahead the retention report looks by default
+export const RETENTION_REPORT_DAYS = 90;
+
+/**
+ * Why the policy can't be saved, or null if it can
+ */
+export const validateRetentionPolicy = (policy: Pick<RetentionPolicy, 'name' | 'tags' | 'departments' | 'types' | 'retainYears'>): string | null => {
+  if (!policy.name.trim()) return 'Give the policy a name';
+  if (policy.tags.length === 0 && policy.departments.length === 0 && policy.types.length === 0) {
+    return 'Choose at least one tag, department or type';
+  }
+  if (!Number.isInteger(policy.retainYears) || policy.retainYears < 1) return 'Retain documents for at least a year';
+  return null;
+};
+
+export const policyApplies = (policy: RetentionPolicy, document: Document): boolean =>
+  (policy.tags.length === 0 || policy.tags.some(tag => document.tags.includes(tag))) &&
+  (policy.departments.length === 0 || policy.departments.includes(document.department)) &&
+  (policy.types.length === 0 || policy.types.includes(document.type));
+
+export const getRetentionDueDate = (document: Document, policy: RetentionPolicy): Date =>
+  addYears(new Date(policy.from === 'created' ? document.createdAt : document.updatedAt), policy.retainYears);
+
+/**
+ * The policy that decides a document's fate: whichever keeps it longest,
+ * archiving before deleting when two end on the same day
+ */
+export const getGoverningPolicy = (document: Document, policies: RetentionPolicy[]): RetentionPolicy | undefined =>
+  policies
+    .filter(policy => policyApplies(policy, document))
+    .sort((a, b) => {
+      const difference = getRetentionDueDate(document, b).getTime() - getRetentionDueDate(document, a).getTime();
+      if (difference !== 0) return difference;
+      return a.action === b.action ? 0 : a.action === 'archive' ? -1 : 1;
+    })[0];
+
+/**
+ * The next retention action for every document a policy covers, soonest first.
+ * Archived documents only appear when they are due for deletion.
+ */
+export const getRetentionSchedule = (documents: Document[], policies: RetentionPolicy[], now: Date = new Date()): ScheduledRetention[] =>
+  documents
+    .flatMap(document => {
+      const policy = getGoverningPolicy(document, policies);
+      if (!policy || (policy.action === 'archive' && document.status === 'archived')) return [];
+      const dueDate = getRetentionDueDate(document, policy);
+      return [{
+        document,
+        policy,
+        action: policy.action,
+        dueDate: dueDate.toISOString(),
+        daysUntilDue: differenceInCalendarDays(dueDate, now),
+        blockedByHold: policy.action === 'delete' && !!document.legalHold,
+      }];
+    })
+    .sort((a, b) => a.dueDate.localeCompare(b.dueDate));
+
+/**
+ * Actions whose time has come and that nothing is holding back
+ */
+export const getDueRetentionActions = (documents: Document[], policies: RetentionPolicy[], now: Date = new Date()): ScheduledRetention[] =>
+  getRetentionSchedule(documents, policies, now).filter(item => !item.blockedByHold && !isBefore(now, new Date(item.dueDate)));
@@ -0,0 +1,283 @@
+/**
+ * Document Search
+ *
+ * A client-side inverted index over each document's title, description,
+ * tags and the text of its latest version. Every word is kept with its
+ * position so queries can ask for exact phrases ("notice period"), and a
+ * trailing asterisk matches any word starting with what was typed (contra*).
+ * The last word of a query is still being typed, so it matches as a prefix
+ * too until a space follows it.
+ * All parts of a query must match. Results are ranked with BM25, with title
+ * and tag matches counting for more, and come with a snippet of the text
+ * around the matches.
+ */
+
+import type { Document } from '@/components/DocumentProvider';
+import { getLatestVersion } from '@/lib/documentSigning';
+
+export type SearchField = 'title' | 'tags' | 'description' | 'content';
+
+export interface SnippetPart {
+  text: string;
+  highlight: boolean;
+}
+
+export interface DocumentSearchHit {
+  documentId: string;
+  score: number;
+  fields: SearchField[]; // where it matched
+  snippet: SnippetPart[];
+  snippetField: SearchField;
+}
+
+export interface DocumentSearchResult extends DocumentSearchHit {
+  document: Document;
+}
+
+// A parsed query part: one word, a word prefix or a phrase
+export interface SearchClause {
+  type: 'term' | 'prefix' | 'phrase';
+  terms: string[];
+}
+
+interface Token {
+  term: string;
+  start: number;
+  end: number;
+}
+
+interface IndexedField {
+  text: string;
+  tokens: Token[];
+}
+
+type Postings = Map<string, Map<SearchField, number[]>>; // document id -> field -> positions
+
+const FIELD_WEIGHTS: Record<SearchField, number> = {
+  title: 3,
+  tags: 2,
+  description: 1.5,
+  content: 1,
+};
+
+// Snippets come from the richest text that matched
+const SNIPPET_FIELDS: SearchField[] = ['content', 'description', 'title', 'tags'];
+
+const SNIPPET_WORDS = 24;
+const SNIPPET_LEAD_WORDS = 6;
+
+// BM25 tuning
+const K1 = 1.2;
+const B = 0.75;
+
+const WORD = /[\p{L}\p{N}]+(?:['’][\p{L}]+)*/gu;
+
+const tokenize = (text: string): Token[] =>
+  Array.from(text.matchAll(WORD), match => ({
+    term: match[0].toLowerCase().replace(/’/g, "'"),
+    start: match.index!,
+    end: match.index! + match[0].length,
+  }));
+
+/**
+ * Split a query into phrases in double quotes, prefixes ending in * and
+ * single words. An unquoted word at the very end is a prefix as well.
+ */
+export const parseSearchQuery = (query: string): SearchClause[] => {
+  const clauses: SearchClause[] = [];
+  for (const match of query.matchAll(/"([^"]*)"?|(\S+)/g)) {
+    if (match[1] !== undefined) {
+      const terms = tokenize(match[1]).map(token => token.term);
+      if (terms.length === 1) clauses.push({ type: 'term', terms });
+      else if (terms.length > 1) clauses.push({ type: 'phrase', terms });
+      continue;
+    }
+    const isPrefix = match[2].endsWith('*') || match.index! + match[0].length === query.length;
+    const terms = tokenize(match[2]).map(token => token.term);
+    terms.forEach((term, index) => {
+      clauses.push({ type: isPrefix && index === terms.length - 1 ? 'prefix' : 'term', terms: [term] });
+    });
+  }
+  return clauses;
+};
+
+export class DocumentSearchIndex {
+  private postings = new Map<string, Postings>(); // term -> postings
+  private fields = new Map<string, Record<SearchField, IndexedField>>(); // document id -> its indexed text
+  private totalLengths: Record<SearchField, number> = { title: 0, tags: 0, description: 0, content: 0 };
+
+  constructor(documents: Document[] = [], getTagName: (tagId: string) => string | undefined = () => undefined) {
+    documents.forEach(document => this.add(document, getTagName));
+  }
+
+  get size(): number {
+    return this.fields.size;
+  }
+
+  /**
+   * Index a document, replacing what was indexed for it before
+   */
+  add(document: Document, getTagName: (tagId: string) => string | undefined = () => undefined): void {
+    this.remove(document.id);
+
+    const tagNames = document.tags.map(tagId => getTagName(tagId)).filter((name): name is string => !!name);
+    const texts: Record<SearchField, string> = {
+      title: document.title,
+      tags: tagNames.join(', '),
+      description: document.description,
+      content: getLatestVersion(document)?.content || '',
+    };
+
+    const indexed = {} as Record<SearchField, IndexedField>;
+    (Object.keys(texts) as SearchField[]).forEach(field => {
+      const tokens = tokenize(texts[field]);
+      indexed[field] = { text: texts[field], tokens };
+      this.totalLengths[field] += tokens.length;
+      tokens.forEach((token, position) => {
+        let postings = this.postings.get(token.term);
+        if (!postings) this.postings.set(token.term, (postings = new Map()));
+        let byField = postings.get(document.id);
+        if (!byField) postings.set(document.id, (byField = new Map()));
+        const positions = byField.get(field);
+        if (positions) positions.push(position);
+        else byField.set(field, [position]);
+      });
+    });
+    this.fields.set(document.id, indexed);
+  }
+
+  remove(documentId: string): void {
+    const indexed = this.fields.get(documentId);
+    if (!indexed) return;
+
+    (Object.keys(indexed) as SearchField[]).forEach(field => {
+      this.totalLengths[field] -= indexed[field].tokens.length;
+      indexed[field].tokens.forEach(({ term }) => {
+        const postings = this.postings.get(term);
+        postings?.delete(documentId);
+        if (postings && postings.size === 0) this.postings.delete(term);
+      });
+    });
+    this.fields.delete(documentId);
+  }
+
+  /**
+   * Documents matching every part of the query, best first. `canAccess`
+   * leaves out documents the searcher isn't allowed to see.
+   */
+  search(query: string, canAccess: (documentId: string) => boolean = () => true): DocumentSearchHit[] {
+    const clauses = parseSearchQuery(query);
+    if (clauses.length === 0) return [];
+
+    // Where each clause matched, per document and field
+    const clauseMatches = clauses.map(clause => this.matchClause(clause));
+    const [first, ...rest] = clauseMatches;
+    const candidates = Array.from(first.keys()).filter(
+      documentId => canAccess(documentId) && rest.every(matches => matches.has(documentId))
+    );
+
+    return candidates
+      .map(documentId => this.score(documentId, clauseMatches))
+      .sort((a, b) => b.score - a.score);
+  }
+
+  // For each document the clause matches: field -> positions of the matched words
+  private matchClause(clause: SearchClause): Map<string, Map<SearchField, number[]>> {
+    if (clause.type === 'term') return this.postings.get(clause.terms[0]) || new Map();
+
+    if (clause.type === 'prefix') {
+      const merged = new Map<string, Map<SearchField, number[]>>();
+      this.postings.forEach((postings, term) => {
+        if (!term.startsWith(clause.terms[0])) return;
+        postings.forEach((byField, documentId) => {
+          let into = merged.get(documentId);
+          if (!into) merged.set(documentId, (into = new Map()));
+          byField.forEach((positions, field) => into!.set(field, [...(into!.get(field) || []), ...positions]));
+        });
+      });
+      return merged;
+    }
+
+    // A phrase matches where its words follow one another in the same field
+    const [head, ...tail] = clause.terms;
+    const matches = new Map<string, Map<SearchField, number[]>>();
+    this.postings.get(head)?.forEach((byField, documentId) => {
+      byField.forEach((starts, field) => {
+        const found = starts.filter(start =>
+          tail.every((term, offset) => this.postings.get(term)?.get(documentId)?.get(field)?.includes(start + offset + 1))
+        );
+        if (found.length === 0) return;
+        let into = matches.get(documentId);
+        if (!into) matches.set(documentId, (into = new Map()));
+        into.set(field, found.flatMap(start => clause.terms.map((_, offset) => start + offset)));
+      });
+    });
+    return matches;
+  }
+
+  private score(documentId: string, clauseMatches: Map<string, Map<SearchField, number[]>>[]): DocumentSearchHit {
+    const indexed = this.fields.get(documentId)!;
+    const total = this.fields.size;
+    const matchedPositions: Partial<Record<SearchField, Set<number>>> = {};
+    let score = 0;
+
+    clauseMatches.forEach(matches => {
+      const idf = Math.log(1 + (total - matches.size + 0.5) / (matches.size + 0.5));
+      matches.get(documentId)!.forEach((positions, field) => {
+        const length = indexed[field].tokens.length;
+        const averageLength = this.totalLengths[field] / total || 1;
+        const frequency = positions.length;
+        score += FIELD_WEIGHTS[field] * idf * (frequency * (K1 + 1)) / (frequency + K1 * (1 - B + B * (length / averageLength)));
+        positions.forEach(position => (matchedPositions[field] ||= new Set()).add(position));
+      });
+    });
+
+    const fields = (Object.keys(matchedPositions) as SearchField[]).sort((a, b) => FIELD_WEIGHTS[b] - FIELD_WEIGHTS[a]);
+    const snippetField = SNIPPET_FIELDS.find(field => matchedPositions[field]) || 'title';
+    return {
+      documentId,
+      score,
+      fields,
+      snippet: buildSnippet(indexed[snippetField], matchedPositions[snippetField] || new Set()),
+      snippetField,
+    };
+  }
+}
+
+// The stretch of text with the most matches, matched words highlighted
+const buildSnippet = ({ text, tokens }: IndexedField, matched: Set<number>): SnippetPart[] => {
+  if (tokens.length === 0) return [{ text, highlight: false }];
+
+  // Start a little before the densest window of matches
+  const positions = Array.from(matched).sort((a, b) => a - b);
+  let best = positions[0] ?? 0;
+  let bestCount = 0;
+  positions.forEach(position => {
+    const count = positions.filter(p => p >= position && p < position + SNIPPET_WORDS - SNIPPET_LEAD_WORDS).length;
+    if (count > bestCount) {
+      best = position;
+      bestCount = count;
+    }
+  });
+  const first = Math.max(0, Math.min(best - SNIPPET_LEAD_WORDS, tokens.length - SNIPPET_WORDS));
+  const last = Math.min(tokens.length, first + SNIPPET_WORDS) - 1;
+
+  const parts: SnippetPart[] = [];
+  const push = (part: string, highlight: boolean) => {
+    if (!part) return;
+    const previous = parts[parts.length - 1];
+    if (previous && previous.highlight === highlight) previous.text += part;
+    else parts.push({ text: part, highlight });
+  };
+
+  let cursor = first === 0 ? 0 : tokens[first].start;
+  if (first > 0) push('… ', false);
+  for (let position = first; position <= last; position++) {
+    const token = tokens[position];
+    push(text.slice(cursor, token.start), false);
+    push(text.slice(token.start, token.end), matched.has(position));
+    cursor = token.end;
+  }
+  push(last === tokens.length - 1 ? text.slice(cursor) : ' …', false);
+  return parts.map(part => ({ ...part, text: part.text.replace(/\s+/g, ' ') }));
+};
@@ -0,0 +1,187 @@
+/**
+ * Document Signing
+ *
+ * Cryptographic document signatures using WebCrypto. Every signer gets an
+ * ECDSA P-256 key pair whose private key never leaves the browser's crypto
+ * store. A signature covers a SHA-256 hash of the exact document version
+ * that was signed together with the signer's details, so any later change
+ * to that version, to the signature's details or a newer version of the
+ * document makes verification fail.
+ */
+
+import type { Document, DocumentSignature, DocumentVersion } from '@/components/DocumentProvider';
+
+export const SIGNATURE_ALGORITHM_LABEL = 'ECDSA P-256 with SHA-256';
+
+const KEY_ALGORITHM: EcKeyGenParams = { name: 'ECDSA', namedCurve: 'P-256' };
+const SIGN_ALGORITHM: EcdsaParams = { name: 'ECDSA', hash: 'SHA-256' };
+
+export type SignatureCheckStatus = 'valid' | 'document-changed' | 'newer-version' | 'tampered' | 'unknown-key' | 'unsigned';
+
+export interface SignatureCheck {
+  status: SignatureCheckStatus;
+  checkedAt: string;
+}
+
+// A signer's public key, as shown on their signature certificates
+export interface SignatureCertificate {
+  algorithm: string;
+  publicKey: JsonWebKey;
+  fingerprint: string; // SHA-256 of the public key, hex in groups of four
+  issuedTo: { id: string; name: string; role: string };
+  issuedAt: string;
+}
+
+export interface SigningKey {
+  privateKey: CryptoKey; // not extractable
+  certificate: SignatureCertificate;
+}
+
+// Everything a signature vouches for
+export interface SignedPayload {
+  documentId: string;
+  versionId: string;
+  versionNumber: number;
+  contentHash: string;
+  signerId: string;
+  signerName: string;
+  signerRole: string;
+  signedAt: string;
+  signatureType: DocumentSignature['signatureType'];
+  appearanceHash: string; // the drawn or typed signature shown on the document
+}
+
+export const SIGNATURE_CHECK_LABELS: Record<SignatureCheckStatus, string> = {
+  valid: "The signature is valid and the document hasn't changed since it was signed",
+  'document-changed': 'The signed version of the document has been altered since it was signed',
+  'newer-version': 'The document has a newer version than the one that was signed',
+  tampered: "The signature doesn't match its details; it may have been tampered with",
+  'unknown-key': "The signing key doesn't belong to the signer",
+  unsigned: "This signature has no cryptographic seal and can't be verified",
+};
+
+const toHex = (buffer: ArrayBuffer) => Array.from(new Uint8Array(buffer), byte => byte.toString(16).padStart(2, '0')).join('');
+
+const toBase64 = (buffer: ArrayBuffer) => btoa(String.fromCharCode(...new Uint8Array(buffer)));
+
+const fromBase64 = (text: string) => Uint8Array.from(atob(text), char => char.charCodeAt(0));
+
+const sha256 = async (text: string) => toHex(await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text)));
+
+/**
+ * Hex SHA-256 of a document version. Versions carry no file bytes here, so
+ * the hash covers the version record, including the file it points to and
+ * the text of text documents.
+ */
+export const hashDocumentVersion = (document: Pick<Document, 'id'>, version: DocumentVersion): Promise<string> =>
+  sha256(JSON.stringify([
+    document.id,
+    version.id,
+    version.version,
+    version.fileUrl,
+    version.updatedAt,
+    version.updatedBy,
+    version.changeDescription,
+    version.fileSize ?? null,
+    version.content ?? null,
+  ]));
+
+export const hashSignatureAppearance = (signatureData: string): Promise<string> => sha256(signatureData);
+
+/**
+ * A fingerprint such as "3f1a 9c0e …" of the public key
+ */
+export const getKeyFingerprint = async (publicKey: JsonWebKey): Promise<string> => {
+  const hex = await sha256(JSON.stringify([publicKey.kty, publicKey.crv, publicKey.x, publicKey.y]));
+  return hex.match(/.{4}/g)!.join(' ');
+};
+
+/**
+ * A new key pair for a signer, with the certificate for its public half
+ */
+export const generateSigningKey = async (signer: SignatureCertificate['issuedTo']): Promise<SigningKey> => {
+  const keyPair = await crypto.subtle.generateKey(KEY_ALGORITHM, false, ['sign', 'verify']);
+  const publicKey = await crypto.subtle.exportKey('jwk', keyPair.publicKey);
+  return {
+    privateKey: keyPair.privateKey,
+    certificate: {
+      algorithm: SIGNATURE_ALGORITHM_LABEL,
+      publicKey,
+      fingerprint: await getKeyFingerprint(publicKey),
+      issuedTo: signer,
+      issuedAt: new Date().toISOString(),
+    },
+  };
+};
+
+// Fixed field order, so the same details always produce the same bytes
+const serializePayload = (payload: SignedPayload) =>
+  new TextEncoder().encode(JSON.stringify([
+    payload.documentId,
+    payload.versionId,
+    payload.versionNumber,
+    payload.contentHash,
+    payload.signerId,
+    payload.signerName,
+    payload.signerRole,
+    payload.signedAt,
+    payload.signatureType,
+    payload.appearanceHash,
+  ]));
+
+/**
+ * Base64 ECDSA signature over the payload
+ */
+export const signPayload = async (privateKey: CryptoKey, payload: SignedPayload): Promise<string> =>
+  toBase64(await crypto.subtle.sign(SIGN_ALGORITHM, privateKey, serializePayload(payload)));
+
+export const verifyPayload = async (publicKey: JsonWebKey, payload: SignedPayload, signatureValue: string): Promise<boolean> => {
+  try {
+    const key = await crypto.subtle.importKey('jwk', publicKey, KEY_ALGORITHM, false, ['verify']);
+    return await crypto.subtle.verify(SIGN_ALGORITHM, key, fromBase64(signatureValue), serializePayload(payload));
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * The latest version of a document, which is what gets signed
+ */
+export const getLatestVersion = (document: Document): DocumentVersion | undefined =>
+  document.versions.reduce<DocumentVersion | undefined>(
+    (latest, version) => (!latest || version.version > latest.version ? version : latest),
+    undefined
+  );
+
+/**
+ * Check a signature against the document as it is now and the signer's
+ * registered certificate
+ */
+export const checkSignature = async (
+  document: Document,
+  signature: DocumentSignature,
+  registered: SignatureCertificate | undefined
+): Promise<SignatureCheckStatus> => {
+  const { seal } = signature;
+  if (!seal) return 'unsigned';
+  if (!registered || registered.fingerprint !== seal.certificate.fingerprint) return 'unknown-key';
+
+  const version = document.versions.find(v => v.id === seal.versionId);
+  if (!version || (await hashDocumentVersion(document, version)) !== seal.contentHash) return 'document-changed';
+
+  const payload: SignedPayload = {
+    documentId: document.id,
+    versionId: version.id,
+    versionNumber: version.version,
+    contentHash: seal.contentHash,
+    signerId: signature.userId,
+    signerName: signature.userName,
+    signerRole: signature.userRole,
+    signedAt: signature.signedAt,
+    signatureType: signature.signatureType,
+    appearanceHash: await hashSignatureAppearance(signature.signatureData),
+  };
+  if (!(await verifyPayload(registered.publicKey, payload, seal.signatureValue))) return 'tampered';
+
+  return getLatestVersion(document)?.id === version.id ? 'valid' : 'newer-version';
+};
@@ -0,0 +1,267 @@
+/**
+ * Document Version Diff
+ *
+ * Compares two versions of a document. Text documents are compared line by
+ * line using Myers' diff algorithm, with changed lines compared word by word
+ * so the exact edit can be highlighted, and laid out either inline or side
+ * by side. Other documents only carry metadata, so their versions are
+ * compared field by field.
+ */
+
+import { format } from 'date-fns';
+import type { Document, DocumentType, DocumentVersion } from '@/components/DocumentProvider';
+
+export type DiffOp = 'equal' | 'insert' | 'delete';
+
+export interface DiffEdit {
+  op: DiffOp;
+  value: string;
+}
+
+export interface DiffLine {
+  op: DiffOp;
+  text: string;
+  oldNumber?: number;
+  newNumber?: number;
+  words?: DiffEdit[]; // for a changed line, how it differs from its counterpart
+}
+
+// Unchanged lines hidden between two changes
+export interface DiffGap {
+  op: 'skip';
+  count: number;
+}
+
+export interface SideBySideRow {
+  left?: DiffLine;
+  right?: DiffLine;
+}
+
+export interface MetadataChange {
+  label: string;
+  before: string;
+  after: string;
+  changed: boolean;
+}
+
+// Types whose versions keep their text, so they can be compared line by line
+export const TEXT_DOCUMENT_TYPES: DocumentType[] = ['txt', 'doc'];
+
+// Unchanged lines shown around each change
+export const DIFF_CONTEXT_LINES = 3;
+
+/**
+ * Whether two versions can be compared line by line
+ */
+export const canDiffText = (document: Pick<Document, 'type'>, ...versions: DocumentVersion[]): boolean =>
+  TEXT_DOCUMENT_TYPES.includes(document.type) && versions.every(version => typeof version.content === 'string');
+
+/**
+ * The shortest edit script turning `a` into `b` (Myers, 1986)
+ */
+export const diffSequences = (a: string[], b: string[]): DiffEdit[] => {
+  // Common prefix and suffix don't need the full search
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) start++;
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  const oldPart = a.slice(start, endA);
+  const newPart = b.slice(start, endB);
+  const n = oldPart.length;
+  const m = newPart.length;
+  const max = n + m;
+  const offset = max + 1;
+  const frontier = new Int32Array(2 * max + 3);
+  // Round d only steps from diagonals -d-1 to d+1, so that's all each round
+  // keeps; memory grows with the number of edits, not the length of the text
+  const trace: Int32Array[] = [];
+
+  // Find how far each diagonal reaches with d edits until one reaches the end
+  search: for (let d = 0; d <= max; d++) {
+    trace.push(frontier.slice(offset - d - 1, offset + d + 2));
+    for (let k = -d; k <= d; k += 2) {
+      let x = k === -d || (k !== d && frontier[offset + k - 1] < frontier[offset + k + 1])
+        ? frontier[offset + k + 1]
+        : frontier[offset + k - 1] + 1;
+      let y = x - k;
+      while (x < n && y < m && oldPart[x] === newPart[y]) {
+        x++;
+        y++;
+      }
+      frontier[offset + k] = x;
+      if (x >= n && y >= m) break search;
+    }
+  }
+
+  // Walk back through the recorded frontiers to recover the edits
+  const middle: DiffEdit[] = [];
+  let x = n;
+  let y = m;
+  for (let d = trace.length - 1; d >= 0 && (x > 0 || y > 0); d--) {
+    const previous = trace[d];
+    const base = d + 1;
+    const k = x - y;
+    const prevK = k === -d || (k !== d && previous[base + k - 1] < previous[base + k + 1]) ? k + 1 : k - 1;
+    const prevX = previous[base + prevK];
+    const prevY = prevX - prevK;
+    while (x > prevX && y > prevY) {
+      middle.push({ op: 'equal', value: oldPart[--x] });
+      y--;
+    }
+    if (d > 0) {
+      if (x === prevX) middle.push({ op: 'insert', value: newPart[--y] });
+      else middle.push({ op: 'delete', value: oldPart[--x] });
+    }
+  }
+
+  return [
+    ...a.slice(0, start).map(value => ({ op: 'equal' as const, value })),
+    ...middle.reverse(),
+    ...a.slice(endA).map(value => ({ op: 'equal' as const, value })),
+  ];
+};
+
+const splitLines = (text: string) => (text === '' ? [] : text.replace(/\r\n?/g, '\n').split('\n'));
+
+// Words and the whitespace between them, so joining the parts gives the line back
+const splitWords = (line: string) => line.match(/\s+|[^\s]+/g) || [];
+
+// Merge neighbouring parts with the same op so highlights aren't fragmented
+const mergeEdits = (edits: DiffEdit[]): DiffEdit[] =>
+  edits.reduce<DiffEdit[]>((merged, edit) => {
+    const last = merged[merged.length - 1];
+    if (last && last.op === edit.op) last.value += edit.value;
+    else merged.push({ ...edit });
+    return merged;
+  }, []);
+
+/**
+ * Line by line changes between two texts, numbered on both sides. Where
+ * lines were replaced, each removed line is paired with an added one and
+ * both carry a word-level diff.
+ */
+export const diffLines = (oldText: string, newText: string): DiffLine[] => {
+  const lines: DiffLine[] = [];
+  let oldNumber = 0;
+  let newNumber = 0;
+  diffSequences(splitLines(oldText), splitLines(newText)).forEach(({ op, value }) => {
+    if (op === 'equal') lines.push({ op, text: value, oldNumber: ++oldNumber, newNumber: ++newNumber });
+    else if (op === 'delete') lines.push({ op, text: value, oldNumber: ++oldNumber });
+    else lines.push({ op, text: value, newNumber: ++newNumber });
+  });
+
+  // Pair up each run of removed lines with the added lines that follow it
+  for (let i = 0; i < lines.length; ) {
+    if (lines[i].op !== 'delete') {
+      i++;
+      continue;
+    }
+    let removedEnd = i;
+    while (removedEnd < lines.length && lines[removedEnd].op === 'delete') removedEnd++;
+    let addedEnd = removedEnd;
+    while (addedEnd < lines.length && lines[addedEnd].op === 'insert') addedEnd++;
+    const pairs = Math.min(removedEnd - i, addedEnd - removedEnd);
+    for (let p = 0; p < pairs; p++) {
+      const removed = lines[i + p];
+      const added = lines[removedEnd + p];
+      const words = diffSequences(splitWords(removed.text), splitWords(added.text));
+      removed.words = mergeEdits(words.filter(edit => edit.op !== 'insert'));
+      added.words = mergeEdits(words.filter(edit => edit.op !== 'delete'));
+    }
+    i = addedEnd;
+  }
+  return lines;
+};
+
+/**
+ * The diff with long runs of unchanged lines folded into gaps
+ */
+export const collapseUnchanged = (lines: DiffLine[], context: number = DIFF_CONTEXT_LINES): (DiffLine | DiffGap)[] => {
+  const keep = lines.map(() => false);
+  lines.forEach((line, index) => {
+    if (line.op === 'equal') return;
+    for (let i = Math.max(0, index - context); i <= Math.min(lines.length - 1, index + context); i++) keep[i] = true;
+  });
+
+  const result: (DiffLine | DiffGap)[] = [];
+  lines.forEach((line, index) => {
+    if (keep[index]) {
+      result.push(line);
+      return;
+    }
+    const last = result[result.length - 1];
+    if (last && last.op === 'skip') last.count++;
+    else result.push({ op: 'skip', count: 1 });
+  });
+  return result;
+};
+
+/**
+ * Rows for a side-by-side view: removed lines on the left facing the lines
+ * that replaced them on the right
+ */
+export const toSideBySide = (lines: (DiffLine | DiffGap)[]): (SideBySideRow | DiffGap)[] => {
+  const rows: (SideBySideRow | DiffGap)[] = [];
+  let removed: DiffLine[] = [];
+  let added: DiffLine[] = [];
+
+  const flush = () => {
+    for (let i = 0; i < Math.max(removed.length, added.length); i++) rows.push({ left: removed[i], right: added[i] });
+    removed = [];
+    added = [];
+  };
+
+  lines.forEach(line => {
+    if (line.op === 'delete') {
+      if (added.length > 0) flush();
+      removed.push(line);
+    } else if (line.op === 'insert') {
+      added.push(line);
+    } else {
+      flush();
+      rows.push(line.op === 'skip' ? line : { left: line, right: line });
+    }
+  });
+  flush();
+  return rows;
+};
+
+export const countChanges = (lines: DiffLine[]): { added: number; removed: number } => ({
+  added: lines.filter(line => line.op === 'insert').length,
+  removed: lines.filter(line => line.op === 'delete').length,
+});
+
+const formatSize = (bytes?: number) => {
+  if (bytes === undefined) return 'Unknown';
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1048576) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / 1048576).toFixed(1)} MB`;
+};
+
+/**
+ * Field by field comparison of two versions, for documents without text
+ */
+export const diffVersionMetadata = (
+  before: DocumentVersion,
+  after: DocumentVersion,
+  getUserName: (userId: string) => string = userId => userId
+): MetadataChange[] => {
+  const fields: [string, (version: DocumentVersion) => string][] = [
+    ['Size', version => formatSize(version.fileSize)],
+    ['Uploaded by', version => getUserName(version.updatedBy)],
+    ['Uploaded', version => format(new Date(version.updatedAt), 'MMM d, yyyy p')],
+    ['Change description', version => version.changeDescription],
+    ['File', version => version.fileUrl],
+    ['Restored from', version => (version.restoredFrom ? `Version ${version.restoredFrom}` : '—')],
+  ];
+  return fields.map(([label, read]) => {
+    const oldValue = read(before);
+    const newValue = read(after);
+    return { label, before: oldValue, after: newValue, changed: oldValue !== newValue };
+  });
+};
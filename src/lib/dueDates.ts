@@ -0,0 +1,254 @@
+/**
+ * Due Dates
+ *
+ * Task due dates are stored as ISO 8601 timestamps carrying the local
+ * timezone offset (e.g. 2024-10-04T17:00:00+02:00). This module parses
+ * natural-language input such as "next Friday 5pm" into those timestamps,
+ * upgrades the free-text values older tasks were saved with, and provides
+ * the formatting and overdue helpers used across the task views.
+ */
+
+import {
+  addDays,
+  addHours,
+  addMonths,
+  addWeeks,
+  differenceInCalendarDays,
+  endOfMonth,
+  format,
+  formatISO,
+  isBefore,
+  isValid,
+  nextDay,
+  parseISO,
+  set,
+  startOfDay,
+} from 'date-fns';
+
+// Hour used when only a day is given ("tomorrow", "next Friday")
+export const DEFAULT_DUE_HOUR = 17;
+
+const WEEKDAYS = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+const MONTHS = ['january', 'february', 'march', 'april', 'may', 'june', 'july', 'august', 'september', 'october', 'november', 'december'];
+
+type Day = 0 | 1 | 2 | 3 | 4 | 5 | 6;
+
+interface TimeOfDay {
+  hours: number;
+  minutes: number;
+}
+
+const nextDayOrToday = (date: Date, day: Day): Date => {
+  return date.getDay() === day ? date : nextDay(date, day);
+};
+
+// Pull a time of day out of the input, returning it with the remaining text
+const extractTime = (input: string): { time: TimeOfDay | null; rest: string } => {
+  const named: Record<string, TimeOfDay> = {
+    noon: { hours: 12, minutes: 0 },
+    midday: { hours: 12, minutes: 0 },
+    midnight: { hours: 23, minutes: 59 },
+    eod: { hours: DEFAULT_DUE_HOUR, minutes: 0 },
+    'end of day': { hours: DEFAULT_DUE_HOUR, minutes: 0 },
+    morning: { hours: 9, minutes: 0 },
+    afternoon: { hours: 14, minutes: 0 },
+    evening: { hours: 19, minutes: 0 },
+  };
+
+  for (const [word, time] of Object.entries(named)) {
+    const pattern = new RegExp(`\\b(?:at |by |in the )?${word}\\b`);
+    if (pattern.test(input)) {
+      return { time, rest: input.replace(pattern, ' ') };
+    }
+  }
+
+  // 5pm, 5:30 pm, 11am
+  const meridiem = input.match(/\b(?:at |by )?(\d{1,2})(?::(\d{2}))?\s*(am|pm)\b/);
+  if (meridiem) {
+    let hours = parseInt(meridiem[1], 10) % 12;
+    if (meridiem[3] === 'pm') hours += 12;
+    const minutes = meridiem[2] ? parseInt(meridiem[2], 10) : 0;
+    if (hours < 24 && minutes < 60) {
+      return { time: { hours, minutes }, rest: input.replace(meridiem[0], ' ') };
+    }
+  }
+
+  // 17:00, 9:15
+  const clock = input.match(/\b(?:at |by )?([01]?\d|2[0-3]):([0-5]\d)\b/);
+  if (clock) {
+    return {
+      time: { hours: parseInt(clock[1], 10), minutes: parseInt(clock[2], 10) },
+      rest: input.replace(clock[0], ' '),
+    };
+  }
+
+  return { time: null, rest: input };
+};
+
+// Resolve the date portion of the input to the start of that day (or an
+// exact instant for hour offsets, flagged with `exact`)
+const parseDatePart = (input: string, now: Date): { date: Date; exact?: boolean } | null => {
+  const text = input.replace(/\b(on|by|due|at|the)\b/g, ' ').replace(/\s+/g, ' ').trim();
+  const today = startOfDay(now);
+
+  if (text === '') return null;
+  if (text === 'today' || text === 'tonight') return { date: today };
+  if (text === 'tomorrow' || text === 'tmrw') return { date: addDays(today, 1) };
+  if (text === 'yesterday') return { date: addDays(today, -1) };
+  if (text === 'day after tomorrow') return { date: addDays(today, 2) };
+  if (text === 'next week') return { date: addWeeks(today, 1) };
+  if (text === 'last week') return { date: addWeeks(today, -1) };
+  if (text === 'next month') return { date: addMonths(today, 1) };
+  if (text === 'end of week' || text === 'eow') return { date: nextDayOrToday(today, 5) };
+  if (text === 'end of month' || text === 'eom') return { date: startOfDay(endOfMonth(today)) };
+
+  // "in 3 days", "3 days", "2 weeks", "in 4 hours", "a week"
+  const relative = text.match(/^(?:in )?(\d+|a|an|one) (hour|day|week|month)s?(?: from now)?$/);
+  if (relative) {
+    const amount = /^\d+$/.test(relative[1]) ? parseInt(relative[1], 10) : 1;
+    switch (relative[2]) {
+      case 'hour':
+        return { date: addHours(now, amount), exact: true };
+      case 'day':
+        return { date: addDays(today, amount) };
+      case 'week':
+        return { date: addWeeks(today, amount) };
+      case 'month':
+        return { date: addMonths(today, amount) };
+    }
+  }
+
+  // "3 days ago"
+  const past = text.match(/^(\d+) (day|week)s? ago$/);
+  if (past) {
+    const amount = parseInt(past[1], 10);
+    return { date: past[2] === 'day' ? addDays(today, -amount) : addWeeks(today, -amount) };
+  }
+
+  // "friday", "this friday", "next friday", "fri"
+  const weekday = text.match(/^(?:(this|next) )?([a-z]+)$/);
+  if (weekday) {
+    const index = WEEKDAYS.findIndex(day => day === weekday[2] || day.slice(0, 3) === weekday[2]);
+    if (index !== -1) {
+      return { date: weekday[1] === 'this' ? nextDayOrToday(today, index as Day) : nextDay(today, index as Day) };
+    }
+  }
+
+  // ISO date: 2024-10-04
+  const iso = text.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  if (iso) {
+    const date = new Date(parseInt(iso[1], 10), parseInt(iso[2], 10) - 1, parseInt(iso[3], 10));
+    return isValid(date) ? { date } : null;
+  }
+
+  // "oct 4", "october 4th 2024", "4 oct"
+  const monthFirst = text.match(/^([a-z]+) (\d{1,2})(?:st|nd|rd|th)?(?:,? (\d{4}))?$/);
+  const dayFirst = text.match(/^(\d{1,2})(?:st|nd|rd|th)? ([a-z]+)(?:,? (\d{4}))?$/);
+  const calendar = monthFirst
+    ? { month: monthFirst[1], day: monthFirst[2], year: monthFirst[3] }
+    : dayFirst
+      ? { month: dayFirst[2], day: dayFirst[1], year: dayFirst[3] }
+      : null;
+  if (calendar) {
+    const month = MONTHS.findIndex(m => m === calendar.month || m.slice(0, 3) === calendar.month);
+    if (month === -1) return null;
+    let date = new Date(calendar.year ? parseInt(calendar.year, 10) : now.getFullYear(), month, parseInt(calendar.day, 10));
+    // Without a year, assume the next time that date comes round
+    if (!calendar.year && isBefore(date, today)) {
+      date = new Date(now.getFullYear() + 1, month, parseInt(calendar.day, 10));
+    }
+    return isValid(date) && date.getMonth() === month ? { date } : null;
+  }
+
+  return null;
+};
+
+/**
+ * Parse natural-language input ("next Friday 5pm", "in 3 days", "Oct 4")
+ * into a Date. Returns null if the input isn't understood.
+ */
+export const parseNaturalDate = (input: string, now: Date = new Date()): Date | null => {
+  const normalized = input.toLowerCase().replace(/[.]/g, '').replace(/\s+/g, ' ').trim();
+  if (!normalized) return null;
+
+  // Full ISO timestamps pass straight through
+  if (/^\d{4}-\d{2}-\d{2}t/.test(normalized)) {
+    const parsed = parseISO(input.trim());
+    return isValid(parsed) ? parsed : null;
+  }
+
+  const { time, rest } = extractTime(normalized);
+  const datePart = parseDatePart(rest, now);
+
+  if (!datePart) {
+    if (!time || rest.trim() !== '') return null;
+    // A bare time means today, or tomorrow if that time has already passed
+    const candidate = set(startOfDay(now), { hours: time.hours, minutes: time.minutes });
+    return isBefore(candidate, now) ? addDays(candidate, 1) : candidate;
+  }
+
+  if (datePart.exact) return datePart.date;
+
+  return set(datePart.date, {
+    hours: time ? time.hours : DEFAULT_DUE_HOUR,
+    minutes: time ? time.minutes : 0,
+    seconds: 0,
+    milliseconds: 0,
+  });
+};
+
+/**
+ * Serialize a due date as ISO 8601 with the local timezone offset
+ */
+export const toDueDateString = (date: Date): string => {
+  return formatISO(date);
+};
+
+/**
+ * Whether a stored due date is already a proper ISO timestamp
+ */
+export const isIsoDueDate = (value: string | undefined): boolean => {
+  return !!value && /^\d{4}-\d{2}-\d{2}T/.test(value) && isValid(parseISO(value));
+};
+
+/**
+ * Convert a stored due date into an ISO timestamp. Legacy free-text values
+ * ("Tomorrow", "3 days") are resolved relative to `reference`, normally the
+ * task's creation time. Unparseable values fall back to the reference date.
+ */
+export const normalizeDueDate = (value: string | undefined, reference: Date = new Date()): string => {
+  if (value && isIsoDueDate(value)) return value;
+  const parsed = value ? parseNaturalDate(value, reference) : null;
+  return toDueDateString(parsed || set(startOfDay(reference), { hours: DEFAULT_DUE_HOUR }));
+};
+
+/**
+ * Check whether an unfinished task is past its due date
+ */
+export const isOverdue = (dueDate: string, status: string, now: Date = new Date()): boolean => {
+  if (status === 'completed' || !isIsoDueDate(dueDate)) return false;
+  return isBefore(parseISO(dueDate), now);
+};
+
+/**
+ * Compact, human-friendly due date ("Today, 5:00 PM", "Fri, Oct 4")
+ */
+export const formatDueDate = (dueDate: string, now: Date = new Date()): string => {
+  if (!isIsoDueDate(dueDate)) return dueDate;
+  const date = parseISO(dueDate);
+  const days = differenceInCalendarDays(date, now);
+  const time = format(date, 'p');
+
+  if (days === 0) return `Today, ${time}`;
+  if (days === 1) return `Tomorrow, ${time}`;
+  if (days === -1) return `Yesterday, ${time}`;
+  if (days > 1 && days < 7) return `${format(date, 'EEEE')}, ${time}`;
+  return format(date, date.getFullYear() === now.getFullYear() ? 'EEE, MMM d' : 'MMM d, yyyy');
+};
+
+/**
+ * Numeric sort key for a due date; unparseable values sort last
+ */
+export const dueDateSortValue = (dueDate: string): number => {
+  return isIsoDueDate(dueDate) ? parseISO(dueDate).getTime() : Number.MAX_SAFE_INTEGER;
+};
@@ -0,0 +1,222 @@
+/**
+ * Grievance Analytics
+ *
+ * Handling metrics worked out from each grievance's status history: how
+ * long it took to get a first response and a resolution, how often cases
+ * are escalated or reopened, how old the open backlog is, where grievances
+ * come from and how each handler is doing, including how satisfied
+ * submitters were with their resolutions. Merged duplicates are left out,
+ * since their history lives on in the case they were merged into.
+ */
+
+import { differenceInMinutes } from 'date-fns';
+import type { Grievance, GrievanceCategory, SatisfactionSurvey } from '@/components/GrievanceProvider';
+import { getFirstResponseAt } from '@/lib/grievanceSla';
+import { CLOSED_GRIEVANCE_STATUSES } from '@/lib/grievanceSimilarity';
+import { averageRating } from '@/lib/grievanceSurveys';
+
+export interface GrievanceTimingRow {
+  name: string;
+  count: number;
+  firstResponseHours: number | null; // median, null when nothing has had a response yet
+  resolutionHours: number | null; // median, null when nothing is resolved yet
+}
+
+export interface HandlerStats {
+  id: string;
+  name: string;
+  assigned: number; // currently assigned, open or closed
+  open: number;
+  resolved: number; // resolutions they made
+  medianResolutionHours: number | null;
+  averageRating: number | null; // 1 to 5, across submitters' ratings of their resolutions
+  ratings: number;
+  reopenedBySubmitter: number; // resolutions sent back because the fix didn't work
+}
+
+export interface AgeingBucket {
+  name: string;
+  count: number;
+}
+
+export interface GrievanceHeatmap {
+  departments: string[];
+  categories: GrievanceCategory[];
+  counts: Record<string, Partial<Record<GrievanceCategory, number>>>; // department -> category -> count
+  max: number;
+}
+
+export interface GrievanceAnalytics {
+  total: number;
+  open: number;
+  medianFirstResponseHours: number | null;
+  medianResolutionHours: number | null;
+  escalationRate: number; // 0 to 1, of all grievances
+  reopenRate: number; // 0 to 1, of grievances ever resolved or rejected
+  byCategory: GrievanceTimingRow[];
+  byDepartment: GrievanceTimingRow[];
+  byHandler: HandlerStats[];
+  backlogAgeing: AgeingBucket[];
+  heatmap: GrievanceHeatmap;
+}
+
+export const GRIEVANCE_CATEGORY_LABELS: Record<GrievanceCategory, string> = {
+  hr: 'HR',
+  technical: 'Technical',
+  management: 'Management',
+  financial: 'Financial',
+  infrastructure: 'Infrastructure',
+  other: 'Other',
+};
+
+// Upper age limit of each backlog bucket, in days
+const AGEING_BUCKETS: { name: string; maxDays: number }[] = [
+  { name: '< 1 day', maxDays: 1 },
+  { name: '1–3 days', maxDays: 3 },
+  { name: '3–7 days', maxDays: 7 },
+  { name: '1–2 weeks', maxDays: 14 },
+  { name: '2–4 weeks', maxDays: 28 },
+  { name: '4+ weeks', maxDays: Infinity },
+];
+
+const CLOSING_STATUSES: Grievance['status'][] = ['resolved', 'rejected'];
+
+const toHours = (minutes: number) => Math.round((minutes / 60) * 10) / 10;
+
+/**
+ * Middle value of a list, or null if it's empty
+ */
+export const median = (values: number[]): number | null => {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle];
+};
+
+/**
+ * Hours from submission to the first response by someone other than the submitters
+ */
+export const getFirstResponseHours = (grievance: Grievance): number | null => {
+  const respondedAt = getFirstResponseAt(grievance);
+  return respondedAt ? toHours(differenceInMinutes(respondedAt, new Date(grievance.createdAt))) : null;
+};
+
+/**
+ * Hours from submission to the latest resolution, for resolved grievances
+ */
+export const getResolutionHours = (grievance: Grievance): number | null => {
+  if (grievance.status !== 'resolved') return null;
+  const resolved = [...grievance.statusHistory].reverse().find(update => update.status === 'resolved');
+  return resolved ? toHours(differenceInMinutes(new Date(resolved.timestamp), new Date(grievance.createdAt))) : null;
+};
+
+const timingRows = (grievances: Grievance[], keyOf: (g: Grievance) => string): GrievanceTimingRow[] => {
+  const groups = new Map<string, Grievance[]>();
+  grievances.forEach(grievance => {
+    const key = keyOf(grievance);
+    groups.set(key, [...(groups.get(key) || []), grievance]);
+  });
+
+  return Array.from(groups.entries())
+    .map(([name, group]) => ({
+      name,
+      count: group.length,
+      firstResponseHours: median(group.map(getFirstResponseHours).filter((h): h is number => h !== null)),
+      resolutionHours: median(group.map(getResolutionHours).filter((h): h is number => h !== null)),
+    }))
+    .sort((a, b) => b.count - a.count || a.name.localeCompare(b.name));
+};
+
+/**
+ * Workload, speed and satisfaction per handler. Resolutions and ratings are
+ * credited to whoever resolved the case, even if it has since moved on.
+ */
+export const getHandlerStats = (grievances: Grievance[]): HandlerStats[] => {
+  const handlers = new Map<string, { name: string; assigned: Grievance[]; surveys: SatisfactionSurvey[]; resolutionHours: number[] }>();
+  const handlerFor = (id: string, name: string) => {
+    if (!handlers.has(id)) handlers.set(id, { name, assigned: [], surveys: [], resolutionHours: [] });
+    return handlers.get(id)!;
+  };
+
+  grievances.forEach(grievance => {
+    if (grievance.assignedTo) {
+      handlerFor(grievance.assignedTo, grievance.assignedToName || grievance.assignedTo).assigned.push(grievance);
+    }
+    (grievance.satisfactionSurveys || []).forEach(survey => {
+      if (!survey.handlerId) return;
+      const handler = handlerFor(survey.handlerId, survey.handlerName || survey.handlerId);
+      handler.surveys.push(survey);
+      handler.resolutionHours.push(toHours(differenceInMinutes(new Date(survey.requestedAt), new Date(grievance.createdAt))));
+    });
+  });
+
+  return Array.from(handlers.entries())
+    .map(([id, handler]) => ({
+      id,
+      name: handler.name,
+      assigned: handler.assigned.length,
+      open: handler.assigned.filter(g => !CLOSED_GRIEVANCE_STATUSES.includes(g.status)).length,
+      resolved: handler.surveys.length,
+      medianResolutionHours: median(handler.resolutionHours),
+      averageRating: averageRating(handler.surveys),
+      ratings: handler.surveys.reduce((sum, survey) => sum + survey.responses.length, 0),
+      reopenedBySubmitter: handler.surveys.filter(survey => survey.responses.some(response => response.reopened)).length,
+    }))
+    .sort((a, b) => b.assigned - a.assigned || a.name.localeCompare(b.name));
+};
+
+/**
+ * All grievance handling metrics for the given grievances
+ */
+export const computeGrievanceAnalytics = (grievances: Grievance[], now: Date = new Date()): GrievanceAnalytics => {
+  const counted = grievances.filter(g => g.status !== 'merged');
+  const open = counted.filter(g => !CLOSED_GRIEVANCE_STATUSES.includes(g.status));
+
+  const everEscalated = counted.filter(g => g.statusHistory.some(update => update.status === 'escalated'));
+  const everClosed = counted.filter(g => g.statusHistory.some(update => CLOSING_STATUSES.includes(update.status)));
+  // Submitters reopening from the satisfaction survey send the case straight back to review
+  const reopened = everClosed.filter(g =>
+    g.statusHistory.some(update => update.status === 'reopened') ||
+    g.satisfactionSurveys?.some(survey => survey.responses.some(response => response.reopened))
+  );
+
+  const backlogAgeing = AGEING_BUCKETS.map(bucket => ({ name: bucket.name, count: 0 }));
+  open.forEach(grievance => {
+    const ageDays = differenceInMinutes(now, new Date(grievance.createdAt)) / (60 * 24);
+    const index = AGEING_BUCKETS.findIndex(bucket => ageDays < bucket.maxDays);
+    backlogAgeing[index].count += 1;
+  });
+
+  const categories = Object.keys(GRIEVANCE_CATEGORY_LABELS) as GrievanceCategory[];
+  const departments = Array.from(new Set(counted.map(g => g.department))).sort();
+  const counts: GrievanceHeatmap['counts'] = {};
+  counted.forEach(grievance => {
+    const row = counts[grievance.department] || (counts[grievance.department] = {});
+    row[grievance.category] = (row[grievance.category] || 0) + 1;
+  });
+  const max = Math.max(0, ...Object.values(counts).flatMap(row => Object.values(row) as number[]));
+
+  return {
+    total: counted.length,
+    open: open.length,
+    medianFirstResponseHours: median(counted.map(getFirstResponseHours).filter((h): h is number => h !== null)),
+    medianResolutionHours: median(counted.map(getResolutionHours).filter((h): h is number => h !== null)),
+    escalationRate: counted.length > 0 ? everEscalated.length / counted.length : 0,
+    reopenRate: everClosed.length > 0 ? reopened.length / everClosed.length : 0,
+    byCategory: timingRows(counted, g => GRIEVANCE_CATEGORY_LABELS[g.category]),
+    byDepartment: timingRows(counted, g => g.department),
+    byHandler: getHandlerStats(counted),
+    backlogAgeing,
+    heatmap: { departments, categories, counts, max },
+  };
+};
+
+/**
+ * Hours as a short duration such as "36 min", "5.5 h" or "2.3 d"
+ */
+export const formatHours = (hours: number | null): string => {
+  if (hours === null) return '—';
+  if (hours < 1) return `${Math.round(hours * 60)} min`;
+  if (hours < 48) return `${Math.round(hours * 10) / 10} h`;
+  return `${Math.round((hours / 24) * 10) / 10} d`;
+};
@@ -0,0 +1,281 @@
+/**
+ * Grievance Case Files
+ *
+ * A complete record of a grievance for legal and HR reviews: its details,
+ * full status history, comments, attachments, assignments and the audit log
+ * entries for it and any duplicates merged into it. The case file can be
+ * downloaded as a JSON bundle or a printable PDF. Internal notes are only
+ * included when asked for. Personal details stay masked as they are in the
+ * app, and an anonymous submitter's identity, along with anything that could
+ * trace the case back to them, is redacted.
+ */
+
+import { format } from 'date-fns';
+import type { Grievance } from '@/components/GrievanceProvider';
+import type { AuditLog } from '@/components/AuditProvider';
+import { ANONYMOUS_SUBMITTER, ANONYMOUS_SUBMITTER_NAME } from '@/lib/anonymousGrievances';
+import { GRIEVANCE_STATUS_LABELS } from '@/lib/grievanceWorkflow';
+import { GRIEVANCE_CATEGORY_LABELS } from '@/lib/grievanceAnalytics';
+import { createTextPdf, PdfBlock } from '@/lib/textPdf';
+
+export type CaseFileFormat = 'pdf' | 'json';
+
+export const REDACTED = '[redacted]';
+
+export interface CaseFileOptions {
+  includeInternal: boolean; // internal notes are left out unless asked for
+}
+
+export interface CaseFileAssignment {
+  timestamp: string;
+  assignedTo: string; // name, or "None"
+  queue?: string;
+  assignedBy: string;
+  details?: string;
+}
+
+export interface GrievanceCaseFile {
+  exportedAt: string;
+  exportedBy: { id: string; name: string };
+  includesInternalComments: boolean;
+  redactions: string[]; // what was masked, in plain words
+  grievance: Omit<Grievance, 'caseTokenHash' | 'descriptionPii'>;
+  assignments: CaseFileAssignment[];
+  auditLog: AuditLog[]; // oldest first
+}
+
+const formatTimestamp = (timestamp: string) => format(new Date(timestamp), 'yyyy-MM-dd HH:mm');
+
+// Routing records the queue a case was sent to, or "None"
+const queueOf = (log: AuditLog): string | undefined => {
+  const queue = log.changes?.find(change => change.field === 'queue')?.newValue;
+  return queue && queue !== 'None' ? String(queue) : undefined;
+};
+
+const byTimestamp = (a: { timestamp: string }, b: { timestamp: string }) =>
+  new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime();
+
+/**
+ * Put together the case file for a grievance from it and the audit log.
+ * Pass the whole log; only the entries for this case are kept.
+ */
+export const buildGrievanceCaseFile = (
+  grievance: Grievance,
+  logs: AuditLog[],
+  exportedBy: { id: string; name: string },
+  options: CaseFileOptions
+): GrievanceCaseFile => {
+  const { caseTokenHash, descriptionPii, ...details } = grievance;
+  const caseIds = [grievance.id, ...(grievance.mergedDuplicates || []).map(duplicate => duplicate.grievanceId)];
+  let auditLog = logs
+    .filter(log => log.entityType === 'grievance' && !!log.entityId && caseIds.includes(log.entityId))
+    .sort(byTimestamp);
+  const comments = options.includeInternal ? grievance.comments : grievance.comments.filter(comment => !comment.isInternal);
+  let exported: GrievanceCaseFile['grievance'] = {
+    ...details,
+    comments: comments.map(({ pii, ...comment }) => comment),
+  };
+  const redactions: string[] = [];
+  if (caseTokenHash) redactions.push('Case token hash');
+  if (descriptionPii || comments.some(comment => comment.pii)) redactions.push('Personal details in the description and comments');
+
+  // Anything done as the anonymous submitter, or by the user who filed an
+  // anonymous case before submissions were decoupled, loses its identity
+  if (grievance.isAnonymous) {
+    const submitterIds = new Set([ANONYMOUS_SUBMITTER, grievance.createdBy]);
+    const isSubmitter = (id: string) => submitterIds.has(id);
+    const mask = <T>(item: T, idKey: keyof T, nameKey: keyof T): T =>
+      isSubmitter(item[idKey] as string) ? { ...item, [idKey]: REDACTED, [nameKey]: ANONYMOUS_SUBMITTER_NAME } : item;
+
+    exported = {
+      ...exported,
+      createdBy: REDACTED,
+      createdByName: ANONYMOUS_SUBMITTER_NAME,
+      statusHistory: exported.statusHistory.map(update => mask(update, 'updatedBy', 'updatedByName')),
+      comments: exported.comments.map(comment => mask(comment, 'createdBy', 'createdByName')),
+    };
+    auditLog = auditLog.map(log => {
+      if (!isSubmitter(log.userId)) return log;
+      const { ipAddress, ...rest } = log;
+      return { ...rest, userId: REDACTED, userName: ANONYMOUS_SUBMITTER_NAME };
+    });
+    redactions.push('Submitter identity', "Submitter's IP addresses in the audit log");
+  }
+
+  const assignments = auditLog
+    .filter(log => log.actionType === 'assign' && log.entityId === grievance.id)
+    .map(log => ({
+      timestamp: log.timestamp,
+      assignedTo: String(log.changes?.find(change => change.field === 'assignedTo')?.newValue ?? 'None'),
+      queue: queueOf(log),
+      assignedBy: log.userName,
+      details: log.details,
+    }));
+
+  return {
+    exportedAt: new Date().toISOString(),
+    exportedBy,
+    includesInternalComments: options.includeInternal,
+    redactions,
+    grievance: exported,
+    assignments,
+    auditLog,
+  };
+};
+
+/**
+ * The case file as a printable document
+ */
+export const caseFileToPdfBlocks = (caseFile: GrievanceCaseFile): PdfBlock[] => {
+  const { grievance } = caseFile;
+  const blocks: PdfBlock[] = [];
+  const heading = (text: string) => blocks.push({ text, style: 'heading' });
+  const field = (label: string, value?: string) => {
+    if (value) blocks.push({ text: `${label}: ${value}` });
+  };
+  const entry = (title: string, body?: string) => {
+    blocks.push({ text: title, style: 'label' });
+    if (body) blocks.push({ text: body, indent: 12 });
+  };
+  const list = <T>(items: T[], empty: string, render: (item: T) => void) => {
+    if (items.length === 0) blocks.push({ text: empty, style: 'muted' });
+    else items.forEach(render);
+  };
+
+  blocks.push({ text: 'Grievance Case File', style: 'title' });
+  blocks.push({ text: grievance.title, style: 'heading' });
+  blocks.push({ text: `Case ${grievance.id}`, style: 'muted' });
+  blocks.push({
+    text: `Exported ${formatTimestamp(caseFile.exportedAt)} by ${caseFile.exportedBy.name}. ` +
+      `Internal comments ${caseFile.includesInternalComments ? 'included' : 'excluded'}.` +
+      (caseFile.redactions.length > 0 ? ` Redacted: ${caseFile.redactions.join(', ')}.` : ''),
+    style: 'muted',
+  });
+
+  heading('Summary');
+  field('Status', GRIEVANCE_STATUS_LABELS[grievance.status]);
+  field('Priority', grievance.priority);
+  field('Category', GRIEVANCE_CATEGORY_LABELS[grievance.category]);
+  field('Department', grievance.department);
+  field('Submitted by', grievance.createdByName);
+  field('Submitted', formatTimestamp(grievance.createdAt));
+  field('Last updated', formatTimestamp(grievance.updatedAt));
+  field('Due', grievance.dueDate && formatTimestamp(grievance.dueDate));
+  field('Assigned to', grievance.assignedToName || (grievance.queue && `${grievance.queue} queue`) || 'Unassigned');
+  field('Merged into', grievance.mergedInto);
+  field('Resolution', grievance.resolution);
+  field('Rejection reason', grievance.rejectionReason);
+
+  heading('Description');
+  blocks.push({ text: grievance.description });
+
+  if (grievance.involvedParties?.length) {
+    heading('Involved Parties');
+    grievance.involvedParties.forEach(party => blocks.push({ text: `• ${party.name}` }));
+  }
+  if (grievance.coSubmitters?.length) {
+    heading('Also Affected');
+    grievance.coSubmitters.forEach(coSubmitter =>
+      blocks.push({ text: `• ${coSubmitter.name}, joined ${formatTimestamp(coSubmitter.joinedAt)}` })
+    );
+  }
+
+  heading('Status History');
+  grievance.statusHistory.forEach(update =>
+    entry(
+      `${formatTimestamp(update.timestamp)} — ${GRIEVANCE_STATUS_LABELS[update.status]} — ${update.updatedByName}`,
+      update.comment
+    )
+  );
+
+  heading('Assignments');
+  list(caseFile.assignments, 'No assignments recorded.', assignment =>
+    entry(
+      `${formatTimestamp(assignment.timestamp)} — ${assignment.assignedTo}${assignment.queue ? ` (${assignment.queue} queue)` : ''} — by ${assignment.assignedBy}`,
+      assignment.details
+    )
+  );
+  (grievance.conflictOverrides || []).forEach(override =>
+    entry(
+      `${formatTimestamp(override.timestamp)} — Conflict of interest overridden by ${override.overriddenByName} to assign ${override.assignedToName}`,
+      `${override.conflicts.join('. ')}. Justification: ${override.justification}`
+    )
+  );
+
+  heading(`Comments (${grievance.comments.length})`);
+  list(grievance.comments, 'No comments.', comment =>
+    entry(
+      `${formatTimestamp(comment.createdAt)} — ${comment.createdByName}${comment.isInternal ? ' [Internal]' : ''}${comment.mergedFrom ? ' [From merged case]' : ''}`,
+      comment.text
+    )
+  );
+
+  heading('Attachments');
+  list(grievance.attachments || [], 'No attachments.', attachment => blocks.push({ text: `• ${attachment}` }));
+
+  if (grievance.relatedIds?.length) {
+    heading('Related Cases');
+    grievance.relatedIds.forEach(id => blocks.push({ text: `• ${id}` }));
+  }
+  if (grievance.mergedDuplicates?.length) {
+    heading('Merged Duplicates');
+    grievance.mergedDuplicates.forEach(duplicate =>
+      entry(
+        `${duplicate.title} (${duplicate.grievanceId})`,
+        `Submitted by ${duplicate.submittedByName}, merged ${formatTimestamp(duplicate.mergedAt)} by ${duplicate.mergedByName}`
+      )
+    );
+  }
+  if (grievance.satisfactionSurveys?.some(survey => survey.responses.length > 0)) {
+    heading('Satisfaction');
+    grievance.satisfactionSurveys.forEach(survey =>
+      survey.responses.forEach(response =>
+        entry(
+          `${formatTimestamp(response.respondedAt)} — ${response.userName} rated ${response.rating}/5${response.reopened ? ' and reopened the case' : ''}`,
+          response.feedback
+        )
+      )
+    );
+  }
+
+  heading('Audit Log');
+  list(caseFile.auditLog, 'No audit entries.', log =>
+    entry(
+      `${formatTimestamp(log.timestamp)} — ${log.actionType} — ${log.userName}`,
+      [
+        log.details,
+        ...(log.changes || []).map(change => `${change.field}: ${JSON.stringify(change.oldValue)} -> ${JSON.stringify(change.newValue)}`),
+      ].filter(Boolean).join('\n')
+    )
+  );
+
+  return blocks;
+};
+
+/**
+ * The case file in the requested format, ready to download
+ */
+export const caseFileToBlob = (caseFile: GrievanceCaseFile, fileFormat: CaseFileFormat): Blob =>
+  fileFormat === 'json'
+    ? new Blob([JSON.stringify(caseFile, null, 2)], { type: 'application/json' })
+    : createTextPdf(caseFileToPdfBlocks(caseFile), {
+        title: `Grievance case file: ${caseFile.grievance.title}`,
+        footer: `Case ${caseFile.grievance.id} — confidential`,
+      });
+
+/**
+ * Save the case file to the user's downloads
+ */
+export const downloadCaseFile = (caseFile: GrievanceCaseFile, fileFormat: CaseFileFormat): void => {
+  const url = URL.createObjectURL(caseFileToBlob(caseFile, fileFormat));
+  const link = document.createElement('a');
+  link.setAttribute('href', url);
+  link.setAttribute(
+    'download',
+    `grievance-${caseFile.grievance.id.slice(0, 8)}-case-file-${format(new Date(caseFile.exportedAt), 'yyyyMMdd')}.${fileFormat}`
+  );
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+};
@@ -0,0 +1,108 @@
+/**
+ * Grievance Conflicts of Interest
+ *
+ * Checks whether someone can handle a grievance impartially. Nobody named
+ * as involved in a grievance may handle it, and people in an involved
+ * party's reporting line (their managers, or the people they manage) may
+ * only handle it with a recorded justification.
+ *
+ * Reporting lines come from department manager lists, which are ordered
+ * from most to least senior: each manager reports to the ones listed
+ * before them, and other department members report to all of them.
+ */
+
+import type { Department, TeamMember } from '@/components/DepartmentsProvider';
+
+// Someone the submitter says is involved; `id` is set when picked from the directory
+export interface InvolvedParty {
+  id?: string;
+  name: string;
+}
+
+export type ConflictKind = 'involved-party' | 'reporting-line';
+
+export interface AssignmentConflict {
+  kind: ConflictKind;
+  party: InvolvedParty;
+  reason: string;
+}
+
+interface Person {
+  id: string;
+  name: string;
+}
+
+const sameName = (a: string, b: string) => a.trim().toLowerCase() === b.trim().toLowerCase();
+
+const isSamePerson = (person: Person, party: InvolvedParty) =>
+  (party.id !== undefined && party.id === person.id) || sameName(party.name, person.name);
+
+const findMember = (departments: Department[], party: InvolvedParty) =>
+  departments
+    .flatMap(department => department.teamMembers.map(member => ({ department, member })))
+    .find(({ member }) => isSamePerson(member, party));
+
+/**
+ * People in a member's reporting line within their department: the managers
+ * above them and, for managers, everyone below them
+ */
+export const getReportingLine = (member: TeamMember, department: Department): { above: Person[]; below: Person[] } => {
+  const rank = department.managers.findIndex(name => sameName(name, member.name));
+  const byName = (name: string): Person =>
+    department.teamMembers.find(m => sameName(m.name, name)) || { id: name, name };
+
+  if (rank === -1) {
+    return { above: department.managers.map(byName), below: [] };
+  }
+
+  const juniorManagers = department.managers.slice(rank + 1).map(byName);
+  const staff = department.teamMembers.filter(m => !department.managers.some(name => sameName(name, m.name)));
+  return {
+    above: department.managers.slice(0, rank).map(byName),
+    below: [...juniorManagers, ...staff],
+  };
+};
+
+/**
+ * Reasons the candidate shouldn't handle a grievance with these involved parties
+ */
+export const findAssignmentConflicts = (
+  candidate: Person,
+  involvedParties: InvolvedParty[],
+  departments: Department[]
+): AssignmentConflict[] => {
+  const conflicts: AssignmentConflict[] = [];
+
+  involvedParties.forEach(party => {
+    if (isSamePerson(candidate, party)) {
+      conflicts.push({ kind: 'involved-party', party, reason: `${candidate.name} is named in this grievance` });
+      return;
+    }
+
+    const found = findMember(departments, party);
+    if (!found) return;
+
+    const { above, below } = getReportingLine(found.member, found.department);
+    if (above.some(person => person.id === candidate.id || sameName(person.name, candidate.name))) {
+      conflicts.push({
+        kind: 'reporting-line',
+        party,
+        reason: `${party.name} reports to ${candidate.name} in ${found.department.name}`,
+      });
+    } else if (below.some(person => person.id === candidate.id || sameName(person.name, candidate.name))) {
+      conflicts.push({
+        kind: 'reporting-line',
+        party,
+        reason: `${candidate.name} reports to ${party.name} in ${found.department.name}`,
+      });
+    }
+  });
+
+  return conflicts;
+};
+
+/**
+ * Whether an override justification is enough to assign despite the conflicts
+ */
+export const canOverrideConflicts = (conflicts: AssignmentConflict[]): boolean =>
+  conflicts.every(conflict => conflict.kind !== 'involved-party');
@@ -0,0 +1,156 @@
+/**
+ * Grievance PII Redaction
+ *
+ * Grievance descriptions and comments often carry personal details: phone
+ * numbers, email addresses, bank and card numbers, national ID numbers and
+ * the names of colleagues. They are masked when the text is saved, so every
+ * view, export and search works with the masked text, and the original is
+ * kept alongside it for authorised handlers to reveal one item at a time.
+ */
+
+import type { AuthUser } from '@/components/AuthProvider';
+import { REVIEWER_ROLES } from '@/lib/grievanceWorkflow';
+
+export type PiiType = 'email' | 'phone' | 'bank-account' | 'card' | 'national-id' | 'name';
+
+// What a masked text replaced, for the handlers allowed to see it
+export interface RedactedText {
+  original: string;
+  types: PiiType[];
+}
+
+export interface PiiMatch {
+  type: PiiType;
+  start: number;
+  end: number;
+}
+
+export const PII_TYPE_LABELS: Record<PiiType, string> = {
+  email: 'email address',
+  phone: 'phone number',
+  'bank-account': 'bank details',
+  card: 'card number',
+  'national-id': 'ID number',
+  name: 'name',
+};
+
+export const HR_DEPARTMENT = 'HR';
+
+const HONORIFIC_NAME = /\b(?:Mr|Mrs|Ms|Miss|Mx|Dr)\.?\s+[A-Z][a-z'-]+(?:\s+[A-Z][a-z'-]+)?/g;
+
+const countDigits = (text: string) => text.replace(/\D/g, '').length;
+
+const passesLuhn = (text: string): boolean => {
+  const digits = text.replace(/\D/g, '');
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let digit = Number(digits[digits.length - 1 - i]);
+    if (i % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+  }
+  return sum % 10 === 0;
+};
+
+// Nine to fifteen digits; an unbroken run of digits only counts when it's
+// dialled like a phone number, so order and reference numbers are left alone
+const isPhoneNumber = (text: string): boolean => {
+  const digits = countDigits(text);
+  if (digits < 9 || digits > 15) return false;
+  return /[\s.()+-]/.test(text) || (text.startsWith('0') && digits >= 10 && digits <= 11);
+};
+
+// "ticket #", "order no.", "ref:" and the like just before a number
+const REFERENCE_PREFIX = /(?:#|\b(?:ref(?:erence)?|ticket|order|invoice|case|tracking|booking|confirmation|po)\b\.?(?:\s*(?:no\.?|number|id|#))?)\s*:?\s*$/i;
+const CARD_CONTEXT = /\b(?:card|visa|mastercard|amex|credit|debit)\b/i;
+
+const isLabelledReference = (before: string) => REFERENCE_PREFIX.test(before.slice(-40));
+
+// A Luhn-valid number is still a reference, not a card, when it's labelled
+// as one, unless a card is mentioned just before it
+const isCardNumber = (match: string, before: string): boolean =>
+  passesLuhn(match) && (!isLabelledReference(before) || CARD_CONTEXT.test(before.slice(-40)));
+
+// ISO 13616: move the country and check digits to the end, then mod 97 must be 1
+const isValidIban = (text: string): boolean => {
+  const iban = text.replace(/\s/g, '');
+  if (iban.length < 15 || iban.length > 34) return false;
+  const numeric = (iban.slice(4) + iban.slice(0, 4)).replace(/[A-Z]/g, letter => String(letter.charCodeAt(0) - 55));
+  return Array.from(numeric).reduce((remainder, digit) => (remainder * 10 + Number(digit)) % 97, 0) === 1;
+};
+
+// Checked in this order; where matches overlap the earlier detector wins
+const DETECTORS: { type: PiiType; pattern: RegExp; accept?: (match: string, before: string) => boolean }[] = [
+  { type: 'email', pattern: /[A-Z0-9._%+-]+@[A-Z0-9.-]+\.[A-Z]{2,}/gi },
+  { type: 'bank-account', pattern: /\b[A-Z]{2}\d{2}(?:\s?[A-Z0-9]{4}){2,7}(?:\s?[A-Z0-9]{1,3})?\b/g, accept: match => isValidIban(match) },
+  { type: 'bank-account', pattern: /\bsort\s*code\s*:?\s*\d{2}[- ]?\d{2}[- ]?\d{2}\b/gi },
+  { type: 'bank-account', pattern: /\b(?:account|acct|a\/c)(?:\s*(?:no\.?|number|#))?\s*:?\s*\d{6,17}\b/gi },
+  { type: 'card', pattern: /\b\d(?:[ -]?\d){12,18}\b/g, accept: isCardNumber },
+  { type: 'national-id', pattern: /\b\d{3}-\d{2}-\d{4}\b/g },
+  { type: 'national-id', pattern: /\b[A-CEGHJ-PR-TW-Z]{2}\s?\d{2}\s?\d{2}\s?\d{2}\s?[A-D]\b/g },
+  { type: 'phone', pattern: /(?<![\w+])(?:\+\d{1,3}[\s.-]?)?(?:\(\d{1,4}\)[\s.-]?)?\d(?:[\s.-]?\d){6,14}(?!\d)/g, accept: (match, before) => isPhoneNumber(match) && !isLabelledReference(before) },
+];
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Personal details in the text. `knownNames` are people's full names, such
+ * as the organisation's staff, matched as whole words.
+ */
+export const detectPii = (text: string, knownNames: string[] = []): PiiMatch[] => {
+  const found: PiiMatch[] = [];
+  const collect = (type: PiiType, pattern: RegExp, accept?: (match: string, before: string) => boolean) => {
+    for (const match of text.matchAll(pattern)) {
+      if (accept && !accept(match[0], text.slice(0, match.index))) continue;
+      found.push({ type, start: match.index!, end: match.index! + match[0].length });
+    }
+  };
+
+  DETECTORS.forEach(({ type, pattern, accept }) => collect(type, pattern, accept));
+  const names = Array.from(new Set(knownNames.map(name => name.trim()).filter(name => name.includes(' '))));
+  if (names.length > 0) {
+    // Longest first so "Anna Maria Lopez" wins over "Maria Lopez"
+    const alternatives = names.sort((a, b) => b.length - a.length).map(escapeRegExp).join('|');
+    collect('name', new RegExp(`\\b(?:${alternatives})\\b`, 'g'));
+  }
+  collect('name', HONORIFIC_NAME);
+
+  // Keep the first detector's match wherever two overlap
+  const kept: PiiMatch[] = [];
+  found.forEach(match => {
+    if (!kept.some(other => match.start < other.end && other.start < match.end)) kept.push(match);
+  });
+  return kept.sort((a, b) => a.start - b.start);
+};
+
+/**
+ * The text with each match replaced by a marker such as "[phone number removed]"
+ */
+export const maskPii = (text: string, matches: PiiMatch[]): string =>
+  matches
+    .slice()
+    .sort((a, b) => b.start - a.start)
+    .reduce((masked, match) => `${masked.slice(0, match.start)}[${PII_TYPE_LABELS[match.type]} removed]${masked.slice(match.end)}`, text);
+
+/**
+ * Mask the personal details in a text, returning the original to keep if anything was found
+ */
+export const redactPii = (text: string, knownNames: string[] = []): { text: string; redacted?: RedactedText } => {
+  const matches = detectPii(text, knownNames);
+  if (matches.length === 0) return { text };
+  return {
+    text: maskPii(text, matches),
+    redacted: { original: text, types: Array.from(new Set(matches.map(match => match.type))) },
+  };
+};
+
+/**
+ * Whether the user may reveal redacted personal details: admins, and
+ * reviewers in the HR department
+ */
+export const canViewPii = (user: Pick<AuthUser, 'role' | 'department'>): boolean =>
+  user.role === 'admin' || (user.department === HR_DEPARTMENT && REVIEWER_ROLES.includes(user.role));
+
+export const describePiiTypes = (types: PiiType[]): string => types.map(type => PII_TYPE_LABELS[type]).join(', ');
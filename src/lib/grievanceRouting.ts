@@ -0,0 +1,153 @@
+/**
+ * Grievance Routing
+ *
+ * Rules engine that decides who picks up a new grievance. Rules are tried in
+ * order; the first enabled rule whose conditions all match wins, and
+ * fallback rules are only tried when no regular rule matched. A rule sends
+ * the grievance to a person, to a team (taking turns between its members)
+ * or to a queue for someone to claim.
+ */
+
+import type { Grievance, GrievanceCategory, GrievancePriority } from '@/components/GrievanceProvider';
+
+// Empty or missing lists match anything; a list matches if any entry does
+export interface RoutingConditions {
+  categories?: GrievanceCategory[];
+  departments?: string[];
+  priorities?: GrievancePriority[];
+  keywords?: string[]; // whole words or phrases in the title or description
+}
+
+export type RoutingTarget =
+  | { type: 'user'; userId: string; userName: string }
+  | { type: 'team'; teamId: string }
+  | { type: 'queue'; queue: string };
+
+export interface RoutingRule {
+  id: string;
+  name: string;
+  enabled: boolean;
+  isFallback: boolean;
+  conditions: RoutingConditions;
+  target: RoutingTarget;
+}
+
+export interface RoutingTeam {
+  id: string;
+  name: string;
+  members: { id: string; name: string }[];
+}
+
+export interface RoutingDecision {
+  rule: RoutingRule;
+  assignee?: { id: string; name: string };
+  queue?: string;
+  reason: string; // what matched, for the status history
+  nextCursor?: { teamId: string; index: number }; // round-robin position to store
+}
+
+type RoutableGrievance = Pick<Grievance, 'title' | 'description' | 'category' | 'department' | 'priority'>;
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const findKeywords = (keywords: string[], grievance: RoutableGrievance): string[] => {
+  const text = `${grievance.title} ${grievance.description}`;
+  return keywords.filter(keyword =>
+    keyword.trim() && new RegExp(`\\b${escapeRegExp(keyword.trim())}\\b`, 'i').test(text)
+  );
+};
+
+/**
+ * What made a rule match a grievance, or null if it doesn't
+ */
+export const matchRoutingRule = (rule: RoutingRule, grievance: RoutableGrievance): string[] | null => {
+  const { categories, departments, priorities, keywords } = rule.conditions;
+  const reasons: string[] = [];
+
+  if (categories?.length) {
+    if (!categories.includes(grievance.category)) return null;
+    reasons.push(`category ${grievance.category}`);
+  }
+  if (departments?.length) {
+    if (!departments.some(d => d.toLowerCase() === grievance.department.toLowerCase())) return null;
+    reasons.push(`department ${grievance.department}`);
+  }
+  if (priorities?.length) {
+    if (!priorities.includes(grievance.priority)) return null;
+    reasons.push(`priority ${grievance.priority}`);
+  }
+  if (keywords?.length) {
+    const found = findKeywords(keywords, grievance);
+    if (found.length === 0) return null;
+    reasons.push(`keyword${found.length > 1 ? 's' : ''} ${found.map(k => `"${k}"`).join(', ')}`);
+  }
+
+  return reasons;
+};
+
+/**
+ * Pick where a grievance goes. `cursors` holds the index of the member who
+ * was last given a grievance in each team; people `isEligible` turns down
+ * are skipped, and a rule with nobody eligible is passed over.
+ */
+export const routeGrievance = (
+  rules: RoutingRule[],
+  teams: RoutingTeam[],
+  cursors: Record<string, number>,
+  grievance: RoutableGrievance,
+  isEligible: (person: { id: string; name: string }) => boolean = () => true
+): RoutingDecision | null => {
+  const enabled = rules.filter(rule => rule.enabled);
+  const candidates = [...enabled.filter(rule => !rule.isFallback), ...enabled.filter(rule => rule.isFallback)];
+
+  for (const rule of candidates) {
+    const reasons = matchRoutingRule(rule, grievance);
+    if (!reasons) continue;
+
+    const reason = rule.isFallback && reasons.length === 0 ? 'no other rule matched' : reasons.join(', ') || 'matches everything';
+    const { target } = rule;
+
+    if (target.type === 'user') {
+      const assignee = { id: target.userId, name: target.userName };
+      if (!isEligible(assignee)) continue;
+      return { rule, reason, assignee };
+    }
+    if (target.type === 'queue') {
+      return { rule, reason, queue: target.queue };
+    }
+
+    // Next eligible member after the last one given a grievance; a team
+    // without one can't take it, so try the next rule
+    const team = teams.find(t => t.id === target.teamId);
+    if (!team) continue;
+
+    const start = (cursors[team.id] ?? -1) + 1;
+    const index = team.members
+      .map((_, offset) => (start + offset) % team.members.length)
+      .find(i => isEligible(team.members[i]));
+    if (index === undefined) continue;
+
+    return {
+      rule,
+      reason,
+      assignee: team.members[index],
+      nextCursor: { teamId: team.id, index },
+    };
+  }
+
+  return null;
+};
+
+/**
+ * Short description of where a rule sends grievances
+ */
+export const describeRoutingTarget = (target: RoutingTarget, teams: RoutingTeam[]): string => {
+  switch (target.type) {
+    case 'user':
+      return target.userName;
+    case 'team':
+      return `${teams.find(t => t.id === target.teamId)?.name || target.teamId} (round-robin)`;
+    case 'queue':
+      return `${target.queue} queue`;
+  }
+};
@@ -0,0 +1,133 @@
+/**
+ * Grievance Similarity
+ *
+ * Finds open grievances that look like the one being written, so people
+ * can join an existing case instead of filing the same complaint again.
+ * Texts are compared with TF-IDF weighted cosine similarity, where words
+ * that appear in many grievances count for less and title words count
+ * double.
+ */
+
+import type { Grievance } from '@/components/GrievanceProvider';
+
+export interface GrievanceDraft {
+  title: string;
+  description: string;
+  department: string;
+  category: Grievance['category'];
+}
+
+export interface SimilarGrievance {
+  grievance: Grievance;
+  score: number; // 0 to 1
+  sharedTerms: string[];
+}
+
+// Statuses that can't take on duplicates
+export const CLOSED_GRIEVANCE_STATUSES: Grievance['status'][] = ['resolved', 'rejected', 'merged'];
+
+const DEFAULT_THRESHOLD = 0.3;
+const DEFAULT_LIMIT = 3;
+// Too short to say much about similarity
+const MIN_TERMS = 3;
+
+const STOPWORDS = new Set([
+  'the', 'and', 'for', 'are', 'but', 'not', 'you', 'all', 'any', 'can', 'had', 'has', 'have', 'her', 'his',
+  'was', 'one', 'our', 'out', 'get', 'got', 'him', 'how', 'its', 'may', 'now', 'see', 'she', 'too', 'use',
+  'been', 'from', 'into', 'just', 'more', 'some', 'than', 'that', 'them', 'then', 'they', 'this', 'very',
+  'were', 'what', 'when', 'will', 'with', 'your', 'also', 'about', 'after', 'again', 'being', 'could',
+  'there', 'their', 'these', 'those', 'which', 'while', 'would', 'since', 'still', 'past', 'last', 'week',
+  'month', 'please', 'issue', 'issues', 'problem', 'problems',
+]);
+
+// Crude stemming so "delays", "delayed" and "delay" count as the same word
+const stem = (word: string): string => {
+  if (word.length > 5 && word.endsWith('ing')) return word.slice(0, -3);
+  if (word.length > 4 && word.endsWith('ed')) return word.slice(0, -2);
+  if (word.length > 3 && word.endsWith('s') && !word.endsWith('ss')) return word.slice(0, -1);
+  return word;
+};
+
+const tokenize = (text: string): string[] =>
+  text
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(word => word.length > 2 && !STOPWORDS.has(word))
+    .map(stem);
+
+const termsOf = (item: Pick<GrievanceDraft, 'title' | 'description'>): string[] => {
+  const title = tokenize(item.title);
+  return [...title, ...title, ...tokenize(item.description)];
+};
+
+const termFrequencies = (terms: string[]): Map<string, number> => {
+  const counts = new Map<string, number>();
+  terms.forEach(term => counts.set(term, (counts.get(term) || 0) + 1));
+  return counts;
+};
+
+/**
+ * Open grievances in the same department or category that read like the
+ * draft, most similar first
+ */
+export const findSimilarGrievances = (
+  draft: GrievanceDraft,
+  grievances: Grievance[],
+  options: { excludeId?: string; threshold?: number; limit?: number } = {}
+): SimilarGrievance[] => {
+  const { excludeId, threshold = DEFAULT_THRESHOLD, limit = DEFAULT_LIMIT } = options;
+  const draftTerms = termsOf(draft);
+  if (new Set(draftTerms).size < MIN_TERMS) return [];
+
+  const candidates = grievances.filter(g =>
+    g.id !== excludeId &&
+    !CLOSED_GRIEVANCE_STATUSES.includes(g.status) &&
+    (g.department.toLowerCase() === draft.department.toLowerCase() || g.category === draft.category)
+  );
+  if (candidates.length === 0) return [];
+
+  const documents = candidates.map(g => termFrequencies(termsOf(g)));
+  const draftDocument = termFrequencies(draftTerms);
+
+  // Inverse document frequency across the candidates and the draft
+  const documentFrequency = new Map<string, number>();
+  [draftDocument, ...documents].forEach(doc =>
+    doc.forEach((_, term) => documentFrequency.set(term, (documentFrequency.get(term) || 0) + 1))
+  );
+  const total = documents.length + 1;
+  const idf = (term: string) => Math.log((total + 1) / ((documentFrequency.get(term) || 0) + 1)) + 1;
+
+  const weigh = (doc: Map<string, number>) => {
+    const weights = new Map<string, number>();
+    doc.forEach((count, term) => weights.set(term, count * idf(term)));
+    return weights;
+  };
+  const norm = (weights: Map<string, number>) =>
+    Math.sqrt(Array.from(weights.values()).reduce((sum, w) => sum + w * w, 0));
+
+  const draftWeights = weigh(draftDocument);
+  const draftNorm = norm(draftWeights);
+
+  return candidates
+    .map((grievance, index) => {
+      const weights = weigh(documents[index]);
+      let dot = 0;
+      const shared: [string, number][] = [];
+      draftWeights.forEach((weight, term) => {
+        const other = weights.get(term);
+        if (other) {
+          dot += weight * other;
+          shared.push([term, weight * other]);
+        }
+      });
+      const score = dot / ((draftNorm * norm(weights)) || 1);
+      return {
+        grievance,
+        score,
+        sharedTerms: shared.sort((a, b) => b[1] - a[1]).slice(0, 4).map(([term]) => term),
+      };
+    })
+    .filter(match => match.score >= threshold)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit);
+};
@@ -0,0 +1,220 @@
+/**
+ * Grievance SLAs
+ *
+ * Works out which SLA policy applies to a grievance, when its first
+ * response and resolution are due (counting only the working hours of the
+ * policy's business calendar) and whether each target is on track, at
+ * risk, met, missed or breached.
+ */
+
+import { addDays, addMinutes, differenceInMinutes, format, startOfDay } from 'date-fns';
+import type {
+  BusinessCalendar,
+  Grievance,
+  SlaPolicy,
+  SlaTarget,
+} from '@/components/GrievanceProvider';
+
+export type SlaState = 'on-track' | 'at-risk' | 'breached' | 'met' | 'missed';
+
+export interface SlaTargetStatus {
+  target: SlaTarget;
+  dueAt: Date;
+  completedAt?: Date;
+  state: SlaState;
+  remainingMinutes: number; // wall-clock minutes until due; negative once overdue
+}
+
+export interface GrievanceSlaStatus {
+  policy: SlaPolicy;
+  calendar: BusinessCalendar;
+  firstResponse: SlaTargetStatus;
+  resolution: SlaTargetStatus;
+}
+
+// Share of the allowed business time left below which a target is at risk
+const AT_RISK_THRESHOLD = 0.25;
+// Safety limit when walking the calendar, in days
+const MAX_CALENDAR_DAYS = 3650;
+
+const CLOSED_STATUSES = ['resolved', 'rejected', 'merged'];
+
+/**
+ * The most specific policy for a grievance: an exact category and priority
+ * match beats a category-only match, which beats a priority-only match,
+ * which beats a catch-all policy
+ */
+export const findSlaPolicy = (
+  policies: SlaPolicy[],
+  grievance: Pick<Grievance, 'category' | 'priority'>
+): SlaPolicy | undefined => {
+  return policies
+    .filter(policy =>
+      (policy.category === 'any' || policy.category === grievance.category) &&
+      (policy.priority === 'any' || policy.priority === grievance.priority)
+    )
+    .map(policy => ({
+      policy,
+      specificity: (policy.category !== 'any' ? 2 : 0) + (policy.priority !== 'any' ? 1 : 0),
+    }))
+    .sort((a, b) => b.specificity - a.specificity)[0]?.policy;
+};
+
+// Working window for a calendar day, or null if the calendar is closed
+const getWorkingWindow = (day: Date, calendar: BusinessCalendar): [Date, Date] | null => {
+  const dayStart = startOfDay(day);
+  if (!calendar.workingDays.includes(dayStart.getDay())) return null;
+  if (calendar.holidays.includes(format(dayStart, 'yyyy-MM-dd'))) return null;
+  return [
+    addMinutes(dayStart, calendar.startHour * 60),
+    addMinutes(dayStart, calendar.endHour * 60),
+  ];
+};
+
+/**
+ * The moment `hours` of business time have passed after `start`
+ */
+export const addBusinessHours = (start: Date, hours: number, calendar: BusinessCalendar): Date => {
+  let remaining = Math.round(hours * 60);
+  let cursor = start;
+
+  for (let day = 0; day < MAX_CALENDAR_DAYS; day++) {
+    const window = getWorkingWindow(cursor, calendar);
+    if (window) {
+      const [open, close] = window;
+      const from = cursor < open ? open : cursor;
+      if (from < close) {
+        const available = differenceInMinutes(close, from);
+        if (remaining <= available) return addMinutes(from, remaining);
+        remaining -= available;
+      }
+    }
+    cursor = addDays(startOfDay(cursor), 1);
+  }
+
+  return cursor;
+};
+
+/**
+ * Business minutes between two moments (zero if `end` is before `start`)
+ */
+export const businessMinutesBetween = (start: Date, end: Date, calendar: BusinessCalendar): number => {
+  let total = 0;
+  let cursor = start;
+
+  for (let day = 0; day < MAX_CALENDAR_DAYS && cursor < end; day++) {
+    const window = getWorkingWindow(cursor, calendar);
+    if (window) {
+      const [open, close] = window;
+      const from = cursor < open ? open : cursor;
+      const to = end < close ? end : close;
+      if (from < to) total += differenceInMinutes(to, from);
+    }
+    cursor = addDays(startOfDay(cursor), 1);
+  }
+
+  return total;
+};
+
+/**
+ * When someone other than the submitters first responded, either by moving
+ * the case on or by leaving a comment the submitters can see. Automatic
+ * system updates and comments carried over from merged duplicates don't
+ * count.
+ */
+export const getFirstResponseAt = (grievance: Grievance): Date | undefined => {
+  const submitters = [grievance.createdBy, ...(grievance.coSubmitters || []).map(c => c.id)];
+  const responses = [
+    ...grievance.statusHistory
+      .slice(1)
+      .filter(update => !submitters.includes(update.updatedBy) && update.updatedBy !== 'system')
+      .map(update => update.timestamp),
+    ...grievance.comments
+      .filter(comment => !comment.isInternal && !comment.mergedFrom && !submitters.includes(comment.createdBy))
+      .map(comment => comment.createdAt),
+  ].map(timestamp => new Date(timestamp).getTime());
+
+  return responses.length > 0 ? new Date(Math.min(...responses)) : undefined;
+};
+
+/**
+ * When a closed grievance was last resolved or rejected
+ */
+export const getResolvedAt = (grievance: Grievance): Date | undefined => {
+  if (!CLOSED_STATUSES.includes(grievance.status)) return undefined;
+  const closing = [...grievance.statusHistory].reverse().find(update => CLOSED_STATUSES.includes(update.status));
+  return closing ? new Date(closing.timestamp) : new Date(grievance.updatedAt);
+};
+
+const getTargetStatus = (
+  target: SlaTarget,
+  start: Date,
+  allowedHours: number,
+  completedAt: Date | undefined,
+  calendar: BusinessCalendar,
+  now: Date
+): SlaTargetStatus => {
+  const dueAt = addBusinessHours(start, allowedHours, calendar);
+  const remainingMinutes = differenceInMinutes(dueAt, now);
+
+  let state: SlaState;
+  if (completedAt) {
+    state = completedAt <= dueAt ? 'met' : 'missed';
+  } else if (now > dueAt) {
+    state = 'breached';
+  } else {
+    const businessLeft = businessMinutesBetween(now, dueAt, calendar);
+    state = businessLeft < allowedHours * 60 * AT_RISK_THRESHOLD ? 'at-risk' : 'on-track';
+  }
+
+  return { target, dueAt, completedAt, state, remainingMinutes };
+};
+
+/**
+ * SLA progress for a grievance under the given policy and calendar
+ */
+export const getGrievanceSlaStatus = (
+  grievance: Grievance,
+  policy: SlaPolicy,
+  calendar: BusinessCalendar,
+  now: Date = new Date()
+): GrievanceSlaStatus => {
+  const createdAt = new Date(grievance.createdAt);
+  const resolvedAt = getResolvedAt(grievance);
+  // A case closed without any other response counts as responded to on closing
+  const firstResponseAt = getFirstResponseAt(grievance) || resolvedAt;
+
+  return {
+    policy,
+    calendar,
+    firstResponse: getTargetStatus('first-response', createdAt, policy.firstResponseHours, firstResponseAt, calendar, now),
+    resolution: getTargetStatus('resolution', createdAt, policy.resolutionHours, resolvedAt, calendar, now),
+  };
+};
+
+/**
+ * Targets that are breached but haven't been escalated yet
+ */
+export const getUnrecordedBreaches = (status: GrievanceSlaStatus, recorded: SlaTarget[] = []): SlaTarget[] => {
+  return [status.firstResponse, status.resolution]
+    .filter(target => target.state === 'breached' && !recorded.includes(target.target))
+    .map(target => target.target);
+};
+
+/**
+ * Compact countdown such as "3h 20m left" or "2d 4h overdue"
+ */
+export const formatSlaCountdown = (remainingMinutes: number): string => {
+  const minutes = Math.abs(remainingMinutes);
+  const days = Math.floor(minutes / (60 * 24));
+  const hours = Math.floor((minutes % (60 * 24)) / 60);
+  const mins = minutes % 60;
+
+  const parts = days > 0 ? [`${days}d`, hours > 0 && `${hours}h`] : hours > 0 ? [`${hours}h`, mins > 0 && `${mins}m`] : [`${mins}m`];
+  return `${parts.filter(Boolean).join(' ')} ${remainingMinutes < 0 ? 'overdue' : 'left'}`;
+};
+
+export const SLA_TARGET_LABELS: Record<SlaTarget, string> = {
+  'first-response': 'First response',
+  resolution: 'Resolution',
+};
@@ -0,0 +1,66 @@
+/**
+ * Grievance Satisfaction Surveys
+ *
+ * Every resolution asks the grievance's submitters how satisfied they are
+ * with it. For a limited time after resolving, a submitter who says the
+ * fix didn't work can send the case straight back to review with the
+ * handler who resolved it; after that only senior reviewers can reopen it.
+ */
+
+import { addDays } from 'date-fns';
+import type { Grievance, SatisfactionSurvey } from '@/components/GrievanceProvider';
+
+export const REOPEN_WINDOW_DAYS = 7;
+export const MIN_RATING = 1;
+export const MAX_RATING = 5;
+
+export const RATING_LABELS: Record<number, string> = {
+  1: 'Very dissatisfied',
+  2: 'Dissatisfied',
+  3: 'Neutral',
+  4: 'Satisfied',
+  5: 'Very satisfied',
+};
+
+/**
+ * When the reopen window for a resolution made at `resolvedAt` closes
+ */
+export const getReopenDeadline = (resolvedAt: Date): Date => addDays(resolvedAt, REOPEN_WINDOW_DAYS);
+
+/**
+ * The survey for the grievance's current resolution, if it's resolved
+ */
+export const getCurrentSurvey = (grievance: Grievance): SatisfactionSurvey | undefined => {
+  if (grievance.status !== 'resolved') return undefined;
+  const surveys = grievance.satisfactionSurveys || [];
+  return surveys[surveys.length - 1];
+};
+
+/**
+ * Whether the user raised the grievance or joined it
+ */
+export const isGrievanceSubmitter = (grievance: Grievance, userId: string): boolean =>
+  grievance.createdBy === userId || !!grievance.coSubmitters?.some(c => c.id === userId);
+
+export const isReopenWindowOpen = (survey: SatisfactionSurvey, now: Date = new Date()): boolean =>
+  now <= new Date(survey.reopenUntil);
+
+/**
+ * Resolved grievances still waiting for this user's rating
+ */
+export const getPendingSurveys = (grievances: Grievance[], userId: string): { grievance: Grievance; survey: SatisfactionSurvey }[] =>
+  grievances
+    .filter(grievance => isGrievanceSubmitter(grievance, userId))
+    .map(grievance => ({ grievance, survey: getCurrentSurvey(grievance) }))
+    .filter((item): item is { grievance: Grievance; survey: SatisfactionSurvey } =>
+      !!item.survey && !item.survey.responses.some(response => response.userId === userId)
+    );
+
+/**
+ * Average rating across survey responses, or null without any
+ */
+export const averageRating = (surveys: SatisfactionSurvey[]): number | null => {
+  const ratings = surveys.flatMap(survey => survey.responses.map(response => response.rating));
+  if (ratings.length === 0) return null;
+  return Math.round((ratings.reduce((sum, rating) => sum + rating, 0) / ratings.length) * 10) / 10;
+};
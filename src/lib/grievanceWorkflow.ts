@@ -0,0 +1,250 @@
+/**
+ * Grievance Workflow
+ *
+ * The grievance status state machine: which status changes are allowed,
+ * who may make them and what has to be recorded with each one. The
+ * GrievanceProvider validates every status change against this table and
+ * the grievances page uses it to offer only the valid next actions.
+ */
+
+import type { UserRole } from '@/components/AuthProvider';
+import type { Grievance, GrievanceStatus } from '@/components/GrievanceProvider';
+import { getCurrentSurvey, isGrievanceSubmitter, isReopenWindowOpen } from '@/lib/grievanceSurveys';
+
+// Information a transition can require from whoever makes it
+export type TransitionField = 'comment' | 'resolution' | 'rejectionReason';
+
+export interface TransitionInput {
+  comment?: string;
+  resolution?: string;
+  rejectionReason?: string;
+}
+
+// Changes that are part of a larger action and only happen through it
+export type TransitionFlow = 'survey' | 'merge';
+
+export interface GrievanceTransition {
+  id: string;
+  from: GrievanceStatus[];
+  to: GrievanceStatus;
+  label: string;
+  requires: TransitionField[];
+  roles: UserRole[]; // reviewer roles allowed to make the change
+  allowSubmitter?: boolean; // the people who raised the grievance may make it too
+  flow?: TransitionFlow; // never offered as a plain status change
+  check?: (grievance: Grievance) => string | null; // why it can't be made right now
+}
+
+// Who is making a change; automatic changes (SLA escalations) have no role
+export type TransitionActor = { id: string; role: UserRole } | 'system';
+
+export const REVIEWER_ROLES: UserRole[] = ['admin', 'department_head', 'manager', 'team_lead'];
+export const SENIOR_REVIEWER_ROLES: UserRole[] = ['admin', 'department_head'];
+
+export const GRIEVANCE_TRANSITIONS: GrievanceTransition[] = [
+  {
+    id: 'start-review',
+    from: ['pending', 'reopened'],
+    to: 'in-review',
+    label: 'Start review',
+    requires: [],
+    roles: REVIEWER_ROLES,
+  },
+  {
+    id: 'escalate',
+    from: ['pending', 'in-review', 'reopened'],
+    to: 'escalated',
+    label: 'Escalate',
+    requires: ['comment'],
+    roles: REVIEWER_ROLES,
+  },
+  {
+    id: 'return-to-review',
+    from: ['escalated'],
+    to: 'in-review',
+    label: 'Return to review',
+    requires: ['comment'],
+    roles: SENIOR_REVIEWER_ROLES,
+  },
+  {
+    id: 'resolve',
+    from: ['in-review', 'reopened'],
+    to: 'resolved',
+    label: 'Mark as resolved',
+    requires: ['resolution'],
+    roles: REVIEWER_ROLES,
+  },
+  {
+    id: 'resolve-escalated',
+    from: ['escalated'],
+    to: 'resolved',
+    label: 'Mark as resolved',
+    requires: ['resolution'],
+    roles: SENIOR_REVIEWER_ROLES,
+  },
+  {
+    id: 'reject',
+    from: ['pending', 'in-review', 'reopened'],
+    to: 'rejected',
+    label: 'Reject',
+    requires: ['rejectionReason'],
+    roles: REVIEWER_ROLES,
+  },
+  {
+    id: 'reject-escalated',
+    from: ['escalated'],
+    to: 'rejected',
+    label: 'Reject',
+    requires: ['rejectionReason'],
+    roles: SENIOR_REVIEWER_ROLES,
+  },
+  // Submitters send a resolved case back to review from the satisfaction
+  // survey, while its reopen window is open
+  {
+    id: 'reopen-from-survey',
+    from: ['resolved'],
+    to: 'in-review',
+    label: 'Reopen',
+    requires: ['comment'],
+    roles: [],
+    allowSubmitter: true,
+    flow: 'survey',
+    check: grievance => {
+      const survey = getCurrentSurvey(grievance);
+      return survey && isReopenWindowOpen(survey)
+        ? null
+        : 'The window for reopening this grievance has closed. Ask an admin or department head to reopen it.';
+    },
+  },
+  // After that, and for rejected cases, only senior reviewers can reopen
+  {
+    id: 'reopen-resolved',
+    from: ['resolved'],
+    to: 'reopened',
+    label: 'Reopen',
+    requires: ['comment'],
+    roles: SENIOR_REVIEWER_ROLES,
+  },
+  {
+    id: 'reopen-rejected',
+    from: ['rejected'],
+    to: 'reopened',
+    label: 'Reopen',
+    requires: ['comment'],
+    roles: SENIOR_REVIEWER_ROLES,
+  },
+  // A duplicate is closed by merging it into another open grievance
+  {
+    id: 'merge',
+    from: ['pending', 'in-review', 'escalated', 'reopened'],
+    to: 'merged',
+    label: 'Merge',
+    requires: [],
+    roles: REVIEWER_ROLES,
+    flow: 'merge',
+  },
+];
+
+const FLOW_LABELS: Record<TransitionFlow, string> = {
+  survey: 'the satisfaction survey',
+  merge: 'merging it into another grievance',
+};
+
+// Only escalation happens automatically
+const SYSTEM_TRANSITIONS = ['escalate'];
+
+export const GRIEVANCE_STATUS_LABELS: Record<GrievanceStatus, string> = {
+  pending: 'Pending',
+  'in-review': 'In Review',
+  escalated: 'Escalated',
+  resolved: 'Resolved',
+  rejected: 'Rejected',
+  reopened: 'Reopened',
+  merged: 'Merged',
+};
+
+export const TRANSITION_FIELD_LABELS: Record<TransitionField, string> = {
+  comment: 'a reason',
+  resolution: 'a resolution',
+  rejectionReason: 'a rejection reason',
+};
+
+const ROLE_LABELS: Record<UserRole, string> = {
+  admin: 'admins',
+  department_head: 'department heads',
+  manager: 'managers',
+  team_lead: 'team leads',
+  employee: 'employees',
+  guest: 'guests',
+};
+
+const canMake = (transition: GrievanceTransition, grievance: Grievance, actor: TransitionActor): boolean => {
+  if (actor === 'system') return SYSTEM_TRANSITIONS.includes(transition.id);
+  return transition.roles.includes(actor.role) || (!!transition.allowSubmitter && isGrievanceSubmitter(grievance, actor.id));
+};
+
+/**
+ * The transition from one status to another, if the table has one
+ */
+export const findTransition = (from: GrievanceStatus, to: GrievanceStatus): GrievanceTransition | undefined => {
+  return GRIEVANCE_TRANSITIONS.find(transition => transition.from.includes(from) && transition.to === to);
+};
+
+/**
+ * Plain status changes the actor can make from the grievance's current status
+ */
+export const getAvailableTransitions = (grievance: Grievance, actor: TransitionActor): GrievanceTransition[] => {
+  return GRIEVANCE_TRANSITIONS.filter(transition =>
+    !transition.flow &&
+    transition.from.includes(grievance.status) &&
+    canMake(transition, grievance, actor) &&
+    !transition.check?.(grievance)
+  );
+};
+
+/**
+ * Why a status change isn't allowed, or null if it is. `flow` is the larger
+ * action making the change, if any.
+ */
+export const validateTransition = (
+  grievance: Grievance,
+  to: GrievanceStatus,
+  input: TransitionInput,
+  actor: TransitionActor,
+  flow?: TransitionFlow
+): string | null => {
+  const from = grievance.status;
+  const transition = findTransition(from, to);
+
+  if (!transition) {
+    const next = GRIEVANCE_TRANSITIONS
+      .filter(t => t.from.includes(from))
+      .map(t => GRIEVANCE_STATUS_LABELS[t.to]);
+    const allowed = Array.from(new Set(next));
+    return `Can't move a grievance from ${GRIEVANCE_STATUS_LABELS[from]} to ${GRIEVANCE_STATUS_LABELS[to]}. ` +
+      (allowed.length > 0 ? `Allowed next statuses: ${allowed.join(', ')}.` : 'It has no further statuses.');
+  }
+
+  if (!canMake(transition, grievance, actor)) {
+    const who = transition.roles.map(role => ROLE_LABELS[role]);
+    if (transition.allowSubmitter) who.push('the people who raised it');
+    const whoText = who.length > 1 ? `${who.slice(0, -1).join(', ')} or ${who[who.length - 1]}` : who[0];
+    return `Only ${whoText} can ${transition.label.toLowerCase()} a grievance that is ${GRIEVANCE_STATUS_LABELS[from]}.`;
+  }
+
+  if (transition.flow !== flow) {
+    return transition.flow
+      ? `A grievance is moved to ${GRIEVANCE_STATUS_LABELS[to]} only through ${FLOW_LABELS[transition.flow]}.`
+      : `${transition.label} is a status change of its own, not part of another action.`;
+  }
+
+  const unavailable = transition.check?.(grievance);
+  if (unavailable) return unavailable;
+
+  const missing = transition.requires.filter(field => !input[field]?.trim());
+  if (missing.length > 0) {
+    return `Provide ${missing.map(field => TRANSITION_FIELD_LABELS[field]).join(' and ')} to ${transition.label.toLowerCase()} this grievance.`;
+  }
+
+  return null;
+};
@@ -0,0 +1,149 @@
+/**
+ * Task Recurrence
+ *
+ * RRULE-style recurrence rules for repeating tasks (weekly payroll checks,
+ * monthly compliance reviews). Occurrence dates are always generated from
+ * the series start so that holiday shifts never make the schedule drift.
+ */
+
+import {
+  addDays,
+  addMonths,
+  addWeeks,
+  format,
+  isAfter,
+  isWeekend,
+  parseISO,
+  startOfWeek,
+} from 'date-fns';
+
+export type RecurrenceFrequency = 'daily' | 'weekly' | 'monthly';
+
+export interface RecurrenceRule {
+  frequency: RecurrenceFrequency;
+  interval: number; // every N days/weeks/months
+  byWeekday?: number[]; // weekly only: 0 (Sunday) – 6 (Saturday)
+  count?: number; // end after N occurrences
+  until?: string; // end on this date (ISO)
+  skipHolidays?: boolean; // avoid weekends and company holidays
+}
+
+// Company-wide holidays as MM-dd, observed every year
+export const COMPANY_HOLIDAYS = ['01-01', '05-01', '12-25', '12-26'];
+
+const RRULE_DAYS = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+const DAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+/**
+ * Whether a date falls on a weekend or a company holiday
+ */
+export const isNonWorkingDay = (date: Date): boolean => {
+  return isWeekend(date) || COMPANY_HOLIDAYS.includes(format(date, 'MM-dd'));
+};
+
+// Nominal (unshifted) date of the nth occurrence, 1-based
+const nominalOccurrence = (rule: RecurrenceRule, start: Date, index: number): Date => {
+  const interval = Math.max(rule.interval || 1, 1);
+
+  if (rule.frequency === 'daily') {
+    return addDays(start, (index - 1) * interval);
+  }
+
+  if (rule.frequency === 'monthly') {
+    // Always offset from the start so the 31st stays the last day of short months
+    return addMonths(start, (index - 1) * interval);
+  }
+
+  const weekdays = rule.byWeekday && rule.byWeekday.length > 0
+    ? [...rule.byWeekday].sort((a, b) => a - b)
+    : [start.getDay()];
+  const firstWeek = startOfWeek(start);
+  const timeOffset = start.getTime() - new Date(start).setHours(0, 0, 0, 0);
+
+  let found = 0;
+  for (let week = 0; ; week += interval) {
+    for (const weekday of weekdays) {
+      const candidate = new Date(addDays(addWeeks(firstWeek, week), weekday).getTime() + timeOffset);
+      if (candidate.getTime() < start.getTime()) continue;
+      found += 1;
+      if (found === index) return candidate;
+    }
+  }
+};
+
+/**
+ * Date of the nth occurrence (1-based) of a series starting at `start`.
+ * With skipHolidays, daily series drop non-working days while weekly and
+ * monthly series move to the next working day.
+ */
+export const getOccurrenceDate = (rule: RecurrenceRule, start: string, index: number): Date => {
+  const startDate = parseISO(start);
+
+  if (rule.skipHolidays && rule.frequency === 'daily') {
+    let found = 0;
+    for (let n = 1; ; n++) {
+      const candidate = nominalOccurrence(rule, startDate, n);
+      if (isNonWorkingDay(candidate)) continue;
+      found += 1;
+      if (found === index) return candidate;
+    }
+  }
+
+  let date = nominalOccurrence(rule, startDate, index);
+  if (rule.skipHolidays) {
+    while (isNonWorkingDay(date)) {
+      date = addDays(date, 1);
+    }
+  }
+  return date;
+};
+
+/**
+ * Date of the occurrence after `currentIndex`, or null once the series has
+ * ended (occurrence count reached or past the until date)
+ */
+export const getNextOccurrence = (rule: RecurrenceRule, start: string, currentIndex: number): Date | null => {
+  const nextIndex = currentIndex + 1;
+  if (rule.count && nextIndex > rule.count) return null;
+
+  const next = getOccurrenceDate(rule, start, nextIndex);
+  if (rule.until && isAfter(next, parseISO(rule.until))) return null;
+
+  return next;
+};
+
+/**
+ * Serialize a rule in iCalendar RRULE syntax, e.g. FREQ=WEEKLY;INTERVAL=1;BYDAY=MO
+ */
+export const toRRuleString = (rule: RecurrenceRule): string => {
+  const parts = [`FREQ=${rule.frequency.toUpperCase()}`, `INTERVAL=${rule.interval || 1}`];
+  if (rule.frequency === 'weekly' && rule.byWeekday?.length) {
+    parts.push(`BYDAY=${rule.byWeekday.map(day => RRULE_DAYS[day]).join(',')}`);
+  }
+  if (rule.count) parts.push(`COUNT=${rule.count}`);
+  if (rule.until) parts.push(`UNTIL=${format(parseISO(rule.until), "yyyyMMdd'T'HHmmss")}`);
+  return parts.join(';');
+};
+
+/**
+ * Human-readable summary, e.g. "Every 2 weeks on Monday, Friday, 10 times"
+ */
+export const describeRecurrence = (rule: RecurrenceRule): string => {
+  const interval = rule.interval || 1;
+  const unit = { daily: 'day', weekly: 'week', monthly: 'month' }[rule.frequency];
+  let description = interval === 1 ? `Every ${unit}` : `Every ${interval} ${unit}s`;
+
+  if (rule.frequency === 'weekly' && rule.byWeekday?.length) {
+    description += ` on ${[...rule.byWeekday].sort((a, b) => a - b).map(day => DAY_NAMES[day]).join(', ')}`;
+  }
+  if (rule.count) {
+    description += `, ${rule.count} times`;
+  } else if (rule.until) {
+    description += `, until ${format(parseISO(rule.until), 'MMM d, yyyy')}`;
+  }
+  if (rule.skipHolidays) {
+    description += ' (skipping holidays)';
+  }
+
+  return description;
+};
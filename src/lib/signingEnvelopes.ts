@@ -0,0 +1,242 @@
+/**
+ * Signing Envelopes
+ *
+ * A signing envelope sends a document to a list of signers, either one after
+ * another in order or all at once, each with an optional deadline. Signers
+ * are reminded as their deadline nears and again once it has passed, can
+ * decline with a reason, and every step is kept on the envelope's timeline.
+ * The envelope is complete once every required signer has signed; a
+ * required signer declining stops it.
+ */
+
+import { differenceInMinutes } from 'date-fns';
+import { v4 as uuidv4 } from 'uuid';
+import type { Document } from '@/components/DocumentProvider';
+
+export type SigningOrder = 'sequential' | 'parallel';
+export type EnvelopeStatus = 'in-progress' | 'completed' | 'declined' | 'cancelled';
+export type EnvelopeSignerStatus = 'waiting' | 'pending' | 'signed' | 'declined';
+export type SigningReminder = 'due-soon' | 'overdue';
+export type EnvelopeEventType = 'created' | 'sent' | 'reminded' | 'signed' | 'declined' | 'completed' | 'cancelled';
+
+export interface EnvelopeSigner {
+  userId: string;
+  userName: string;
+  required: boolean;
+  dueDate?: string;
+  status: EnvelopeSignerStatus;
+  sentAt?: string; // when it became their turn
+  signatureId?: string;
+  signedAt?: string;
+  declinedAt?: string;
+  declineReason?: string;
+  reminders: SigningReminder[]; // reminders already sent
+}
+
+export interface EnvelopeEvent {
+  id: string;
+  timestamp: string;
+  type: EnvelopeEventType;
+  actorId?: string; // missing for automatic steps
+  actorName?: string;
+  details: string;
+}
+
+export interface SigningEnvelope {
+  id: string;
+  order: SigningOrder;
+  status: EnvelopeStatus;
+  message?: string; // shown to the signers
+  createdBy: string;
+  createdByName: string;
+  createdAt: string;
+  completedAt?: string;
+  signers: EnvelopeSigner[]; // in signing order
+  events: EnvelopeEvent[];
+}
+
+export interface NewEnvelopeSigner {
+  userId: string;
+  userName: string;
+  required: boolean;
+  dueDate?: string;
+}
+
+type Actor = { id: string; name: string };
+
+// How long before a deadline signers get their first reminder
+export const REMINDER_LEAD_HOURS = 24;
+
+export const ENVELOPE_STATUS_LABELS: Record<EnvelopeStatus, string> = {
+  'in-progress': 'Out for signature',
+  completed: 'Completed',
+  declined: 'Declined',
+  cancelled: 'Cancelled',
+};
+
+export const SIGNER_STATUS_LABELS: Record<EnvelopeSignerStatus, string> = {
+  waiting: 'Waiting',
+  pending: 'Awaiting signature',
+  signed: 'Signed',
+  declined: 'Declined',
+};
+
+const event = (type: EnvelopeEventType, details: string, now: string, actor?: Actor): EnvelopeEvent => ({
+  id: uuidv4(),
+  timestamp: now,
+  type,
+  actorId: actor?.id,
+  actorName: actor?.name,
+  details,
+});
+
+/**
+ * The envelope still collecting signatures, if any
+ */
+export const getActiveEnvelope = (document: Document): SigningEnvelope | undefined =>
+  document.envelopes?.find(envelope => envelope.status === 'in-progress');
+
+/**
+ * The envelope to show for a document: the active one, or else the latest
+ */
+export const getCurrentEnvelope = (document: Document): SigningEnvelope | undefined =>
+  getActiveEnvelope(document) || document.envelopes?.[document.envelopes.length - 1];
+
+/**
+ * Why the document can't be sent to these signers, or null if it can
+ */
+export const validateEnvelope = (signers: NewEnvelopeSigner[], now: Date = new Date()): string | null => {
+  if (signers.length === 0) return 'Add at least one signer';
+  if (!signers.some(signer => signer.required)) return 'At least one signer must be required';
+  if (new Set(signers.map(signer => signer.userId)).size !== signers.length) return 'Each person can only be a signer once';
+  if (signers.some(signer => signer.dueDate && new Date(signer.dueDate) <= now)) return 'Deadlines must be in the future';
+  return null;
+};
+
+// Send the document to whoever's turn it is now and close the envelope once
+// every required signer has signed
+const advance = (envelope: SigningEnvelope, now: string): SigningEnvelope => {
+  if (envelope.status !== 'in-progress') return envelope;
+
+  if (envelope.signers.filter(signer => signer.required).every(signer => signer.status === 'signed')) {
+    return {
+      ...envelope,
+      status: 'completed',
+      completedAt: now,
+      events: [...envelope.events, event('completed', 'All required signatures collected', now)],
+    };
+  }
+
+  const sendTo = envelope.order === 'parallel'
+    ? envelope.signers.filter(signer => signer.status === 'waiting')
+    : envelope.signers.some(signer => signer.status === 'pending')
+      ? []
+      : envelope.signers.filter(signer => signer.status === 'waiting').slice(0, 1);
+  if (sendTo.length === 0) return envelope;
+
+  return {
+    ...envelope,
+    signers: envelope.signers.map(signer => sendTo.includes(signer) ? { ...signer, status: 'pending', sentAt: now } : signer),
+    events: [...envelope.events, ...sendTo.map(signer => event('sent', `Sent to ${signer.userName} for signature`, now))],
+  };
+};
+
+/**
+ * A new envelope, already sent to the first signer or, in parallel, to everyone
+ */
+export const createEnvelope = (
+  signers: NewEnvelopeSigner[],
+  options: { order: SigningOrder; message?: string },
+  creator: Actor,
+  now: string = new Date().toISOString()
+): SigningEnvelope => advance({
+  id: uuidv4(),
+  order: options.order,
+  status: 'in-progress',
+  message: options.message?.trim() || undefined,
+  createdBy: creator.id,
+  createdByName: creator.name,
+  createdAt: now,
+  signers: signers.map(signer => ({ ...signer, status: 'waiting', reminders: [] })),
+  events: [event(
+    'created',
+    `Signatures requested from ${signers.length} ${signers.length === 1 ? 'person' : 'people'}, ${options.order === 'sequential' ? 'one after another' : 'in any order'}`,
+    now,
+    creator
+  )],
+}, now);
+
+/**
+ * Why the user can't sign in this envelope right now, or null if they can
+ */
+export const getSigningBlocker = (envelope: SigningEnvelope, userId: string): string | null => {
+  const signer = envelope.signers.find(s => s.userId === userId);
+  if (!signer) return "You're not one of this document's signers";
+  if (signer.status === 'signed') return "You've already signed this document";
+  if (signer.status === 'declined') return 'You declined to sign this document';
+  if (signer.status === 'waiting') {
+    const waitingOn = envelope.signers.filter(s => s.status === 'pending').map(s => s.userName);
+    return `It's not your turn yet; waiting for ${waitingOn.join(', ') || 'earlier signers'} to sign`;
+  }
+  return null;
+};
+
+export const recordSignature = (envelope: SigningEnvelope, signer: Actor, signatureId: string, now: string = new Date().toISOString()): SigningEnvelope =>
+  advance({
+    ...envelope,
+    signers: envelope.signers.map(s => s.userId === signer.id ? { ...s, status: 'signed', signatureId, signedAt: now } : s),
+    events: [...envelope.events, event('signed', `Signed by ${signer.name}`, now, signer)],
+  }, now);
+
+/**
+ * A signer declines. A required signer stops the envelope; an optional one is skipped.
+ */
+export const recordDecline = (envelope: SigningEnvelope, signer: Actor, reason: string, now: string = new Date().toISOString()): SigningEnvelope => {
+  const required = envelope.signers.find(s => s.userId === signer.id)?.required;
+  const declined: SigningEnvelope = {
+    ...envelope,
+    signers: envelope.signers.map(s => s.userId === signer.id ? { ...s, status: 'declined', declinedAt: now, declineReason: reason } : s),
+    events: [...envelope.events, event('declined', `Declined by ${signer.name}: ${reason}`, now, signer)],
+  };
+  return required ? { ...declined, status: 'declined' } : advance(declined, now);
+};
+
+export const cancelEnvelope = (envelope: SigningEnvelope, actor: Actor, now: string = new Date().toISOString()): SigningEnvelope => ({
+  ...envelope,
+  status: 'cancelled',
+  events: [...envelope.events, event('cancelled', `Cancelled by ${actor.name}`, now, actor)],
+});
+
+/**
+ * Reminders due for signers whose turn it is: one as the deadline nears,
+ * another once it has passed
+ */
+export const getDueReminders = (envelope: SigningEnvelope, now: Date = new Date()): { userId: string; reminder: SigningReminder }[] => {
+  if (envelope.status !== 'in-progress') return [];
+  return envelope.signers.flatMap(signer => {
+    if (signer.status !== 'pending' || !signer.dueDate) return [];
+    const minutesLeft = differenceInMinutes(new Date(signer.dueDate), now);
+    const reminder: SigningReminder | null = minutesLeft < 0
+      ? 'overdue'
+      : minutesLeft <= REMINDER_LEAD_HOURS * 60 ? 'due-soon' : null;
+    // An overdue reminder replaces a due-soon one that was never sent
+    if (!reminder || signer.reminders.includes(reminder) || (reminder === 'due-soon' && signer.reminders.length > 0)) return [];
+    return [{ userId: signer.userId, reminder }];
+  });
+};
+
+export const recordReminder = (envelope: SigningEnvelope, userId: string, reminder: SigningReminder, now: string = new Date().toISOString()): SigningEnvelope => {
+  const signer = envelope.signers.find(s => s.userId === userId);
+  if (!signer) return envelope;
+  return {
+    ...envelope,
+    signers: envelope.signers.map(s => s === signer ? { ...s, reminders: [...s.reminders, reminder] } : s),
+    events: [...envelope.events, event(
+      'reminded',
+      reminder === 'overdue'
+        ? `Reminded ${signer.userName}; their deadline has passed`
+        : `Reminded ${signer.userName}; their deadline is within ${REMINDER_LEAD_HOURS} hours`,
+      now
+    )],
+  };
+};
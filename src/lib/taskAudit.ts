@@ -0,0 +1,102 @@
+/**
+ * Task Audit
+ *
+ * Field-level change tracking for tasks: works out which fields an update
+ * actually changed so TasksProvider can write them to the audit log, and
+ * formats the recorded values for the task history view.
+ */
+
+import { format, isValid, parseISO } from 'date-fns';
+import type { Task } from '@/components/TasksProvider';
+
+export interface TaskFieldChange {
+  field: string;
+  oldValue: unknown;
+  newValue: unknown;
+}
+
+// Bookkeeping fields that change on every write and aren't worth recording
+const IGNORED_FIELDS = new Set(['id', 'createdAt', 'updatedAt']);
+const DATE_FIELDS = new Set(['dueDate', 'startDate']);
+
+export const TASK_FIELD_LABELS: Record<string, string> = {
+  title: 'Title',
+  description: 'Description',
+  status: 'Status',
+  dueDate: 'Due date',
+  department: 'Department',
+  priority: 'Priority',
+  assignedTo: 'Assignee',
+  startDate: 'Start date',
+  estimatedDuration: 'Estimated duration',
+  dependencies: 'Dependencies',
+  checklist: 'Checklist',
+  boardColumn: 'Board column',
+  requiredSkills: 'Required skills',
+  parentId: 'Parent task',
+  seriesId: 'Recurring series',
+  occurrenceIndex: 'Occurrence',
+};
+
+const isSameValue = (field: string, a: unknown, b: unknown): boolean => {
+  // The same moment can be serialized differently, so compare dates by time
+  if (DATE_FIELDS.has(field) && typeof a === 'string' && typeof b === 'string') {
+    return Date.parse(a) === Date.parse(b);
+  }
+  return JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+};
+
+/**
+ * Fields that differ between two versions of a task
+ */
+export const getTaskChanges = (before: Partial<Task>, after: Partial<Task>): TaskFieldChange[] => {
+  const fields = new Set([...Object.keys(before), ...Object.keys(after)]);
+  return Array.from(fields)
+    .filter(field => !IGNORED_FIELDS.has(field))
+    .filter(field => !isSameValue(field, before[field as keyof Task], after[field as keyof Task]))
+    .map(field => ({
+      field,
+      oldValue: before[field as keyof Task],
+      newValue: after[field as keyof Task],
+    }));
+};
+
+/**
+ * One-line summary of a set of changes for the audit log's details column
+ */
+export const describeTaskChanges = (changes: TaskFieldChange[]): string => {
+  if (changes.length === 1 && changes[0].field === 'status') {
+    return `Changed status from ${changes[0].oldValue} to ${changes[0].newValue}`;
+  }
+  return `Updated ${changes.map(change => (TASK_FIELD_LABELS[change.field] || change.field).toLowerCase()).join(', ')}`;
+};
+
+/**
+ * Human-readable rendering of a recorded value; `getName` turns user IDs
+ * into names for the assignee field
+ */
+export const formatTaskAuditValue = (
+  field: string,
+  value: unknown,
+  getName: (id: string) => string = id => id
+): string => {
+  if (value === undefined || value === null || value === '') return '—';
+
+  if (DATE_FIELDS.has(field) && typeof value === 'string') {
+    const date = parseISO(value);
+    return isValid(date) ? format(date, 'MMM d, yyyy p') : value;
+  }
+  if (field === 'assignedTo' && typeof value === 'string') return getName(value);
+  if (field === 'checklist' && Array.isArray(value)) {
+    const done = value.filter(item => item?.done).length;
+    return `${value.length} item${value.length === 1 ? '' : 's'} (${done} done)`;
+  }
+  if (field === 'dependencies' && Array.isArray(value)) {
+    return `${value.length} dependenc${value.length === 1 ? 'y' : 'ies'}`;
+  }
+  if (field === 'requiredSkills' && Array.isArray(value)) {
+    return value.map(requirement => `${requirement.skill} ${requirement.level}`).join(', ') || '—';
+  }
+  if (Array.isArray(value) || typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+};
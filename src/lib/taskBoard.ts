@@ -0,0 +1,46 @@
+/**
+ * Task Board
+ *
+ * Column placement and work-in-progress (WIP) limits for the Kanban view.
+ * The built-in columns share their IDs with the task statuses; user-defined
+ * columns map onto one of those statuses and are remembered per task.
+ */
+
+import type { BoardColumn, Task } from '@/components/TasksProvider';
+
+/**
+ * Whether a column is one of the built-in status columns
+ */
+export const isStatusColumn = (column: BoardColumn): boolean => {
+  return column.id === column.status;
+};
+
+/**
+ * Column a task currently sits in. Tasks whose custom column was removed, or
+ * whose status has since changed elsewhere, fall back to their status column.
+ */
+export const getTaskColumnId = (task: Task, columns: BoardColumn[]): string => {
+  const custom = task.boardColumn ? columns.find(c => c.id === task.boardColumn) : undefined;
+  return custom && custom.status === task.status ? custom.id : task.status;
+};
+
+/**
+ * Number of tasks from a department in a column
+ */
+export const countColumnTasks = (
+  tasks: Task[],
+  columns: BoardColumn[],
+  columnId: string,
+  department: string
+): number => {
+  return tasks.filter(task =>
+    task.department === department && getTaskColumnId(task, columns) === columnId
+  ).length;
+};
+
+/**
+ * WIP limit a column sets for a department, if any
+ */
+export const getWipLimit = (column: BoardColumn, department: string): number | undefined => {
+  return column.wipLimits?.[department];
+};
@@ -0,0 +1,183 @@
+/**
+ * Task Dependencies
+ *
+ * Helpers for working with blocking/blocked-by links between tasks:
+ * cycle detection, blocked-state checks and critical-path scheduling.
+ */
+
+import type { Task, TaskDependency } from '@/components/TasksProvider';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface ScheduledTask {
+  taskId: string;
+  earliestStart: number;
+  earliestFinish: number;
+  latestStart: number;
+  latestFinish: number;
+  slack: number;
+  isCritical: boolean;
+}
+
+export interface CriticalPathResult {
+  projectStart: number;
+  projectFinish: number;
+  deadline: number;
+  schedule: Record<string, ScheduledTask>;
+  criticalTaskIds: string[];
+}
+
+/**
+ * Tasks that must finish (or start) before the given task can proceed
+ */
+export const getPredecessors = (task: Task, tasks: Task[]): { task: Task; dependency: TaskDependency }[] => {
+  return (task.dependencies || [])
+    .map(dependency => ({ task: tasks.find(t => t.id === dependency.taskId), dependency }))
+    .filter((entry): entry is { task: Task; dependency: TaskDependency } => !!entry.task);
+};
+
+/**
+ * Tasks that are waiting on the given task
+ */
+export const getSuccessors = (taskId: string, tasks: Task[]): Task[] => {
+  return tasks.filter(task => task.dependencies?.some(dep => dep.taskId === taskId));
+};
+
+/**
+ * A task is blocked while any finish-to-start predecessor is unfinished,
+ * or any start-to-start predecessor has not started yet
+ */
+export const isTaskBlocked = (task: Task, tasks: Task[]): boolean => {
+  return getPredecessors(task, tasks).some(({ task: predecessor, dependency }) =>
+    dependency.type === 'finish-to-start'
+      ? predecessor.status !== 'completed'
+      : predecessor.status === 'pending'
+  );
+};
+
+/**
+ * Check whether making `taskId` depend on `dependsOnId` would close a loop.
+ * Walks the predecessors of `dependsOnId` looking for `taskId`.
+ */
+export const wouldCreateCycle = (tasks: Task[], taskId: string, dependsOnId: string): boolean => {
+  if (taskId === dependsOnId) return true;
+
+  const byId = new Map(tasks.map(task => [task.id, task]));
+  const visited = new Set<string>();
+  const stack = [dependsOnId];
+
+  while (stack.length > 0) {
+    const currentId = stack.pop()!;
+    if (currentId === taskId) return true;
+    if (visited.has(currentId)) continue;
+    visited.add(currentId);
+
+    const current = byId.get(currentId);
+    current?.dependencies?.forEach(dep => stack.push(dep.taskId));
+  }
+
+  return false;
+};
+
+// Topological order of the given tasks (Kahn's algorithm); tasks caught in a
+// cycle are appended at the end so scheduling never loops forever
+const topologicalOrder = (tasks: Task[]): Task[] => {
+  const ids = new Set(tasks.map(task => task.id));
+  const inDegree = new Map<string, number>();
+  tasks.forEach(task => {
+    inDegree.set(task.id, (task.dependencies || []).filter(dep => ids.has(dep.taskId)).length);
+  });
+
+  const queue = tasks.filter(task => inDegree.get(task.id) === 0);
+  const ordered: Task[] = [];
+
+  while (queue.length > 0) {
+    const task = queue.shift()!;
+    ordered.push(task);
+    getSuccessors(task.id, tasks).forEach(successor => {
+      const remaining = (inDegree.get(successor.id) || 0) - 1;
+      inDegree.set(successor.id, remaining);
+      if (remaining === 0) queue.push(successor);
+    });
+  }
+
+  if (ordered.length < tasks.length) {
+    const orderedIds = new Set(ordered.map(task => task.id));
+    ordered.push(...tasks.filter(task => !orderedIds.has(task.id)));
+  }
+
+  return ordered;
+};
+
+// Remaining working time for a task, in milliseconds
+const remainingDuration = (task: Task): number => {
+  if (task.status === 'completed') return 0;
+  return Math.max(task.estimatedDuration ?? 1, 0) * DAY_MS;
+};
+
+/**
+ * Compute earliest/latest start and finish for every task and flag the ones
+ * with no slack. Delaying a critical task pushes the whole set past the
+ * deadline, which defaults to the earliest possible finish of the set.
+ */
+export const computeCriticalPath = (tasks: Task[], deadline?: string | number, now: number = Date.now()): CriticalPathResult => {
+  const ordered = topologicalOrder(tasks);
+  const ids = new Set(tasks.map(task => task.id));
+  const schedule: Record<string, ScheduledTask> = {};
+
+  // Forward pass
+  ordered.forEach(task => {
+    const ownStart = task.startDate ? Math.max(new Date(task.startDate).getTime(), now) : now;
+    let earliestStart = task.status === 'pending' ? ownStart : now;
+
+    (task.dependencies || []).forEach(dep => {
+      const predecessor = schedule[dep.taskId];
+      if (!ids.has(dep.taskId) || !predecessor) return;
+      const constraint = dep.type === 'finish-to-start' ? predecessor.earliestFinish : predecessor.earliestStart;
+      earliestStart = Math.max(earliestStart, constraint);
+    });
+
+    schedule[task.id] = {
+      taskId: task.id,
+      earliestStart,
+      earliestFinish: earliestStart + remainingDuration(task),
+      latestStart: 0,
+      latestFinish: 0,
+      slack: 0,
+      isCritical: false,
+    };
+  });
+
+  const entries = Object.values(schedule);
+  const projectStart = entries.length > 0 ? Math.min(...entries.map(entry => entry.earliestStart)) : now;
+  const projectFinish = entries.length > 0 ? Math.max(...entries.map(entry => entry.earliestFinish)) : now;
+  const deadlineTime = deadline !== undefined ? new Date(deadline).getTime() : projectFinish;
+
+  // Backward pass
+  [...ordered].reverse().forEach(task => {
+    const entry = schedule[task.id];
+    let latestFinish = deadlineTime;
+
+    getSuccessors(task.id, tasks).forEach(successor => {
+      const successorEntry = schedule[successor.id];
+      const dep = successor.dependencies!.find(d => d.taskId === task.id)!;
+      const constraint = dep.type === 'finish-to-start'
+        ? successorEntry.latestStart
+        : successorEntry.latestStart + remainingDuration(task);
+      latestFinish = Math.min(latestFinish, constraint);
+    });
+
+    entry.latestFinish = latestFinish;
+    entry.latestStart = latestFinish - remainingDuration(task);
+    entry.slack = entry.latestStart - entry.earliestStart;
+    entry.isCritical = task.status !== 'completed' && entry.slack <= 0;
+  });
+
+  return {
+    projectStart,
+    projectFinish,
+    deadline: deadlineTime,
+    schedule,
+    criticalTaskIds: ordered.filter(task => schedule[task.id].isCritical).map(task => task.id),
+  };
+};
@@ -0,0 +1,72 @@
+/**
+ * Task Hierarchy
+ *
+ * Helpers for nested subtasks and checklist items: walking the tree and
+ * rolling completion up from children to their parent.
+ */
+
+import type { Task } from '@/components/TasksProvider';
+
+/**
+ * Direct subtasks of a task
+ */
+export const getChildTasks = (tasks: Task[], id: string): Task[] => {
+  return tasks.filter(task => task.parentId === id);
+};
+
+/**
+ * IDs of every subtask below a task, at any depth
+ */
+export const getDescendantIds = (tasks: Task[], id: string): string[] => {
+  const descendants: string[] = [];
+  const stack = [id];
+
+  while (stack.length > 0) {
+    const currentId = stack.pop()!;
+    getChildTasks(tasks, currentId).forEach(child => {
+      if (!descendants.includes(child.id)) {
+        descendants.push(child.id);
+        stack.push(child.id);
+      }
+    });
+  }
+
+  return descendants;
+};
+
+/**
+ * Completion of a task between 0 and 1. Tasks with subtasks or checklist
+ * items average their children (each subtask weighted by its own rolled-up
+ * progress, each checklist item by whether it is ticked); leaf tasks are
+ * either done or not.
+ */
+export const computeTaskProgress = (tasks: Task[], id: string, visited: Set<string> = new Set()): number => {
+  const task = tasks.find(t => t.id === id);
+  if (!task || visited.has(id)) return 0;
+  visited.add(id);
+
+  const children = getChildTasks(tasks, id);
+  const checklist = task.checklist || [];
+  const parts = children.length + checklist.length;
+
+  if (parts === 0) {
+    return task.status === 'completed' ? 1 : 0;
+  }
+
+  const childProgress = children.reduce((sum, child) => sum + computeTaskProgress(tasks, child.id, visited), 0);
+  const checklistProgress = checklist.filter(item => item.done).length;
+
+  return (childProgress + checklistProgress) / parts;
+};
+
+/**
+ * Open subtasks and unticked checklist items that stand in the way of
+ * completing a task
+ */
+export const getOpenChildren = (tasks: Task[], id: string): { subtasks: Task[]; checklistItems: number } => {
+  const task = tasks.find(t => t.id === id);
+  return {
+    subtasks: getChildTasks(tasks, id).filter(child => child.status !== 'completed'),
+    checklistItems: (task?.checklist || []).filter(item => !item.done).length,
+  };
+};
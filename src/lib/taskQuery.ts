@@ -0,0 +1,258 @@
+/**
+ * Task Query Language
+ *
+ * Parses filter strings like `status:pending priority:high assignee:me
+ * due:<7d dept:HR` into terms, applies them using the task selectors from
+ * TasksProvider, and turns them back into text so filter menus can edit a
+ * query in place.
+ *
+ * - Values can be comma-separated (`status:pending,in-progress`) and quoted
+ *   (`dept:"Customer Success"`); a leading `-` negates a term.
+ * - `due:` accepts `overdue`, `today`, `none`, relative windows such as
+ *   `<7d`, `>2w` and dates such as `2024-10-04` or `<2024-10-04`.
+ * - Anything that isn't a `field:value` pair is free-text search over the
+ *   title and description.
+ */
+
+import { addDays, addWeeks, isSameDay, isValid, parseISO, startOfDay } from 'date-fns';
+import type { Task, TaskPriority, TaskStatus } from '@/components/TasksProvider';
+import { isIsoDueDate, isOverdue } from '@/lib/dueDates';
+
+export type TaskQueryField = 'status' | 'priority' | 'assignee' | 'dept' | 'due';
+
+export interface TaskQueryTerm {
+  field: TaskQueryField;
+  values: string[];
+  negated: boolean;
+}
+
+export interface ParsedTaskQuery {
+  terms: TaskQueryTerm[];
+  text: string[];
+  errors: string[];
+}
+
+// The task lookups a query is evaluated with (satisfied by useTasks())
+export interface TaskSelectors {
+  tasks: Task[];
+  getTasksByStatus: (status: TaskStatus) => Task[];
+  getTasksByPriority: (priority: TaskPriority) => Task[];
+  getTasksByDepartment: (department: string) => Task[];
+  getTasksByAssignee: (assignedTo: string) => Task[];
+}
+
+export interface TaskQueryContext {
+  currentUserId?: string;
+  // Look up people by (partial) name for `assignee:` values that aren't IDs
+  resolveAssignee?: (name: string) => string[];
+  now?: Date;
+}
+
+const FIELD_ALIASES: Record<string, TaskQueryField> = {
+  status: 'status',
+  is: 'status',
+  priority: 'priority',
+  assignee: 'assignee',
+  assigned: 'assignee',
+  dept: 'dept',
+  department: 'dept',
+  due: 'due',
+};
+
+const STATUSES: TaskStatus[] = ['pending', 'in-progress', 'completed'];
+const PRIORITIES: TaskPriority[] = ['high', 'medium', 'low'];
+
+const TOKEN_PATTERN = /(-?)([a-z]+):("[^"]*"|\S+)|"([^"]*)"|(\S+)/gi;
+const RELATIVE_DUE_PATTERN = /^([<>])(\d+)([dw])$/i;
+const DATE_DUE_PATTERN = /^([<>]?)(\d{4}-\d{2}-\d{2})$/;
+
+const unquote = (value: string) => value.replace(/^"|"$/g, '');
+
+const isValidDueValue = (value: string) => {
+  if (['overdue', 'today', 'none'].includes(value)) return true;
+  if (RELATIVE_DUE_PATTERN.test(value)) return true;
+  const match = value.match(DATE_DUE_PATTERN);
+  return !!match && isValid(parseISO(match[2]));
+};
+
+/**
+ * Split a query string into filter terms and free-text words, collecting a
+ * readable error for every filter that couldn't be understood
+ */
+export const parseTaskQuery = (query: string): ParsedTaskQuery => {
+  const parsed: ParsedTaskQuery = { terms: [], text: [], errors: [] };
+
+  for (const match of query.matchAll(TOKEN_PATTERN)) {
+    const [, negation, key, rawValue, quotedText, word] = match;
+
+    if (key === undefined) {
+      const text = (quotedText ?? word).trim();
+      if (text) parsed.text.push(text);
+      continue;
+    }
+
+    const field = FIELD_ALIASES[key.toLowerCase()];
+    if (!field) {
+      parsed.errors.push(`Unknown filter "${key}:"`);
+      continue;
+    }
+
+    const values = unquote(rawValue)
+      .split(',')
+      .map(value => value.trim())
+      .filter(Boolean)
+      .map(value => (field === 'dept' || field === 'assignee' ? value : value.toLowerCase()));
+    if (values.length === 0) {
+      parsed.errors.push(`"${key}:" needs a value`);
+      continue;
+    }
+
+    const invalid = values.filter(value =>
+      (field === 'status' && !STATUSES.includes(value as TaskStatus)) ||
+      (field === 'priority' && !PRIORITIES.includes(value as TaskPriority)) ||
+      (field === 'due' && !isValidDueValue(value))
+    );
+    if (invalid.length > 0) {
+      parsed.errors.push(`Invalid ${field} "${invalid.join(', ')}"`);
+      continue;
+    }
+
+    parsed.terms.push({ field, values, negated: negation === '-' });
+  }
+
+  return parsed;
+};
+
+/**
+ * Turn a parsed query back into text
+ */
+export const serializeTaskQuery = (query: Pick<ParsedTaskQuery, 'terms' | 'text'>): string => {
+  const quote = (value: string) => (/[\s,"]/.test(value) ? `"${value.replace(/"/g, '')}"` : value);
+  return [
+    ...query.terms.map(term => `${term.negated ? '-' : ''}${term.field}:${term.values.map(quote).join(',')}`),
+    ...query.text.map(quote),
+  ].join(' ');
+};
+
+/**
+ * Add a value to a field's filter, or remove it if it's already there; used
+ * by the filter menus so they stay in sync with the typed query
+ */
+export const toggleQueryValue = (query: string, field: TaskQueryField, value: string): string => {
+  const parsed = parseTaskQuery(query);
+  const term = parsed.terms.find(t => t.field === field && !t.negated);
+
+  if (!term) {
+    parsed.terms.push({ field, values: [value], negated: false });
+  } else if (term.values.includes(value)) {
+    term.values = term.values.filter(v => v !== value);
+  } else {
+    term.values.push(value);
+  }
+
+  return serializeTaskQuery({
+    terms: parsed.terms.filter(t => t.values.length > 0),
+    text: parsed.text,
+  });
+};
+
+/**
+ * Replace a field's filter with the given values (none removes it)
+ */
+export const setQueryField = (query: string, field: TaskQueryField, values: string[]): string => {
+  const parsed = parseTaskQuery(query);
+  const terms = parsed.terms.filter(term => term.field !== field);
+  if (values.length > 0) terms.push({ field, values, negated: false });
+  return serializeTaskQuery({ terms, text: parsed.text });
+};
+
+/**
+ * Values a field is currently filtered on (positive terms only)
+ */
+export const getQueryValues = (query: string, field: TaskQueryField): string[] => {
+  return parseTaskQuery(query).terms
+    .filter(term => term.field === field && !term.negated)
+    .flatMap(term => term.values);
+};
+
+// Whether a task's due date matches a single `due:` value
+const matchesDue = (task: Task, value: string, now: Date): boolean => {
+  if (value === 'none') return !isIsoDueDate(task.dueDate);
+  if (!isIsoDueDate(task.dueDate)) return false;
+  const due = parseISO(task.dueDate);
+
+  if (value === 'overdue') return isOverdue(task.dueDate, task.status, now);
+  if (value === 'today') return isSameDay(due, now);
+
+  const relative = value.match(RELATIVE_DUE_PATTERN);
+  if (relative) {
+    const [, operator, amount, unit] = relative;
+    const limit = unit.toLowerCase() === 'w' ? addWeeks(now, Number(amount)) : addDays(now, Number(amount));
+    return operator === '<' ? due < limit : due > limit;
+  }
+
+  const [, operator, day] = value.match(DATE_DUE_PATTERN) || [];
+  const date = startOfDay(parseISO(day));
+  if (operator === '<') return due < date;
+  if (operator === '>') return due >= addDays(date, 1);
+  return isSameDay(due, date);
+};
+
+// Tasks matching any of a term's values
+const getTermMatches = (
+  term: TaskQueryTerm,
+  selectors: TaskSelectors,
+  context: TaskQueryContext
+): Set<string> => {
+  const ids = (tasks: Task[]) => tasks.map(task => task.id);
+  const now = context.now || new Date();
+
+  const matched = term.values.flatMap(value => {
+    switch (term.field) {
+      case 'status':
+        return ids(selectors.getTasksByStatus(value as TaskStatus));
+      case 'priority':
+        return ids(selectors.getTasksByPriority(value as TaskPriority));
+      case 'dept': {
+        // Match department names case-insensitively
+        const departments = new Set(selectors.tasks.map(task => task.department));
+        const department = Array.from(departments).find(d => d.toLowerCase() === value.toLowerCase());
+        return department ? ids(selectors.getTasksByDepartment(department)) : [];
+      }
+      case 'assignee': {
+        if (value.toLowerCase() === 'none') {
+          return ids(selectors.tasks.filter(task => !task.assignedTo));
+        }
+        const assigneeIds = value.toLowerCase() === 'me'
+          ? (context.currentUserId ? [context.currentUserId] : [])
+          : [value, ...(context.resolveAssignee?.(value) || [])];
+        return assigneeIds.flatMap(id => ids(selectors.getTasksByAssignee(id)));
+      }
+      case 'due':
+        return ids(selectors.tasks.filter(task => matchesDue(task, value, now)));
+    }
+  });
+
+  return new Set(matched);
+};
+
+/**
+ * Tasks matching every term and every free-text word of a query
+ */
+export const applyTaskQuery = (
+  query: ParsedTaskQuery,
+  selectors: TaskSelectors,
+  context: TaskQueryContext = {}
+): Task[] => {
+  const termMatches = query.terms.map(term => ({
+    negated: term.negated,
+    ids: getTermMatches(term, selectors, context),
+  }));
+  const words = query.text.map(word => word.toLowerCase());
+
+  return selectors.tasks.filter(task => {
+    const matchesTerms = termMatches.every(({ negated, ids }) => ids.has(task.id) !== negated);
+    const haystack = `${task.title} ${task.description}`.toLowerCase();
+    return matchesTerms && words.every(word => haystack.includes(word));
+  });
+};
@@ -0,0 +1,77 @@
+/**
+ * Task Templates
+ *
+ * Reusable sets of tasks (onboarding a new hire, closing a quarter) whose
+ * due dates are offsets from a start date and whose assignees are role
+ * placeholders filled in when the template is used.
+ */
+
+import { addDays, set, startOfDay } from 'date-fns';
+import { DEFAULT_DUE_HOUR } from '@/lib/dueDates';
+import type { TaskTemplate, TaskTemplateItem } from '@/components/TasksProvider';
+import type { TeamMember } from '@/components/DepartmentsProvider';
+
+/**
+ * Distinct assignee placeholders used by a template, in order of first use
+ */
+export const getTemplateRoles = (template: Pick<TaskTemplate, 'items'>): string[] => {
+  return Array.from(new Set(
+    template.items.map(item => item.assigneeRole?.trim()).filter((role): role is string => !!role)
+  ));
+};
+
+/**
+ * Due date of a template item, `dueOffsetDays` after the start date at the
+ * default due hour
+ */
+export const getTemplateItemDueDate = (start: Date, item: Pick<TaskTemplateItem, 'dueOffsetDays'>): Date => {
+  return set(addDays(startOfDay(start), item.dueOffsetDays), { hours: DEFAULT_DUE_HOUR });
+};
+
+/**
+ * Problems that would stop a template from being used: empty titles and
+ * dependencies that don't point at an earlier item (which also rules out
+ * cycles, since items are created in order)
+ */
+export const validateTemplate = (template: Pick<TaskTemplate, 'name' | 'items'>): string[] => {
+  const errors: string[] = [];
+  if (!template.name.trim()) errors.push('Give the template a name.');
+  if (template.items.length === 0) errors.push('Add at least one task.');
+
+  template.items.forEach((item, index) => {
+    const label = item.title.trim() || `Task ${index + 1}`;
+    if (!item.title.trim()) errors.push(`Task ${index + 1} needs a title.`);
+    (item.dependsOn || []).forEach(dependencyId => {
+      const dependencyIndex = template.items.findIndex(other => other.id === dependencyId);
+      if (dependencyIndex === -1 || dependencyIndex >= index) {
+        errors.push(`"${label}" can only depend on tasks listed above it.`);
+      }
+    });
+  });
+
+  return errors;
+};
+
+/**
+ * Pre-fill role placeholders with the team member in the department whose
+ * job title matches the role, preferring people who are available
+ */
+export const suggestRoleAssignees = (
+  roles: string[],
+  members: TeamMember[],
+  department: string
+): Record<string, string> => {
+  const suggestions: Record<string, string> = {};
+
+  roles.forEach(role => {
+    const matches = members.filter(member =>
+      member.department === department &&
+      member.status !== 'inactive' &&
+      member.role.toLowerCase() === role.toLowerCase()
+    );
+    const match = matches.find(member => member.status === 'active') || matches[0];
+    if (match) suggestions[role] = match.id;
+  });
+
+  return suggestions;
+};
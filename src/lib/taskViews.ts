@@ -0,0 +1,160 @@
+/**
+ * Task Views
+ *
+ * Sorting and grouping for the task list, plus the URL query parameters a
+ * view is shared through. A view is a filter query (see taskQuery) together
+ * with its sort, grouping and layout.
+ */
+
+import type { Task } from '@/components/TasksProvider';
+import { dueDateSortValue } from '@/lib/dueDates';
+
+export type TaskSortKey = 'dueDate' | 'priority' | 'alphabetical' | 'status' | 'createdAt';
+export type TaskSortDirection = 'asc' | 'desc';
+export type TaskGroupKey = 'none' | 'status' | 'priority' | 'department' | 'assignee';
+export type TaskLayout = 'list' | 'board';
+
+export interface TaskViewSettings {
+  query: string;
+  sortBy: TaskSortKey;
+  sortDirection: TaskSortDirection;
+  groupBy: TaskGroupKey;
+  layout: TaskLayout;
+}
+
+export interface TaskGroup {
+  key: string;
+  label: string;
+  tasks: Task[];
+}
+
+export const DEFAULT_VIEW_SETTINGS: TaskViewSettings = {
+  query: '',
+  sortBy: 'dueDate',
+  sortDirection: 'asc',
+  groupBy: 'none',
+  layout: 'list',
+};
+
+export const SORT_LABELS: Record<TaskSortKey, string> = {
+  dueDate: 'Due Date',
+  priority: 'Priority',
+  alphabetical: 'Title',
+  status: 'Status',
+  createdAt: 'Created',
+};
+
+export const GROUP_LABELS: Record<TaskGroupKey, string> = {
+  none: 'No grouping',
+  status: 'Status',
+  priority: 'Priority',
+  department: 'Department',
+  assignee: 'Assignee',
+};
+
+const PRIORITY_ORDER = { high: 0, medium: 1, low: 2 };
+const STATUS_ORDER = { pending: 0, 'in-progress': 1, completed: 2 };
+const STATUS_LABELS = { pending: 'Pending', 'in-progress': 'In Progress', completed: 'Completed' };
+const PRIORITY_LABELS = { high: 'High', medium: 'Medium', low: 'Low' };
+
+/**
+ * Sort tasks by one of the view's sort keys; ties fall back to due date
+ */
+export const sortTasks = (tasks: Task[], sortBy: TaskSortKey, direction: TaskSortDirection): Task[] => {
+  const compare = (a: Task, b: Task): number => {
+    switch (sortBy) {
+      case 'priority':
+        return PRIORITY_ORDER[a.priority] - PRIORITY_ORDER[b.priority];
+      case 'alphabetical':
+        return a.title.localeCompare(b.title);
+      case 'status':
+        return STATUS_ORDER[a.status] - STATUS_ORDER[b.status];
+      case 'createdAt':
+        return new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime();
+      default:
+        return dueDateSortValue(a.dueDate) - dueDateSortValue(b.dueDate);
+    }
+  };
+
+  const sign = direction === 'desc' ? -1 : 1;
+  return [...tasks].sort((a, b) =>
+    sign * compare(a, b) || dueDateSortValue(a.dueDate) - dueDateSortValue(b.dueDate)
+  );
+};
+
+/**
+ * Split already-sorted tasks into groups, keeping the order tasks appear in
+ * within each group. Status and priority groups follow their natural order;
+ * others are alphabetical with "Unassigned" last.
+ */
+export const groupTasks = (
+  tasks: Task[],
+  groupBy: TaskGroupKey,
+  getAssigneeName: (id: string) => string
+): TaskGroup[] => {
+  if (groupBy === 'none') return [{ key: 'all', label: 'All tasks', tasks }];
+
+  const groups = new Map<string, TaskGroup>();
+  tasks.forEach(task => {
+    let key: string;
+    let label: string;
+    switch (groupBy) {
+      case 'status':
+        key = task.status;
+        label = STATUS_LABELS[task.status];
+        break;
+      case 'priority':
+        key = task.priority;
+        label = PRIORITY_LABELS[task.priority];
+        break;
+      case 'department':
+        key = task.department;
+        label = task.department;
+        break;
+      default:
+        key = task.assignedTo || '';
+        label = task.assignedTo ? getAssigneeName(task.assignedTo) : 'Unassigned';
+    }
+    const group = groups.get(key) || { key, label, tasks: [] };
+    group.tasks.push(task);
+    groups.set(key, group);
+  });
+
+  const rank = (group: TaskGroup) => {
+    if (groupBy === 'status') return STATUS_ORDER[group.key as Task['status']];
+    if (groupBy === 'priority') return PRIORITY_ORDER[group.key as Task['priority']];
+    return group.key === '' ? 1 : 0;
+  };
+  return Array.from(groups.values()).sort((a, b) => rank(a) - rank(b) || a.label.localeCompare(b.label));
+};
+
+/**
+ * Read view settings from URL query parameters, falling back to defaults
+ * for anything missing or unrecognised
+ */
+export const viewSettingsFromParams = (params: URLSearchParams): TaskViewSettings => {
+  const pick = <T extends string>(value: string | null, options: readonly T[], fallback: T): T =>
+    value && (options as readonly string[]).includes(value) ? (value as T) : fallback;
+
+  return {
+    query: params.get('q') || DEFAULT_VIEW_SETTINGS.query,
+    sortBy: pick(params.get('sort'), Object.keys(SORT_LABELS) as TaskSortKey[], DEFAULT_VIEW_SETTINGS.sortBy),
+    sortDirection: pick(params.get('dir'), ['asc', 'desc'] as const, DEFAULT_VIEW_SETTINGS.sortDirection),
+    groupBy: pick(params.get('group'), Object.keys(GROUP_LABELS) as TaskGroupKey[], DEFAULT_VIEW_SETTINGS.groupBy),
+    layout: pick(params.get('view'), ['list', 'board'] as const, DEFAULT_VIEW_SETTINGS.layout),
+  };
+};
+
+/**
+ * URL query parameters for view settings; defaults are left out to keep
+ * shared links short
+ */
+export const viewSettingsToParams = (settings: TaskViewSettings): URLSearchParams => {
+  const params = new URLSearchParams();
+  if (settings.query) params.set('q', settings.query);
+  if (settings.sortBy !== DEFAULT_VIEW_SETTINGS.sortBy) params.set('sort', settings.sortBy);
+  if (settings.sortDirection !== DEFAULT_VIEW_SETTINGS.sortDirection) params.set('dir', settings.sortDirection);
+  if (settings.groupBy !== DEFAULT_VIEW_SETTINGS.groupBy) params.set('group', settings.groupBy);
+  if (settings.layout !== DEFAULT_VIEW_SETTINGS.layout) params.set('view', settings.layout);
+  return params;
+};
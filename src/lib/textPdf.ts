@@ -0,0 +1,138 @@
+/**
+ * Text PDF
+ *
+ * A small writer for plain, text-only PDF documents such as case files and
+ * reports. Text is set in the standard Helvetica fonts, so nothing has to be
+ * embedded, and wrapped onto A4 pages with a footer carrying the page number.
+ * Characters outside the Windows-1252 set are replaced with "?".
+ */
+
+export type PdfTextStyle = 'title' | 'heading' | 'label' | 'body' | 'muted';
+
+export interface PdfBlock {
+  text: string;
+  style?: PdfTextStyle; // body by default
+  indent?: number; // in points
+}
+
+export interface PdfOptions {
+  title?: string; // document title shown by PDF viewers
+  footer?: string; // shown before the page number on every page
+}
+
+const PAGE_WIDTH = 595; // A4, in points
+const PAGE_HEIGHT = 842;
+const MARGIN = 50;
+const FOOTER_Y = 30;
+
+const STYLES: Record<PdfTextStyle, { size: number; bold: boolean; gray: number; spaceBefore: number }> = {
+  title: { size: 18, bold: true, gray: 0, spaceBefore: 0 },
+  heading: { size: 13, bold: true, gray: 0, spaceBefore: 14 },
+  label: { size: 10, bold: true, gray: 0, spaceBefore: 4 },
+  body: { size: 10, bold: false, gray: 0, spaceBefore: 0 },
+  muted: { size: 9, bold: false, gray: 0.4, spaceBefore: 0 },
+};
+
+// Windows-1252 code points for the characters outside Latin-1 that text commonly uses
+const WIN_ANSI: Record<string, number> = {
+  '€': 0x80, '…': 0x85, '‘': 0x91, '’': 0x92, '“': 0x93, '”': 0x94, '•': 0x95, '–': 0x96, '—': 0x97, '™': 0x99,
+};
+
+const toWinAnsi = (text: string): string =>
+  Array.from(text, char => {
+    if (WIN_ANSI[char]) return String.fromCharCode(WIN_ANSI[char]);
+    const code = char.charCodeAt(0);
+    return code < 32 ? ' ' : code > 255 || (code >= 127 && code < 160) ? '?' : char;
+  }).join('');
+
+const escapeText = (text: string) => text.replace(/[\\()]/g, match => `\\${match}`);
+
+// Helvetica averages a little over half an em per character; err wide so lines never overrun
+const wrap = (text: string, size: number, width: number): string[] => {
+  const maxChars = Math.max(10, Math.floor(width / (size * 0.55)));
+  const lines: string[] = [];
+  text.split('\n').forEach(paragraph => {
+    let line = '';
+    paragraph.split(/\s+/).filter(Boolean).forEach(word => {
+      while (word.length > maxChars) {
+        if (line) lines.push(line);
+        lines.push(word.slice(0, maxChars));
+        word = word.slice(maxChars);
+        line = '';
+      }
+      if (!line) line = word;
+      else if (line.length + 1 + word.length <= maxChars) line += ` ${word}`;
+      else {
+        lines.push(line);
+        line = word;
+      }
+    });
+    lines.push(line);
+  });
+  return lines;
+};
+
+/**
+ * Lay the blocks out on pages and return the finished PDF file
+ */
+export const createTextPdf = (blocks: PdfBlock[], options: PdfOptions = {}): Blob => {
+  const pages: string[][] = [[]];
+  let y = PAGE_HEIGHT - MARGIN;
+
+  blocks.forEach(block => {
+    const style = STYLES[block.style || 'body'];
+    const indent = block.indent || 0;
+    const lineHeight = style.size * 1.35;
+    const onFirstLine = y === PAGE_HEIGHT - MARGIN;
+    if (!onFirstLine) y -= style.spaceBefore;
+
+    wrap(toWinAnsi(block.text), style.size, PAGE_WIDTH - 2 * MARGIN - indent).forEach(line => {
+      if (y - lineHeight < MARGIN) {
+        pages.push([]);
+        y = PAGE_HEIGHT - MARGIN;
+      }
+      y -= lineHeight;
+      if (!line) return;
+      pages[pages.length - 1].push(
+        `BT /${style.bold ? 'F2' : 'F1'} ${style.size} Tf ${style.gray} g ${MARGIN + indent} ${y.toFixed(1)} Td (${escapeText(line)}) Tj ET`
+      );
+    });
+  });
+
+  const footer = (index: number) => {
+    const text = toWinAnsi(`${options.footer ? `${options.footer}  •  ` : ''}Page ${index + 1} of ${pages.length}`);
+    return `BT /F1 8 Tf 0.4 g ${MARGIN} ${FOOTER_Y} Td (${escapeText(text)}) Tj ET`;
+  };
+
+  // Objects 1-5 are the catalog, page tree, two fonts and document info; each page then takes two
+  const pageObjectId = (index: number) => 6 + index * 2;
+  const objects: string[] = [
+    '<< /Type /Catalog /Pages 2 0 R >>',
+    `<< /Type /Pages /Kids [${pages.map((_, i) => `${pageObjectId(i)} 0 R`).join(' ')}] /Count ${pages.length} >>`,
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>',
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>',
+  ];
+  objects.push(`<< ${options.title ? `/Title (${escapeText(toWinAnsi(options.title))}) ` : ''}>>`);
+  pages.forEach((lines, index) => {
+    const content = [...lines, footer(index)].join('\n');
+    objects.push(
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] ` +
+      `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${pageObjectId(index) + 1} 0 R >>`
+    );
+    objects.push(`<< /Length ${content.length} >>\nstream\n${content}\nendstream`);
+  });
+
+  // Every character is a single byte, so string offsets are byte offsets
+  let pdf = '%PDF-1.4\n';
+  const offsets = objects.map((object, index) => {
+    const offset = pdf.length;
+    pdf += `${index + 1} 0 obj\n${object}\nendobj\n`;
+    return offset;
+  });
+  const xref = pdf.length;
+  pdf += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  pdf += offsets.map(offset => `${String(offset).padStart(10, '0')} 00000 n \n`).join('');
+  pdf += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R /Info 5 0 R >>\nstartxref\n${xref}\n%%EOF\n`;
+
+  return new Blob([Uint8Array.from(pdf, char => char.charCodeAt(0))], { type: 'application/pdf' });
+};
@@ -0,0 +1,127 @@
+/**
+ * Timesheets
+ *
+ * Helpers for time logged against tasks: week boundaries, duration parsing
+ * and formatting, and rolling entries up into a weekly timesheet grouped by
+ * task and department.
+ */
+
+import { addDays, format, parseISO, startOfWeek } from 'date-fns';
+import type { Task } from '@/components/TasksProvider';
+import type { TimeEntry } from '@/components/TimeTrackingProvider';
+
+export interface TimesheetRow {
+  taskId: string;
+  title: string;
+  department: string;
+  minutesByDay: number[]; // Monday – Sunday
+  totalMinutes: number;
+}
+
+export interface WeeklyTimesheet {
+  weekStart: string;
+  days: string[]; // yyyy-MM-dd, Monday – Sunday
+  rows: TimesheetRow[];
+  minutesByDepartment: Record<string, number>;
+  minutesByDay: number[];
+  totalMinutes: number;
+}
+
+/**
+ * Monday of the week containing a date, as yyyy-MM-dd
+ */
+export const getWeekStart = (date: Date = new Date()): string => {
+  return format(startOfWeek(date, { weekStartsOn: 1 }), 'yyyy-MM-dd');
+};
+
+/**
+ * The seven days (yyyy-MM-dd) of the week starting on `weekStart`
+ */
+export const getWeekDays = (weekStart: string): string[] => {
+  const monday = parseISO(weekStart);
+  return Array.from({ length: 7 }, (_, i) => format(addDays(monday, i), 'yyyy-MM-dd'));
+};
+
+/**
+ * Whether a time entry was logged in the given week
+ */
+export const isInWeek = (entry: TimeEntry, weekStart: string): boolean => {
+  return getWeekStart(parseISO(entry.date)) === weekStart;
+};
+
+/**
+ * Compact duration, e.g. "1h 30m", "45m", "0m"
+ */
+export const formatMinutes = (minutes: number): string => {
+  const rounded = Math.round(minutes);
+  const hours = Math.floor(rounded / 60);
+  const rest = rounded % 60;
+  if (hours === 0) return `${rest}m`;
+  return rest === 0 ? `${hours}h` : `${hours}h ${rest}m`;
+};
+
+/**
+ * Parse a duration typed by a user ("1h 30m", "90m", "1.5", "1:30") into
+ * minutes. Bare numbers are hours. Returns null if the input isn't understood.
+ */
+export const parseDuration = (input: string): number | null => {
+  const text = input.trim().toLowerCase();
+  if (!text) return null;
+
+  const clock = text.match(/^(\d+):([0-5]\d)$/);
+  if (clock) return parseInt(clock[1], 10) * 60 + parseInt(clock[2], 10);
+
+  if (/^\d+(\.\d+)?$/.test(text)) return Math.round(parseFloat(text) * 60);
+
+  const units = text.match(/^(?:(\d+(?:\.\d+)?)\s*h(?:ours?|rs?)?)?\s*(?:(\d+)\s*m(?:in(?:utes?|s)?)?)?$/);
+  if (units && (units[1] || units[2])) {
+    return Math.round((units[1] ? parseFloat(units[1]) * 60 : 0) + (units[2] ? parseInt(units[2], 10) : 0));
+  }
+
+  return null;
+};
+
+/**
+ * Roll one user's entries for a week up by task, day and department
+ */
+export const buildWeeklyTimesheet = (entries: TimeEntry[], tasks: Task[], weekStart: string): WeeklyTimesheet => {
+  const days = getWeekDays(weekStart);
+  const rowsByTask: Record<string, TimesheetRow> = {};
+  const minutesByDepartment: Record<string, number> = {};
+  const minutesByDay = days.map(() => 0);
+
+  entries.filter(entry => isInWeek(entry, weekStart)).forEach(entry => {
+    const task = tasks.find(t => t.id === entry.taskId);
+    const dayIndex = days.indexOf(format(parseISO(entry.date), 'yyyy-MM-dd'));
+    const department = task?.department || 'Unknown';
+
+    if (!rowsByTask[entry.taskId]) {
+      rowsByTask[entry.taskId] = {
+        taskId: entry.taskId,
+        title: task?.title || 'Deleted task',
+        department,
+        minutesByDay: days.map(() => 0),
+        totalMinutes: 0,
+      };
+    }
+
+    const row = rowsByTask[entry.taskId];
+    row.minutesByDay[dayIndex] += entry.minutes;
+    row.totalMinutes += entry.minutes;
+    minutesByDay[dayIndex] += entry.minutes;
+    minutesByDepartment[department] = (minutesByDepartment[department] || 0) + entry.minutes;
+  });
+
+  const rows = Object.values(rowsByTask).sort((a, b) =>
+    a.department.localeCompare(b.department) || a.title.localeCompare(b.title)
+  );
+
+  return {
+    weekStart,
+    days,
+    rows,
+    minutesByDepartment,
+    minutesByDay,
+    totalMinutes: rows.reduce((sum, row) => sum + row.totalMinutes, 0),
+  };
+};
@@ -0,0 +1,91 @@
+/**
+ * User Accounts
+ *
+ * The mock accounts the app signs in against, and the permissions each role
+ * starts with. Kept apart from the auth provider so other modules can look
+ * people up by id without importing a component file.
+ */
+
+import type { AuthUser, Permission, UserRole } from '@/components/AuthProvider';
+
+// Default permissions based on role
+export const defaultPermissions: Record<UserRole, Permission[]> = {
+  admin: [
+    { action: 'manage', subject: 'all' },
+  ],
+  department_head: [
+    { action: 'read', subject: 'all' },
+    { action: 'manage', subject: 'department' },
+    { action: 'manage', subject: 'document' },
+    { action: 'manage', subject: 'task' },
+  ],
+  manager: [
+    { action: 'read', subject: 'all' },
+    { action: 'create', subject: 'document' },
+    { action: 'update', subject: 'document' },
+    { action: 'manage', subject: 'task' },
+  ],
+  team_lead: [
+    { action: 'read', subject: 'department' },
+    { action: 'read', subject: 'document' },
+    { action: 'create', subject: 'document' },
+    { action: 'update', subject: 'task' },
+    { action: 'create', subject: 'task' },
+  ],
+  employee: [
+    { action: 'read', subject: 'department' },
+    { action: 'read', subject: 'document' },
+    { action: 'update', subject: 'task' },
+  ],
+  guest: [
+    { action: 'read', subject: 'public' },
+  ],
+};
+
+// Mock users for development
+export const MOCK_USERS = [
+  {
+    id: 'user1',
+    name: 'Admin User',
+    email: 'admin@example.com',
+    password: 'password123',
+    avatar: 'AU',
+    role: 'admin' as UserRole,
+    department: 'Management',
+    permissions: defaultPermissions.admin,
+  },
+  {
+    id: 'user2',
+    name: 'Department Head',
+    email: 'head@example.com',
+    password: 'password123',
+    avatar: 'DH',
+    role: 'department_head' as UserRole,
+    department: 'Engineering',
+    permissions: defaultPermissions.department_head,
+  },
+  {
+    id: 'user3',
+    name: 'Manager User',
+    email: 'manager@example.com',
+    password: 'password123',
+    avatar: 'MU',
+    role: 'manager' as UserRole,
+    department: 'Marketing',
+    permissions: defaultPermissions.manager,
+  },
+  {
+    id: 'user4',
+    name: 'Employee User',
+    email: 'employee@example.com',
+    password: 'password123',
+    avatar: 'EU',
+    role: 'employee' as UserRole,
+    department: 'Finance',
+    permissions: defaultPermissions.employee,
+  },
+];
+
+// Everyone with an account, without their credentials. Built on each call so
+// people who registered since the app loaded are included.
+export const getUserAccounts = (): AuthUser[] => MOCK_USERS.map(({ password, ...account }) => account);
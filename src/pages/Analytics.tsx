@@ -1,10 +1,11 @@
-import React, { useState, useEffect } from "react";
+import React, { useState, useEffect, useRef } from "react";
 import { StatCard } from "@/components/dashboard/StatCard";
 import { ChartCard } from "@/components/dashboard/ChartCard";
 import { PredictiveChart } from "@/components/dashboard/PredictiveChart";
 import { CustomizableDashboard } from "@/components/dashboard/CustomizableDashboard";
 import { ResourceOptimizationCard } from "@/components/dashboard/ResourceOptimizationCard";
 import { ScheduledReportsCard } from "@/components/dashboard/ScheduledReportsCard";
+import { GrievanceAnalytics } from "@/components/dashboard/GrievanceAnalytics";
 import { 
   BarChart3, 
   TrendingUp, 
@@ -65,7 +66,8 @@ import { Badge } from "@/components/ui/badge";
 import { toast } from "@/hooks/use-toast";
 import { useDepartments } from "@/components/DepartmentsProvider";
 import { useTasks } from "@/components/TasksProvider";
-import { format, isAfter, isBefore, addDays } from "date-fns";
+import { format, isAfter, parseISO } from "date-fns";
+import { isIsoDueDate, isOverdue } from "@/lib/dueDates";
 import { Link } from "react-router-dom";
 import { usePredictiveAnalytics } from "@/components/PredictiveAnalyticsProvider";
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
@@ -80,56 +82,13 @@ import {
   Legend,
   ResponsiveContainer
 } from "recharts";
-import { setBlockPredictionApiCalls } from "@/lib/analyticsService";
+import { EfficiencyData, setBlockPredictionApiCalls } from "@/lib/analyticsService";
+import { useTimeTracking } from "@/components/TimeTrackingProvider";
 
 // Helper function to format date
 const formatDate = (dateString: string) => {
-  try {
-    // Handle relative dates
-    if (dateString === "Tomorrow") {
-      return format(addDays(new Date(), 1), "MMM dd, yyyy");
-    } else if (dateString === "Yesterday") {
-      return format(addDays(new Date(), -1), "MMM dd, yyyy");
-    } else if (dateString === "Next week") {
-      return format(addDays(new Date(), 7), "MMM dd, yyyy");
-    } else if (dateString === "Last week") {
-      return format(addDays(new Date(), -7), "MMM dd, yyyy");
-    } else if (dateString.includes("days")) {
-      const days = parseInt(dateString);
-      return format(addDays(new Date(), days), "MMM dd, yyyy");
-    }
-    return dateString;
-  } catch (e) {
-    return dateString;
-  }
-};
-
-// Helper function to check if a task is overdue
-const isTaskOverdue = (dueDate: string, status: string) => {
-  if (status === "completed") return false;
-  
-  try {
-    // Handle relative dates
-    let deadline = new Date();
-    if (dueDate === "Tomorrow") {
-      deadline = addDays(new Date(), 1);
-    } else if (dueDate === "Yesterday") {
-      deadline = addDays(new Date(), -1);
-    } else if (dueDate === "Next week") {
-      deadline = addDays(new Date(), 7);
-    } else if (dueDate === "Last week") {
-      deadline = addDays(new Date(), -7);
-    } else if (dueDate.includes("days")) {
-      const days = parseInt(dueDate);
-      deadline = addDays(new Date(), days);
-    } else {
-      return false; // If we can't parse, assume not overdue
-    }
-    
-    return isBefore(deadline, new Date());
-  } catch (e) {
-    return false;
-  }
+  if (!isIsoDueDate(dateString)) return dateString;
+  return format(parseISO(dateString), "MMM dd, yyyy");
 };
 
 // Analytics Error Banner Component
@@ -354,7 +313,25 @@ const Analytics = () => {
   const { departments, getDepartmentPerformanceData } = useDepartments();
   const { tasks, getTasksByDepartment, getTasksByStatus } = useTasks();
   
-  const { hasError, refreshData } = usePredictiveAnalytics();
+  const { hasError, refreshData, getDepartmentEfficiency } = usePredictiveAnalytics();
+  const { timeEntries } = useTimeTracking();
+  const [efficiency, setEfficiency] = useState<EfficiencyData | null>(null);
+  // A new function every render, so the effect reads it from a ref and
+  // refetches when the tasks or logged time it measures change instead
+  const getDepartmentEfficiencyRef = useRef(getDepartmentEfficiency);
+  getDepartmentEfficiencyRef.current = getDepartmentEfficiency;
+
+  // Effort per completed task, measured from logged hours
+  useEffect(() => {
+    if (activeTab !== 'tasks') return;
+    let cancelled = false;
+    getDepartmentEfficiencyRef.current(selectedDepartment).then(data => {
+      if (!cancelled) setEfficiency(data);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [activeTab, selectedDepartment, tasks, timeEntries]);
   
   // Save active tab to sessionStorage and handle API blocking
   useEffect(() => {
@@ -398,7 +375,7 @@ const Analytics = () => {
   const completionRate = totalTasks > 0 ? Math.round((completedTasks / totalTasks) * 100) : 0;
   
   // Identify overdue tasks
-  const overdueTasks = tasks.filter(task => isTaskOverdue(task.dueDate, task.status));
+  const overdueTasks = tasks.filter(task => isOverdue(task.dueDate, task.status));
   
   // Get department performance data for charts
   const departmentPerformanceData = getDepartmentPerformanceData();
@@ -689,10 +666,11 @@ const Analytics = () => {
       )}
 
       <Tabs value={activeTab} onValueChange={setActiveTab} className="space-y-6">
-        <TabsList className="grid w-full grid-cols-4 lg:w-auto lg:grid-cols-4">
+        <TabsList className="grid w-full grid-cols-5 lg:w-auto lg:grid-cols-5">
           <TabsTrigger value="overview">Overview</TabsTrigger>
           <TabsTrigger value="departments">Departments</TabsTrigger>
           <TabsTrigger value="tasks">Task Tracking</TabsTrigger>
+          <TabsTrigger value="grievances">Grievances</TabsTrigger>
           <TabsTrigger value="advanced">Advanced Analytics</TabsTrigger>
         </TabsList>
         
@@ -1042,9 +1020,9 @@ const Analytics = () => {
                     <TableRow key={task.id}>
                       <TableCell className="font-medium">{task.title}</TableCell>
                       <TableCell>{task.department}</TableCell>
-                      <TableCell className={isTaskOverdue(task.dueDate, task.status) ? "text-red-500 font-semibold" : ""}>
+                      <TableCell className={isOverdue(task.dueDate, task.status) ? "text-red-500 font-semibold" : ""}>
                         {formatDate(task.dueDate)}
-                        {isTaskOverdue(task.dueDate, task.status) && " (Overdue)"}
+                        {isOverdue(task.dueDate, task.status) && " (Overdue)"}
                       </TableCell>
                       <TableCell>
                         <Badge variant={
@@ -1142,6 +1120,34 @@ const Analytics = () => {
               </CardContent>
             </Card>
           </div>
+
+          <Card className="animate-fade-in [animation-delay:800ms]">
+            <CardHeader>
+              <CardTitle>Actual Effort per Completed Task</CardTitle>
+              <CardDescription>
+                {efficiency && efficiency.totalCompletedTasks > 0
+                  ? `Average hours logged per task by priority · ${efficiency.overallAvgCompletionHours}h overall across ${efficiency.totalCompletedTasks} tasks`
+                  : "Average hours logged per task by priority"}
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <ChartCard
+                title=""
+                type="bar"
+                data={(efficiency?.efficiencyByPriority || []).map(item => ({
+                  name: item.priority.charAt(0).toUpperCase() + item.priority.slice(1),
+                  "Avg Hours": item.avgCompletionHours,
+                }))}
+                dataKey="value"
+                categories={["Avg Hours"]}
+                className="h-[300px]"
+              />
+            </CardContent>
+          </Card>
+        </TabsContent>
+        
+        <TabsContent value="grievances" className="space-y-6">
+          <GrievanceAnalytics />
         </TabsContent>
         
         <TabsContent value="advanced" className="space-y-6">
@@ -83,6 +83,8 @@ const getActionColor = (actionType: AuditActionType): string => {
       return 'bg-yellow-100 text-yellow-800';
     case 'escalate':
       return 'bg-red-100 text-red-800';
+    case 'override':
+      return 'bg-amber-100 text-amber-800';
     default:
       return 'bg-gray-100 text-gray-800';
   }
@@ -276,6 +278,7 @@ const AuditLogs = () => {
                     <SelectItem value="login">Login</SelectItem>
                     <SelectItem value="logout">Logout</SelectItem>
                     <SelectItem value="escalate">Escalate</SelectItem>
+                    <SelectItem value="override">Override</SelectItem>
                   </SelectContent>
                 </Select>
                 
@@ -290,6 +293,7 @@ const AuditLogs = () => {
                     <SelectItem value="task">Task</SelectItem>
                     <SelectItem value="department">Department</SelectItem>
                     <SelectItem value="grievance">Grievance</SelectItem>
+                    <SelectItem value="timesheet">Timesheet</SelectItem>
                     <SelectItem value="system">System</SelectItem>
                   </SelectContent>
                 </Select>
@@ -4,6 +4,8 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Calendar as CalendarIcon, ChevronLeft, ChevronRight, Plus } from "lucide-react";
 import { format, addMonths, subMonths, getMonth, getYear, startOfMonth, endOfMonth, eachDayOfInterval, isSameMonth, isSameDay, isToday, parseISO } from "date-fns";
+import { useTasks } from "@/components/TasksProvider";
+import { isIsoDueDate } from "@/lib/dueDates";
 
 // Example event data
 const events = [
@@ -15,6 +17,7 @@ const events = [
 ];
 
 const Calendar = () => {
+  const { tasks } = useTasks();
   const [currentDate, setCurrentDate] = useState(new Date());
   const [selectedDate, setSelectedDate] = useState(new Date());
   
@@ -25,14 +28,30 @@ const Calendar = () => {
   const nextMonth = () => setCurrentDate(addMonths(currentDate, 1));
   const prevMonth = () => setCurrentDate(subMonths(currentDate, 1));
   
+  // Open tasks appear as deadlines on their due date
+  const taskEvents = tasks
+    .filter(task => task.status !== "completed" && isIsoDueDate(task.dueDate))
+    .map(task => {
+      const due = parseISO(task.dueDate);
+      return {
+        id: `task-${task.id}`,
+        title: task.title,
+        date: format(due, "yyyy-MM-dd"),
+        time: format(due, "p"),
+        department: task.department,
+        type: "deadline",
+      };
+    });
+  const allEvents = [...events, ...taskEvents];
+  
   // Get events for selected date
-  const selectedDateEvents = events.filter(event => 
+  const selectedDateEvents = allEvents.filter(event => 
     isSameDay(parseISO(event.date), selectedDate)
   );
   
   // Get events for a specific day
   const getEventsForDay = (day: Date) => {
-    return events.filter(event => isSameDay(parseISO(event.date), day));
+    return allEvents.filter(event => isSameDay(parseISO(event.date), day));
   };
   
   const eventTypeColors = {
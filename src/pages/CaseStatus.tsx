@@ -0,0 +1,227 @@
+import React, { useState } from "react";
+import { Link } from "react-router-dom";
+import { format } from "date-fns";
+import { KeyRound, Loader2, Lock, MessageSquare, Send, ShieldCheck } from "lucide-react";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Textarea } from "@/components/ui/textarea";
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
+import { useGrievance } from "@/components/GrievanceProvider";
+import { useAuth } from "@/components/AuthProvider";
+import { PublicCaseView } from "@/lib/anonymousGrievances";
+import { GRIEVANCE_STATUS_LABELS } from "@/lib/grievanceWorkflow";
+
+// Public page where anonymous submitters follow their grievance with a case token
+const CaseStatus = () => {
+  const { findCaseByToken, addAnonymousReply } = useGrievance();
+  const { user } = useAuth();
+  const [tokenInput, setTokenInput] = useState("");
+  // The token stays in memory only, never in the URL or storage
+  const [caseToken, setCaseToken] = useState("");
+  const [caseView, setCaseView] = useState<PublicCaseView | null>(null);
+  const [notFound, setNotFound] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+  const [reply, setReply] = useState("");
+
+  const lookUp = async (token: string) => {
+    setIsLoading(true);
+    try {
+      const view = await findCaseByToken(token);
+      setCaseView(view || null);
+      setNotFound(!view);
+      if (view) setCaseToken(token);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleLookUp = (e: React.FormEvent) => {
+    e.preventDefault();
+    lookUp(tokenInput);
+  };
+
+  const handleReply = async () => {
+    if (!reply.trim()) return;
+    setIsLoading(true);
+    try {
+      if (await addAnonymousReply(caseToken, reply)) {
+        setReply("");
+        const view = await findCaseByToken(caseToken);
+        setCaseView(view || null);
+      }
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleSignOutOfCase = () => {
+    setCaseToken("");
+    setTokenInput("");
+    setCaseView(null);
+    setReply("");
+  };
+
+  return (
+    <div className="min-h-screen flex items-start justify-center bg-gradient-to-br from-background to-muted p-4 sm:pt-16">
+      <div className="w-full max-w-2xl space-y-4">
+        {!caseView ? (
+          <Card className="border-border shadow-lg animate-fade-in">
+            <CardHeader className="space-y-1">
+              <div className="flex justify-center mb-4">
+                <div className="w-12 h-12 rounded-full bg-primary flex items-center justify-center">
+                  <KeyRound className="h-6 w-6 text-primary-foreground" />
+                </div>
+              </div>
+              <CardTitle className="text-2xl font-bold text-center">Track an anonymous grievance</CardTitle>
+              <CardDescription className="text-center">
+                Enter the case token you were given when you submitted your grievance
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <form onSubmit={handleLookUp} className="space-y-4">
+                <Input
+                  value={tokenInput}
+                  onChange={(e) => setTokenInput(e.target.value)}
+                  placeholder="XXXX-XXXX-XXXX-XXXX"
+                  className="text-center font-mono tracking-widest"
+                  autoComplete="off"
+                  spellCheck={false}
+                />
+                {notFound && (
+                  <p className="text-sm text-destructive text-center">
+                    No case matches that token. Check it and try again.
+                  </p>
+                )}
+                <Button type="submit" className="w-full" disabled={isLoading || !tokenInput.trim()}>
+                  {isLoading ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Lock className="mr-2 h-4 w-4" />}
+                  View case
+                </Button>
+              </form>
+            </CardContent>
+            <CardFooter className="flex flex-col space-y-2 text-center text-xs text-muted-foreground">
+              <p>Your case isn't linked to your account. Anyone with the token can view it, so keep it private.</p>
+              <Link to={user ? "/grievances" : "/login"} className="underline underline-offset-4 hover:text-primary">
+                {user ? "Back to grievances" : "Sign in instead"}
+              </Link>
+            </CardFooter>
+          </Card>
+        ) : (
+          <>
+            <Card className="border-border shadow-lg animate-fade-in">
+              <CardHeader>
+                <div className="flex items-start justify-between gap-4">
+                  <div className="space-y-1">
+                    <CardTitle className="text-xl">{caseView.title}</CardTitle>
+                    <CardDescription>
+                      {caseView.department} · submitted {format(new Date(caseView.createdAt), "MMM d, yyyy")}
+                    </CardDescription>
+                  </div>
+                  <Badge variant="secondary">{GRIEVANCE_STATUS_LABELS[caseView.status]}</Badge>
+                </div>
+              </CardHeader>
+              <CardContent className="space-y-6">
+                {caseView.mergedCase && (
+                  <div className="rounded-lg border border-blue-200 bg-blue-50 p-4 text-sm dark:border-blue-900 dark:bg-blue-950/40">
+                    <div className="flex items-center justify-between gap-2 mb-1">
+                      <p className="font-medium">Handled together with other reports</p>
+                      <Badge variant="outline">{GRIEVANCE_STATUS_LABELS[caseView.mergedCase.status]}</Badge>
+                    </div>
+                    <p className="text-muted-foreground">
+                      Others reported the same issue, so your case is being handled as part of a combined case.
+                      Replies you send here still reach the people handling it.
+                    </p>
+                    {(caseView.mergedCase.resolution || caseView.mergedCase.rejectionReason) && (
+                      <p className="mt-2">
+                        <span className="font-medium">{caseView.mergedCase.resolution ? "Resolution: " : "Reason for rejection: "}</span>
+                        {caseView.mergedCase.resolution || caseView.mergedCase.rejectionReason}
+                      </p>
+                    )}
+                  </div>
+                )}
+
+                {(caseView.resolution || caseView.rejectionReason) && (
+                  <div className="rounded-lg bg-muted/40 p-4 text-sm">
+                    <p className="font-medium mb-1">{caseView.resolution ? "Resolution" : "Reason for rejection"}</p>
+                    <p>{caseView.resolution || caseView.rejectionReason}</p>
+                  </div>
+                )}
+
+                <div>
+                  <h3 className="text-sm font-medium mb-3">Progress</h3>
+                  <ol className="relative space-y-3 border-l pl-4">
+                    {caseView.statusHistory.map((update) => (
+                      <li key={update.id} className="relative">
+                        <span className="absolute -left-[21px] top-1.5 h-2.5 w-2.5 rounded-full bg-primary" />
+                        <div className="flex flex-wrap items-center gap-2 text-sm">
+                          <span className="font-medium">{GRIEVANCE_STATUS_LABELS[update.status]}</span>
+                          <span className="text-xs text-muted-foreground">
+                            {format(new Date(update.timestamp), "MMM d, yyyy p")}
+                          </span>
+                        </div>
+                        <p className="text-sm text-muted-foreground">{update.message}</p>
+                      </li>
+                    ))}
+                  </ol>
+                </div>
+
+                <div>
+                  <h3 className="text-sm font-medium mb-3 flex items-center gap-2">
+                    <MessageSquare className="h-4 w-4" />
+                    Conversation
+                  </h3>
+                  {caseView.comments.length === 0 ? (
+                    <p className="text-sm text-muted-foreground">No messages yet.</p>
+                  ) : (
+                    <div className="space-y-3">
+                      {caseView.comments.map((comment) => (
+                        <div
+                          key={comment.id}
+                          className={`rounded-lg p-3 text-sm ${comment.fromSubmitter ? "bg-primary/10 ml-8" : "bg-muted/40 mr-8"}`}
+                        >
+                          <div className="flex items-center justify-between mb-1">
+                            <span className="font-medium">{comment.author}</span>
+                            <span className="text-xs text-muted-foreground">
+                              {format(new Date(comment.createdAt), "MMM d, p")}
+                            </span>
+                          </div>
+                          <p>{comment.text}</p>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+
+                  <div className="mt-4 space-y-2">
+                    <Textarea
+                      value={reply}
+                      onChange={(e) => setReply(e.target.value)}
+                      placeholder="Reply to the people handling your case..."
+                      className="min-h-[90px]"
+                    />
+                    <div className="flex justify-end">
+                      <Button size="sm" onClick={handleReply} disabled={isLoading || !reply.trim()}>
+                        <Send className="mr-2 h-3.5 w-3.5" />
+                        Send reply
+                      </Button>
+                    </div>
+                  </div>
+                </div>
+              </CardContent>
+              <CardFooter className="justify-between text-xs text-muted-foreground">
+                <span className="flex items-center gap-1">
+                  <ShieldCheck className="h-3.5 w-3.5" />
+                  Your identity isn't attached to this case
+                </span>
+                <Button variant="ghost" size="sm" onClick={handleSignOutOfCase}>
+                  Close case
+                </Button>
+              </CardFooter>
+            </Card>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default CaseStatus;
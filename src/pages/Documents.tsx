@@ -1,4 +1,5 @@
-import React, { useState } from "react";
+import React, { useEffect, useState } from "react";
+import { useSearchParams } from "react-router-dom";
 import { useDocuments } from "@/components/DocumentProvider";
 import { useAuth } from "@/components/AuthProvider";
 import {
@@ -15,7 +16,9 @@ import {
   MoreHorizontal,
   Trash2,
   FileSignature,
-  CheckCircle
+  CheckCircle,
+  History,
+  Gavel
 } from "lucide-react";
 import {
   Card,
@@ -37,6 +40,9 @@ import {
 import { format, parseISO } from "date-fns";
 import { toast } from "@/hooks/use-toast";
 import { DocumentSignatureModal } from "@/components/document-signature-modal";
+import { DocumentVersionsDialog } from "@/components/dashboard/DocumentVersionsDialog";
+import { DocumentRetentionDialog } from "@/components/dashboard/DocumentRetentionDialog";
+import { LegalHoldDialog } from "@/components/dashboard/LegalHoldDialog";
 
 // Format file size into human-readable format
 const formatFileSize = (bytes: number): string => {
@@ -66,10 +72,17 @@ const getDocumentIcon = (type: string) => {
 
 const Documents = () => {
   const { user } = useAuth();
-  const { documents, tags, downloadDocument, toggleFavorite, deleteDocument } = useDocuments();
+  const { documents, tags, downloadDocument, toggleFavorite, deleteDocument, searchDocuments, releaseLegalHold } = useDocuments();
   const [searchQuery, setSearchQuery] = useState("");
   const [selectedDocumentId, setSelectedDocumentId] = useState<string | null>(null);
   const [isSignatureModalOpen, setIsSignatureModalOpen] = useState(false);
+  const [versionsDocumentId, setVersionsDocumentId] = useState<string | null>(null);
+  const versionsDocument = documents.find(d => d.id === versionsDocumentId);
+  const [holdDocumentId, setHoldDocumentId] = useState<string | null>(null);
+  const holdDocument = documents.find(d => d.id === holdDocumentId);
+  // Best matches first, each with a snippet of where it matched
+  const searchResults = searchQuery.trim() ? searchDocuments(searchQuery) : null;
+  const shownDocuments = searchResults ? searchResults.map(result => result.document) : documents;
   
   const formatDate = (dateStr: string) => {
     try {
@@ -88,11 +101,21 @@ const Documents = () => {
     setIsSignatureModalOpen(true);
   };
 
+  // Links from notifications open a document's signatures with ?document=<id>
+  const [searchParams, setSearchParams] = useSearchParams();
+  const linkedDocumentId = searchParams.get('document');
+  useEffect(() => {
+    if (!linkedDocumentId) return;
+    openSignatureModal(linkedDocumentId);
+    setSearchParams({}, { replace: true });
+  }, [linkedDocumentId, setSearchParams]);
+
   return (
     <div className="container mx-auto p-4">
       <div className="flex justify-between items-center mb-6">
         <h1 className="text-2xl font-bold">Documents</h1>
         <div className="flex gap-2">
+          <DocumentRetentionDialog />
           <Button variant="outline" onClick={() => toast({ title: "Filter clicked" })}>
             <Filter className="h-4 w-4 mr-2" />
             Filter
@@ -108,7 +131,7 @@ const Documents = () => {
         <div className="relative max-w-md">
           <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-muted-foreground" />
           <Input
-            placeholder="Search documents..."
+            placeholder='Search documents... "exact phrase" or prefix*'
             value={searchQuery}
             onChange={(e) => setSearchQuery(e.target.value)}
             className="pl-10 max-w-md"
@@ -116,7 +139,11 @@ const Documents = () => {
         </div>
       </div>
 
-      {documents.length === 0 ? (
+      {searchResults && searchResults.length === 0 ? (
+        <div className="text-center py-12">
+          <p className="text-muted-foreground">No documents match "{searchQuery}"</p>
+        </div>
+      ) : documents.length === 0 ? (
         <div className="text-center py-12">
           <p className="text-muted-foreground mb-4">No documents found</p>
           <Button>
@@ -126,8 +153,7 @@ const Documents = () => {
         </div>
       ) : (
         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-4">
-          {documents
-            .filter((doc) => doc.title.toLowerCase().includes(searchQuery.toLowerCase()))
+          {shownDocuments
             .map((doc) => (
               <Card key={doc.id} className="overflow-hidden">
                 <CardHeader className="p-4 pb-2">
@@ -165,13 +191,25 @@ const Documents = () => {
                             <Download className="h-4 w-4 mr-2" />
                             Download
                           </DropdownMenuItem>
+                          <DropdownMenuItem onClick={() => setVersionsDocumentId(doc.id)}>
+                            <History className="h-4 w-4 mr-2" />
+                            Version history
+                          </DropdownMenuItem>
                           <DropdownMenuItem onClick={() => openSignatureModal(doc.id)}>
                             <FileSignature className="h-4 w-4 mr-2" />
                             {doc.signatures && doc.signatures.length > 0 
                               ? "View Signatures" 
                               : "Sign Document"}
                           </DropdownMenuItem>
-                          <DropdownMenuItem onClick={() => deleteDocument(doc.id)}>
+                          {user?.role === 'admin' && (
+                            <DropdownMenuItem
+                              onClick={() => doc.legalHold ? releaseLegalHold(doc.id) : setHoldDocumentId(doc.id)}
+                            >
+                              <Gavel className="h-4 w-4 mr-2" />
+                              {doc.legalHold ? "Release legal hold" : "Place legal hold"}
+                            </DropdownMenuItem>
+                          )}
+                          <DropdownMenuItem onClick={() => deleteDocument(doc.id)} disabled={!!doc.legalHold}>
                             <Trash2 className="h-4 w-4 mr-2" />
                             Delete
                           </DropdownMenuItem>
@@ -181,6 +219,19 @@ const Documents = () => {
                   </div>
                 </CardHeader>
                 <CardContent className="p-4 pt-2">
+                  {searchResults && (
+                    <p className="mb-3 text-xs text-muted-foreground line-clamp-3">
+                      {searchResults.find(result => result.document.id === doc.id)?.snippet.map((part, index) =>
+                        part.highlight ? (
+                          <mark key={index} className="rounded-sm bg-yellow-200 px-0.5 text-foreground">
+                            {part.text}
+                          </mark>
+                        ) : (
+                          <span key={index}>{part.text}</span>
+                        )
+                      )}
+                    </p>
+                  )}
                   <div className="flex flex-wrap gap-2 mb-3">
                     {doc.tags.map(tagId => {
                       const tag = tags.find(t => t.id === tagId);
@@ -200,6 +251,15 @@ const Documents = () => {
                         <FileSignature className="h-3 w-3 mr-1" /> Needs Signature
                       </Badge>
                     )}
+                    {doc.legalHold && (
+                      <Badge
+                        variant="outline"
+                        className="bg-amber-50 text-amber-700 border-amber-200"
+                        title={`${doc.legalHold.reason} (placed by ${doc.legalHold.placedByName})`}
+                      >
+                        <Gavel className="h-3 w-3 mr-1" /> Legal Hold
+                      </Badge>
+                    )}
                     {doc.signatures && doc.signatures.length > 0 && (
                       <Badge variant="outline" className="bg-green-50 text-green-700 border-green-200">
                         <CheckCircle className="h-3 w-3 mr-1" /> 
@@ -255,6 +315,24 @@ const Documents = () => {
           onClose={() => setIsSignatureModalOpen(false)}
         />
       )}
+
+      {versionsDocument && (
+        <DocumentVersionsDialog
+          key={versionsDocument.id}
+          document={versionsDocument}
+          open
+          onOpenChange={(open) => !open && setVersionsDocumentId(null)}
+        />
+      )}
+
+      {holdDocument && (
+        <LegalHoldDialog
+          key={holdDocument.id}
+          document={holdDocument}
+          open
+          onOpenChange={(open) => !open && setHoldDocumentId(null)}
+        />
+      )}
     </div>
   );
 };
@@ -38,7 +38,15 @@ import {
   MoreVertical,
   Copy,
   Trash,
-  X
+  X,
+  KeyRound,
+  Inbox,
+  Route,
+  Users,
+  ShieldAlert,
+  GitMerge,
+  Link2,
+  FileDown
 } from "lucide-react";
 import {
   DropdownMenu,
@@ -48,9 +56,23 @@ import {
   DropdownMenuLabel,
   DropdownMenuSeparator
 } from "@/components/ui/dropdown-menu";
+import { Link, useSearchParams } from "react-router-dom";
 import { DashboardHeader } from "@/components/layouts/DashboardHeader";
 import { DashboardShell } from "@/components/layouts/DashboardShell";
 import { useGrievance, GrievanceStatus, GrievancePriority, GrievanceCategory } from '@/components/GrievanceProvider';
+import { GRIEVANCE_STATUS_LABELS, GrievanceTransition, REVIEWER_ROLES } from '@/lib/grievanceWorkflow';
+import { GrievanceSlaBadge } from '@/components/dashboard/GrievanceSlaBadge';
+import { SlaPoliciesDialog } from '@/components/dashboard/SlaPoliciesDialog';
+import { RoutingRulesDialog } from '@/components/dashboard/RoutingRulesDialog';
+import { InvolvedPartiesInput } from '@/components/dashboard/InvolvedPartiesInput';
+import { AssignGrievanceDialog } from '@/components/dashboard/AssignGrievanceDialog';
+import { SimilarGrievancesPanel } from '@/components/dashboard/SimilarGrievancesPanel';
+import { RelatedGrievancesDialog } from '@/components/dashboard/RelatedGrievancesDialog';
+import { SatisfactionSurveyCard } from '@/components/dashboard/SatisfactionSurveyCard';
+import { ExportCaseFileDialog } from '@/components/dashboard/ExportCaseFileDialog';
+import { RedactedText } from '@/components/dashboard/RedactedText';
+import { CLOSED_GRIEVANCE_STATUSES } from '@/lib/grievanceSimilarity';
+import { InvolvedParty } from '@/lib/grievanceConflicts';
 import { useAuth } from '@/components/AuthProvider';
 import { useAudit } from '@/components/AuditProvider';
 import { format, formatDistanceToNow } from 'date-fns';
@@ -68,6 +90,10 @@ function getInitials(name) {
     .toUpperCase();
 }
 
+function formatStatus(status: GrievanceStatus) {
+  return GRIEVANCE_STATUS_LABELS[status] || status;
+}
+
 function getPriorityVariant(priority) {
   switch (priority.toLowerCase()) {
     case "low":
@@ -124,6 +150,8 @@ const getStatusColor = (status: GrievanceStatus) => {
     case 'escalated': return 'bg-purple-100 text-purple-800 dark:bg-purple-900 dark:text-purple-200';
     case 'resolved': return 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200';
     case 'rejected': return 'bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200';
+    case 'reopened': return 'bg-orange-100 text-orange-800 dark:bg-orange-900 dark:text-orange-200';
+    case 'merged': return 'bg-slate-100 text-slate-800 dark:bg-slate-800 dark:text-slate-200';
     default: return 'bg-gray-100 text-gray-800 dark:bg-gray-800 dark:text-gray-200';
   }
 };
@@ -152,9 +180,18 @@ const getCategoryColor = (category: GrievanceCategory) => {
   }
 };
 
+// Status change being filled in; the transition decides which fields are required
+const EMPTY_STATUS_UPDATE = {
+  open: false,
+  transition: null as GrievanceTransition | null,
+  comment: '',
+  resolution: '',
+  rejectionReason: ''
+};
+
 export function Grievances() {
-  const { grievances, addGrievance, updateGrievanceStatus, assignGrievance, addComment, escalateGrievance, resolveGrievance } = useGrievance();
-  const { user } = useAuth();
+  const { grievances, addGrievance, addAnonymousGrievance, updateGrievanceStatus, assignGrievance, addComment, escalateGrievance, getAvailableTransitions, rerouteGrievance, joinGrievance, unlinkGrievances } = useGrievance();
+  const { user, hasPermission } = useAuth();
   const { addAuditLog } = useAudit();
   
   // States for filtering grievances
@@ -175,282 +212,37 @@ export function Grievances() {
     department: 'HR',
     priority: 'medium' as GrievancePriority,
     status: 'pending' as GrievanceStatus,
-    isAnonymous: false
+    isAnonymous: false,
+    involvedParties: [] as InvolvedParty[],
+    relatedIds: [] as string[]
   });
   
+  // Case token for an anonymous submission, shown once and then forgotten
+  const [issuedCaseToken, setIssuedCaseToken] = useState<string | null>(null);
+  
   // State for viewing a specific grievance
-  const [selectedGrievance, setSelectedGrievance] = useState<any | null>(null);
+  const [selectedGrievance, setSelectedGrievance] = useState<string | null>(null);
   const [commentText, setCommentText] = useState('');
   const [isInternalComment, setIsInternalComment] = useState(false);
-  const [statusUpdateDialog, setStatusUpdateDialog] = useState({
-    open: false,
-    status: '' as GrievanceStatus,
-    comment: ''
-  });
+  const [assignDialogOpen, setAssignDialogOpen] = useState(false);
+  const [relatedDialogOpen, setRelatedDialogOpen] = useState(false);
+  const [exportDialogOpen, setExportDialogOpen] = useState(false);
+  const [statusUpdateDialog, setStatusUpdateDialog] = useState(EMPTY_STATUS_UPDATE);
+  
+  // Links from notifications open a grievance with ?grievance=<id>
+  const [searchParams, setSearchParams] = useSearchParams();
+  const linkedGrievanceId = searchParams.get('grievance');
+  useEffect(() => {
+    if (!linkedGrievanceId) return;
+    setSelectedGrievance(linkedGrievanceId);
+    setSearchParams({}, { replace: true });
+  }, [linkedGrievanceId, setSearchParams]);
   
-  // Sample data for the grievances
-  const sampleGrievances = [
-    {
-      id: "g1234567890",
-      title: "Salary discrepancy in recent paycheck",
-      description: "I noticed that my recent paycheck didn't include the overtime hours I worked last month. I worked an additional 15 hours but they weren't reflected in my compensation.",
-      status: "Pending",
-      priority: "High",
-      category: "Financial",
-      department: "Finance",
-      createdAt: "2023-04-15T10:30:00Z",
-      updatedAt: "2023-04-15T10:30:00Z",
-      submittedBy: {
-        id: "u1",
-        name: "John Smith",
-        avatar: "/avatars/john-smith.png",
-      },
-      assignedTo: null,
-      comments: [],
-      statusHistory: [
-        {
-          status: "Pending",
-          timestamp: "2023-04-15T10:30:00Z",
-          comment: "Initial submission",
-          updatedBy: {
-            id: "u1",
-            name: "John Smith",
-            avatar: "/avatars/john-smith.png",
-          },
-        },
-      ],
-      attachments: [
-        { name: "pay-stub-march.pdf", url: "/files/pay-stub-march.pdf" },
-      ],
-    },
-    {
-      id: "g2345678901",
-      title: "Request for better equipment",
-      description: "My current laptop is very slow and has battery issues. It's affecting my productivity and making it difficult to complete tasks efficiently. I would like to request a new laptop with better specifications.",
-      status: "In Review",
-      priority: "Medium",
-      category: "Technical",
-      department: "IT",
-      createdAt: "2023-04-10T14:20:00Z",
-      updatedAt: "2023-04-11T09:15:00Z",
-      submittedBy: {
-        id: "u2",
-        name: "Sarah Johnson",
-        avatar: "/avatars/sarah-johnson.png",
-      },
-      assignedTo: {
-        id: "u3",
-        name: "Mike Peterson",
-        avatar: "/avatars/mike-peterson.png",
-      },
-      comments: [
-        {
-          id: "c1",
-          content: "We'll check the inventory and get back to you by the end of the week.",
-          timestamp: "2023-04-11T09:15:00Z",
-          user: {
-            id: "u3",
-            name: "Mike Peterson",
-            avatar: "/avatars/mike-peterson.png",
-          },
-        },
-        {
-          id: "c2",
-          content: "Thank you for looking into this. My current laptop shuts down unexpectedly during meetings.",
-          timestamp: "2023-04-11T10:20:00Z",
-          user: {
-            id: "u2",
-            name: "Sarah Johnson",
-            avatar: "/avatars/sarah-johnson.png",
-          },
-        },
-      ],
-      statusHistory: [
-        {
-          status: "Pending",
-          timestamp: "2023-04-10T14:20:00Z",
-          comment: "Initial submission",
-          updatedBy: {
-            id: "u2",
-            name: "Sarah Johnson",
-            avatar: "/avatars/sarah-johnson.png",
-          },
-        },
-        {
-          status: "In Review",
-          timestamp: "2023-04-11T09:10:00Z",
-          comment: "Assigned to IT department for review",
-          updatedBy: {
-            id: "u3",
-            name: "Mike Peterson",
-            avatar: "/avatars/mike-peterson.png",
-          },
-        },
-      ],
-      attachments: [],
-    },
-    {
-      id: "g3456789012",
-      title: "Harassment complaint against team lead",
-      description: "I would like to report inappropriate behavior from my team lead. There have been multiple instances of verbal harassment and unfair treatment during team meetings and in private conversations.",
-      status: "Escalated",
-      priority: "Critical",
-      category: "HR",
-      department: "HR",
-      createdAt: "2023-04-05T11:45:00Z",
-      updatedAt: "2023-04-07T16:15:00Z",
-      submittedBy: {
-        id: "u4",
-        name: "David Wilson",
-        avatar: "/avatars/david-wilson.png",
-      },
-      assignedTo: {
-        id: "u5",
-        name: "Jennifer Lee",
-        avatar: "/avatars/jennifer-lee.png",
-      },
-      comments: [
-        {
-          id: "c3",
-          content: "This is a serious matter. We'd like to schedule a confidential meeting to discuss the details further.",
-          timestamp: "2023-04-06T13:30:00Z",
-          user: {
-            id: "u5",
-            name: "Jennifer Lee",
-            avatar: "/avatars/jennifer-lee.png",
-          },
-        },
-      ],
-      statusHistory: [
-        {
-          status: "Pending",
-          timestamp: "2023-04-05T11:45:00Z",
-          comment: "Initial submission",
-          updatedBy: {
-            id: "u4",
-            name: "David Wilson",
-            avatar: "/avatars/david-wilson.png",
-          },
-        },
-        {
-          status: "In Review",
-          timestamp: "2023-04-06T09:20:00Z",
-          comment: "Assigned to HR for initial review",
-          updatedBy: {
-            id: "u5",
-            name: "Jennifer Lee",
-            avatar: "/avatars/jennifer-lee.png",
-          },
-        },
-        {
-          status: "Escalated",
-          timestamp: "2023-04-07T16:15:00Z",
-          comment: "Escalated to senior management due to severity",
-          updatedBy: {
-            id: "u5",
-            name: "Jennifer Lee",
-            avatar: "/avatars/jennifer-lee.png",
-          },
-        },
-      ],
-      attachments: [
-        { name: "incident-log.docx", url: "/files/incident-log.docx" },
-        { name: "email-screenshot.png", url: "/files/email-screenshot.png" },
-      ],
-    },
-    {
-      id: "g4567890123",
-      title: "Request for flexible working hours",
-      description: "Due to my childcare responsibilities, I would like to request flexible working hours. I propose starting at 7:30 AM and finishing at 4:00 PM instead of the standard 9-5:30 schedule.",
-      status: "Resolved",
-      priority: "Low",
-      category: "HR",
-      department: "HR",
-      createdAt: "2023-03-20T09:00:00Z",
-      updatedAt: "2023-03-25T14:30:00Z",
-      submittedBy: {
-        id: "u6",
-        name: "Emily Brown",
-        avatar: "/avatars/emily-brown.png",
-      },
-      assignedTo: {
-        id: "u5",
-        name: "Jennifer Lee",
-        avatar: "/avatars/jennifer-lee.png",
-      },
-      comments: [
-        {
-          id: "c4",
-          content: "We'll review your request and discuss it with your department manager.",
-          timestamp: "2023-03-21T11:05:00Z",
-          user: {
-            id: "u5",
-            name: "Jennifer Lee",
-            avatar: "/avatars/jennifer-lee.png",
-          },
-        },
-        {
-          id: "c5",
-          content: "Your request has been approved. Please coordinate with your team to ensure all meetings and collaborative work are scheduled appropriately.",
-          timestamp: "2023-03-25T14:30:00Z",
-          user: {
-            id: "u5",
-            name: "Jennifer Lee",
-            avatar: "/avatars/jennifer-lee.png",
-          },
-        },
-        {
-          id: "c6",
-          content: "Thank you for approving my request. I will make sure to coordinate with my team members.",
-          timestamp: "2023-03-25T15:45:00Z",
-          user: {
-            id: "u6",
-            name: "Emily Brown",
-            avatar: "/avatars/emily-brown.png",
-          },
-        },
-      ],
-      statusHistory: [
-        {
-          status: "Pending",
-          timestamp: "2023-03-20T09:00:00Z",
-          comment: "Initial submission",
-          updatedBy: {
-            id: "u6",
-            name: "Emily Brown",
-            avatar: "/avatars/emily-brown.png",
-          },
-        },
-        {
-          status: "In Review",
-          timestamp: "2023-03-21T11:00:00Z",
-          comment: "Under review by HR",
-          updatedBy: {
-            id: "u5",
-            name: "Jennifer Lee",
-            avatar: "/avatars/jennifer-lee.png",
-          },
-        },
-        {
-          status: "Resolved",
-          timestamp: "2023-03-25T14:25:00Z",
-          comment: "Request approved",
-          updatedBy: {
-            id: "u5",
-            name: "Jennifer Lee",
-            avatar: "/avatars/jennifer-lee.png",
-          },
-        },
-      ],
-      attachments: [],
-    },
-  ];
-
   // Filter and sort grievances based on active tab, search, and filters
-  const filteredGrievances = sampleGrievances.filter((grievance) => {
+  const filteredGrievances = grievances.filter((grievance) => {
     // Filter by tab
-    if (activeTab === "my-grievances" && grievance.submittedBy.id !== "u1") return false;
-    if (activeTab === "assigned" && (!grievance.assignedTo || grievance.assignedTo.id !== "u1")) return false;
+    if (activeTab === "my-grievances" && grievance.createdBy !== user?.id && !grievance.coSubmitters?.some(c => c.id === user?.id)) return false;
+    if (activeTab === "assigned" && grievance.assignedTo !== user?.id) return false;
     if (activeTab === "unassigned" && grievance.assignedTo) return false;
     
     // Filter by search query
@@ -466,18 +258,19 @@ export function Grievances() {
     if (categoryFilter !== 'all' && grievance.category !== categoryFilter) return false;
     
     // Filter by department
-    if (departmentFilter !== 'all' && grievance.department !== departmentFilter) return false;
+    if (departmentFilter !== 'all' && grievance.department.toLowerCase() !== departmentFilter) return false;
     
     return true;
   }).sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
 
   // Get currently selected grievance
   const currentGrievance = selectedGrievance 
-    ? sampleGrievances.find(g => g.id === selectedGrievance) 
+    ? grievances.find(g => g.id === selectedGrievance) 
     : null;
+  const availableTransitions = currentGrievance ? getAvailableTransitions(currentGrievance) : [];
 
   // Handler for submitting a new grievance
-  const handleSubmitGrievance = () => {
+  const handleSubmitGrievance = async () => {
     if (!user) return;
     
     // Validate form
@@ -485,14 +278,41 @@ export function Grievances() {
       return;
     }
     
-    // Create grievance
-    addGrievance({
-      ...newGrievance,
-      createdBy: user.id,
-      createdByName: user.name
-    });
+    // Create grievance; anonymous ones get a case token instead of a submitter
+    if (newGrievance.isAnonymous) {
+      const { isAnonymous, ...details } = newGrievance;
+      const { caseToken } = await addAnonymousGrievance(details);
+      setIssuedCaseToken(caseToken);
+    } else {
+      addGrievance({
+        ...newGrievance,
+        createdBy: user.id,
+        createdByName: user.name
+      });
+    }
     
-    // Reset form and close dialog
+    resetNewGrievance();
+  };
+
+  // Join a similar open case instead of filing a new one; what was written
+  // so far goes on the case as a comment
+  const handleJoinGrievance = (grievanceId: string) => {
+    if (joinGrievance(grievanceId, newGrievance.description)) {
+      resetNewGrievance();
+      setSelectedGrievance(grievanceId);
+    }
+  };
+
+  // Link or unlink a similar case as related to the grievance being written
+  const toggleRelatedCase = (grievanceId: string) => {
+    const relatedIds = newGrievance.relatedIds.includes(grievanceId)
+      ? newGrievance.relatedIds.filter(id => id !== grievanceId)
+      : [...newGrievance.relatedIds, grievanceId];
+    setNewGrievance({ ...newGrievance, relatedIds });
+  };
+
+  // Reset form and close dialog
+  const resetNewGrievance = () => {
     setNewGrievance({
       title: '',
       description: '',
@@ -500,7 +320,9 @@ export function Grievances() {
       department: 'HR',
       priority: 'medium',
       status: 'pending',
-      isAnonymous: false
+      isAnonymous: false,
+      involvedParties: [],
+      relatedIds: []
     });
     setNewGrievanceOpen(false);
   };
@@ -514,47 +336,22 @@ export function Grievances() {
     setIsInternalComment(false);
   };
 
-  // Handler for updating status
-  const handleStatusUpdate = () => {
-    if (!selectedGrievance || !statusUpdateDialog.status || !statusUpdateDialog.comment) return;
-    
-    updateGrievanceStatus(
-      selectedGrievance, 
-      statusUpdateDialog.status as GrievanceStatus, 
-      statusUpdateDialog.comment
-    );
-    
-    setStatusUpdateDialog({
-      open: false,
-      status: '' as GrievanceStatus,
-      comment: ''
-    });
-  };
-
-  // Handler for escalating a grievance
-  const handleEscalate = () => {
-    if (!selectedGrievance || !statusUpdateDialog.comment) return;
-    
-    escalateGrievance(selectedGrievance, statusUpdateDialog.comment);
-    
-    setStatusUpdateDialog({
-      open: false,
-      status: '' as GrievanceStatus,
-      comment: ''
-    });
+  // Open the status dialog for one of the grievance's next transitions
+  const openTransition = (transition: GrievanceTransition) => {
+    setStatusUpdateDialog({ ...EMPTY_STATUS_UPDATE, open: true, transition });
   };
 
-  // Handler for resolving a grievance
-  const handleResolve = () => {
-    if (!selectedGrievance || !statusUpdateDialog.comment) return;
+  // Handler for updating status
+  const handleStatusUpdate = () => {
+    const { transition, comment, resolution, rejectionReason } = statusUpdateDialog;
+    if (!selectedGrievance || !transition) return;
     
-    resolveGrievance(selectedGrievance, statusUpdateDialog.comment);
+    // Escalation also hands the case to higher management
+    const updated = transition.to === 'escalated'
+      ? escalateGrievance(selectedGrievance, comment)
+      : updateGrievanceStatus(selectedGrievance, transition.to, comment, { resolution, rejectionReason });
     
-    setStatusUpdateDialog({
-      open: false,
-      status: '' as GrievanceStatus,
-      comment: ''
-    });
+    if (updated) setStatusUpdateDialog(EMPTY_STATUS_UPDATE);
   };
 
   // Handler for assigning a grievance
@@ -593,10 +390,14 @@ export function Grievances() {
                     Manage employee grievances and track their resolution progress
                   </p>
                 </div>
-                <Button onClick={() => setNewGrievanceOpen(true)} className="md:self-start w-full md:w-auto">
-                  <Plus className="mr-2 h-4 w-4" />
-                  Submit Grievance
-                </Button>
+                <div className="flex flex-col md:flex-row gap-2">
+                  {hasPermission('manage', 'grievance') && <RoutingRulesDialog />}
+                  {hasPermission('manage', 'grievance') && <SlaPoliciesDialog />}
+                  <Button onClick={() => setNewGrievanceOpen(true)} className="md:self-start w-full md:w-auto">
+                    <Plus className="mr-2 h-4 w-4" />
+                    Submit Grievance
+                  </Button>
+                </div>
               </div>
               
               <div className="flex flex-col sm:flex-row gap-3 items-start sm:items-center justify-between">
@@ -665,6 +466,8 @@ export function Grievances() {
                         <SelectItem value="escalated">Escalated</SelectItem>
                         <SelectItem value="resolved">Resolved</SelectItem>
                         <SelectItem value="rejected">Rejected</SelectItem>
+                        <SelectItem value="reopened">Reopened</SelectItem>
+                        <SelectItem value="merged">Merged</SelectItem>
                       </SelectContent>
                     </Select>
                   </div>
@@ -781,7 +584,7 @@ export function Grievances() {
                           <div className="flex-1 min-w-0">
                             <h3 className="text-lg font-medium mb-1 line-clamp-1">{grievance.title}</h3>
                             <div className="text-sm text-muted-foreground mb-3">
-                              {grievance.submittedBy.name} • {grievance.department} • 
+                              {grievance.isAnonymous ? 'Anonymous' : grievance.createdByName} • {grievance.department} • 
                               {formatDistanceToNow(new Date(grievance.createdAt), { addSuffix: true })}
                             </div>
                             <p className="text-sm line-clamp-2 mb-4">{grievance.description}</p>
@@ -794,16 +597,23 @@ export function Grievances() {
                                 <MessageCircle className="mr-1 h-4 w-4" />
                                 <span>{grievance.comments.length}</span>
                               </div>
+                              {grievance.coSubmitters && grievance.coSubmitters.length > 0 && (
+                                <div className="flex items-center text-sm text-muted-foreground">
+                                  <Users className="mr-1 h-4 w-4" />
+                                  <span>{grievance.coSubmitters.length + 1} affected</span>
+                                </div>
+                              )}
                               <div className="flex items-center text-sm text-muted-foreground">
                                 <Clock className="mr-1 h-4 w-4" />
                                 <span className="whitespace-nowrap">Updated {formatDistanceToNow(new Date(grievance.updatedAt), { addSuffix: true })}</span>
                               </div>
+                              <GrievanceSlaBadge grievance={grievance} />
                             </div>
                           </div>
                           
                           <div className="flex sm:flex-col items-start sm:items-end gap-2 sm:ml-4">
                             <Badge className="bg-muted/50 text-foreground">
-                              {grievance.status.charAt(0).toUpperCase() + grievance.status.slice(1).replace('-', ' ')}
+                              {formatStatus(grievance.status)}
                             </Badge>
                             <Badge className="bg-muted/50 text-foreground">
                               {grievance.priority.charAt(0).toUpperCase() + grievance.priority.slice(1)}
@@ -817,21 +627,29 @@ export function Grievances() {
                               <div className="flex items-center text-sm">
                                 <span className="text-muted-foreground mr-2">Assigned to:</span>
                                 <Avatar className="h-6 w-6 mr-1">
-                                  <AvatarFallback>{grievance.assignedTo.name.charAt(0)}</AvatarFallback>
+                                  <AvatarFallback>{(grievance.assignedToName || '?').charAt(0)}</AvatarFallback>
                                 </Avatar>
-                                <span>{grievance.assignedTo.name}</span>
+                                <span>{grievance.assignedToName}</span>
                               </div>
                             ) : (
-                              user?.role !== 'employee' && (
-                                <Button 
-                                  variant="outline" 
-                                  size="sm" 
-                                  onClick={() => handleAssign(grievance.id)}
-                                >
-                                  <UserCircle className="mr-2 h-4 w-4" />
-                                  Assign to me
-                                </Button>
-                              )
+                              <div className="flex items-center gap-2">
+                                {grievance.queue && (
+                                  <Badge variant="outline" className="font-normal">
+                                    <Inbox className="mr-1 h-3 w-3" />
+                                    {grievance.queue} queue
+                                  </Badge>
+                                )}
+                                {user?.role !== 'employee' && (
+                                  <Button 
+                                    variant="outline" 
+                                    size="sm" 
+                                    onClick={() => handleAssign(grievance.id)}
+                                  >
+                                    <UserCircle className="mr-2 h-4 w-4" />
+                                    Assign to me
+                                  </Button>
+                                )}
+                              </div>
                             )}
                           </div>
                           <Button 
@@ -867,13 +685,21 @@ export function Grievances() {
             <div className="grid grid-cols-1 gap-4">
               <div className="space-y-2">
                 <Label htmlFor="title" className="required">Title</Label>
-                <Input id="title" placeholder="Brief summary of your grievance" />
+                <Input 
+                  id="title" 
+                  placeholder="Brief summary of your grievance" 
+                  value={newGrievance.title}
+                  onChange={(e) => setNewGrievance({ ...newGrievance, title: e.target.value })}
+                />
               </div>
               
               <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
                 <div className="space-y-2">
                   <Label htmlFor="category" className="required">Category</Label>
-                  <Select>
+                  <Select
+                    value={newGrievance.category}
+                    onValueChange={(value) => setNewGrievance({ ...newGrievance, category: value as GrievanceCategory })}
+                  >
                     <SelectTrigger id="category">
                       <SelectValue placeholder="Select category" />
                     </SelectTrigger>
@@ -890,7 +716,10 @@ export function Grievances() {
                 
                 <div className="space-y-2">
                   <Label htmlFor="priority" className="required">Priority</Label>
-                  <Select>
+                  <Select
+                    value={newGrievance.priority}
+                    onValueChange={(value) => setNewGrievance({ ...newGrievance, priority: value as GrievancePriority })}
+                  >
                     <SelectTrigger id="priority">
                       <SelectValue placeholder="Select priority" />
                     </SelectTrigger>
@@ -906,16 +735,19 @@ export function Grievances() {
               
               <div className="space-y-2">
                 <Label htmlFor="department" className="required">Related Department</Label>
-                <Select>
+                <Select
+                  value={newGrievance.department}
+                  onValueChange={(value) => setNewGrievance({ ...newGrievance, department: value })}
+                >
                   <SelectTrigger id="department">
                     <SelectValue placeholder="Select department" />
                   </SelectTrigger>
                   <SelectContent>
-                    <SelectItem value="hr">HR</SelectItem>
-                    <SelectItem value="sales">Sales</SelectItem>
-                    <SelectItem value="development">Development</SelectItem>
-                    <SelectItem value="marketing">Marketing</SelectItem>
-                    <SelectItem value="finance">Finance</SelectItem>
+                    <SelectItem value="HR">HR</SelectItem>
+                    <SelectItem value="Sales">Sales</SelectItem>
+                    <SelectItem value="Development">Development</SelectItem>
+                    <SelectItem value="Marketing">Marketing</SelectItem>
+                    <SelectItem value="Finance">Finance</SelectItem>
                   </SelectContent>
                 </Select>
               </div>
@@ -926,9 +758,47 @@ export function Grievances() {
                   id="description"
                   placeholder="Provide detailed information about your grievance"
                   className="min-h-[150px]"
+                  value={newGrievance.description}
+                  onChange={(e) => setNewGrievance({ ...newGrievance, description: e.target.value })}
                 />
               </div>
               
+              <SimilarGrievancesPanel
+                draft={newGrievance}
+                isAnonymous={newGrievance.isAnonymous}
+                linkedIds={newGrievance.relatedIds}
+                onToggleLink={toggleRelatedCase}
+                onJoin={handleJoinGrievance}
+              />
+              
+              <div className="space-y-2">
+                <Label>People involved</Label>
+                <InvolvedPartiesInput
+                  value={newGrievance.involvedParties}
+                  onChange={(involvedParties) => setNewGrievance({ ...newGrievance, involvedParties })}
+                />
+                <p className="text-xs text-muted-foreground">
+                  Anyone you name, and people in their reporting line, won't be asked to handle this grievance.
+                </p>
+              </div>
+              
+              <div className="flex items-center space-x-2">
+                <Checkbox
+                  id="anonymous"
+                  checked={newGrievance.isAnonymous}
+                  onCheckedChange={(checked) => setNewGrievance({ ...newGrievance, isAnonymous: checked === true })}
+                />
+                <Label htmlFor="anonymous" className="text-sm font-normal">
+                  Submit anonymously
+                </Label>
+              </div>
+              {newGrievance.isAnonymous && (
+                <p className="text-xs text-muted-foreground -mt-2">
+                  Your name won't be attached. You'll get a case token to follow the grievance and reply to
+                  the people handling it; it won't appear under My Grievances.
+                </p>
+              )}
+              
               <div className="space-y-2">
                 <Label htmlFor="attachments">Attachments</Label>
                 <div className="border border-input bg-background rounded-md px-3 py-2">
@@ -958,7 +828,13 @@ export function Grievances() {
             <Button variant="outline" onClick={() => setNewGrievanceOpen(false)}>
               Cancel
             </Button>
-            <Button type="submit">Submit Grievance</Button>
+            <Button 
+              type="submit" 
+              onClick={handleSubmitGrievance}
+              disabled={!newGrievance.title || !newGrievance.description}
+            >
+              Submit Grievance
+            </Button>
           </DialogFooter>
         </DialogContent>
       </Dialog>
@@ -966,52 +842,51 @@ export function Grievances() {
       {/* Grievance Detail Dialog */}
       <Dialog open={selectedGrievance !== null} onOpenChange={(open) => !open && setSelectedGrievance(null)}>
         <DialogContent className="sm:max-w-lg md:max-w-2xl lg:max-w-4xl max-h-[85vh] overflow-y-auto custom-scrollbar p-0">
-          {selectedGrievance && (
+          {currentGrievance && (
             <>
               <div className="sticky top-0 z-10 bg-background pt-4 px-6">
                 <div className="flex justify-between items-start mb-2">
-                  <DialogTitle className="text-xl">{selectedGrievance.title}</DialogTitle>
-                  <button className="h-6 w-6 rounded-sm opacity-70 ring-offset-background transition-opacity hover:opacity-100 focus:outline-none focus:ring-2 focus:ring-ring focus:ring-offset-2 text-foreground">
+                  <DialogTitle className="text-xl">{currentGrievance.title}</DialogTitle>
+                  <button 
+                    onClick={() => setSelectedGrievance(null)}
+                    className="h-6 w-6 rounded-sm opacity-70 ring-offset-background transition-opacity hover:opacity-100 focus:outline-none focus:ring-2 focus:ring-ring focus:ring-offset-2 text-foreground">
                     <X className="h-4 w-4" />
                     <span className="sr-only">Close</span>
                   </button>
                 </div>
                 
                 <div className="flex flex-wrap gap-2 mb-4">
-                  <Badge variant={getPriorityVariant(selectedGrievance.priority)}>
-                    {selectedGrievance.priority}
+                  <Badge variant={getPriorityVariant(currentGrievance.priority)}>
+                    {currentGrievance.priority}
                   </Badge>
-                  <Badge variant="outline">{selectedGrievance.category}</Badge>
-                  <div className={`px-2.5 py-0.5 rounded-full text-xs font-medium
-                    ${selectedGrievance.status === 'Pending' ? 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900/30 dark:text-yellow-500' : ''}
-                    ${selectedGrievance.status === 'In Review' ? 'bg-blue-100 text-blue-800 dark:bg-blue-900/30 dark:text-blue-500' : ''}
-                    ${selectedGrievance.status === 'Escalated' ? 'bg-red-100 text-red-800 dark:bg-red-900/30 dark:text-red-500' : ''}
-                    ${selectedGrievance.status === 'Resolved' ? 'bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-500' : ''}
-                    ${selectedGrievance.status === 'Rejected' ? 'bg-gray-100 text-gray-800 dark:bg-gray-900/30 dark:text-gray-500' : ''}
-                  `}>
-                    {selectedGrievance.status}
+                  <Badge variant="outline">{currentGrievance.category}</Badge>
+                  <div className={`px-2.5 py-0.5 rounded-full text-xs font-medium ${getStatusColor(currentGrievance.status)}`}>
+                    {formatStatus(currentGrievance.status)}
                   </div>
                   <span className="text-xs text-muted-foreground px-2.5 py-0.5 bg-muted rounded-full">
-                    ID: {selectedGrievance.id.slice(0, 8)}
+                    ID: {currentGrievance.id.slice(0, 8)}
                   </span>
                 </div>
                 
+                <div className="mb-4">
+                  <GrievanceSlaBadge grievance={currentGrievance} detailed />
+                </div>
+                
                 <div className="flex items-center justify-between pb-4 border-b">
                   <div className="flex items-center">
                     <Avatar className="h-8 w-8 mr-2">
-                      <AvatarImage src={selectedGrievance.submittedBy.avatar} alt={selectedGrievance.submittedBy.name} />
-                      <AvatarFallback>{getInitials(selectedGrievance.submittedBy.name)}</AvatarFallback>
+                      <AvatarFallback>{currentGrievance.isAnonymous ? '?' : getInitials(currentGrievance.createdByName)}</AvatarFallback>
                     </Avatar>
                     <div>
-                      <p className="text-sm font-medium">{selectedGrievance.submittedBy.name}</p>
+                      <p className="text-sm font-medium">{currentGrievance.isAnonymous ? 'Anonymous' : currentGrievance.createdByName}</p>
                       <p className="text-xs text-muted-foreground">
-                        Submitted on {formatDate(new Date(selectedGrievance.createdAt))}
+                        Submitted on {formatDate(new Date(currentGrievance.createdAt))}
                       </p>
                     </div>
                   </div>
                   
                   <div className="flex gap-2">
-                    {selectedGrievance.status !== 'Resolved' && selectedGrievance.status !== 'Rejected' && (
+                    {availableTransitions.length > 0 && (
                       <DropdownMenu>
                         <DropdownMenuTrigger asChild>
                           <Button variant="outline" size="sm">
@@ -1022,10 +897,11 @@ export function Grievances() {
                         <DropdownMenuContent align="end">
                           <DropdownMenuLabel>Change Status</DropdownMenuLabel>
                           <DropdownMenuSeparator />
-                          <DropdownMenuItem>Mark as In Review</DropdownMenuItem>
-                          <DropdownMenuItem>Escalate</DropdownMenuItem>
-                          <DropdownMenuItem>Mark as Resolved</DropdownMenuItem>
-                          <DropdownMenuItem>Reject</DropdownMenuItem>
+                          {availableTransitions.map((transition) => (
+                            <DropdownMenuItem key={transition.id} onClick={() => openTransition(transition)}>
+                              {transition.label}
+                            </DropdownMenuItem>
+                          ))}
                         </DropdownMenuContent>
                       </DropdownMenu>
                     )}
@@ -1037,11 +913,38 @@ export function Grievances() {
                         </Button>
                       </DropdownMenuTrigger>
                       <DropdownMenuContent align="end">
-                        <DropdownMenuItem>
-                          <UserCircle className="mr-2 h-4 w-4" />
-                          Assign
-                        </DropdownMenuItem>
-                        <DropdownMenuItem>
+                        {user?.role !== 'employee' && (
+                          <DropdownMenuItem onClick={() => handleAssign(currentGrievance.id)}>
+                            <UserCircle className="mr-2 h-4 w-4" />
+                            Assign to me
+                          </DropdownMenuItem>
+                        )}
+                        {user?.role !== 'employee' && (
+                          <DropdownMenuItem onClick={() => setAssignDialogOpen(true)}>
+                            <Users className="mr-2 h-4 w-4" />
+                            Assign to…
+                          </DropdownMenuItem>
+                        )}
+                        {user?.role !== 'employee' && !CLOSED_GRIEVANCE_STATUSES.includes(currentGrievance.status) && (
+                          <DropdownMenuItem onClick={() => rerouteGrievance(currentGrievance.id)}>
+                            <Route className="mr-2 h-4 w-4" />
+                            Route automatically
+                          </DropdownMenuItem>
+                        )}
+                        {(user?.role !== 'employee' || currentGrievance.createdBy === user?.id) &&
+                          !CLOSED_GRIEVANCE_STATUSES.includes(currentGrievance.status) && (
+                          <DropdownMenuItem onClick={() => setRelatedDialogOpen(true)}>
+                            <GitMerge className="mr-2 h-4 w-4" />
+                            Link or merge…
+                          </DropdownMenuItem>
+                        )}
+                        {user && REVIEWER_ROLES.includes(user.role) && (
+                          <DropdownMenuItem onClick={() => setExportDialogOpen(true)}>
+                            <FileDown className="mr-2 h-4 w-4" />
+                            Export case file…
+                          </DropdownMenuItem>
+                        )}
+                        <DropdownMenuItem onClick={() => navigator.clipboard?.writeText(currentGrievance.id)}>
                           <Copy className="mr-2 h-4 w-4" />
                           Copy ID
                         </DropdownMenuItem>
@@ -1058,58 +961,166 @@ export function Grievances() {
               
               <div className="px-6 py-4">
                 <div className="space-y-6">
+                  {/* Merged Notice */}
+                  {currentGrievance.mergedInto && (
+                    <div className="rounded-lg border border-slate-300 bg-slate-50 dark:bg-slate-900/40 p-3 text-sm flex items-center justify-between gap-3">
+                      <p className="flex items-center gap-2">
+                        <GitMerge className="h-4 w-4" />
+                        Merged as a duplicate into "{grievances.find(g => g.id === currentGrievance.mergedInto)?.title || currentGrievance.mergedInto}"
+                      </p>
+                      <Button variant="outline" size="sm" onClick={() => setSelectedGrievance(currentGrievance.mergedInto!)}>
+                        Open case
+                      </Button>
+                    </div>
+                  )}
+                  
                   {/* Description Section */}
                   <div>
                     <h3 className="text-base font-medium mb-2">Description</h3>
                     <div className="bg-muted/30 rounded-lg p-4 text-sm">
-                      {selectedGrievance.description}
+                      <RedactedText
+                        key={currentGrievance.id}
+                        grievanceId={currentGrievance.id}
+                        text={currentGrievance.description}
+                        pii={currentGrievance.descriptionPii}
+                      />
                     </div>
                     
-                    {selectedGrievance.attachments && selectedGrievance.attachments.length > 0 && (
+                    {currentGrievance.attachments && currentGrievance.attachments.length > 0 && (
                       <div className="mt-4">
                         <h4 className="text-sm font-medium mb-2">Attachments</h4>
                         <div className="flex flex-wrap gap-2">
-                          {selectedGrievance.attachments.map((attachment, i) => (
+                          {currentGrievance.attachments.map((attachment, i) => (
                             <div key={i} className="flex items-center gap-1 bg-muted/50 rounded px-2 py-1 text-xs">
                               <FileText className="h-3 w-3" />
-                              <span>{attachment.name}</span>
+                              <span>{attachment}</span>
                             </div>
                           ))}
                         </div>
                       </div>
                     )}
                   </div>
-                  
+
+                  {/* Involved Parties Section */}
+                  {currentGrievance.involvedParties && currentGrievance.involvedParties.length > 0 && (
+                    <div>
+                      <h3 className="text-base font-medium mb-2">People Involved</h3>
+                      <div className="flex flex-wrap gap-1.5">
+                        {currentGrievance.involvedParties.map((party) => (
+                          <Badge key={party.id || party.name} variant="secondary" className="font-normal">
+                            {party.name}
+                          </Badge>
+                        ))}
+                      </div>
+                      {user?.role !== 'employee' && currentGrievance.conflictOverrides?.map((override) => (
+                        <div key={override.id} className="mt-3 rounded-lg border border-amber-300 bg-amber-50 dark:bg-amber-900/20 p-3 text-sm">
+                          <p className="flex items-center gap-2 font-medium">
+                            <ShieldAlert className="h-4 w-4" />
+                            {override.overriddenByName} assigned {override.assignedToName} despite a conflict of interest
+                          </p>
+                          <p className="text-xs text-muted-foreground mt-1">{override.conflicts.join('. ')}</p>
+                          <p className="mt-1">"{override.justification}"</p>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+
+                  {/* Submitters Section */}
+                  {currentGrievance.coSubmitters && currentGrievance.coSubmitters.length > 0 && (
+                    <div>
+                      <h3 className="text-base font-medium mb-2">Also Affected</h3>
+                      <div className="flex flex-wrap gap-1.5">
+                        {currentGrievance.coSubmitters.map((submitter) => (
+                          <Badge key={submitter.id} variant="secondary" className="font-normal">
+                            {submitter.name}
+                            <span className="ml-1 text-muted-foreground">· joined {formatDate(new Date(submitter.joinedAt))}</span>
+                          </Badge>
+                        ))}
+                      </div>
+                    </div>
+                  )}
+
+                  {/* Related Cases Section */}
+                  {currentGrievance.relatedIds && currentGrievance.relatedIds.length > 0 && (
+                    <div>
+                      <h3 className="text-base font-medium mb-2">Related Cases</h3>
+                      <div className="space-y-2">
+                        {currentGrievance.relatedIds.map((relatedId) => {
+                          const related = grievances.find(g => g.id === relatedId);
+                          if (!related) return null;
+                          return (
+                            <div key={relatedId} className="flex items-center justify-between gap-3 rounded-lg bg-muted/30 px-3 py-2 text-sm">
+                              <button
+                                className="flex items-center gap-2 text-left hover:underline min-w-0"
+                                onClick={() => setSelectedGrievance(relatedId)}
+                              >
+                                <Link2 className="h-4 w-4 shrink-0" />
+                                <span className="truncate">{related.title}</span>
+                              </button>
+                              <div className="flex items-center gap-2 shrink-0">
+                                <div className={`px-2 py-0.5 rounded-full text-xs font-medium ${getStatusColor(related.status)}`}>
+                                  {formatStatus(related.status)}
+                                </div>
+                                {user?.role !== 'employee' && (
+                                  <Button variant="ghost" size="icon" className="h-6 w-6" onClick={() => unlinkGrievances(currentGrievance.id, relatedId)}>
+                                    <X className="h-3.5 w-3.5" />
+                                    <span className="sr-only">Unlink</span>
+                                  </Button>
+                                )}
+                              </div>
+                            </div>
+                          );
+                        })}
+                      </div>
+                    </div>
+                  )}
+
+                  {/* Outcome Section */}
+                  {(currentGrievance.resolution || currentGrievance.rejectionReason) && (
+                    <div>
+                      <h3 className="text-base font-medium mb-2">
+                        {currentGrievance.resolution ? 'Resolution' : 'Rejection Reason'}
+                      </h3>
+                      <div className="bg-muted/30 rounded-lg p-4 text-sm">
+                        {currentGrievance.resolution || currentGrievance.rejectionReason}
+                      </div>
+                    </div>
+                  )}
+
+                  {/* Satisfaction Section */}
+                  <SatisfactionSurveyCard grievance={currentGrievance} />
+
                   {/* Status History Section */}
                   <div>
                     <h3 className="text-base font-medium mb-2">Status History</h3>
                     <div className="space-y-3">
-                      {selectedGrievance.statusHistory.map((status, i) => (
-                        <div key={i} className="flex items-start gap-3">
+                      {currentGrievance.statusHistory.map((status) => (
+                        <div key={status.id} className="flex items-start gap-3">
                           <div className="mt-0.5">
                             <div className={`h-4 w-4 rounded-full flex items-center justify-center
-                              ${status.status === 'Pending' ? 'bg-yellow-500' : ''}
-                              ${status.status === 'In Review' ? 'bg-blue-500' : ''}
-                              ${status.status === 'Escalated' ? 'bg-red-500' : ''}
-                              ${status.status === 'Resolved' ? 'bg-green-500' : ''}
-                              ${status.status === 'Rejected' ? 'bg-gray-500' : ''}
+                              ${status.status === 'pending' ? 'bg-yellow-500' : ''}
+                              ${status.status === 'in-review' ? 'bg-blue-500' : ''}
+                              ${status.status === 'escalated' ? 'bg-red-500' : ''}
+                              ${status.status === 'resolved' ? 'bg-green-500' : ''}
+                              ${status.status === 'rejected' ? 'bg-gray-500' : ''}
+                              ${status.status === 'reopened' ? 'bg-orange-500' : ''}
+                              ${status.status === 'merged' ? 'bg-slate-500' : ''}
                             `}></div>
                           </div>
                           <div className="flex-1">
                             <div className="flex flex-col sm:flex-row sm:items-center justify-between">
-                              <p className="font-medium text-sm">{status.status}</p>
+                              <p className="font-medium text-sm">{formatStatus(status.status)}</p>
                               <p className="text-xs text-muted-foreground">{formatDate(new Date(status.timestamp))}</p>
                             </div>
                             {status.comment && (
                               <p className="text-sm mt-1">{status.comment}</p>
                             )}
-                            {status.updatedBy && (
+                            {status.updatedByName && (
                               <div className="flex items-center mt-1">
                                 <Avatar className="h-4 w-4 mr-1">
-                                  <AvatarImage src={status.updatedBy.avatar} alt={status.updatedBy.name} />
-                                  <AvatarFallback>{getInitials(status.updatedBy.name)}</AvatarFallback>
+                                  <AvatarFallback>{getInitials(status.updatedByName)}</AvatarFallback>
                                 </Avatar>
-                                <span className="text-xs text-muted-foreground">{status.updatedBy.name}</span>
+                                <span className="text-xs text-muted-foreground">{status.updatedByName}</span>
                               </div>
                             )}
                           </div>
@@ -1118,26 +1129,68 @@ export function Grievances() {
                     </div>
                   </div>
                   
+                  {/* Merged Duplicates Section */}
+                  {currentGrievance.mergedDuplicates && currentGrievance.mergedDuplicates.length > 0 && (
+                    <div>
+                      <h3 className="text-base font-medium mb-2">Merged Duplicates</h3>
+                      <div className="space-y-3">
+                        {currentGrievance.mergedDuplicates.map((duplicate) => (
+                          <details key={duplicate.grievanceId} className="rounded-lg border p-3 text-sm">
+                            <summary className="cursor-pointer">
+                              <span className="font-medium">{duplicate.title}</span>
+                              <span className="text-muted-foreground">
+                                {' '}· submitted by {duplicate.submittedByName} · merged by {duplicate.mergedByName} {formatDate(new Date(duplicate.mergedAt))}
+                              </span>
+                            </summary>
+                            <ul className="mt-2 space-y-1 border-l pl-3">
+                              {duplicate.statusHistory.map((update) => (
+                                <li key={update.id}>
+                                  <span className="font-medium">{formatStatus(update.status)}</span>
+                                  <span className="text-xs text-muted-foreground"> · {format(new Date(update.timestamp), 'MMM d, yyyy p')} · {update.updatedByName}</span>
+                                  {update.comment && <p className="text-muted-foreground">{update.comment}</p>}
+                                </li>
+                              ))}
+                            </ul>
+                          </details>
+                        ))}
+                      </div>
+                    </div>
+                  )}
+                  
                   {/* Comments Section */}
                   <div>
                     <h3 className="text-base font-medium mb-3">Comments</h3>
                     <div className="space-y-4">
-                      {selectedGrievance.comments.length === 0 ? (
+                      {currentGrievance.comments.length === 0 ? (
                         <p className="text-muted-foreground text-sm">No comments yet.</p>
                       ) : (
-                        selectedGrievance.comments.map((comment, i) => (
-                          <div key={i} className="flex gap-3">
+                        currentGrievance.comments.map((comment) => (
+                          <div key={comment.id} className="flex gap-3">
                             <Avatar className="h-8 w-8">
-                              <AvatarImage src={comment.user.avatar} alt={comment.user.name} />
-                              <AvatarFallback>{getInitials(comment.user.name)}</AvatarFallback>
+                              <AvatarFallback>{getInitials(comment.createdByName)}</AvatarFallback>
                             </Avatar>
                             <div className="flex-1">
-                              <div className="bg-muted/30 rounded-lg p-3">
+                              <div className={`rounded-lg p-3 ${comment.isInternal ? 'bg-amber-50 dark:bg-amber-900/20' : 'bg-muted/30'}`}>
                                 <div className="flex items-center justify-between mb-1">
-                                  <span className="font-medium text-sm">{comment.user.name}</span>
-                                  <span className="text-xs text-muted-foreground">{formatDate(new Date(comment.timestamp))}</span>
+                                  <span className="font-medium text-sm">
+                                    {comment.createdByName}
+                                    {comment.isInternal && (
+                                      <Badge variant="outline" className="ml-2 text-xs">Internal</Badge>
+                                    )}
+                                    {comment.mergedFrom && (
+                                      <Badge variant="outline" className="ml-2 text-xs">From merged case</Badge>
+                                    )}
+                                  </span>
+                                  <span className="text-xs text-muted-foreground">{formatDate(new Date(comment.createdAt))}</span>
                                 </div>
-                                <p className="text-sm">{comment.content}</p>
+                                <p className="text-sm">
+                                  <RedactedText
+                                    grievanceId={currentGrievance.id}
+                                    commentId={comment.id}
+                                    text={comment.text}
+                                    pii={comment.pii}
+                                  />
+                                </p>
                               </div>
                               
                               <div className="flex items-center gap-4 mt-1">
@@ -1152,16 +1205,33 @@ export function Grievances() {
                       <div className="pt-4 border-t mt-4">
                         <div className="flex gap-3">
                           <Avatar className="h-8 w-8">
-                            <AvatarImage src="/avatars/current-user.png" alt="Current User" />
-                            <AvatarFallback>CU</AvatarFallback>
+                            <AvatarImage src={user?.avatar} alt={user?.name} />
+                            <AvatarFallback>{user ? getInitials(user.name) : 'CU'}</AvatarFallback>
                           </Avatar>
                           <div className="flex-1">
                             <Textarea
                               placeholder="Add a comment..."
                               className="min-h-[100px]"
+                              value={commentText}
+                              onChange={(e) => setCommentText(e.target.value)}
                             />
-                            <div className="flex justify-end mt-2">
-                              <Button size="sm">Post Comment</Button>
+                            <div className="flex items-center justify-between mt-2">
+                              {user?.role !== 'employee' ? (
+                                <div className="flex items-center space-x-2">
+                                  <Checkbox
+                                    id="internal-comment"
+                                    checked={isInternalComment}
+                                    onCheckedChange={(checked) => setIsInternalComment(checked === true)}
+                                  />
+                                  <Label htmlFor="internal-comment" className="text-xs font-normal">
+                                    Internal note (hidden from the submitter)
+                                  </Label>
+                                </div>
+                              ) : <span />}
+                              <Button size="sm" onClick={handleSubmitComment} disabled={!commentText.trim()}>
+                                <Send className="mr-2 h-3.5 w-3.5" />
+                                Post Comment
+                              </Button>
                             </div>
                           </div>
                         </div>
@@ -1175,66 +1245,141 @@ export function Grievances() {
         </DialogContent>
       </Dialog>
       
-      {/* Status Update Dialog */}
-      <Dialog open={statusUpdateDialog.open} onOpenChange={(open) => !open && setStatusUpdateDialog({ ...statusUpdateDialog, open: false })}>
-        <DialogContent className="sm:max-w-[500px]">
+      {/* Assign Dialog */}
+      {currentGrievance && (
+        <AssignGrievanceDialog
+          grievance={currentGrievance}
+          open={assignDialogOpen}
+          onOpenChange={setAssignDialogOpen}
+        />
+      )}
+      
+      {/* Related Cases Dialog */}
+      {currentGrievance && (
+        <RelatedGrievancesDialog
+          grievance={currentGrievance}
+          open={relatedDialogOpen}
+          onOpenChange={setRelatedDialogOpen}
+        />
+      )}
+      
+      {/* Export Case File Dialog */}
+      {currentGrievance && (
+        <ExportCaseFileDialog
+          grievance={currentGrievance}
+          open={exportDialogOpen}
+          onOpenChange={setExportDialogOpen}
+        />
+      )}
+      
+      {/* Case Token Dialog */}
+      <Dialog open={!!issuedCaseToken} onOpenChange={(open) => !open && setIssuedCaseToken(null)}>
+        <DialogContent className="sm:max-w-[460px]">
           <DialogHeader>
-            <DialogTitle>
-              {statusUpdateDialog.status === 'escalated'
-                ? 'Escalate Grievance'
-                : statusUpdateDialog.status === 'resolved'
-                ? 'Resolve Grievance'
-                : `Update Status to ${statusUpdateDialog.status?.replace('-', ' ')}`}
+            <DialogTitle className="flex items-center gap-2">
+              <KeyRound className="h-5 w-5" />
+              Save your case token
             </DialogTitle>
             <DialogDescription>
-              {statusUpdateDialog.status === 'escalated'
-                ? 'Provide a reason for escalating this grievance to higher management'
-                : statusUpdateDialog.status === 'resolved'
-                ? 'Provide details about how this grievance was resolved'
-                : 'Add comments explaining this status change'}
+              This is the only way to follow your anonymous grievance. It won't be shown again and can't be recovered.
             </DialogDescription>
           </DialogHeader>
-          <div className="grid gap-4 py-2">
-            <div className="grid gap-2">
-              <Label htmlFor="status-comment">Comment</Label>
-              <Textarea
-                id="status-comment"
-                value={statusUpdateDialog.comment}
-                onChange={(e) => setStatusUpdateDialog({ ...statusUpdateDialog, comment: e.target.value })}
-                placeholder={
-                  statusUpdateDialog.status === 'escalated'
-                    ? 'Reason for escalation...'
-                    : statusUpdateDialog.status === 'resolved'
-                    ? 'Resolution details...'
-                    : 'Comment about status change...'
-                }
-                rows={4}
-              />
-            </div>
-          </div>
-          <DialogFooter className="gap-2 sm:gap-0">
-            <Button variant="outline" onClick={() => setStatusUpdateDialog({ ...statusUpdateDialog, open: false })}>
-              Cancel
-            </Button>
+          <div className="flex items-center gap-2 rounded-md border bg-muted/40 p-3">
+            <code className="flex-1 text-center font-mono text-lg tracking-widest">{issuedCaseToken}</code>
             <Button
-              onClick={
-                statusUpdateDialog.status === 'escalated'
-                  ? handleEscalate
-                  : statusUpdateDialog.status === 'resolved'
-                  ? handleResolve
-                  : handleStatusUpdate
-              }
-              disabled={!statusUpdateDialog.comment}
+              variant="ghost"
+              size="icon"
+              onClick={() => issuedCaseToken && navigator.clipboard?.writeText(issuedCaseToken)}
             >
-              {statusUpdateDialog.status === 'escalated'
-                ? 'Escalate'
-                : statusUpdateDialog.status === 'resolved'
-                ? 'Resolve'
-                : 'Update Status'}
+              <Copy className="h-4 w-4" />
+              <span className="sr-only">Copy token</span>
             </Button>
+          </div>
+          <p className="text-sm text-muted-foreground">
+            Check the status and reply at{' '}
+            <Link to="/case-status" className="underline underline-offset-4 hover:text-primary">
+              {window.location.origin}/case-status
+            </Link>
+            , no sign-in needed.
+          </p>
+          <DialogFooter>
+            <Button onClick={() => setIssuedCaseToken(null)}>I've saved it</Button>
           </DialogFooter>
         </DialogContent>
       </Dialog>
+      
+      {/* Status Update Dialog */}
+      <Dialog open={statusUpdateDialog.open} onOpenChange={(open) => !open && setStatusUpdateDialog(EMPTY_STATUS_UPDATE)}>
+        <DialogContent className="sm:max-w-[500px]">
+          {statusUpdateDialog.transition && (
+            <>
+              <DialogHeader>
+                <DialogTitle>{statusUpdateDialog.transition.label}</DialogTitle>
+                <DialogDescription>
+                  {currentGrievance ? `${formatStatus(currentGrievance.status)} → ` : ''}
+                  {formatStatus(statusUpdateDialog.transition.to)}
+                </DialogDescription>
+              </DialogHeader>
+              <div className="grid gap-4 py-2">
+                {statusUpdateDialog.transition.requires.includes('resolution') && (
+                  <div className="grid gap-2">
+                    <Label htmlFor="status-resolution" className="required">Resolution</Label>
+                    <Textarea
+                      id="status-resolution"
+                      value={statusUpdateDialog.resolution}
+                      onChange={(e) => setStatusUpdateDialog({ ...statusUpdateDialog, resolution: e.target.value })}
+                      placeholder="How was this grievance resolved?"
+                      rows={4}
+                    />
+                  </div>
+                )}
+                {statusUpdateDialog.transition.requires.includes('rejectionReason') && (
+                  <div className="grid gap-2">
+                    <Label htmlFor="status-rejection" className="required">Rejection reason</Label>
+                    <Textarea
+                      id="status-rejection"
+                      value={statusUpdateDialog.rejectionReason}
+                      onChange={(e) => setStatusUpdateDialog({ ...statusUpdateDialog, rejectionReason: e.target.value })}
+                      placeholder="Why is this grievance being rejected?"
+                      rows={4}
+                    />
+                  </div>
+                )}
+                <div className="grid gap-2">
+                  <Label
+                    htmlFor="status-comment"
+                    className={statusUpdateDialog.transition.requires.includes('comment') ? 'required' : undefined}
+                  >
+                    {statusUpdateDialog.transition.to === 'escalated'
+                      ? 'Reason for escalation'
+                      : statusUpdateDialog.transition.to === 'reopened'
+                      ? 'Reason for reopening'
+                      : 'Comment'}
+                  </Label>
+                  <Textarea
+                    id="status-comment"
+                    value={statusUpdateDialog.comment}
+                    onChange={(e) => setStatusUpdateDialog({ ...statusUpdateDialog, comment: e.target.value })}
+                    placeholder="Comment about this status change..."
+                    rows={3}
+                  />
+                </div>
+              </div>
+              <DialogFooter className="gap-2 sm:gap-0">
+                <Button variant="outline" onClick={() => setStatusUpdateDialog(EMPTY_STATUS_UPDATE)}>
+                  Cancel
+                </Button>
+                <Button
+                  onClick={handleStatusUpdate}
+                  disabled={statusUpdateDialog.transition.requires.some((field) => !statusUpdateDialog[field].trim())}
+                >
+                  {statusUpdateDialog.transition.label}
+                </Button>
+              </DialogFooter>
+            </>
+          )}
+        </DialogContent>
+      </Dialog>
     </>
   );
 } 
\ No newline at end of file
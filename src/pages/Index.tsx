@@ -4,6 +4,7 @@ import { ChartCard } from "@/components/dashboard/ChartCard";
 import { TasksList } from "@/components/dashboard/TasksList";
 import { DepartmentSelector } from "@/components/dashboard/DepartmentSelector";
 import { ActivityFeed } from "@/components/dashboard/ActivityFeed";
+import { normalizeDueDate } from "@/lib/dueDates";
 import { 
   Users, 
   BarChart3, 
@@ -48,7 +49,7 @@ const tasksData = [
     title: "Update department overview dashboard",
     description: "Implement new data visualization for the HR department dashboard",
     status: "in-progress" as const,
-    dueDate: "Tomorrow",
+    dueDate: normalizeDueDate("Tomorrow"),
     department: "Development",
     priority: "high" as const,
     createdAt: new Date().toISOString(),
@@ -59,7 +60,7 @@ const tasksData = [
     title: "Review quarterly performance metrics",
     description: "Analyze and prepare summary of Q3 performance data for all departments",
     status: "pending" as const,
-    dueDate: "Next week",
+    dueDate: normalizeDueDate("Next week"),
     department: "HR",
     priority: "medium" as const,
     createdAt: new Date().toISOString(),
@@ -70,7 +71,7 @@ const tasksData = [
     title: "Prepare communication hub documentation",
     description: "Create user guide for the new messaging and notification system",
     status: "completed" as const,
-    dueDate: "Yesterday",
+    dueDate: normalizeDueDate("Yesterday"),
     department: "Sales",
     priority: "low" as const,
     createdAt: new Date().toISOString(),
@@ -81,7 +82,7 @@ const tasksData = [
     title: "Task assignment system update",
     description: "Implement new features for task tracking and assignment workflow",
     status: "in-progress" as const,
-    dueDate: "3 days",
+    dueDate: normalizeDueDate("3 days"),
     department: "Development",
     priority: "medium" as const,
     createdAt: new Date().toISOString(),
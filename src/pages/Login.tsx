@@ -161,6 +161,11 @@ const Login = () => {
                 Create an account
               </Link>
             </div>
+            <div className="text-sm text-center text-muted-foreground">
+              <Link to="/case-status" className="underline underline-offset-4 hover:text-primary">
+                Track an anonymous grievance
+              </Link>
+            </div>
           </CardFooter>
         </Card>
       </div>
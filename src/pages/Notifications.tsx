@@ -1,5 +1,5 @@
 import React, { useState, useEffect } from "react";
-import { Bell, Check, ChevronRight, MessageSquare, AlertCircle, Calendar, FileText, Users, X } from "lucide-react";
+import { Bell, Check, ChevronRight, MessageSquare, AlertCircle, Calendar, FileText, Users, X, Scale } from "lucide-react";
 import { Card, CardHeader, CardTitle, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
@@ -11,6 +11,8 @@ import { ScrollArea } from "@/components/ui/scroll-area";
 import { format, formatDistanceToNow, parseISO, isToday, isYesterday } from "date-fns";
 import { Link } from "react-router-dom";
 import { Alert, AlertTitle, AlertDescription } from "@/components/ui/alert";
+import { GRIEVANCE_NOTIFICATION_SENDER } from "@/components/dashboard/GrievanceSurveyNotifier";
+import { DOCUMENT_NOTIFICATION_SENDER } from "@/components/dashboard/SigningEnvelopeNotifier";
 
 const Notifications = () => {
   const { 
@@ -49,6 +51,7 @@ const Notifications = () => {
   const meetingCounts = notifications.filter(n => n.type === "meeting").length;
   const documentCounts = notifications.filter(n => n.type === "document").length;
   const mentionCounts = notifications.filter(n => n.type === "mention").length;
+  const grievanceCounts = notifications.filter(n => n.type === "grievance").length;
 
   // Handle marking a notification as read
   const handleMarkAsRead = (id: string) => {
@@ -96,6 +99,8 @@ const Notifications = () => {
         return <FileText className="h-5 w-5 text-yellow-500" />;
       case "mention":
         return <Users className="h-5 w-5 text-pink-500" />;
+      case "grievance":
+        return <Scale className="h-5 w-5 text-orange-500" />;
       default:
         return <Bell className="h-5 w-5 text-gray-500" />;
     }
@@ -114,6 +119,8 @@ const Notifications = () => {
         return `/documents?document=${notification.documentId}`;
       case "mention":
         return `/messages?channel=${notification.channelId}&highlight=${notification.messageId}`;
+      case "grievance":
+        return `/grievances?grievance=${notification.grievanceId}`;
       default:
         return "#";
     }
@@ -121,12 +128,16 @@ const Notifications = () => {
 
   // Get sender name
   const getSenderName = (senderId: string) => {
+    if (senderId === GRIEVANCE_NOTIFICATION_SENDER) return "Grievances";
+    if (senderId === DOCUMENT_NOTIFICATION_SENDER) return "Documents";
     const sender = users.find(user => user.id === senderId);
     return sender ? sender.name : "Unknown User";
   };
 
   // Get sender avatar
   const getSenderAvatar = (senderId: string) => {
+    if (senderId === GRIEVANCE_NOTIFICATION_SENDER) return "GR";
+    if (senderId === DOCUMENT_NOTIFICATION_SENDER) return "DC";
     const sender = users.find(user => user.id === senderId);
     return sender ? sender.avatar : "??";
   };
@@ -235,6 +246,12 @@ const Notifications = () => {
                   {mentionCounts}
                 </Badge>
               </TabsTrigger>
+              <TabsTrigger value="grievance">
+                Grievances
+                <Badge variant="secondary" className="ml-2">
+                  {grievanceCounts}
+                </Badge>
+              </TabsTrigger>
             </TabsList>
 
             <TabsContent value={activeTab} className="mt-0">
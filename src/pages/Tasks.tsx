@@ -1,16 +1,46 @@
-import React, { useState } from "react";
+import React from "react";
+import { useSearchParams } from "react-router-dom";
 import { StatCard } from "@/components/dashboard/StatCard";
 import { ChartCard } from "@/components/dashboard/ChartCard";
 import { TasksList } from "@/components/dashboard/TasksList";
 import { useTasks } from "@/components/TasksProvider";
 import { AddTaskDialog } from "@/components/dashboard/AddTaskDialog";
+import { TaskTemplatesDialog } from "@/components/dashboard/TaskTemplatesDialog";
+import { TaskGanttChart } from "@/components/dashboard/TaskGanttChart";
+import { TaskKanbanBoard } from "@/components/dashboard/TaskKanbanBoard";
+import { SavedViewsMenu } from "@/components/dashboard/SavedViewsMenu";
+import { useAuth } from "@/components/AuthProvider";
+import { useCommunication } from "@/components/CommunicationProvider";
+import { useDepartments } from "@/components/DepartmentsProvider";
+import {
+  applyTaskQuery,
+  getQueryValues,
+  parseTaskQuery,
+  setQueryField,
+  toggleQueryValue,
+} from "@/lib/taskQuery";
+import {
+  GROUP_LABELS,
+  SORT_LABELS,
+  TaskGroupKey,
+  TaskSortKey,
+  TaskViewSettings,
+  groupTasks,
+  sortTasks,
+  viewSettingsFromParams,
+  viewSettingsToParams,
+} from "@/lib/taskViews";
 import { 
   CheckSquare, 
   Clock, 
   AlertCircle, 
   Filter, 
   Search,
-  SortAsc
+  SortAsc,
+  SortDesc,
+  Rows3,
+  List,
+  Columns3
 } from "lucide-react";
 import {
   Card,
@@ -26,65 +56,71 @@ import {
   DropdownMenu,
   DropdownMenuContent,
   DropdownMenuCheckboxItem,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
 import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
 
 const Tasks = () => {
-  const { tasks, getTasksByStatus } = useTasks();
-  const [searchQuery, setSearchQuery] = useState("");
-  const [activeTab, setActiveTab] = useState("all");
-  const [filterByDepartment, setFilterByDepartment] = useState<string[]>([]);
-  const [filterByPriority, setFilterByPriority] = useState<string[]>([]);
-  const [sortBy, setSortBy] = useState("dueDate");
+  const taskSelectors = useTasks();
+  const { tasks, getTasksByStatus, blockParentCompletion, setBlockParentCompletion } = taskSelectors;
+  const { user } = useAuth();
+  const { users } = useCommunication();
+  const { teamMembers } = useDepartments();
+  // The view lives in the URL so it survives reloads and can be shared
+  const [searchParams, setSearchParams] = useSearchParams();
+  const settings = viewSettingsFromParams(searchParams);
+  const { query, sortBy, sortDirection, groupBy, layout: view } = settings;
+
+  const updateSettings = (updates: Partial<TaskViewSettings>) => {
+    setSearchParams(viewSettingsToParams({ ...settings, ...updates }), { replace: true });
+  };
+  const setQuery = (value: string) => updateSettings({ query: value });
 
   // Get unique departments from tasks
   const departments = Array.from(
     new Set(tasks.map((task) => task.department))
   );
 
-  // Check if department filter is active
-  const isDepartmentFilterActive = filterByDepartment.length > 0;
-  
-  // Check if priority filter is active
-  const isPriorityFilterActive = filterByPriority.length > 0;
+  const getAssigneeName = (id: string) =>
+    users.find((u) => u.id === id)?.name ||
+    teamMembers.find((member) => member.id === id)?.name ||
+    "Unknown";
 
-  // Get filtered tasks based on search, tabs, and filters
-  const filteredTasks = tasks.filter(task => {
-    // Search filter
-    const matchesSearch = task.title.toLowerCase().includes(searchQuery.toLowerCase()) || 
-                          task.description.toLowerCase().includes(searchQuery.toLowerCase());
-    
-    // Tab filter
-    const matchesTab = 
-      activeTab === "all" ||
-      (activeTab === "completed" && task.status === "completed") ||
-      (activeTab === "in-progress" && task.status === "in-progress") ||
-      (activeTab === "pending" && task.status === "pending");
-    
-    // Department filter
-    const matchesDepartment = !isDepartmentFilterActive || filterByDepartment.includes(task.department);
-    
-    // Priority filter
-    const matchesPriority = !isPriorityFilterActive || filterByPriority.includes(task.priority);
-    
-    return matchesSearch && matchesTab && matchesDepartment && matchesPriority;
-  });
+  // Let `assignee:` match people by name as well as by ID
+  const resolveAssignee = (name: string) => {
+    const needle = name.toLowerCase();
+    return [...users, ...teamMembers]
+      .filter((person) => person.name.toLowerCase().includes(needle))
+      .map((person) => person.id);
+  };
 
-  // Sort tasks
-  const sortedTasks = [...filteredTasks].sort((a, b) => {
-    if (sortBy === "dueDate") {
-      // Simple sorting based on string comparison for this demo
-      return a.dueDate.localeCompare(b.dueDate);
-    } else if (sortBy === "priority") {
-      const priorityOrder = { high: 0, medium: 1, low: 2 };
-      return priorityOrder[a.priority] - priorityOrder[b.priority];
-    } else if (sortBy === "alphabetical") {
-      return a.title.localeCompare(b.title);
-    }
-    return 0;
-  });
+  const parsedQuery = parseTaskQuery(query);
+  const filterByDepartment = getQueryValues(query, "dept").map((dept) => dept.toLowerCase());
+  const filterByPriority = getQueryValues(query, "priority");
+  const statusFilter = getQueryValues(query, "status");
+
+  // The status tabs are a shortcut for a single `status:` filter
+  const activeTab = statusFilter.length === 0 ? "all" : statusFilter.length === 1 ? statusFilter[0] : "";
+  const setActiveTab = (tab: string) => setQuery(setQueryField(query, "status", tab === "all" ? [] : [tab]));
+
+  // Get filtered tasks from the query (the board shows every status as its own column)
+  const filteredTasks = applyTaskQuery(
+    view === "board"
+      ? { ...parsedQuery, terms: parsedQuery.terms.filter((term) => term.field !== "status") }
+      : parsedQuery,
+    taskSelectors,
+    { currentUserId: user?.id, resolveAssignee }
+  );
+
+  // Sort and group tasks
+  const sortedTasks = sortTasks(filteredTasks, sortBy, sortDirection);
+  const taskGroups = groupBy === "none" ? undefined : groupTasks(sortedTasks, groupBy, getAssigneeName);
 
   // Task statistics
   const completedTasks = getTasksByStatus("completed").length;
@@ -115,28 +151,17 @@ const Tasks = () => {
 
   // Toggle department filter
   const toggleDepartmentFilter = (department: string) => {
-    setFilterByDepartment(prev => 
-      prev.includes(department)
-        ? prev.filter(dep => dep !== department)
-        : [...prev, department]
-    );
+    setQuery(toggleQueryValue(query, "dept", department));
   };
 
   // Toggle priority filter
   const togglePriorityFilter = (priority: string) => {
-    setFilterByPriority(prev => 
-      prev.includes(priority)
-        ? prev.filter(pri => pri !== priority)
-        : [...prev, priority]
-    );
+    setQuery(toggleQueryValue(query, "priority", priority));
   };
 
   // Reset all filters
   const resetAllFilters = () => {
-    setFilterByDepartment([]);
-    setFilterByPriority([]);
-    setSearchQuery("");
-    setActiveTab("all");
+    setQuery("");
   };
 
   return (
@@ -148,7 +173,10 @@ const Tasks = () => {
             Track, manage, and assign tasks across departments
           </p>
         </div>
-        <AddTaskDialog />
+        <div className="flex items-center gap-2">
+          <TaskTemplatesDialog />
+          <AddTaskDialog />
+        </div>
       </div>
 
       <div className="grid grid-cols-1 gap-6 md:grid-cols-3">
@@ -202,6 +230,30 @@ const Tasks = () => {
               <CardDescription>View, filter, and manage all tasks</CardDescription>
             </div>
             <div className="flex items-center gap-2">
+              <ToggleGroup 
+                type="single" 
+                size="sm" 
+                variant="outline" 
+                value={view} 
+                onValueChange={(value) => value && updateSettings({ layout: value as "list" | "board" })}
+              >
+                <ToggleGroupItem value="list" aria-label="List view">
+                  <List size={16} />
+                </ToggleGroupItem>
+                <ToggleGroupItem value="board" aria-label="Board view">
+                  <Columns3 size={16} />
+                </ToggleGroupItem>
+              </ToggleGroup>
+              <label 
+                className="flex items-center gap-2 text-sm text-muted-foreground mr-2"
+                title="Parent tasks can only be completed once all subtasks and checklist items are done"
+              >
+                <Switch 
+                  checked={blockParentCompletion} 
+                  onCheckedChange={setBlockParentCompletion} 
+                />
+                Require subtasks first
+              </label>
               <DropdownMenu>
                 <DropdownMenuTrigger asChild>
                   <Button variant="outline" size="sm" className="flex items-center gap-2">
@@ -215,7 +267,7 @@ const Tasks = () => {
                     {departments.map((department) => (
                       <DropdownMenuCheckboxItem
                         key={department}
-                        checked={filterByDepartment.includes(department)}
+                        checked={filterByDepartment.includes(department.toLowerCase())}
                         onCheckedChange={() => toggleDepartmentFilter(department)}
                       >
                         {department}
@@ -255,55 +307,92 @@ const Tasks = () => {
               <DropdownMenu>
                 <DropdownMenuTrigger asChild>
                   <Button variant="outline" size="sm" className="flex items-center gap-2">
-                    <SortAsc size={16} />
+                    {sortDirection === "asc" ? <SortAsc size={16} /> : <SortDesc size={16} />}
                     Sort
                   </Button>
                 </DropdownMenuTrigger>
                 <DropdownMenuContent align="end">
-                  <DropdownMenuCheckboxItem
-                    checked={sortBy === "dueDate"}
-                    onCheckedChange={() => setSortBy("dueDate")}
-                  >
-                    Due Date (Closest First)
-                  </DropdownMenuCheckboxItem>
-                  <DropdownMenuCheckboxItem
-                    checked={sortBy === "priority"}
-                    onCheckedChange={() => setSortBy("priority")}
-                  >
-                    Priority (High to Low)
-                  </DropdownMenuCheckboxItem>
-                  <DropdownMenuCheckboxItem
-                    checked={sortBy === "alphabetical"}
-                    onCheckedChange={() => setSortBy("alphabetical")}
+                  <DropdownMenuLabel>Sort by</DropdownMenuLabel>
+                  {(Object.keys(SORT_LABELS) as TaskSortKey[]).map((key) => (
+                    <DropdownMenuCheckboxItem
+                      key={key}
+                      checked={sortBy === key}
+                      onCheckedChange={() => updateSettings({ sortBy: key })}
+                    >
+                      {SORT_LABELS[key]}
+                    </DropdownMenuCheckboxItem>
+                  ))}
+                  <DropdownMenuSeparator />
+                  <DropdownMenuItem
+                    onClick={() => updateSettings({ sortDirection: sortDirection === "asc" ? "desc" : "asc" })}
                   >
-                    Alphabetical (A-Z)
-                  </DropdownMenuCheckboxItem>
+                    {sortDirection === "asc" ? <SortDesc className="mr-2 h-4 w-4" /> : <SortAsc className="mr-2 h-4 w-4" />}
+                    {sortDirection === "asc" ? "Descending" : "Ascending"}
+                  </DropdownMenuItem>
                 </DropdownMenuContent>
               </DropdownMenu>
+              {view === "list" && (
+                <DropdownMenu>
+                  <DropdownMenuTrigger asChild>
+                    <Button variant="outline" size="sm" className="flex items-center gap-2">
+                      <Rows3 size={16} />
+                      Group
+                    </Button>
+                  </DropdownMenuTrigger>
+                  <DropdownMenuContent align="end">
+                    {(Object.keys(GROUP_LABELS) as TaskGroupKey[]).map((key) => (
+                      <DropdownMenuCheckboxItem
+                        key={key}
+                        checked={groupBy === key}
+                        onCheckedChange={() => updateSettings({ groupBy: key })}
+                      >
+                        {GROUP_LABELS[key]}
+                      </DropdownMenuCheckboxItem>
+                    ))}
+                  </DropdownMenuContent>
+                </DropdownMenu>
+              )}
+              <SavedViewsMenu
+                settings={settings}
+                onApply={(saved) =>
+                  setSearchParams(viewSettingsToParams(saved), { replace: true })
+                }
+              />
             </div>
           </div>
           <div className="pt-2">
             <div className="relative">
               <Search className="absolute left-2 top-2.5 h-4 w-4 text-muted-foreground" />
               <Input
-                placeholder="Search tasks..."
-                className="pl-8"
-                value={searchQuery}
-                onChange={(e) => setSearchQuery(e.target.value)}
+                placeholder="Search or filter, e.g. status:pending priority:high assignee:me due:<7d dept:HR"
+                className="pl-8 font-mono text-sm"
+                value={query}
+                onChange={(e) => setQuery(e.target.value)}
               />
             </div>
+            {parsedQuery.errors.length > 0 && (
+              <p className="mt-1 text-xs text-destructive">
+                {parsedQuery.errors.join(" · ")}. Filters: status, priority, assignee, dept, due.
+              </p>
+            )}
           </div>
-          <Tabs defaultValue="all" onValueChange={setActiveTab} className="pt-2">
-            <TabsList>
-              <TabsTrigger value="all">All Tasks</TabsTrigger>
-              <TabsTrigger value="completed">Completed</TabsTrigger>
-              <TabsTrigger value="in-progress">In Progress</TabsTrigger>
-              <TabsTrigger value="pending">Pending</TabsTrigger>
-            </TabsList>
-          </Tabs>
+          {view === "list" && (
+            <Tabs value={activeTab} onValueChange={setActiveTab} className="pt-2">
+              <TabsList>
+                <TabsTrigger value="all">All Tasks</TabsTrigger>
+                <TabsTrigger value="completed">Completed</TabsTrigger>
+                <TabsTrigger value="in-progress">In Progress</TabsTrigger>
+                <TabsTrigger value="pending">Pending</TabsTrigger>
+              </TabsList>
+            </Tabs>
+          )}
         </CardHeader>
         <CardContent className="p-0">
-          <TasksList tasks={sortedTasks} />
+          {view === "list" ? (
+            <TasksList tasks={sortedTasks} groups={taskGroups} />
+          ) : (
+            <TaskKanbanBoard tasks={sortedTasks} />
+          )}
         </CardContent>
         <CardFooter className="flex justify-between py-4">
           <p className="text-sm text-muted-foreground">
@@ -316,6 +405,8 @@ const Tasks = () => {
           </div>
         </CardFooter>
       </Card>
+
+      <TaskGanttChart className="[animation-delay:700ms]" />
     </div>
   );
 };
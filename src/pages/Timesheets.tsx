@@ -0,0 +1,328 @@
+import React, { useState } from "react";
+import { addWeeks, format, parseISO } from "date-fns";
+import {
+  CalendarRange,
+  CheckCircle2,
+  ChevronLeft,
+  ChevronRight,
+  Clock,
+  Send,
+  XCircle
+} from "lucide-react";
+import {
+  Card,
+  CardHeader,
+  CardTitle,
+  CardDescription,
+  CardContent,
+} from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableFooter,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Progress } from "@/components/ui/progress";
+import { StatCard } from "@/components/dashboard/StatCard";
+import { useTasks } from "@/components/TasksProvider";
+import { useAuth } from "@/components/AuthProvider";
+import { useCommunication } from "@/components/CommunicationProvider";
+import { TimesheetStatus, useTimeTracking } from "@/components/TimeTrackingProvider";
+import { buildWeeklyTimesheet, formatMinutes, getWeekStart } from "@/lib/timesheets";
+
+const getStatusBadge = (status: TimesheetStatus) => {
+  switch (status) {
+    case "approved":
+      return <Badge className="bg-green-500/10 text-green-600 hover:bg-green-500/20">Approved</Badge>;
+    case "submitted":
+      return <Badge className="bg-blue-500/10 text-blue-600 hover:bg-blue-500/20">Awaiting approval</Badge>;
+    case "rejected":
+      return <Badge variant="destructive">Changes requested</Badge>;
+    default:
+      return <Badge variant="outline">Draft</Badge>;
+  }
+};
+
+const Timesheets = () => {
+  const { tasks } = useTasks();
+  const { user } = useAuth();
+  const { users } = useCommunication();
+  const {
+    timesheets,
+    getUserTimeEntries,
+    getTimesheet,
+    submitTimesheet,
+    approveTimesheet,
+    rejectTimesheet,
+    canApproveTimesheets,
+  } = useTimeTracking();
+  const [weekStart, setWeekStart] = useState(() => getWeekStart());
+  const [selectedUserId, setSelectedUserId] = useState(user?.id || "");
+  const [reviewNotes, setReviewNotes] = useState<Record<string, string>>({});
+
+  const userId = selectedUserId || user?.id || "";
+  const isOwnTimesheet = userId === user?.id;
+  const getUserName = (id: string) => users.find((u) => u.id === id)?.name || id;
+
+  const timesheet = getTimesheet(userId, weekStart);
+  const weekly = buildWeeklyTimesheet(getUserTimeEntries(userId), tasks, weekStart);
+  const departmentTotals = Object.entries(weekly.minutesByDepartment).sort((a, b) => b[1] - a[1]);
+
+  // Submitted timesheets from other people waiting for this manager
+  const pendingApprovals = canApproveTimesheets
+    ? timesheets.filter((sheet) => sheet.status === "submitted" && sheet.userId !== user?.id)
+    : [];
+
+  const shiftWeek = (weeks: number) => {
+    setWeekStart(getWeekStart(addWeeks(parseISO(weekStart), weeks)));
+  };
+
+  const reviewKey = (sheetUserId: string, sheetWeek: string) => `${sheetUserId}:${sheetWeek}`;
+
+  const handleReject = (sheetUserId: string, sheetWeek: string) => {
+    const note = reviewNotes[reviewKey(sheetUserId, sheetWeek)]?.trim();
+    if (!note) return;
+    rejectTimesheet(sheetUserId, sheetWeek, note);
+  };
+
+  return (
+    <div className="space-y-8 animate-fade-in">
+      <div className="flex justify-between items-start">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">Timesheets</h1>
+          <p className="text-muted-foreground mt-1">
+            Weekly time logged against tasks, by task and department
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          <Button variant="outline" size="icon" onClick={() => shiftWeek(-1)}>
+            <ChevronLeft className="h-4 w-4" />
+            <span className="sr-only">Previous week</span>
+          </Button>
+          <Button variant="outline" onClick={() => setWeekStart(getWeekStart())}>
+            This week
+          </Button>
+          <Button variant="outline" size="icon" onClick={() => shiftWeek(1)}>
+            <ChevronRight className="h-4 w-4" />
+            <span className="sr-only">Next week</span>
+          </Button>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 gap-6 md:grid-cols-3">
+        <StatCard
+          title="Logged This Week"
+          value={formatMinutes(weekly.totalMinutes)}
+          icon={Clock}
+          className="animate-fade-in [animation-delay:100ms]"
+        />
+        <StatCard
+          title="Tasks Worked On"
+          value={String(weekly.rows.length)}
+          icon={CalendarRange}
+          className="animate-fade-in [animation-delay:200ms]"
+        />
+        <StatCard
+          title="Awaiting Your Approval"
+          value={String(pendingApprovals.length)}
+          icon={CheckCircle2}
+          className="animate-fade-in [animation-delay:300ms]"
+        />
+      </div>
+
+      <Card className="animate-fade-in [animation-delay:400ms]">
+        <CardHeader>
+          <div className="flex items-center justify-between gap-4">
+            <div>
+              <CardTitle className="flex items-center gap-2">
+                Week of {format(parseISO(weekStart), "MMM d, yyyy")}
+                {getStatusBadge(timesheet.status)}
+              </CardTitle>
+              <CardDescription>
+                {isOwnTimesheet ? "Your timesheet" : `Timesheet for ${getUserName(userId)}`}
+                {timesheet.reviewNote && ` · Reviewer note: ${timesheet.reviewNote}`}
+              </CardDescription>
+            </div>
+            <div className="flex items-center gap-2">
+              {canApproveTimesheets && (
+                <Select value={userId} onValueChange={setSelectedUserId}>
+                  <SelectTrigger className="w-[180px]">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {users.map((u) => (
+                      <SelectItem key={u.id} value={u.id}>
+                        {u.id === user?.id ? `${u.name} (you)` : u.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              )}
+              {isOwnTimesheet && (timesheet.status === "draft" || timesheet.status === "rejected") && (
+                <Button
+                  size="sm"
+                  className="flex items-center gap-2"
+                  disabled={weekly.totalMinutes === 0}
+                  onClick={() => submitTimesheet(weekStart)}
+                >
+                  <Send size={16} />
+                  Submit for approval
+                </Button>
+              )}
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {weekly.rows.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-8">
+              No time logged this week. Start a timer or log time from the task list.
+            </p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Task</TableHead>
+                  <TableHead>Department</TableHead>
+                  {weekly.days.map((day) => (
+                    <TableHead key={day} className="text-right">
+                      {format(parseISO(day), "EEE d")}
+                    </TableHead>
+                  ))}
+                  <TableHead className="text-right">Total</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {weekly.rows.map((row) => (
+                  <TableRow key={row.taskId}>
+                    <TableCell className="font-medium">{row.title}</TableCell>
+                    <TableCell>
+                      <Badge variant="outline">{row.department}</Badge>
+                    </TableCell>
+                    {row.minutesByDay.map((minutes, i) => (
+                      <TableCell key={weekly.days[i]} className="text-right tabular-nums text-muted-foreground">
+                        {minutes > 0 ? formatMinutes(minutes) : "–"}
+                      </TableCell>
+                    ))}
+                    <TableCell className="text-right tabular-nums font-medium">
+                      {formatMinutes(row.totalMinutes)}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+              <TableFooter>
+                <TableRow>
+                  <TableCell colSpan={2}>Total</TableCell>
+                  {weekly.minutesByDay.map((minutes, i) => (
+                    <TableCell key={weekly.days[i]} className="text-right tabular-nums">
+                      {formatMinutes(minutes)}
+                    </TableCell>
+                  ))}
+                  <TableCell className="text-right tabular-nums">{formatMinutes(weekly.totalMinutes)}</TableCell>
+                </TableRow>
+              </TableFooter>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <div className="grid grid-cols-1 gap-6 lg:grid-cols-2">
+        <Card className="animate-fade-in [animation-delay:500ms]">
+          <CardHeader>
+            <CardTitle>Time by Department</CardTitle>
+            <CardDescription>Share of this week's logged time</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {departmentTotals.length === 0 ? (
+              <p className="text-sm text-muted-foreground">Nothing logged yet.</p>
+            ) : (
+              departmentTotals.map(([department, minutes]) => (
+                <div key={department} className="space-y-1">
+                  <div className="flex justify-between text-sm">
+                    <span>{department}</span>
+                    <span className="tabular-nums">{formatMinutes(minutes)}</span>
+                  </div>
+                  <Progress value={(minutes / weekly.totalMinutes) * 100} className="h-2" />
+                </div>
+              ))
+            )}
+          </CardContent>
+        </Card>
+
+        {canApproveTimesheets && (
+          <Card className="animate-fade-in [animation-delay:600ms]">
+            <CardHeader>
+              <CardTitle>Pending Approvals</CardTitle>
+              <CardDescription>Timesheets submitted by your team</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {pendingApprovals.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No timesheets are waiting for approval.</p>
+              ) : (
+                pendingApprovals.map((sheet) => {
+                  const key = reviewKey(sheet.userId, sheet.weekStart);
+                  const total = buildWeeklyTimesheet(getUserTimeEntries(sheet.userId), tasks, sheet.weekStart).totalMinutes;
+                  return (
+                    <div key={key} className="space-y-2 rounded-md border p-3">
+                      <div className="flex items-center justify-between text-sm">
+                        <button
+                          className="font-medium hover:underline"
+                          onClick={() => {
+                            setSelectedUserId(sheet.userId);
+                            setWeekStart(sheet.weekStart);
+                          }}
+                        >
+                          {getUserName(sheet.userId)} · week of {format(parseISO(sheet.weekStart), "MMM d")}
+                        </button>
+                        <span className="tabular-nums">{formatMinutes(total)}</span>
+                      </div>
+                      <div className="flex items-center gap-2">
+                        <Input
+                          placeholder="Note (required to reject)"
+                          value={reviewNotes[key] || ""}
+                          onChange={(e) => setReviewNotes((prev) => ({ ...prev, [key]: e.target.value }))}
+                        />
+                        <Button
+                          size="sm"
+                          className="flex items-center gap-1"
+                          onClick={() => approveTimesheet(sheet.userId, sheet.weekStart, reviewNotes[key]?.trim() || undefined)}
+                        >
+                          <CheckCircle2 size={14} />
+                          Approve
+                        </Button>
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          className="flex items-center gap-1"
+                          disabled={!reviewNotes[key]?.trim()}
+                          onClick={() => handleReject(sheet.userId, sheet.weekStart)}
+                        >
+                          <XCircle size={14} />
+                          Reject
+                        </Button>
+                      </div>
+                    </div>
+                  );
+                })
+              )}
+            </CardContent>
+          </Card>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default Timesheets;